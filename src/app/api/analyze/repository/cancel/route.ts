@@ -0,0 +1,73 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { AdvancedGenerator, SessionStateError } from '@/services/advanced-generator'
+import { cancelGenerationJob } from '@/services/generation-queue'
+
+// Stops a running session before its next work item; it can be resumed afterwards.
+// A run that is still queued is cancelled before it starts.
+export async function POST(request: NextRequest) {
+  try {
+    const { repositoryId, sessionId } = await request.json()
+
+    if (!repositoryId || !sessionId) {
+      return NextResponse.json({ error: 'Repository ID and session ID are required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const jobStatus = await cancelGenerationJob(sessionId)
+    if (jobStatus === 'cancelled') {
+      return NextResponse.json({ status: jobStatus })
+    }
+
+    const { data: session } = await supabase
+      .from('planning_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('repository_id', repositoryId)
+      .single()
+
+    if (!session) {
+      if (jobStatus) {
+        // Still planning; the worker stops the job on its next heartbeat
+        return NextResponse.json({ status: jobStatus })
+      }
+      return NextResponse.json({ error: 'Generation session not found' }, { status: 404 })
+    }
+
+    let status
+    try {
+      // Lets the run stop after its current work item instead of at the next heartbeat
+      status = await new AdvancedGenerator().cancelSession(repositoryId, sessionId)
+    } catch (error) {
+      if (!(error instanceof SessionStateError) || !jobStatus) throw error
+      status = jobStatus
+    }
+
+    return NextResponse.json({ status })
+  } catch (error) {
+    if (error instanceof SessionStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error('Error cancelling generation:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to cancel generation'
+    }, { status: 500 })
+  }
+}
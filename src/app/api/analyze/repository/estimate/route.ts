@@ -0,0 +1,63 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { AdvancedGenerator, Logger, isStubMode } from '@/services/advanced-generator'
+import { RepositoryConfigError } from '@/services/repository-config'
+
+// Pipeline logs stay on the server; the page only needs the totals
+const quietLogger: Logger = {
+  log: () => {},
+  error: console.error
+}
+
+// Pre-flight estimate shown on the generate page before a run starts
+export async function POST(request: NextRequest) {
+  try {
+    const { repositoryId, sessionType = 'full' } = await request.json()
+
+    if (!repositoryId) {
+      return NextResponse.json({ error: 'Repository ID is required' }, { status: 400 })
+    }
+
+    if (sessionType !== 'full' && sessionType !== 'incremental') {
+      return NextResponse.json({ error: 'Session type must be "full" or "incremental"' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    const provider_token = session?.provider_token
+
+    if (!provider_token && !isStubMode()) {
+      return NextResponse.json({ error: 'No GitHub access token found' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const generator = new AdvancedGenerator()
+    const estimate = await generator.estimateGeneration(repositoryId, provider_token || '', sessionType, quietLogger)
+
+    return NextResponse.json({ estimate })
+  } catch (error) {
+    if (error instanceof RepositoryConfigError) {
+      return NextResponse.json({ error: error.message, configIssues: error.issues }, { status: 422 })
+    }
+    console.error('Error estimating generation:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to estimate generation'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queueGeneration } from '../queue-generation'
+
+// Queues a new run, or a retry of a session's failed documents
+export async function POST(request: NextRequest) {
+  const { repositoryId, pruneOutdated = true, sessionType = 'full', retrySessionId } = await request.json()
+
+  if (!repositoryId) {
+    return NextResponse.json({ error: 'Repository ID is required' }, { status: 400 })
+  }
+
+  if (sessionType !== 'full' && sessionType !== 'incremental') {
+    return NextResponse.json({ error: 'Session type must be "full" or "incremental"' }, { status: 400 })
+  }
+
+  return queueGeneration(repositoryId, retrySessionId
+    ? { kind: 'retry', sessionId: retrySessionId }
+    : { kind: 'generate', sessionType, pruneOutdated })
+}
@@ -0,0 +1,71 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { isStubMode } from '@/services/advanced-generator'
+import { GenerationJobKind, enqueueGenerationJob } from '@/services/generation-queue'
+
+interface QueuedRun {
+  kind: GenerationJobKind
+  sessionId?: string // Session to retry or resume
+  sessionType?: 'full' | 'incremental'
+  pruneOutdated?: boolean
+}
+
+// Queues a run for the background worker, shared by the jobs and resume routes.
+// The response names the session to subscribe to on the stream route.
+export async function queueGeneration(repositoryId: string, run: QueuedRun): Promise<NextResponse> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // The worker uses the user's GitHub token for the whole run
+    const { data: { session } } = await supabase.auth.getSession()
+    const provider_token = session?.provider_token
+
+    // Stub runs read a local fixture checkout and need no GitHub token
+    if (!provider_token && !isStubMode()) {
+      return NextResponse.json({ error: 'No GitHub access token found' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    if (run.sessionId) {
+      const { data: planningSession } = await supabase
+        .from('planning_sessions')
+        .select('id')
+        .eq('id', run.sessionId)
+        .eq('repository_id', repositoryId)
+        .single()
+
+      if (!planningSession) {
+        return NextResponse.json({ error: 'Generation session not found' }, { status: 404 })
+      }
+    }
+
+    const { job, existing } = await enqueueGenerationJob({
+      repositoryId,
+      userId: user.id,
+      githubToken: provider_token || '',
+      ...run
+    })
+
+    return NextResponse.json({ jobId: job.id, sessionId: job.session_id, existing })
+  } catch (error) {
+    console.error('Error queueing generation:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to queue generation'
+    }, { status: 500 })
+  }
+}
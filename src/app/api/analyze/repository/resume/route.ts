@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queueGeneration } from '../queue-generation'
+
+// Queues a cancelled, failed or abandoned session to continue where it stopped
+export async function POST(request: NextRequest) {
+  const { repositoryId, sessionId } = await request.json()
+
+  if (!repositoryId || !sessionId) {
+    return NextResponse.json({ error: 'Repository ID and session ID are required' }, { status: 400 })
+  }
+
+  return queueGeneration(repositoryId, { kind: 'resume', sessionId })
+}
@@ -1,119 +1,102 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest } from 'next/server'
-import { AdvancedGenerator, Logger } from '@/services/advanced-generator'
+import {
+  GenerationJob,
+  TERMINAL_EVENTS,
+  hasTerminalEvent,
+  loadJobEvents,
+  loadSessionJob
+} from '@/services/generation-queue'
+
+const POLL_INTERVAL_MS = 1000
+const KEEP_ALIVE_MS = 15 * 1000
+
+// Terminal event for a job that ended without writing one, e.g. cancelled while queued
+function closingEvent(job: GenerationJob): { event: string, data: object } {
+  if (job.status === 'failed') {
+    return { event: 'error', data: { message: job.last_error || 'Generation failed', sessionId: job.session_id } }
+  }
+  return { event: 'complete', data: { success: true, cancelled: job.status === 'cancelled', sessionId: job.session_id } }
+}
 
-export async function POST(request: NextRequest) {
-  const { repositoryId, pruneOutdated = true } = await request.json()
+// Server-Sent Events of a session's latest job. Runs happen in the background worker,
+// so any number of tabs can follow one; a reconnecting EventSource sends Last-Event-ID
+// and continues after the last event it received.
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
 
-  if (!repositoryId) {
-    return new Response('Repository ID is required', { status: 400 })
+  if (!sessionId) {
+    return new Response('Session ID is required', { status: 400 })
   }
 
-  // Set up Server-Sent Events
-  const encoder = new TextEncoder()
-  const stream = new ReadableStream({
-    start(controller) {
-      // Function to send events to the client
-      const sendEvent = (event: string, data: any) => {
-        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
-        controller.enqueue(encoder.encode(message))
-      }
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
 
-      // Start the generation process
-      const generateDocs = async () => {
-        try {
-          const supabase = await createClient()
-          const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 })
+  }
 
-          if (!user) {
-            sendEvent('error', { message: 'Unauthorized' })
-            controller.close()
-            return
-          }
+  const initialJob = await loadSessionJob(sessionId)
 
-          // Get the user's GitHub access token
-          const { data: { session } } = await supabase.auth.getSession()
-          const provider_token = session?.provider_token
+  if (!initialJob || initialJob.user_id !== user.id) {
+    return new Response('Generation session not found', { status: 404 })
+  }
 
-          if (!provider_token) {
-            sendEvent('error', { message: 'No GitHub access token found' })
-            controller.close()
-            return
-          }
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId')
+  let cursor = Number.parseInt(lastEventId || '0', 10) || 0
+  const encoder = new TextEncoder()
+  let closed = false
 
-          // Get repository info
-          const { data: repository } = await supabase
-            .from('repositories')
-            .select('*')
-            .eq('id', repositoryId)
-            .eq('user_id', user.id)
-            .single()
-
-          if (!repository) {
-            sendEvent('error', { message: 'Repository not found' })
-            controller.close()
-            return
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      let lastSentAt = Date.now()
+
+      try {
+        while (!closed && !request.signal.aborted) {
+          // Retries and resumes add a job to the session; follow the newest
+          const job = (await loadSessionJob(sessionId)) ?? initialJob
+          const events = await loadJobEvents(job.id, cursor)
+
+          for (const event of events) {
+            cursor = event.id
+            send(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`)
+            lastSentAt = Date.now()
+            if (TERMINAL_EVENTS.includes(event.event)) return
           }
 
-          sendEvent('start', { 
-            repositoryName: repository.full_name,
-            sessionId: null // Will be set when generation starts
-          })
-
-          // Create a streaming logger that sends events instead of console override
-          const streamLogger: Logger = {
-            log: (...args: any[]) => {
-              const message = args.join(' ')
-              sendEvent('log', { 
-                level: 'info', 
-                message,
-                timestamp: new Date().toISOString()
-              })
-            },
-            error: (...args: any[]) => {
-              const message = args.join(' ')
-              sendEvent('log', { 
-                level: 'error', 
-                message,
-                timestamp: new Date().toISOString()
-              })
+          if (events.length === 0 && job.status !== 'queued' && job.status !== 'running') {
+            if (!(await hasTerminalEvent(job.id))) {
+              const { event, data } = closingEvent(job)
+              send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
             }
+            return
           }
 
-          // Create generator and run with dedicated logger
-          const generator = new AdvancedGenerator()
-          const result = await generator.generateDocumentation(
-            repositoryId,
-            provider_token,
-            'full',
-            pruneOutdated,
-            streamLogger
-          )
-
-          if (result.success) {
-            sendEvent('complete', {
-              success: true,
-              documentsGenerated: result.documentsGenerated,
-              metrics: result.metrics,
-              sessionId: result.sessionId
-            })
-          } else {
-            sendEvent('error', { 
-              message: result.error || 'Generation failed',
-              sessionId: result.sessionId
-            })
+          if (Date.now() - lastSentAt >= KEEP_ALIVE_MS) {
+            send(': keep-alive\n\n')
+            lastSentAt = Date.now()
           }
 
-        } catch (error) {
-          sendEvent('error', { 
-            message: error instanceof Error ? error.message : 'Unknown error occurred'
-          })
-        } finally {
+          if (events.length === 0) {
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        }
+      } catch (error) {
+        send(`event: error\ndata: ${JSON.stringify({
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        })}\n\n`)
+      } finally {
+        if (!closed) {
+          closed = true
           controller.close()
         }
       }
-
-      generateDocs()
+    },
+    cancel() {
+      closed = true
     }
   })
 
@@ -121,10 +104,7 @@ export async function POST(request: NextRequest) {
     headers: {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+      'Connection': 'keep-alive'
+    }
   })
-} 
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { CodebaseChat } from '@/services/codebase-chat'
+
+type RouteParams = { params: Promise<{ id: string, conversationId: string }> }
+
+// A conversation with its messages and the citations of each answer
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: repositoryId, conversationId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const chat = new CodebaseChat()
+    const conversation = await chat.loadConversation(repositoryId, user.id, conversationId)
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const messages = await chat.loadMessages(conversationId)
+    return NextResponse.json({ conversation, messages })
+  } catch (error) {
+    console.error('Error loading conversation:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load conversation'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: repositoryId, conversationId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const chat = new CodebaseChat()
+    if (!(await chat.loadConversation(repositoryId, user.id, conversationId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    await chat.deleteConversation(conversationId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting conversation:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete conversation'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,129 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { isStubMode } from '@/services/advanced-generator'
+import { CodebaseChat } from '@/services/codebase-chat'
+import { FakeEmbeddingProvider } from '@/services/embedding-provider'
+import { FakeLLMProvider } from '@/services/llm-provider'
+
+const MAX_QUESTION_LENGTH = 2000
+
+// The signed-in user's conversations about the repository, most recent first
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const conversations = await new CodebaseChat().listConversations(repositoryId, user.id)
+    return NextResponse.json({ conversations })
+  } catch (error) {
+    console.error('Error loading conversations:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load conversations'
+    }, { status: 500 })
+  }
+}
+
+// Asks a question, in a new conversation or continuing `conversationId`. The answer
+// streams as Server-Sent Events: conversation, sources, delta (answer text), then
+// done with the stored message and the sources it cites, or error.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id: repositoryId } = await params
+  const body = await request.json().catch(() => ({}))
+  const question = typeof body.question === 'string' ? body.question.trim() : ''
+  const conversationId = typeof body.conversationId === 'string' ? body.conversationId : null
+
+  if (!question) {
+    return NextResponse.json({ error: 'Question is required' }, { status: 400 })
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return NextResponse.json({ error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters` }, { status: 400 })
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: repository } = await supabase
+    .from('repositories')
+    .select('id')
+    .eq('id', repositoryId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!repository) {
+    return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+  }
+
+  const chat = new CodebaseChat(isStubMode()
+    ? { llmProvider: new FakeLLMProvider(), embeddingProvider: new FakeEmbeddingProvider() }
+    : {})
+
+  if (conversationId && !(await chat.loadConversation(repositoryId, user.id, conversationId))) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: object) => {
+        if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        const answer = await chat.ask(repositoryId, user.id, question, conversationId, {
+          onConversation: id => send('conversation', { conversationId: id }),
+          onSources: citations => send('sources', { citations }),
+          onDelta: text => send('delta', { text })
+        })
+        send('done', {
+          conversationId: answer.conversationId,
+          messageId: answer.messageId,
+          citations: answer.citations,
+          model: answer.model
+        })
+      } catch (error) {
+        console.error('Error answering question:', error)
+        send('error', {
+          message: error instanceof Error ? error.message : 'Failed to answer the question'
+        })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  })
+}
@@ -0,0 +1,38 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { CodebaseGraph } from '@/services/codebase-graph'
+
+// Nodes and edges for the codebase graph: `view=files` (default) from component
+// relations, `view=documents` from document links
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const view = request.nextUrl.searchParams.get('view') === 'documents' ? 'documents' : 'files'
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const graph = await new CodebaseGraph().build(repositoryId, view)
+    return NextResponse.json(graph)
+  } catch (error) {
+    console.error('Error building codebase graph:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to build codebase graph'
+    }, { status: 500 })
+  }
+}
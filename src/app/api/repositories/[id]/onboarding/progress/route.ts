@@ -0,0 +1,52 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { OnboardingPathGenerator } from '@/services/onboarding-generator'
+
+// Marks a step of a learning path as completed (or not) for the signed-in user
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const { pathId, documentPath, completed } = await request.json()
+
+    if (typeof pathId !== 'string' || typeof documentPath !== 'string' || typeof completed !== 'boolean') {
+      return NextResponse.json({ error: 'pathId, documentPath and completed are required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const { data: path } = await supabase
+      .from('onboarding_paths')
+      .select('id')
+      .eq('id', pathId)
+      .eq('repository_id', repositoryId)
+      .maybeSingle()
+
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    await new OnboardingPathGenerator().setStepCompleted(pathId, user.id, documentPath, completed)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error saving onboarding progress:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save progress'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { OnboardingPathGenerator } from '@/services/onboarding-generator'
+
+async function authorize(repositoryId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: repository } = await supabase
+    .from('repositories')
+    .select('id')
+    .eq('id', repositoryId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!repository) {
+    return { error: NextResponse.json({ error: 'Repository not found' }, { status: 404 }) }
+  }
+  return { user }
+}
+
+// The repository's learning paths with the signed-in user's completed steps
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const { user, error } = await authorize(repositoryId)
+    if (error) return error
+
+    const paths = await new OnboardingPathGenerator().loadPaths(repositoryId, user.id)
+    return NextResponse.json({ paths })
+  } catch (error) {
+    console.error('Error loading onboarding paths:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load onboarding paths'
+    }, { status: 500 })
+  }
+}
+
+// Rebuilds the paths from the current documentation. Generation does this after
+// every run; this is for documentation generated before paths existed.
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const { user, error } = await authorize(repositoryId)
+    if (error) return error
+
+    const generator = new OnboardingPathGenerator()
+    await generator.generate(repositoryId)
+    const paths = await generator.loadPaths(repositoryId, user.id)
+    return NextResponse.json({ paths })
+  } catch (error) {
+    console.error('Error generating onboarding paths:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to generate onboarding paths'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { isStubMode } from '@/services/advanced-generator'
+import { FakeEmbeddingProvider } from '@/services/embedding-provider'
+import { SearchIndex } from '@/services/search-index'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+// Ranked passages from the repository's documents and component source.
+// `indexed: false` means no generation has built the index for the current
+// embedding model yet.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: repositoryId } = await params
+    const query = request.nextUrl.searchParams.get('q')?.trim()
+    const limit = Math.max(1, Math.min(
+      Number.parseInt(request.nextUrl.searchParams.get('limit') || '', 10) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    ))
+
+    if (!query) {
+      return NextResponse.json({ error: 'Search query is required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: repository } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('id', repositoryId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const index = new SearchIndex(isStubMode() ? new FakeEmbeddingProvider() : undefined)
+    if (!(await index.isIndexed(repositoryId))) {
+      return NextResponse.json({ results: [], indexed: false })
+    }
+
+    const results = await index.search(repositoryId, query, limit)
+    return NextResponse.json({ results, indexed: true })
+  } catch (error) {
+    console.error('Error searching repository:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to search repository'
+    }, { status: 500 })
+  }
+}
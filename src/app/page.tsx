@@ -322,7 +322,7 @@ export default function HomePage() {
                           Analyzing...
                         </Button>
                       ) : (
-                        <Link href={`/repositories/${repo.id}/generate`}>
+                        <Link href={`/repositories/${repo.id}/generate${repo.analysis_status === 'completed' ? '?mode=incremental' : ''}`}>
                           <Button 
                             size="sm"
                             variant="primary"
@@ -4,10 +4,14 @@ import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { RepositorySidebar } from '@/components/repository-sidebar'
-import { ArrowLeft, Book, File, Folder, Home, Settings, Search, ChevronRight, ChevronDown } from 'lucide-react'
+import { CodebaseChatPanel } from '@/components/codebase-chat-panel'
+import { CodebaseGraph } from '@/components/codebase-graph'
+import { OnboardingPaths } from '@/components/onboarding-paths'
+import { DocumentBacklinks } from '@/components/document-backlinks'
+import { ArrowLeft, Book, File, Folder, Home, Settings, Search, ChevronRight, ChevronDown, MessageSquare, Network, GraduationCap } from 'lucide-react'
 import Link from 'next/link'
-import { useEffect, useState } from 'react'
-import { useParams } from 'next/navigation'
+import { MouseEvent, useEffect, useState } from 'react'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 
 interface Repository {
   id: string
@@ -15,6 +19,7 @@ interface Repository {
   full_name: string
   description: string | null
   github_url: string | null
+  default_branch: string
 }
 
 interface Document {
@@ -42,6 +47,9 @@ interface DocumentNode {
 export default function RepositoryDocsPage() {
   const params = useParams()
   const repositoryId = params.id as string
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const requestedPath = searchParams.get('path')
   const [user, setUser] = useState<any>(null)
   const [repository, setRepository] = useState<Repository | null>(null)
   const [documents, setDocuments] = useState<Document[]>([])
@@ -50,6 +58,10 @@ export default function RepositoryDocsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [chatOpen, setChatOpen] = useState(false)
+  const [graphOpen, setGraphOpen] = useState(false)
+  const [onboardingOpen, setOnboardingOpen] = useState(false)
+  const [missingPath, setMissingPath] = useState<string | null>(null)
   const supabase = createClient()
 
   useEffect(() => {
@@ -61,21 +73,15 @@ export default function RepositoryDocsPage() {
     if (selectedDocument?.content) {
       const parseMarkdown = async () => {
         try {
-          // Import marked and highlight.js dynamically
-          const { marked } = await import('marked')
+          // Import the renderer and highlight.js dynamically
+          const { renderMarkdown } = await import('@/lib/markdown')
           const hljs = await import('highlight.js')
-          
-          // Configure marked options
-          marked.setOptions({
-            breaks: true,
-            gfm: true,
-          })
 
-          // Get the raw markdown content
-          const rawMarkdown = selectedDocument.content
-          
-          // Parse markdown to HTML
-          const html = await marked.parse(rawMarkdown)
+          // Parse markdown to HTML, resolving {{link:...}} markers against the loaded documents
+          const html = renderMarkdown(selectedDocument.content, documentPath => {
+            const target = documents.find(doc => doc.document_path === documentPath)
+            return target ? { title: target.title, href: getDocumentHref(documentPath) } : null
+          })
           
           // Update the content div
           const contentDiv = document.getElementById('markdown-content')
@@ -100,7 +106,23 @@ export default function RepositoryDocsPage() {
 
       parseMarkdown()
     }
-  }, [selectedDocument?.content])
+  }, [selectedDocument?.content, documents])
+
+  // Follows ?path= when it changes after loading, e.g. on back and forward. The
+  // selection is compared inside the update, so a click that selects a document
+  // before the URL catches up is not undone.
+  useEffect(() => {
+    if (!requestedPath || documents.length === 0) return
+    const doc = documents.find(item => item.document_path === requestedPath)
+    if (doc) {
+      setSelectedDocument(current => current?.document_path === requestedPath ? current : doc)
+      setGraphOpen(false)
+      setOnboardingOpen(false)
+      setMissingPath(null)
+    } else {
+      setMissingPath(requestedPath)
+    }
+  }, [requestedPath, documents])
 
   // Smooth scroll to top when document changes
   useEffect(() => {
@@ -238,9 +260,11 @@ export default function RepositoryDocsPage() {
       const tree = buildDocumentTree(docs || [])
       setDocumentTree(tree)
       
-      // Select the overview document by default, or the first document
+      // Select the document from ?path=, else the overview document, else the first document
+      const requestedDoc = requestedPath ? docs?.find(doc => doc.document_path === requestedPath) : undefined
       const overviewDoc = docs?.find(doc => doc.document_type === 'overview')
-      const defaultDoc = overviewDoc || docs?.[0]
+      const defaultDoc = requestedDoc || overviewDoc || docs?.[0]
+      setMissingPath(requestedPath && !requestedDoc ? requestedPath : null)
       if (defaultDoc) {
         setSelectedDocument(defaultDoc)
       }
@@ -253,6 +277,36 @@ export default function RepositoryDocsPage() {
     }
   }
 
+  const getDocumentHref = (documentPath: string) =>
+    `/repositories/${repositoryId}/docs?path=${encodeURIComponent(documentPath)}`
+
+  // Every selection is pushed to the URL, so documents can be linked to and back works
+  const selectDocument = (doc: Document) => {
+    setSelectedDocument(doc)
+    setGraphOpen(false)
+    setOnboardingOpen(false)
+    setMissingPath(null)
+    if (doc.document_path !== requestedPath) {
+      router.push(getDocumentHref(doc.document_path), { scroll: false })
+    }
+  }
+
+  // Citations in chat answers and {{link:...}} markers refer to documents by path
+  const openDocumentByPath = (documentPath: string) => {
+    const doc = documents.find(item => item.document_path === documentPath)
+    if (doc) {
+      selectDocument(doc)
+    }
+  }
+
+  // Document links are rendered as plain anchors; plain clicks stay in the page
+  const handleContentClick = (event: MouseEvent<HTMLDivElement>) => {
+    const anchor = (event.target as HTMLElement).closest<HTMLAnchorElement>('a[data-doc-path]')
+    if (!anchor || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return
+    event.preventDefault()
+    openDocumentByPath(anchor.dataset.docPath!)
+  }
+
   const getDocumentIcon = (docType: string) => {
     switch (docType) {
       case 'overview':
@@ -312,25 +366,62 @@ export default function RepositoryDocsPage() {
         documentTree={documentTree}
         selectedDocument={selectedDocument || undefined}
         searchQuery={searchQuery}
-        onDocumentSelect={setSelectedDocument}
+        onDocumentSelect={selectDocument}
         onSearchChange={setSearchQuery}
         onNodeToggle={toggleNodeExpansion}
       />
 
       {/* Main Content */}
       <main className="flex-1 overflow-hidden">
-        {selectedDocument ? (
+        {graphOpen && repository ? (
+          <div className="h-full overflow-y-auto p-6" style={{ backgroundColor: 'var(--color-surface)' }}>
+            <Button size="sm" variant="ghost" className="mb-4" onClick={() => setGraphOpen(false)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Document
+            </Button>
+            <CodebaseGraph repositoryId={repository.id} onOpenDocument={openDocumentByPath} />
+          </div>
+        ) : onboardingOpen && repository ? (
+          <div className="h-full overflow-y-auto p-6" style={{ backgroundColor: 'var(--color-surface)' }}>
+            <Button size="sm" variant="ghost" className="mb-4" onClick={() => setOnboardingOpen(false)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Document
+            </Button>
+            <OnboardingPaths repositoryId={repository.id} onOpenDocument={openDocumentByPath} />
+          </div>
+        ) : selectedDocument ? (
           <div className="h-full flex flex-col">
             {/* Document Header */}
             <div className="border-b p-6" style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-surface)' }}>
               <div className="flex items-center gap-2 mb-2">
                 {getDocumentIcon(selectedDocument.document_type)}
                 <span className="text-sm capitalize" style={{ color: 'var(--color-text-secondary)' }}>{selectedDocument.document_type}</span>
+                <div className="ml-auto flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setOnboardingOpen(true)}>
+                    <GraduationCap className="mr-2 h-4 w-4" />
+                    Onboarding
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setGraphOpen(true)}>
+                    <Network className="mr-2 h-4 w-4" />
+                    Graph
+                  </Button>
+                  {!chatOpen && (
+                    <Button size="sm" variant="outline" onClick={() => setChatOpen(true)}>
+                      <MessageSquare className="mr-2 h-4 w-4" />
+                      Ask
+                    </Button>
+                  )}
+                </div>
               </div>
               <h1 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>{selectedDocument.title}</h1>
               {selectedDocument.file_path && (
                 <p className="text-sm mt-1" style={{ color: 'var(--color-text-secondary)' }}>{selectedDocument.file_path}</p>
               )}
+              {missingPath && (
+                <p className="text-sm mt-2" style={{ color: 'var(--color-warning)' }}>
+                  There is no document at <code>{missingPath}</code>; showing {selectedDocument.title} instead.
+                </p>
+              )}
             </div>
 
             {/* Document Content */}
@@ -342,9 +433,15 @@ export default function RepositoryDocsPage() {
                 </script>
                 
                 {/* Container for rendered markdown */}
-                <div id="markdown-content" className="markdown-content">
+                <div id="markdown-content" className="markdown-content" onClick={handleContentClick}>
                   {/* Content will be rendered here by client-side JavaScript */}
                 </div>
+
+                <DocumentBacklinks
+                  documentId={selectedDocument.id}
+                  documents={documents}
+                  onOpenDocument={openDocumentByPath}
+                />
               </div>
             </div>
           </div>
@@ -365,6 +462,16 @@ export default function RepositoryDocsPage() {
           </div>
         )}
       </main>
+
+      {chatOpen && repository && (
+        <CodebaseChatPanel
+          repositoryId={repository.id}
+          githubUrl={repository.github_url}
+          defaultBranch={repository.default_branch}
+          onOpenDocument={openDocumentByPath}
+          onClose={() => setChatOpen(false)}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
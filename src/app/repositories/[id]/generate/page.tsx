@@ -1,12 +1,13 @@
 'use client'
 
 import { useEffect, useState, useRef } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, CheckCircle, XCircle, Clock, Zap, FileText, Link, DollarSign } from 'lucide-react'
+import { ArrowLeft, CheckCircle, XCircle, Clock, Zap, FileText, Link, DollarSign, RotateCcw, Square, Play } from 'lucide-react'
 
 interface LogEntry {
   level: 'info' | 'error' | 'success'
@@ -24,25 +25,109 @@ interface GenerationMetrics {
   artifactsDiscovered: number
 }
 
+interface FetchProgress {
+  completed: number
+  failed: number
+  total: number
+  path?: string
+  rateLimit?: {
+    limit: number | null
+    remaining: number | null
+    resetAt: number | null
+  }
+  waiting?: {
+    reason: 'primary' | 'secondary' | 'server'
+    until: string
+  }
+}
+
+interface BudgetUsage {
+  tokens: number
+  costUsd: number
+}
+
+// null = no cap
+interface BudgetRemaining {
+  tokens: number | null
+  costUsd: number | null
+}
+
+interface GenerateProgress {
+  completed: number
+  failed: number
+  total: number
+  inFlight: string[]
+  // Set while the next document waits for the tokens-per-minute budget
+  waitingUntil?: string
+  spent: BudgetUsage
+  remaining: BudgetRemaining
+}
+
+interface GenerationEstimate {
+  documents: number
+  documentsSkipped: number
+  tokens: number
+  costUsd: number
+  budget: {
+    caps: { scope: 'repository' | 'user', tokens: number | null, costUsd: number | null, spent: BudgetUsage }[]
+    remaining: BudgetRemaining
+  }
+  exceedsBudget: boolean
+}
+
+interface ConfigIssue {
+  key: string
+  message: string
+  line?: number
+}
+
+// The repository's latest session when it stopped before finishing
+interface UnfinishedSession {
+  id: string
+  status: 'generating' | 'failed' | 'cancelled'
+  progress?: { completed: number, total: number }
+}
+
 interface GenerationState {
-  status: 'connecting' | 'running' | 'completed' | 'error'
+  status: 'estimating' | 'ready' | 'connecting' | 'running' | 'completed' | 'cancelled' | 'error'
   repositoryName?: string
   sessionId?: string
+  sessionType?: 'full' | 'incremental'
   logs: LogEntry[]
+  fetchProgress?: FetchProgress
+  generateProgress?: GenerateProgress
   metrics?: GenerationMetrics
   documentsGenerated?: number
+  documentsSkipped?: number
+  documentsFailed?: number
+  documentsSkippedForBudget?: number
+  estimate?: GenerationEstimate
+  estimateError?: string
+  unfinishedSession?: UnfinishedSession
+  activeSessionId?: string // A run of this repository that is queued or running
+  cancelling?: boolean
   error?: string
+  configIssues?: ConfigIssue[]
 }
 
 export default function GeneratePage() {
   const params = useParams()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const repositoryId = params.id as string
+  const sessionType = searchParams.get('mode') === 'incremental' ? 'incremental' : 'full'
+  const retrySessionId = searchParams.get('retry')
+  const resumeSessionId = searchParams.get('resume')
+  // Set once a run is queued; any tab with this URL follows the run
+  const watchedSessionId = searchParams.get('session')
+  const continuesSession = !!(retrySessionId || resumeSessionId || watchedSessionId)
   
   const [state, setState] = useState<GenerationState>({
-    status: 'connecting',
+    status: continuesSession ? 'connecting' : 'estimating',
     logs: []
   })
+  // New runs wait for the pre-flight estimate to be confirmed; retries, resumes and watched runs start at once
+  const [started, setStarted] = useState(continuesSession)
   
   const eventSourceRef = useRef<EventSource | null>(null)
   const logsEndRef = useRef<HTMLDivElement>(null)
@@ -56,102 +141,95 @@ export default function GeneratePage() {
   }, [state.logs])
 
   useEffect(() => {
-    const startGeneration = async () => {
+    if (continuesSession) return
+
+    // Offer to follow a run that is in progress, or to resume the latest session when it stopped halfway
+    const loadUnfinishedSession = async () => {
+      const supabase = createClient()
+      const { data: activeJobs } = await supabase
+        .from('generation_jobs')
+        .select('session_id')
+        .eq('repository_id', repositoryId)
+        .in('status', ['queued', 'running'])
+        .limit(1)
+
+      if (activeJobs?.[0]) {
+        setState(prev => ({ ...prev, activeSessionId: activeJobs[0].session_id }))
+        return
+      }
+
+      const { data: sessions } = await supabase
+        .from('planning_sessions')
+        .select('id, status, work_plan, metadata')
+        .eq('repository_id', repositoryId)
+        .order('started_at', { ascending: false })
+        .limit(1)
+
+      const latest = sessions?.[0]
+      if (latest?.work_plan && ['generating', 'failed', 'cancelled'].includes(latest.status)) {
+        setState(prev => ({
+          ...prev,
+          unfinishedSession: { id: latest.id, status: latest.status, progress: latest.metadata?.progress }
+        }))
+      }
+    }
+
+    const loadEstimate = async () => {
       try {
-        // Start the streaming generation
-        const response = await fetch('/api/analyze/repository/stream', {
+        const response = await fetch('/api/analyze/repository/estimate', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ repositoryId }),
+          body: JSON.stringify({ repositoryId, sessionType }),
         })
+        const data = await response.json()
 
-        if (!response.ok) {
-          throw new Error('Failed to start generation')
+        if (data.configIssues) {
+          setState(prev => ({ ...prev, status: 'error', error: data.error, configIssues: data.configIssues }))
+        } else if (!response.ok) {
+          // The estimate is advisory; the run still stops at the budget
+          setState(prev => ({ ...prev, status: 'ready', estimateError: data.error || 'Failed to estimate generation' }))
+        } else {
+          setState(prev => ({ ...prev, status: 'ready', estimate: data.estimate }))
         }
+      } catch (error) {
+        setState(prev => ({
+          ...prev,
+          status: 'ready',
+          estimateError: error instanceof Error ? error.message : 'Failed to estimate generation'
+        }))
+      }
+    }
 
-        if (!response.body) {
-          throw new Error('No response body')
-        }
+    loadUnfinishedSession()
+    loadEstimate()
+  }, [repositoryId, sessionType, continuesSession])
 
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder()
-        let buffer = ''
-        let currentEvent = ''
-
-        setState(prev => ({ ...prev, status: 'running' }))
-
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          
-          // Keep the last incomplete line in the buffer
-          buffer = lines.pop() || ''
-
-          for (const line of lines) {
-            if (line.trim() === '') {
-              // Empty line indicates end of event
-              currentEvent = ''
-              continue
-            }
-            
-            if (line.startsWith('event: ')) {
-              currentEvent = line.substring(7).trim()
-              continue
-            }
-            
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.substring(6))
-                
-                switch (currentEvent) {
-                  case 'start':
-                    setState(prev => ({
-                      ...prev,
-                      repositoryName: data.repositoryName,
-                      sessionId: data.sessionId
-                    }))
-                    break
-                    
-                  case 'log':
-                    setState(prev => ({
-                      ...prev,
-                      logs: [...prev.logs, {
-                        level: data.level === 'error' ? 'error' : 'info',
-                        message: data.message,
-                        timestamp: data.timestamp
-                      }]
-                    }))
-                    break
-                    
-                  case 'complete':
-                    setState(prev => ({
-                      ...prev,
-                      status: 'completed',
-                      metrics: data.metrics,
-                      documentsGenerated: data.documentsGenerated,
-                      sessionId: data.sessionId
-                    }))
-                    break
-                    
-                  case 'error':
-                    setState(prev => ({
-                      ...prev,
-                      status: 'error',
-                      error: data.message
-                    }))
-                    break
-                }
-              } catch (e) {
-                console.error('Failed to parse SSE data:', e, line)
-              }
-            }
-          }
+  useEffect(() => {
+    if (!started) return
+
+    // Runs are queued for the background worker; the page then follows the session's events
+    const queueGeneration = async () => {
+      setState({ status: 'connecting', logs: [] })
+
+      try {
+        const response = await fetch(resumeSessionId ? '/api/analyze/repository/resume' : '/api/analyze/repository/jobs', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(resumeSessionId
+            ? { repositoryId, sessionId: resumeSessionId }
+            : { repositoryId, sessionType, ...(retrySessionId ? { retrySessionId } : {}) }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to start generation')
         }
+
+        router.replace(`/repositories/${repositoryId}/generate?session=${data.sessionId}`)
       } catch (error) {
         setState(prev => ({
           ...prev,
@@ -161,23 +239,177 @@ export default function GeneratePage() {
       }
     }
 
-    startGeneration()
+    const handleEvent = (event: string, payload: string) => {
+      const data = JSON.parse(payload)
+
+      switch (event) {
+        case 'start':
+          setState(prev => ({
+            ...prev,
+            status: 'running',
+            repositoryName: data.repositoryName,
+            sessionType: data.sessionType,
+            sessionId: data.sessionId
+          }))
+          break
+
+        case 'log':
+          setState(prev => ({
+            ...prev,
+            logs: [...prev.logs, {
+              level: data.level === 'error' ? 'error' : 'info',
+              message: data.message,
+              timestamp: data.timestamp
+            }]
+          }))
+          break
+
+        case 'progress':
+          if (data.stage === 'fetch') {
+            setState(prev => ({
+              ...prev,
+              fetchProgress: {
+                completed: data.completed,
+                failed: data.failed,
+                total: data.total,
+                path: data.path,
+                rateLimit: data.rateLimit ?? prev.fetchProgress?.rateLimit,
+                // A later per-file update means requests are flowing again
+                waiting: data.waiting
+              }
+            }))
+          } else if (data.stage === 'generate') {
+            setState(prev => ({
+              ...prev,
+              sessionId: data.sessionId,
+              generateProgress: {
+                completed: data.completed,
+                failed: data.failed,
+                total: data.total,
+                inFlight: data.inFlight,
+                waitingUntil: data.waitingUntil,
+                spent: data.spent,
+                remaining: data.remaining
+              }
+            }))
+          }
+          break
+
+        case 'complete':
+          setState(prev => ({
+            ...prev,
+            status: data.cancelled ? 'cancelled' : 'completed',
+            cancelling: false,
+            metrics: data.metrics,
+            documentsGenerated: data.documentsGenerated,
+            documentsSkipped: data.documentsSkipped,
+            documentsFailed: data.documentsFailed,
+            documentsSkippedForBudget: data.documentsSkippedForBudget,
+            sessionId: data.sessionId
+          }))
+          break
+
+        case 'error':
+          setState(prev => ({
+            ...prev,
+            status: 'error',
+            error: data.message,
+            configIssues: data.configIssues
+          }))
+          break
+      }
+    }
+
+    // EventSource reconnects on its own and sends Last-Event-ID, so a dropped
+    // connection continues where it stopped
+    const subscribe = (sessionId: string) => {
+      setState({ status: 'connecting', sessionId, logs: [] })
+
+      const source = new EventSource(`/api/analyze/repository/stream?sessionId=${sessionId}`)
+      eventSourceRef.current = source
+
+      source.onopen = () => {
+        setState(prev => prev.status === 'connecting' ? { ...prev, status: 'running' } : prev)
+      }
+
+      for (const event of ['start', 'log', 'progress', 'complete', 'error']) {
+        source.addEventListener(event, message => {
+          try {
+            handleEvent(event, (message as MessageEvent).data)
+          } catch (e) {
+            console.error('Failed to parse SSE data:', e, message)
+          }
+          if (event === 'complete' || event === 'error') {
+            source.close()
+          }
+        })
+      }
+
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          setState(prev => ({ ...prev, status: 'error', error: 'Lost the connection to the generation run' }))
+        }
+      }
+    }
+
+    if (watchedSessionId) {
+      subscribe(watchedSessionId)
+    } else {
+      queueGeneration()
+    }
 
     return () => {
       if (eventSourceRef.current) {
         eventSourceRef.current.close()
       }
     }
-  }, [repositoryId])
+  }, [repositoryId, sessionType, retrySessionId, resumeSessionId, watchedSessionId, started, router])
+
+  // The run stops once the documents in progress are saved, or at once while it is still queued;
+  // the stream then completes
+  const cancelGeneration = async () => {
+    if (!state.sessionId) return
+    setState(prev => ({ ...prev, cancelling: true }))
+
+    try {
+      const response = await fetch('/api/analyze/repository/cancel', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repositoryId, sessionId: state.sessionId }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel generation')
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        cancelling: false,
+        logs: [...prev.logs, {
+          level: 'error',
+          message: error instanceof Error ? error.message : 'Failed to cancel generation',
+          timestamp: new Date().toISOString()
+        }]
+      }))
+    }
+  }
 
   const getStatusIcon = () => {
     switch (state.status) {
+      case 'estimating':
       case 'connecting':
         return <Clock className="h-5 w-5 text-blue-500 animate-spin" />
+      case 'ready':
+        return <DollarSign className="h-5 w-5 text-blue-500" />
       case 'running':
         return <Zap className="h-5 w-5 text-yellow-500 animate-pulse" />
       case 'completed':
         return <CheckCircle className="h-5 w-5 text-green-500" />
+      case 'cancelled':
+        return <Square className="h-5 w-5 text-yellow-500" />
       case 'error':
         return <XCircle className="h-5 w-5 text-red-500" />
     }
@@ -185,17 +417,25 @@ export default function GeneratePage() {
 
   const getStatusText = () => {
     switch (state.status) {
+      case 'estimating':
+        return 'Estimating Cost...'
+      case 'ready':
+        return 'Ready to Generate'
       case 'connecting':
         return 'Connecting...'
       case 'running':
         return 'Generating Documentation...'
       case 'completed':
         return 'Generation Complete!'
+      case 'cancelled':
+        return 'Generation Cancelled'
       case 'error':
         return 'Generation Failed'
     }
   }
 
+  const retryableCount = (state.documentsFailed || 0) + (state.documentsSkippedForBudget || 0)
+
   const formatTime = (ms: number) => {
     return `${(ms / 1000).toFixed(1)}s`
   }
@@ -204,6 +444,14 @@ export default function GeneratePage() {
     return `$${cost.toFixed(4)}`
   }
 
+  const formatRemaining = (remaining: BudgetRemaining) => {
+    const parts = [
+      remaining.costUsd !== null && formatCost(remaining.costUsd),
+      remaining.tokens !== null && `${remaining.tokens.toLocaleString()} tokens`
+    ].filter(Boolean)
+    return parts.length > 0 ? `${parts.join(' / ')} left this month` : 'No monthly budget set'
+  }
+
   return (
     <div className="min-h-screen bg-canvas p-6">
       <div className="max-w-6xl mx-auto space-y-6">
@@ -238,21 +486,196 @@ export default function GeneratePage() {
             <Badge variant={state.status === 'completed' ? 'default' : state.status === 'error' ? 'destructive' : 'secondary'}>
               {state.status}
             </Badge>
+            {state.sessionType === 'incremental' && (
+              <Badge variant="outline">incremental</Badge>
+            )}
           </div>
 
+          {state.status === 'ready' && (
+            <div className="space-y-4">
+              {state.estimate ? (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <div>
+                      <div className="text-2xl font-bold text-primary">{state.estimate.documents}</div>
+                      <div className="text-sm text-muted-foreground">Documents to generate</div>
+                      {state.estimate.documentsSkipped > 0 && (
+                        <div className="text-xs text-muted-foreground">{state.estimate.documentsSkipped} unchanged, skipped</div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-primary">≤ {state.estimate.tokens.toLocaleString()}</div>
+                      <div className="text-sm text-muted-foreground">Tokens (worst case)</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-primary">≤ {formatCost(state.estimate.costUsd)}</div>
+                      <div className="text-sm text-muted-foreground">Estimated cost</div>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{formatRemaining(state.estimate.budget.remaining)}</p>
+                  {state.estimate.exceedsBudget && (
+                    <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                      This run may exceed the remaining budget. Generation stops when the budget runs out, and the
+                      remaining documents are skipped; they can be retried once the budget allows.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Could not estimate this run ({state.estimateError}). Monthly budgets are still enforced while generating.
+                </p>
+              )}
+              {state.activeSessionId && (
+                <p className="text-sm text-muted-foreground">
+                  A run of this repository is already queued or in progress. Starting another one follows that run.
+                </p>
+              )}
+              {state.unfinishedSession && (
+                <p className="text-sm text-muted-foreground">
+                  The last run {state.unfinishedSession.status === 'generating' ? 'has not finished' : `was ${state.unfinishedSession.status}`}
+                  {state.unfinishedSession.progress && ` after ${state.unfinishedSession.progress.completed}/${state.unfinishedSession.progress.total} documents`}.
+                  Resuming it generates only the documents it has not saved yet.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button onClick={() => setStarted(true)} className="flex items-center gap-2">
+                  <Zap className="h-4 w-4" />
+                  Start Generation
+                </Button>
+                {state.activeSessionId && (
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/repositories/${repositoryId}/generate?session=${state.activeSessionId}`)}
+                    className="flex items-center gap-2"
+                  >
+                    <Clock className="h-4 w-4" />
+                    Watch Current Run
+                  </Button>
+                )}
+                {state.unfinishedSession && (
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/repositories/${repositoryId}/generate?resume=${state.unfinishedSession!.id}`)}
+                    className="flex items-center gap-2"
+                  >
+                    <Play className="h-4 w-4" />
+                    Resume Last Run
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           {state.status === 'running' && (
             <div className="space-y-2">
-              <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Processing...</span>
-                <span>{state.logs.length} log entries</span>
+              <div className="flex justify-between items-center text-sm text-muted-foreground">
+                <span>{state.cancelling ? 'Cancelling after the documents in progress...' : 'Processing...'}</span>
+                <div className="flex items-center gap-3">
+                  <span>{state.logs.length} log entries</span>
+                  {state.sessionId && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={cancelGeneration}
+                      disabled={state.cancelling}
+                      className="flex items-center gap-2"
+                    >
+                      <Square className="h-4 w-4" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
               </div>
               <Progress value={undefined} className="w-full" />
             </div>
           )}
 
+          {state.status === 'running' && state.fetchProgress && state.fetchProgress.total > 0 && (
+            <div className="space-y-2 mt-4">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  Fetching files: {state.fetchProgress.completed}/{state.fetchProgress.total}
+                  {state.fetchProgress.failed > 0 && ` (${state.fetchProgress.failed} failed)`}
+                </span>
+                {state.fetchProgress.rateLimit?.remaining != null && (
+                  <span>
+                    {state.fetchProgress.rateLimit.remaining}/{state.fetchProgress.rateLimit.limit} GitHub requests left
+                  </span>
+                )}
+              </div>
+              <Progress
+                value={(state.fetchProgress.completed / state.fetchProgress.total) * 100}
+                className="w-full"
+              />
+              {state.fetchProgress.waiting && (
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                  Paused on GitHub {state.fetchProgress.waiting.reason} rate limit until{' '}
+                  {new Date(state.fetchProgress.waiting.until).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          )}
+
+          {state.status === 'running' && state.generateProgress && state.generateProgress.total > 0 && (
+            <div className="space-y-2 mt-4">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  Generating documents: {state.generateProgress.completed}/{state.generateProgress.total}
+                  {state.generateProgress.failed > 0 && ` (${state.generateProgress.failed} failed)`}
+                </span>
+                <span>{state.generateProgress.inFlight.length} in progress</span>
+              </div>
+              <Progress
+                value={(state.generateProgress.completed / state.generateProgress.total) * 100}
+                className="w-full"
+              />
+              {state.generateProgress.inFlight.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {state.generateProgress.inFlight.map(docPath => (
+                    <Badge key={docPath} variant="outline" className="font-mono text-xs">
+                      {docPath}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {state.generateProgress.spent && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <DollarSign className="h-4 w-4" />
+                  Spent this session: {formatCost(state.generateProgress.spent.costUsd)} ({state.generateProgress.spent.tokens.toLocaleString()} tokens)
+                  {' · '}
+                  {formatRemaining(state.generateProgress.remaining)} at start
+                </p>
+              )}
+              {state.generateProgress.waitingUntil && (
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                  Waiting for the tokens-per-minute budget until{' '}
+                  {new Date(state.generateProgress.waitingUntil).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          )}
+
           {state.error && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-              <p className="text-red-700 dark:text-red-300">{state.error}</p>
+              {state.configIssues && state.configIssues.length > 0 ? (
+                <>
+                  <p className="text-red-700 dark:text-red-300 font-medium">
+                    Fix the repository&apos;s .lookas.yml and run the generation again:
+                  </p>
+                  <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">
+                    {state.configIssues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.line && <span className="font-mono">line {issue.line}: </span>}
+                        {issue.key && <code className="font-mono">{issue.key}</code>}
+                        {issue.key && ' — '}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <p className="text-red-700 dark:text-red-300">{state.error}</p>
+              )}
             </div>
           )}
         </Card>
@@ -268,6 +691,15 @@ export default function GeneratePage() {
               <div className="text-center">
                 <div className="text-2xl font-bold text-primary">{state.documentsGenerated}</div>
                 <div className="text-sm text-muted-foreground">Documents</div>
+                {!!state.documentsSkipped && (
+                  <div className="text-xs text-muted-foreground">{state.documentsSkipped} unchanged, skipped</div>
+                )}
+                {!!state.documentsFailed && (
+                  <div className="text-xs text-red-500">{state.documentsFailed} failed</div>
+                )}
+                {!!state.documentsSkippedForBudget && (
+                  <div className="text-xs text-yellow-600">{state.documentsSkippedForBudget} skipped, budget reached</div>
+                )}
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-primary">{state.metrics.componentsExtracted}</div>
@@ -341,6 +773,27 @@ export default function GeneratePage() {
         </Card>
 
         {/* Action Buttons */}
+        {state.status === 'cancelled' && (
+          <div className="flex gap-4">
+            {state.sessionId && (
+              <Button
+                onClick={() => router.push(`/repositories/${repositoryId}/generate?resume=${state.sessionId}`)}
+                className="flex items-center gap-2"
+              >
+                <Play className="h-4 w-4" />
+                Resume Generation
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => router.push(`/repositories/${repositoryId}/docs`)}
+              className="flex items-center gap-2"
+            >
+              <FileText className="h-4 w-4" />
+              View Documentation
+            </Button>
+          </div>
+        )}
         {state.status === 'completed' && (
           <div className="flex gap-4">
             <Button
@@ -350,6 +803,16 @@ export default function GeneratePage() {
               <FileText className="h-4 w-4" />
               View Documentation
             </Button>
+            {!!retryableCount && state.sessionId && (
+              <Button
+                variant="outline"
+                onClick={() => router.push(`/repositories/${repositoryId}/generate?retry=${state.sessionId}`)}
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Retry {retryableCount} Failed or Skipped Document{retryableCount === 1 ? '' : 's'}
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={() => router.push('/')}
@@ -5,6 +5,7 @@ import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Sidebar } from '@/components/sidebar'
+import { BudgetEditor, MonthlyBudget } from '@/components/budget-editor'
 import { useToast } from '@/components/ui/toast-provider'
 import { Github, Plus, Trash2, RefreshCw } from 'lucide-react'
 import Link from 'next/link'
@@ -15,6 +16,7 @@ export default function SettingsPage() {
   const [availableRepos, setAvailableRepos] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
   const [loadingGithub, setLoadingGithub] = useState(false)
+  const [userBudget, setUserBudget] = useState<MonthlyBudget | null>(null)
   const supabase = createClient()
   const { success, error, warning } = useToast()
 
@@ -41,6 +43,16 @@ export default function SettingsPage() {
           onConflict: 'id'
         })
 
+      const { data: userRecord } = await supabase
+        .from('users')
+        .select('monthly_cost_budget_usd, monthly_token_budget')
+        .eq('id', user.id)
+        .single()
+
+      if (userRecord) {
+        setUserBudget(userRecord)
+      }
+
       const { data: repos } = await supabase
         .from('repositories')
         .select('*')
@@ -103,6 +115,34 @@ export default function SettingsPage() {
     }
   }
 
+  const saveUserBudget = async (budget: MonthlyBudget) => {
+    const { error: updateError } = await supabase
+      .from('users')
+      .update(budget)
+      .eq('id', user.id)
+
+    if (updateError) {
+      error('Budget Not Saved', updateError.message)
+    } else {
+      setUserBudget(budget)
+      success('Budget Saved', 'Your monthly budget applies to all of your repositories.')
+    }
+  }
+
+  const saveRepositoryBudget = async (repoId: string, budget: MonthlyBudget) => {
+    const { error: updateError } = await supabase
+      .from('repositories')
+      .update(budget)
+      .eq('id', repoId)
+
+    if (updateError) {
+      error('Budget Not Saved', updateError.message)
+    } else {
+      setRepositories(repos => repos.map(repo => repo.id === repoId ? { ...repo, ...budget } : repo))
+      success('Budget Saved', 'The repository budget applies from the next generation.')
+    }
+  }
+
   const analyzeRepository = (repoId: string) => {
     // Redirect to the streaming generation page
     window.location.href = `/repositories/${repoId}/generate`
@@ -183,6 +223,22 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Monthly Budget */}
+          {userBudget && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle>Monthly Budget</CardTitle>
+                <CardDescription>
+                  Caps documentation generation across all of your repositories. Generation stops before a run
+                  would go over; leave a field empty for no cap.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BudgetEditor budget={userBudget} onSave={saveUserBudget} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Repositories */}
           <Card>
             <CardHeader>
@@ -195,20 +251,29 @@ export default function SettingsPage() {
               {repositories.length > 0 ? (
                 <div className="space-y-3">
                   {repositories.map((repo) => (
-                    <div key={repo.id} className="flex items-center justify-between rounded-lg border p-3" style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-canvas)' }}>
-                      <div>
-                        <p className="font-medium" style={{ color: 'var(--color-text-primary)' }}>{repo.name}</p>
-                        <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>{repo.full_name}</p>
+                    <div key={repo.id} className="rounded-lg border p-3 space-y-3" style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-canvas)' }}>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium" style={{ color: 'var(--color-text-primary)' }}>{repo.name}</p>
+                          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>{repo.full_name}</p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => analyzeRepository(repo.id)}
+                          disabled={repo.analysis_status === 'analyzing'}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          {repo.analysis_status === 'analyzing' ? 'Analyzing...' : 'EXPLAIN'}
+                        </Button>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => analyzeRepository(repo.id)}
-                        disabled={repo.analysis_status === 'analyzing'}
-                      >
-                        <RefreshCw className="mr-2 h-4 w-4" />
-                        {repo.analysis_status === 'analyzing' ? 'Analyzing...' : 'EXPLAIN'}
-                      </Button>
+                      <BudgetEditor
+                        budget={{
+                          monthly_cost_budget_usd: repo.monthly_cost_budget_usd ?? null,
+                          monthly_token_budget: repo.monthly_token_budget ?? null
+                        }}
+                        onSave={budget => saveRepositoryBudget(repo.id, budget)}
+                      />
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+export interface MonthlyBudget {
+  monthly_cost_budget_usd: number | null
+  monthly_token_budget: number | null
+}
+
+interface BudgetEditorProps {
+  budget: MonthlyBudget
+  onSave: (budget: MonthlyBudget) => Promise<void>
+}
+
+const inputStyle = {
+  backgroundColor: 'var(--color-surface)',
+  borderColor: 'var(--color-border)',
+  color: 'var(--color-text-primary)'
+}
+
+// Empty fields mean no cap
+function parseLimit(value: string, integer: boolean): number | null | undefined {
+  if (!value.trim()) return null
+  const limit = Number(value)
+  if (!Number.isFinite(limit) || limit < 0 || (integer && !Number.isInteger(limit))) return undefined
+  return limit
+}
+
+export function BudgetEditor({ budget, onSave }: BudgetEditorProps) {
+  const [cost, setCost] = useState(budget.monthly_cost_budget_usd?.toString() ?? '')
+  const [tokens, setTokens] = useState(budget.monthly_token_budget?.toString() ?? '')
+  const [saving, setSaving] = useState(false)
+
+  const costLimit = parseLimit(cost, false)
+  const tokenLimit = parseLimit(tokens, true)
+  const invalid = costLimit === undefined || tokenLimit === undefined
+  const unchanged = costLimit === budget.monthly_cost_budget_usd && tokenLimit === budget.monthly_token_budget
+
+  const save = async () => {
+    if (invalid) return
+    setSaving(true)
+    try {
+      await onSave({ monthly_cost_budget_usd: costLimit, monthly_token_budget: tokenLimit })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="flex items-center gap-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+        $
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="No cost cap"
+          value={cost}
+          onChange={event => setCost(event.target.value)}
+          className="h-8 w-28 rounded-md border px-2 text-sm"
+          style={inputStyle}
+        />
+        / month
+      </label>
+      <label className="flex items-center gap-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+        <input
+          type="number"
+          min="0"
+          step="1000"
+          placeholder="No token cap"
+          value={tokens}
+          onChange={event => setTokens(event.target.value)}
+          className="h-8 w-32 rounded-md border px-2 text-sm"
+          style={inputStyle}
+        />
+        tokens / month
+      </label>
+      <Button size="sm" variant="outline" onClick={save} disabled={invalid || unchanged || saving}>
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+    </div>
+  )
+}
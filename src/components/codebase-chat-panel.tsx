@@ -0,0 +1,346 @@
+'use client'
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ExternalLink, FileText, MessageSquare, Plus, Send, Trash2, X } from 'lucide-react'
+
+// A source an answer cites as [n], from /api/repositories/[id]/chat
+interface ChatCitation {
+  index: number
+  kind: 'document' | 'source'
+  title: string
+  documentPath?: string
+  filePath?: string
+  startLine?: number
+  endLine?: number
+}
+
+interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  citations: ChatCitation[]
+}
+
+interface Conversation {
+  id: string
+  title: string
+  updated_at: string
+}
+
+interface CodebaseChatPanelProps {
+  repositoryId: string
+  githubUrl: string | null
+  defaultBranch?: string
+  onOpenDocument: (documentPath: string) => void
+  onClose: () => void
+}
+
+const inputStyle = {
+  backgroundColor: 'var(--color-surface)',
+  borderColor: 'var(--color-border)',
+  color: 'var(--color-text-primary)'
+}
+
+// Reads `event:`/`data:` blocks from a streamed POST response (EventSource only does GET)
+async function readEvents(response: Response, onEvent: (event: string, data: string) => void) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      const event = block.match(/^event: (.+)$/m)?.[1] ?? 'message'
+      const data = block.match(/^data: (.*)$/m)?.[1]
+      if (data !== undefined) onEvent(event, data)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
+
+export function CodebaseChatPanel({ repositoryId, githubUrl, defaultBranch = 'main', onOpenDocument, onClose }: CodebaseChatPanelProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  // Sources of the answer being streamed, so its [n] link before `done` arrives
+  const [pendingSources, setPendingSources] = useState<ChatCitation[]>([])
+  const [question, setQuestion] = useState('')
+  const [asking, setAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const messagesEnd = useRef<HTMLDivElement>(null)
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/chat`)
+      const data = await response.json()
+      if (response.ok) {
+        setConversations(data.conversations)
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error)
+    }
+  }, [repositoryId])
+
+  useEffect(() => {
+    loadConversations()
+  }, [loadConversations])
+
+  useEffect(() => {
+    messagesEnd.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages])
+
+  const openConversation = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/chat/${id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation')
+      }
+      setConversationId(id)
+      setMessages(data.messages)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load conversation')
+    }
+  }
+
+  const deleteConversation = async (id: string) => {
+    const response = await fetch(`/api/repositories/${repositoryId}/chat/${id}`, { method: 'DELETE' })
+    if (response.ok) {
+      setConversations(prev => prev.filter(conversation => conversation.id !== id))
+      if (id === conversationId) startConversation()
+    }
+  }
+
+  const startConversation = () => {
+    setConversationId(null)
+    setMessages([])
+    setError(null)
+  }
+
+  const ask = async (event: FormEvent) => {
+    event.preventDefault()
+    const text = question.trim()
+    if (!text || asking) return
+
+    setQuestion('')
+    setError(null)
+    setAsking(true)
+    setPendingSources([])
+    const answerId = `pending-${Date.now()}`
+    setMessages(prev => [
+      ...prev,
+      { id: `question-${Date.now()}`, role: 'user', content: text, citations: [] },
+      { id: answerId, role: 'assistant', content: '', citations: [] }
+    ])
+
+    const updateAnswer = (update: (message: ChatMessage) => ChatMessage) => {
+      setMessages(prev => prev.map(message => message.id === answerId ? update(message) : message))
+    }
+
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: text, conversationId })
+      })
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to ask the question')
+      }
+
+      await readEvents(response, (name, payload) => {
+        const data = JSON.parse(payload)
+        switch (name) {
+          case 'conversation':
+            setConversationId(data.conversationId)
+            break
+          case 'sources':
+            setPendingSources(data.citations)
+            break
+          case 'delta':
+            updateAnswer(message => ({ ...message, content: message.content + data.text }))
+            break
+          case 'done':
+            updateAnswer(message => ({ ...message, id: data.messageId, citations: data.citations }))
+            break
+          case 'error':
+            setError(data.message)
+            break
+        }
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to ask the question')
+    } finally {
+      setAsking(false)
+      setPendingSources([])
+      // Drop an answer that never started
+      setMessages(prev => prev.filter(message => message.id !== answerId || message.content))
+      loadConversations()
+    }
+  }
+
+  const sourceUrl = (citation: ChatCitation) => {
+    if (!githubUrl || !citation.filePath) return null
+    const lines = citation.startLine ? `#L${citation.startLine}-L${citation.endLine ?? citation.startLine}` : ''
+    return `${githubUrl}/blob/${defaultBranch}/${citation.filePath}${lines}`
+  }
+
+  const renderCitationLink = (citation: ChatCitation, label: string) => {
+    if (citation.kind === 'document' && citation.documentPath) {
+      const documentPath = citation.documentPath
+      return (
+        <button
+          type="button"
+          onClick={() => onOpenDocument(documentPath)}
+          className="hover:underline"
+          style={{ color: 'var(--color-primary)' }}
+          title={citation.title}
+        >
+          {label}
+        </button>
+      )
+    }
+    const url = sourceUrl(citation)
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="hover:underline" style={{ color: 'var(--color-primary)' }} title={citation.title}>
+        {label}
+      </a>
+    ) : (
+      <span title={citation.title}>{label}</span>
+    )
+  }
+
+  // Plain text with [n] markers turned into links to their sources
+  const renderAnswer = (message: ChatMessage, citations: ChatCitation[]) => {
+    return message.content.split(/(\[\d+\])/).map((part, index) => {
+      const marker = part.match(/^\[(\d+)\]$/)
+      const citation = marker && citations.find(item => item.index === Number(marker[1]))
+      return citation
+        ? <sup key={index}>{renderCitationLink(citation, part)}</sup>
+        : <span key={index}>{part}</span>
+    })
+  }
+
+  const formatLocation = (citation: ChatCitation) => {
+    if (citation.kind === 'document') return citation.title
+    return citation.startLine
+      ? `${citation.filePath}:${citation.startLine}-${citation.endLine ?? citation.startLine}`
+      : citation.filePath ?? citation.title
+  }
+
+  return (
+    <aside className="w-96 flex flex-col border-l" style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-surface)' }}>
+      <div className="flex items-center justify-between border-b px-4 py-3" style={{ borderColor: 'var(--color-border)' }}>
+        <div className="flex items-center gap-2 font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+          <MessageSquare className="h-4 w-4" />
+          Ask the Codebase
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={startConversation} title="New conversation">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.length === 0 && (
+          <div className="space-y-3">
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              Ask how something works. Answers come from the generated documentation and the source of its components, with links to both.
+            </p>
+            {conversations.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium uppercase" style={{ color: 'var(--color-text-muted)' }}>Previous conversations</p>
+                {conversations.map(conversation => (
+                  <div key={conversation.id} className="flex items-center gap-1 group">
+                    <button
+                      type="button"
+                      onClick={() => openConversation(conversation.id)}
+                      className="flex-1 truncate rounded px-2 py-1 text-left text-sm hover:opacity-80"
+                      style={{ color: 'var(--color-text-primary)' }}
+                      title={conversation.title}
+                    >
+                      {conversation.title}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteConversation(conversation.id)}
+                      className="opacity-0 group-hover:opacity-100 p-1"
+                      style={{ color: 'var(--color-text-muted)' }}
+                      title="Delete conversation"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="ml-8 rounded-lg px-3 py-2 text-sm whitespace-pre-wrap" style={{ backgroundColor: 'var(--color-canvas)', color: 'var(--color-text-primary)' }}>
+            {message.content}
+          </div>
+        ) : (
+          <div key={message.id} className="space-y-2">
+            <div className="text-sm whitespace-pre-wrap" style={{ color: 'var(--color-text-primary)' }}>
+              {message.content
+                ? renderAnswer(message, message.citations.length > 0 ? message.citations : pendingSources)
+                : <span style={{ color: 'var(--color-text-muted)' }}>Searching the documentation...</span>}
+            </div>
+            {message.citations.length > 0 && (
+              <ol className="space-y-1 border-t pt-2 text-xs" style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-secondary)' }}>
+                {message.citations.map(citation => (
+                  <li key={citation.index} className="flex items-center gap-1">
+                    <span>[{citation.index}]</span>
+                    {citation.kind === 'document'
+                      ? <FileText className="h-3 w-3 flex-shrink-0" />
+                      : <ExternalLink className="h-3 w-3 flex-shrink-0" />}
+                    <span className="truncate">{renderCitationLink(citation, formatLocation(citation))}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        ))}
+
+        {error && (
+          <p className="text-sm" style={{ color: 'var(--color-destructive)' }}>{error}</p>
+        )}
+        <div ref={messagesEnd} />
+      </div>
+
+      <form onSubmit={ask} className="flex items-end gap-2 border-t p-3" style={{ borderColor: 'var(--color-border)' }}>
+        <textarea
+          value={question}
+          onChange={event => setQuestion(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter' && !event.shiftKey) {
+              event.preventDefault()
+              event.currentTarget.form?.requestSubmit()
+            }
+          }}
+          placeholder="How does authentication work?"
+          rows={2}
+          className="flex-1 resize-none rounded-md border px-2 py-1 text-sm"
+          style={inputStyle}
+        />
+        <Button type="submit" size="sm" disabled={asking || !question.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </aside>
+  )
+}
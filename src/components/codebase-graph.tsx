@@ -1,190 +1,452 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { GitBranch, FileCode, Database, Zap, ArrowRight, Eye, EyeOff } from 'lucide-react'
+import { ArrowRight, FileText, Maximize2, ZoomIn, ZoomOut } from 'lucide-react'
+import { LayoutKind, Point, layoutGraph } from '@/lib/graph-layout'
 
+// Graph from GET /api/repositories/[id]/graph
 interface GraphNode {
   id: string
-  name: string
-  type: 'component' | 'service' | 'database' | 'api'
-  dependencies: string[]
-  dependents: string[]
-  description: string
+  label: string
+  kind: string
+  directory: string
+  docPrefix: string
+  documentPath: string | null
+  filePath: string | null
+  degree: number
 }
 
-// Dummy data for the codebase graph
-const dummyNodes: GraphNode[] = [
-  {
-    id: 'frontend.components.auth',
-    name: 'Auth Components',
-    type: 'component',
-    dependencies: ['backend.auth.service', 'frontend.utils.validation'],
-    dependents: ['frontend.pages.login', 'frontend.components.navbar'],
-    description: 'Authentication UI components including login, signup, and password reset forms'
-  },
-  {
-    id: 'backend.auth.service',
-    name: 'Auth Service',
-    type: 'service',
-    dependencies: ['backend.database.users', 'backend.utils.jwt'],
-    dependents: ['frontend.components.auth', 'backend.api.auth'],
-    description: 'Core authentication service handling user login, registration, and session management'
-  },
-  {
-    id: 'backend.database.users',
-    name: 'Users Database',
-    type: 'database',
-    dependencies: [],
-    dependents: ['backend.auth.service', 'backend.api.users'],
-    description: 'User data storage and management including profiles, permissions, and settings'
-  },
-  {
-    id: 'backend.api.auth',
-    name: 'Auth API',
-    type: 'api',
-    dependencies: ['backend.auth.service'],
-    dependents: ['frontend.components.auth'],
-    description: 'REST API endpoints for authentication operations'
-  },
-  {
-    id: 'frontend.utils.validation',
-    name: 'Validation Utils',
-    type: 'component',
-    dependencies: [],
-    dependents: ['frontend.components.auth', 'frontend.components.forms'],
-    description: 'Client-side validation utilities for forms and user input'
-  }
-]
-
-const getIcon = (type: string) => {
-  switch (type) {
-    case 'component':
-      return <FileCode className="h-4 w-4" />
-    case 'service':
-      return <Zap className="h-4 w-4" />
-    case 'database':
-      return <Database className="h-4 w-4" />
-    case 'api':
-      return <GitBranch className="h-4 w-4" />
-    default:
-      return <FileCode className="h-4 w-4" />
-  }
+interface GraphEdge {
+  source: string
+  target: string
+  type: string
+  count: number
 }
 
-const getTypeColor = (type: string) => {
-  switch (type) {
-    case 'component':
-      return 'default'
-    case 'service':
-      return 'success'
-    case 'database':
-      return 'destructive'
-    case 'api':
-      return 'secondary'
-    default:
-      return 'default'
-  }
+interface GraphData {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  relationTypes: string[]
+  totalNodes: number
+}
+
+type GraphView = 'files' | 'documents'
+type ClusterBy = 'directory' | 'docPrefix'
+
+interface Transform {
+  x: number
+  y: number
+  scale: number
+}
+
+const GRAPH_HEIGHT = 560
+const MIN_SCALE = 0.1
+const MAX_SCALE = 4
+// Labels of unrelated nodes appear once zoomed in this far
+const LABEL_SCALE = 0.9
+
+const RELATION_COLORS: Record<string, string> = {
+  imports: '#3B82F6',
+  uses: '#6B7280',
+  extends: '#7C3AED',
+  implements: '#A855F7',
+  calls: '#16A34A',
+  composes: '#D97706',
+  exposes: '#0891B2',
+  depends_on: '#DC2626',
+  references: '#9CA3AF',
+  tests: '#DB2777'
+}
+
+const getRelationColor = (type: string) => RELATION_COLORS[type] ?? '#9CA3AF'
+
+// Stable color per cluster
+const getClusterColor = (cluster: string) => {
+  let hash = 0
+  for (const char of cluster) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return `hsl(${Math.abs(hash) % 360}, 60%, 55%)`
 }
 
 interface CodebaseGraphProps {
+  repositoryId: string
   selectedNode?: string | null
   onNodeSelect?: (nodeId: string) => void
+  onOpenDocument?: (documentPath: string) => void
 }
 
-export function CodebaseGraph({ selectedNode: selectedNodeId, onNodeSelect }: CodebaseGraphProps) {
-  const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null)
-  const [showDependencies, setShowDependencies] = useState(true)
-  const [showDependents, setShowDependents] = useState(true)
+export function CodebaseGraph({ repositoryId, selectedNode: selectedNodeId, onNodeSelect, onOpenDocument }: CodebaseGraphProps) {
+  const [view, setView] = useState<GraphView>('files')
+  const [graph, setGraph] = useState<GraphData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [layout, setLayout] = useState<LayoutKind>('force')
+  const [clusterBy, setClusterBy] = useState<ClusterBy>('directory')
+  const [hiddenTypes, setHiddenTypes] = useState<Set<string>>(new Set())
+  const [selectedId, setSelectedId] = useState<string | null>(selectedNodeId ?? null)
+  const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, scale: 1 })
+  const svgRef = useRef<SVGSVGElement>(null)
+  const panStart = useRef<{ x: number, y: number, transform: Transform } | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    setSelectedId(null)
+
+    fetch(`/api/repositories/${repositoryId}/graph?view=${view}`, { signal: controller.signal })
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load the graph')
+        setGraph(data)
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          setError(error instanceof Error ? error.message : 'Failed to load the graph')
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [repositoryId, view])
+
+  useEffect(() => {
+    if (selectedNodeId !== undefined) setSelectedId(selectedNodeId)
+  }, [selectedNodeId])
+
+  const edges = useMemo(
+    () => (graph?.edges ?? []).filter(edge => !hiddenTypes.has(edge.type)),
+    [graph, hiddenTypes]
+  )
+
+  const clusterOf = (node: GraphNode) => node[clusterBy]
+
+  const positions = useMemo(() => {
+    if (!graph) return new Map<string, Point>()
+    return layoutGraph(layout, graph.nodes.map(node => ({ id: node.id, cluster: node[clusterBy] })), edges)
+  }, [graph, edges, layout, clusterBy])
+
+  const nodesById = useMemo(() => new Map((graph?.nodes ?? []).map(node => [node.id, node])), [graph])
+
+  const fitToView = useCallback(() => {
+    const svg = svgRef.current
+    if (!svg || positions.size === 0) return
+    const points = [...positions.values()]
+    const minX = Math.min(...points.map(point => point.x)) - 60
+    const maxX = Math.max(...points.map(point => point.x)) + 60
+    const minY = Math.min(...points.map(point => point.y)) - 60
+    const maxY = Math.max(...points.map(point => point.y)) + 60
+    const { width, height } = svg.getBoundingClientRect()
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.min(width / (maxX - minX), height / (maxY - minY))))
+    setTransform({
+      x: width / 2 - ((minX + maxX) / 2) * scale,
+      y: height / 2 - ((minY + maxY) / 2) * scale,
+      scale
+    })
+  }, [positions])
+
+  // The svg only exists once loading has finished
+  useEffect(() => {
+    fitToView()
+  }, [fitToView, loading])
+
+  // Wheel zoom around the cursor; registered natively so the page does not scroll
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      const cursorX = event.clientX - rect.left
+      const cursorY = event.clientY - rect.top
+      setTransform(current => {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * Math.exp(-event.deltaY * 0.001)))
+        return {
+          x: cursorX - ((cursorX - current.x) / current.scale) * scale,
+          y: cursorY - ((cursorY - current.y) / current.scale) * scale,
+          scale
+        }
+      })
+    }
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [graph, loading])
+
+  const zoomBy = (factor: number) => {
+    const svg = svgRef.current
+    if (!svg) return
+    const { width, height } = svg.getBoundingClientRect()
+    setTransform(current => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor))
+      return {
+        x: width / 2 - ((width / 2 - current.x) / current.scale) * scale,
+        y: height / 2 - ((height / 2 - current.y) / current.scale) * scale,
+        scale
+      }
+    })
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    panStart.current = { x: event.clientX, y: event.clientY, transform }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const start = panStart.current
+    if (!start) return
+    setTransform({
+      ...start.transform,
+      x: start.transform.x + event.clientX - start.x,
+      y: start.transform.y + event.clientY - start.y
+    })
+  }
+
+  const handlePointerUp = () => {
+    panStart.current = null
+  }
 
   const handleNodeClick = (node: GraphNode) => {
-    setSelectedNode(node)
+    setSelectedId(node.id)
     onNodeSelect?.(node.id)
   }
 
-  const getRelatedNodes = (nodeId: string) => {
-    const node = dummyNodes.find(n => n.id === nodeId)
-    if (!node) return []
-    
-    const related = new Set<string>()
-    if (showDependencies) {
-      node.dependencies.forEach(dep => related.add(dep))
-    }
-    if (showDependents) {
-      node.dependents.forEach(dep => related.add(dep))
+  const toggleType = (type: string) => {
+    setHiddenTypes(current => {
+      const next = new Set(current)
+      if (next.has(type)) {
+        next.delete(type)
+      } else {
+        next.add(type)
+      }
+      return next
+    })
+  }
+
+  const selectedNode = selectedId ? nodesById.get(selectedId) ?? null : null
+  const outgoing = selectedNode ? edges.filter(edge => edge.source === selectedNode.id) : []
+  const incoming = selectedNode ? edges.filter(edge => edge.target === selectedNode.id) : []
+  const neighbors = new Set([...outgoing.map(edge => edge.target), ...incoming.map(edge => edge.source)])
+
+  // Bounding boxes of clusters with more than one node; layered layouts spread
+  // clusters across layers, so only the force layout draws them
+  const clusterBoxes = useMemo(() => {
+    if (!graph || layout !== 'force') return []
+    const boxes = new Map<string, { minX: number, minY: number, maxX: number, maxY: number, count: number }>()
+    for (const node of graph.nodes) {
+      const point = positions.get(node.id)
+      if (!point) continue
+      const cluster = node[clusterBy]
+      const box = boxes.get(cluster) ?? { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y, count: 0 }
+      box.minX = Math.min(box.minX, point.x)
+      box.minY = Math.min(box.minY, point.y)
+      box.maxX = Math.max(box.maxX, point.x)
+      box.maxY = Math.max(box.maxY, point.y)
+      box.count++
+      boxes.set(cluster, box)
     }
-    
-    return Array.from(related)
+    return [...boxes.entries()].filter(([, box]) => box.count > 1)
+  }, [graph, positions, layout, clusterBy])
+
+  const renderRelationList = (title: string, items: GraphEdge[], direction: 'out' | 'in') => {
+    if (items.length === 0) return null
+    return (
+      <div>
+        <h4 className="text-sm font-medium mb-2 flex items-center">
+          <ArrowRight className={`h-3 w-3 mr-1 ${direction === 'in' ? 'rotate-180' : ''}`} />
+          {title} ({items.length})
+        </h4>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {items.map(edge => {
+            const other = nodesById.get(direction === 'out' ? edge.target : edge.source)
+            if (!other) return null
+            return (
+              <button
+                key={`${edge.source}-${edge.target}-${edge.type}`}
+                onClick={() => handleNodeClick(other)}
+                className="w-full text-left text-xs text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 p-2 rounded flex items-center justify-between gap-2"
+              >
+                <span className="truncate">{other.label}</span>
+                <span className="flex-shrink-0" style={{ color: getRelationColor(edge.type) }}>
+                  {edge.type}{edge.count > 1 ? ` ×${edge.count}` : ''}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    )
   }
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-2">
         <div>
           <h3 className="text-lg font-semibold">Interactive Codebase Graph</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Explore dependencies and relationships between system components
+            {view === 'files'
+              ? 'Files connected by the relations between their components'
+              : 'Documents connected by their cross-links'}
           </p>
         </div>
-        <div className="flex gap-2">
-          <Button
-            variant={showDependencies ? "default" : "outline"}
-            size="sm"
-            onClick={() => setShowDependencies(!showDependencies)}
-          >
-            {showDependencies ? <Eye className="h-4 w-4 mr-1" /> : <EyeOff className="h-4 w-4 mr-1" />}
-            Dependencies
-          </Button>
-          <Button
-            variant={showDependents ? "default" : "outline"}
-            size="sm"
-            onClick={() => setShowDependents(!showDependents)}
-          >
-            {showDependents ? <Eye className="h-4 w-4 mr-1" /> : <EyeOff className="h-4 w-4 mr-1" />}
-            Dependents
-          </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button variant={view === 'files' ? 'default' : 'outline'} size="sm" onClick={() => setView('files')}>Files</Button>
+          <Button variant={view === 'documents' ? 'default' : 'outline'} size="sm" onClick={() => setView('documents')}>Documents</Button>
+          <span className="w-px bg-gray-200 dark:bg-gray-700" />
+          <Button variant={layout === 'force' ? 'default' : 'outline'} size="sm" onClick={() => setLayout('force')}>Force</Button>
+          <Button variant={layout === 'hierarchical' ? 'default' : 'outline'} size="sm" onClick={() => setLayout('hierarchical')}>Hierarchical</Button>
+          <span className="w-px bg-gray-200 dark:bg-gray-700" />
+          <Button variant={clusterBy === 'directory' ? 'default' : 'outline'} size="sm" onClick={() => setClusterBy('directory')}>By directory</Button>
+          <Button variant={clusterBy === 'docPrefix' ? 'default' : 'outline'} size="sm" onClick={() => setClusterBy('docPrefix')}>By doc path</Button>
         </div>
       </div>
 
+      {graph && graph.relationTypes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Relations:</span>
+          {graph.relationTypes.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${hiddenTypes.has(type) ? 'opacity-40' : ''}`}
+              style={{ borderColor: getRelationColor(type), color: getRelationColor(type) }}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getRelationColor(type) }} />
+              {type}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Graph visualization */}
         <div className="lg:col-span-2">
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">System Architecture</CardTitle>
-              <CardDescription>Click on any component to explore its relationships</CardDescription>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-base">System Architecture</CardTitle>
+                  <CardDescription>
+                    Drag to pan, scroll to zoom, click a node to explore its relationships
+                    {graph && graph.totalNodes > graph.nodes.length && ` · showing the ${graph.nodes.length} best-connected of ${graph.totalNodes}`}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => zoomBy(1.25)} title="Zoom in"><ZoomIn className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="sm" onClick={() => zoomBy(0.8)} title="Zoom out"><ZoomOut className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="sm" onClick={fitToView} title="Fit to view"><Maximize2 className="h-4 w-4" /></Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-2 gap-4">
-                {dummyNodes.map((node) => {
-                  const isSelected = selectedNode?.id === node.id
-                  const isRelated = selectedNode ? getRelatedNodes(selectedNode.id).includes(node.id) : false
-                  
-                  return (
-                    <Button
-                      key={node.id}
-                      variant={isSelected ? "default" : isRelated ? "outline" : "ghost"}
-                      className={`h-auto p-4 flex flex-col items-start space-y-2 ${
-                        isSelected ? 'ring-2 ring-gray-400' : ''
-                      }`}
-                      onClick={() => handleNodeClick(node)}
-                    >
-                      <div className="flex items-center space-x-2">
-                        {getIcon(node.type)}
-                        <span className="text-sm font-medium truncate">{node.name}</span>
-                      </div>
-                      <Badge variant={getTypeColor(node.type) as 'default' | 'secondary' | 'outline' | 'destructive' | 'success'} size="sm">
-                        {node.type}
-                      </Badge>
-                      <div className="text-xs text-left text-gray-500 dark:text-gray-400 line-clamp-2">
-                        {node.id}
-                      </div>
-                    </Button>
-                  )
-                })}
-              </div>
+              {loading ? (
+                <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ height: GRAPH_HEIGHT }}>
+                  Loading graph...
+                </div>
+              ) : error ? (
+                <div className="flex items-center justify-center text-sm" style={{ height: GRAPH_HEIGHT, color: 'var(--color-destructive)' }}>
+                  {error}
+                </div>
+              ) : !graph || graph.nodes.length === 0 ? (
+                <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ height: GRAPH_HEIGHT }}>
+                  No {view === 'files' ? 'components' : 'documents'} yet. Generate documentation to build the graph.
+                </div>
+              ) : (
+                <svg
+                  ref={svgRef}
+                  width="100%"
+                  height={GRAPH_HEIGHT}
+                  className="cursor-grab active:cursor-grabbing select-none rounded border border-gray-100 dark:border-gray-800"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerLeave={handlePointerUp}
+                >
+                  <defs>
+                    {Object.keys(RELATION_COLORS).concat('other').map(type => (
+                      <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="18" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill={getRelationColor(type)} />
+                      </marker>
+                    ))}
+                  </defs>
+                  <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.scale})`}>
+                    {clusterBoxes.map(([cluster, box]) => (
+                      <g key={cluster}>
+                        <rect
+                          x={box.minX - 30}
+                          y={box.minY - 30}
+                          width={box.maxX - box.minX + 60}
+                          height={box.maxY - box.minY + 60}
+                          rx={16}
+                          fill={getClusterColor(cluster)}
+                          fillOpacity={0.06}
+                          stroke={getClusterColor(cluster)}
+                          strokeOpacity={0.3}
+                        />
+                        <text x={box.minX - 24} y={box.minY - 36} fontSize={12} fill={getClusterColor(cluster)}>
+                          {cluster}
+                        </text>
+                      </g>
+                    ))}
+
+                    {edges.map(edge => {
+                      const source = positions.get(edge.source)
+                      const target = positions.get(edge.target)
+                      if (!source || !target) return null
+                      const highlighted = selectedNode && (edge.source === selectedNode.id || edge.target === selectedNode.id)
+                      return (
+                        <line
+                          key={`${edge.source}-${edge.target}-${edge.type}`}
+                          x1={source.x}
+                          y1={source.y}
+                          x2={target.x}
+                          y2={target.y}
+                          stroke={getRelationColor(edge.type)}
+                          strokeWidth={Math.min(1 + Math.log2(edge.count), 4) / (highlighted ? 0.5 : 1)}
+                          strokeOpacity={selectedNode ? (highlighted ? 0.9 : 0.08) : 0.35}
+                          markerEnd={`url(#arrow-${edge.type in RELATION_COLORS ? edge.type : 'other'})`}
+                        />
+                      )
+                    })}
+
+                    {graph.nodes.map(node => {
+                      const point = positions.get(node.id)
+                      if (!point) return null
+                      const isSelected = node.id === selectedNode?.id
+                      const isRelated = neighbors.has(node.id)
+                      const dimmed = selectedNode && !isSelected && !isRelated
+                      const radius = 5 + Math.min(Math.sqrt(node.degree), 8)
+                      return (
+                        <g
+                          key={node.id}
+                          transform={`translate(${point.x} ${point.y})`}
+                          className="cursor-pointer"
+                          opacity={dimmed ? 0.2 : 1}
+                          onPointerDown={event => event.stopPropagation()}
+                          onClick={() => handleNodeClick(node)}
+                          onDoubleClick={() => node.documentPath && onOpenDocument?.(node.documentPath)}
+                        >
+                          <title>{node.filePath ?? node.documentPath ?? node.label}</title>
+                          <circle
+                            r={radius}
+                            fill={getClusterColor(clusterOf(node))}
+                            stroke={isSelected ? 'var(--color-text-primary)' : 'white'}
+                            strokeWidth={isSelected ? 3 : 1.5}
+                          />
+                          {(isSelected || isRelated || transform.scale >= LABEL_SCALE) && (
+                            <text x={radius + 4} y={4} fontSize={11} fill="var(--color-text-primary)">
+                              {node.label}
+                            </text>
+                          )}
+                        </g>
+                      )
+                    })}
+                  </g>
+                </svg>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -194,7 +456,7 @@ export function CodebaseGraph({ selectedNode: selectedNodeId, onNodeSelect }: Co
           <Card>
             <CardHeader>
               <CardTitle className="text-base">
-                {selectedNode ? 'Component Details' : 'Select a Component'}
+                {selectedNode ? (view === 'files' ? 'File Details' : 'Document Details') : 'Select a Node'}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -202,56 +464,36 @@ export function CodebaseGraph({ selectedNode: selectedNodeId, onNodeSelect }: Co
                 <div className="space-y-4">
                   <div>
                     <div className="flex items-center space-x-2 mb-2">
-                      {getIcon(selectedNode.type)}
-                      <span className="font-medium">{selectedNode.name}</span>
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getClusterColor(clusterOf(selectedNode)) }} />
+                      <span className="font-medium break-all">{selectedNode.label}</span>
                     </div>
-                    <Badge variant={getTypeColor(selectedNode.type) as 'default' | 'secondary' | 'outline' | 'destructive' | 'success'} size="sm" className="mb-2">
-                      {selectedNode.type}
+                    <Badge variant="secondary" size="sm" className="mb-2">
+                      {selectedNode.kind}
                     </Badge>
-                    <p className="text-sm text-gray-600 dark:text-gray-300">
-                      {selectedNode.description}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {clusterBy === 'directory' ? 'Directory' : 'Doc path'}: {clusterOf(selectedNode)}
                     </p>
                   </div>
 
-                  <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">
-                    {selectedNode.id}
-                  </div>
-
-                  {selectedNode.dependencies.length > 0 && (
-                    <div>
-                      <h4 className="text-sm font-medium mb-2 flex items-center">
-                        <ArrowRight className="h-3 w-3 mr-1" />
-                        Dependencies ({selectedNode.dependencies.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {selectedNode.dependencies.map((dep) => (
-                          <div key={dep} className="text-xs text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 p-2 rounded">
-                            {dep}
-                          </div>
-                        ))}
-                      </div>
+                  {(selectedNode.filePath || selectedNode.documentPath) && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                      {selectedNode.filePath ?? selectedNode.documentPath}
                     </div>
                   )}
 
-                  {selectedNode.dependents.length > 0 && (
-                    <div>
-                      <h4 className="text-sm font-medium mb-2 flex items-center">
-                        <ArrowRight className="h-3 w-3 mr-1 rotate-180" />
-                        Used by ({selectedNode.dependents.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {selectedNode.dependents.map((dep) => (
-                          <div key={dep} className="text-xs text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 p-2 rounded">
-                            {dep}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+                  {selectedNode.documentPath && onOpenDocument && (
+                    <Button size="sm" variant="outline" onClick={() => onOpenDocument(selectedNode.documentPath!)}>
+                      <FileText className="h-4 w-4 mr-1" />
+                      Open Document
+                    </Button>
                   )}
+
+                  {renderRelationList('Dependencies', outgoing, 'out')}
+                  {renderRelationList('Used by', incoming, 'in')}
                 </div>
               ) : (
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  Click on any component in the graph to view its dependencies, relationships, and detailed information.
+                  Click on any node in the graph to view its dependencies and dependents. Double-click opens its document.
                 </p>
               )}
             </CardContent>
@@ -260,4 +502,4 @@ export function CodebaseGraph({ selectedNode: selectedNodeId, onNodeSelect }: Co
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { CornerDownRight } from 'lucide-react'
+
+interface LinkedDocument {
+  id: string
+  title: string
+  document_path: string
+}
+
+interface Backlink {
+  document: LinkedDocument
+  linkTypes: string[]
+}
+
+interface DocumentBacklinksProps {
+  documentId: string
+  documents: LinkedDocument[]
+  onOpenDocument: (documentPath: string) => void
+}
+
+// "Referenced by": the documents whose document_links point at this one
+export function DocumentBacklinks({ documentId, documents, onOpenDocument }: DocumentBacklinksProps) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadBacklinks = async () => {
+      setLoading(true)
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('document_links')
+        .select('source_document_id, link_type')
+        .eq('target_document_id', documentId)
+
+      if (cancelled) return
+      if (error) {
+        console.error('Error loading backlinks:', error)
+        setBacklinks([])
+        setLoading(false)
+        return
+      }
+
+      const byId = new Map(documents.map(document => [document.id, document]))
+      const grouped = new Map<string, Backlink>()
+      for (const link of data || []) {
+        const source = byId.get(link.source_document_id)
+        if (!source || source.id === documentId) continue
+        const backlink = grouped.get(source.id) ?? { document: source, linkTypes: [] }
+        if (!backlink.linkTypes.includes(link.link_type)) backlink.linkTypes.push(link.link_type)
+        grouped.set(source.id, backlink)
+      }
+      setBacklinks([...grouped.values()].sort((a, b) => a.document.title.localeCompare(b.document.title)))
+      setLoading(false)
+    }
+
+    loadBacklinks()
+    return () => {
+      cancelled = true
+    }
+  }, [documentId, documents])
+
+  if (loading || backlinks.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mt-10 border-t pt-6" style={{ borderColor: 'var(--color-border)' }}>
+      <h2 className="text-sm font-semibold uppercase tracking-wide mb-3" style={{ color: 'var(--color-text-secondary)' }}>
+        Referenced by
+      </h2>
+      <ul className="space-y-1">
+        {backlinks.map(({ document, linkTypes }) => (
+          <li key={document.id}>
+            <button
+              className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:opacity-80"
+              onClick={() => onOpenDocument(document.document_path)}
+            >
+              <CornerDownRight className="h-4 w-4 flex-shrink-0" style={{ color: 'var(--color-text-muted)' }} />
+              <span style={{ color: 'var(--color-primary)' }}>{document.title}</span>
+              <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {linkTypes.map(type => type.replace(/_/g, ' ')).join(', ')}
+              </span>
+              <span className="ml-auto truncate text-xs font-mono" style={{ color: 'var(--color-text-muted)' }}>
+                {document.document_path}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
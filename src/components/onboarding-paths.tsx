@@ -1,200 +1,177 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { CheckCircle, Circle, Clock, BookOpen, Target, User } from 'lucide-react'
+import { CheckCircle, Circle, Clock, BookOpen, Code, Loader2, RefreshCw } from 'lucide-react'
 
+// Learning step from GET /api/repositories/[id]/onboarding
 interface LearningStep {
-  id: string
+  documentPath: string
   title: string
   description: string
-  estimatedTime: string
-  completed: boolean
-  type: 'read' | 'practice' | 'explore'
-  documentId?: string
+  type: 'read' | 'explore'
+  readingMinutes: number
 }
 
 interface LearningPath {
   id: string
+  role: 'frontend' | 'backend' | 'data'
   title: string
   description: string
-  role: string
-  experienceLevel: string
-  totalSteps: number
-  completedSteps: number
-  estimatedTime: string
   steps: LearningStep[]
+  readingMinutes: number
+  completedSteps: string[]
+  updatedAt: string
 }
 
-// Dummy learning paths data
-const dummyPaths: LearningPath[] = [
-  {
-    id: 'junior-frontend',
-    title: 'Frontend Development Basics',
-    description: 'Perfect for junior developers starting with our frontend architecture',
-    role: 'Frontend Developer',
-    experienceLevel: 'Junior',
-    totalSteps: 8,
-    completedSteps: 3,
-    estimatedTime: '4-6 hours',
-    steps: [
-      {
-        id: 'step-1',
-        title: 'Understanding Project Structure',
-        description: 'Learn about our folder organization and file naming conventions',
-        estimatedTime: '30 min',
-        completed: true,
-        type: 'read',
-        documentId: 'frontend.structure'
-      },
-      {
-        id: 'step-2',
-        title: 'Component Architecture',
-        description: 'Explore our component library and design system',
-        estimatedTime: '45 min',
-        completed: true,
-        type: 'read',
-        documentId: 'frontend.components.ui'
-      },
-      {
-        id: 'step-3',
-        title: 'Authentication Flow',
-        description: 'Understand how user authentication works in the frontend',
-        estimatedTime: '1 hour',
-        completed: true,
-        type: 'read',
-        documentId: 'frontend.components.auth'
-      },
-      {
-        id: 'step-4',
-        title: 'State Management',
-        description: 'Learn our approach to managing application state',
-        estimatedTime: '1 hour',
-        completed: false,
-        type: 'read',
-        documentId: 'frontend.state'
-      },
-      {
-        id: 'step-5',
-        title: 'API Integration',
-        description: 'How to connect frontend components with backend APIs',
-        estimatedTime: '45 min',
-        completed: false,
-        type: 'explore',
-        documentId: 'frontend.api'
-      }
-    ]
-  },
-  {
-    id: 'backend-onboarding',
-    title: 'Backend Architecture Deep Dive',
-    description: 'Comprehensive guide for developers working on server-side code',
-    role: 'Backend Developer',
-    experienceLevel: 'Intermediate',
-    totalSteps: 10,
-    completedSteps: 1,
-    estimatedTime: '6-8 hours',
-    steps: [
-      {
-        id: 'backend-1',
-        title: 'Database Schema Overview',
-        description: 'Understand our database structure and relationships',
-        estimatedTime: '1 hour',
-        completed: true,
-        type: 'read',
-        documentId: 'backend.database.schema'
-      },
-      {
-        id: 'backend-2',
-        title: 'Authentication System',
-        description: 'Deep dive into JWT tokens and session management',
-        estimatedTime: '1.5 hours',
-        completed: false,
-        type: 'read',
-        documentId: 'backend.auth.overview'
-      },
-      {
-        id: 'backend-3',
-        title: 'API Design Patterns',
-        description: 'Learn our REST API conventions and best practices',
-        estimatedTime: '1 hour',
-        completed: false,
-        type: 'explore',
-        documentId: 'backend.api.patterns'
+interface OnboardingPathsProps {
+  repositoryId: string
+  onOpenDocument?: (documentPath: string) => void
+}
+
+const ROLE_LABELS: Record<LearningPath['role'], string> = {
+  frontend: 'Frontend Developer',
+  backend: 'Backend Developer',
+  data: 'Data Engineer'
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+export function OnboardingPaths({ repositoryId, onOpenDocument }: OnboardingPathsProps) {
+  const [paths, setPaths] = useState<LearningPath[]>([])
+  const [loading, setLoading] = useState(true)
+  const [building, setBuilding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedPathId, setSelectedPathId] = useState<string | null>(null)
+  const [activeStepPath, setActiveStepPath] = useState<string | null>(null)
+
+  const loadPaths = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/repositories/${repositoryId}/onboarding`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load onboarding paths')
       }
-    ]
-  }
-]
+      setPaths(data.paths)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load onboarding paths')
+    } finally {
+      setLoading(false)
+    }
+  }, [repositoryId])
 
-export function OnboardingPaths() {
-  const [selectedPath, setSelectedPath] = useState<LearningPath | null>(null)
-  const [activeStep, setActiveStep] = useState<LearningStep | null>(null)
+  useEffect(() => {
+    loadPaths()
+  }, [loadPaths])
 
-  const handlePathSelect = (path: LearningPath) => {
-    setSelectedPath(path)
-    setActiveStep(null)
+  const buildPaths = async () => {
+    try {
+      setBuilding(true)
+      setError(null)
+      const response = await fetch(`/api/repositories/${repositoryId}/onboarding`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate onboarding paths')
+      }
+      setPaths(data.paths)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate onboarding paths')
+    } finally {
+      setBuilding(false)
+    }
   }
 
-  const handleStepClick = (step: LearningStep) => {
-    setActiveStep(step)
+  const updateCompleted = (pathId: string, documentPath: string, completed: boolean) => {
+    setPaths(current => current.map(path => path.id !== pathId ? path : {
+      ...path,
+      completedSteps: completed
+        ? [...new Set([...path.completedSteps, documentPath])]
+        : path.completedSteps.filter(step => step !== documentPath)
+    }))
   }
 
-  const handleCompleteStep = (stepId: string) => {
-    if (selectedPath) {
-      const updatedSteps = selectedPath.steps.map(step =>
-        step.id === stepId ? { ...step, completed: true } : step
-      )
-      const updatedPath = {
-        ...selectedPath,
-        steps: updatedSteps,
-        completedSteps: updatedSteps.filter(s => s.completed).length
+  // Optimistic; rolled back if the request fails
+  const setStepCompleted = async (pathId: string, documentPath: string, completed: boolean) => {
+    updateCompleted(pathId, documentPath, completed)
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/onboarding/progress`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pathId, documentPath, completed })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save progress')
       }
-      setSelectedPath(updatedPath)
+    } catch (error) {
+      updateCompleted(pathId, documentPath, !completed)
+      setError(error instanceof Error ? error.message : 'Failed to save progress')
     }
   }
 
-  const getStepIcon = (type: string) => {
-    switch (type) {
-      case 'read':
-        return <BookOpen className="h-4 w-4" />
-      case 'practice':
-        return <Target className="h-4 w-4" />
-      case 'explore':
-        return <User className="h-4 w-4" />
-      default:
-        return <BookOpen className="h-4 w-4" />
-    }
+  const getStepIcon = (type: LearningStep['type']) => {
+    return type === 'explore' ? <Code className="h-4 w-4" /> : <BookOpen className="h-4 w-4" />
   }
 
-  const getStepTypeColor = (type: string) => {
-    switch (type) {
-      case 'read':
-        return 'secondary'
-      case 'practice':
-        return 'success'
-      case 'explore':
-        return 'default'
-      default:
-        return 'secondary'
-    }
+  const selectedPath = paths.find(path => path.id === selectedPathId) || null
+  const activeStep = selectedPath?.steps.find(step => step.documentPath === activeStepPath) || null
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12" style={{ color: 'var(--color-text-secondary)' }}>
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Loading onboarding paths...
+      </div>
+    )
   }
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>Smart Onboarding Paths</h2>
-        <p style={{ color: 'var(--color-text-secondary)' }}>
-          AI-generated personalized learning paths based on your role and experience level
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>Onboarding Paths</h2>
+          <p style={{ color: 'var(--color-text-secondary)' }}>
+            Reading paths through this repository&apos;s documentation, ordered so each document comes after the ones it builds on
+          </p>
+        </div>
+        {paths.length > 0 && (
+          <Button size="sm" variant="outline" onClick={buildPaths} disabled={building}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${building ? 'animate-spin' : ''}`} />
+            Rebuild
+          </Button>
+        )}
       </div>
 
-      {!selectedPath ? (
+      {error && (
+        <p className="text-sm" style={{ color: 'var(--color-destructive)' }}>{error}</p>
+      )}
+
+      {paths.length === 0 ? (
+        <div className="text-center py-12">
+          <BookOpen className="h-12 w-12 mx-auto mb-4" style={{ color: 'var(--color-text-muted)' }} />
+          <p className="mb-4" style={{ color: 'var(--color-text-secondary)' }}>
+            No onboarding paths yet. They are built after documentation is generated.
+          </p>
+          <Button variant="primary" onClick={buildPaths} disabled={building}>
+            {building && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Build Paths
+          </Button>
+        </div>
+      ) : !selectedPath ? (
         <div className="grid gap-4 md:grid-cols-2">
-          {dummyPaths.map((path) => {
-            const progress = (path.completedSteps / path.totalSteps) * 100
+          {paths.map((path) => {
+            const completed = path.completedSteps.length
+            const progress = path.steps.length > 0 ? (completed / path.steps.length) * 100 : 0
 
             return (
               <Card key={path.id} className="cursor-pointer hover:shadow-md transition-shadow">
@@ -204,30 +181,32 @@ export function OnboardingPaths() {
                       <CardTitle className="text-lg">{path.title}</CardTitle>
                       <CardDescription className="mt-1">{path.description}</CardDescription>
                     </div>
-                    <div className="flex items-center space-x-1 text-xs text-gray-500">
+                    <div className="flex items-center space-x-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
                       <Clock className="h-3 w-3" />
-                      <span>{path.estimatedTime}</span>
+                      <span>{formatMinutes(path.readingMinutes)}</span>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 mt-3">
-                    <Badge variant="outline" size="sm">{path.role}</Badge>
-                    <Badge variant="secondary" size="sm">{path.experienceLevel}</Badge>
+                    <Badge variant="outline" size="sm">{ROLE_LABELS[path.role]}</Badge>
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
                       <span>Progress</span>
-                      <span>{path.completedSteps}/{path.totalSteps} steps</span>
+                      <span>{completed}/{path.steps.length} steps</span>
                     </div>
                     <Progress value={progress} className="h-2" />
                   </div>
-                  <Button 
-                    className="w-full mt-4" 
+                  <Button
+                    className="w-full mt-4"
                     variant="primary"
-                    onClick={() => handlePathSelect(path)}
+                    onClick={() => {
+                      setSelectedPathId(path.id)
+                      setActiveStepPath(null)
+                    }}
                   >
-                    {path.completedSteps > 0 ? 'Continue Learning' : 'Start Path'}
+                    {completed > 0 ? 'Continue Learning' : 'Start Path'}
                   </Button>
                 </CardContent>
               </Card>
@@ -242,10 +221,10 @@ export function OnboardingPaths() {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-base">{selectedPath.title}</CardTitle>
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    onClick={() => setSelectedPath(null)}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSelectedPathId(null)}
                   >
                     ← Back
                   </Button>
@@ -254,25 +233,22 @@ export function OnboardingPaths() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div className="flex items-center space-x-2">
-                    <Badge variant="outline" size="sm">{selectedPath.role}</Badge>
-                    <Badge variant="secondary" size="sm">{selectedPath.experienceLevel}</Badge>
-                  </div>
-                  
+                  <Badge variant="outline" size="sm">{ROLE_LABELS[selectedPath.role]}</Badge>
+
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
                       <span>Overall Progress</span>
-                      <span>{selectedPath.completedSteps}/{selectedPath.totalSteps}</span>
+                      <span>{selectedPath.completedSteps.length}/{selectedPath.steps.length}</span>
                     </div>
-                    <Progress 
-                      value={(selectedPath.completedSteps / selectedPath.totalSteps) * 100} 
+                    <Progress
+                      value={selectedPath.steps.length > 0 ? (selectedPath.completedSteps.length / selectedPath.steps.length) * 100 : 0}
                       variant="success"
                     />
                   </div>
 
-                  <div className="text-sm text-gray-500 dark:text-gray-400 flex items-center">
+                  <div className="text-sm flex items-center" style={{ color: 'var(--color-text-muted)' }}>
                     <Clock className="h-3 w-3 mr-1" />
-                    Estimated time: {selectedPath.estimatedTime}
+                    Reading time: {formatMinutes(selectedPath.readingMinutes)}
                   </div>
                 </div>
               </CardContent>
@@ -290,16 +266,16 @@ export function OnboardingPaths() {
                 <div className="space-y-2 max-h-96 overflow-y-auto">
                   {selectedPath.steps.map((step, index) => (
                     <div
-                      key={step.id}
+                      key={step.documentPath}
                       className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors ${
-                        activeStep?.id === step.id 
-                          ? 'bg-gray-100 dark:bg-gray-800' 
+                        activeStep?.documentPath === step.documentPath
+                          ? 'bg-gray-100 dark:bg-gray-800'
                           : 'hover:bg-gray-50 dark:hover:bg-gray-900'
                       }`}
-                      onClick={() => handleStepClick(step)}
+                      onClick={() => setActiveStepPath(step.documentPath)}
                     >
                       <div className="flex-shrink-0">
-                        {step.completed ? (
+                        {selectedPath.completedSteps.includes(step.documentPath) ? (
                           <CheckCircle className="h-5 w-5 text-green-500" />
                         ) : (
                           <Circle className="h-5 w-5 text-gray-400" />
@@ -308,12 +284,12 @@ export function OnboardingPaths() {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center space-x-2">
                           <span className="text-sm font-medium">{index + 1}. {step.title}</span>
-                          <Badge variant={getStepTypeColor(step.type) as 'default' | 'secondary' | 'outline' | 'destructive' | 'success'} size="sm">
+                          <Badge variant={step.type === 'explore' ? 'default' : 'secondary'} size="sm">
                             {step.type}
                           </Badge>
                         </div>
                         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          {step.estimatedTime}
+                          {formatMinutes(step.readingMinutes)}
                         </p>
                       </div>
                     </div>
@@ -339,7 +315,7 @@ export function OnboardingPaths() {
                         {getStepIcon(activeStep.type)}
                         <span className="font-medium">{activeStep.title}</span>
                       </div>
-                      <Badge variant={getStepTypeColor(activeStep.type) as 'default' | 'secondary' | 'outline' | 'destructive' | 'success'} size="sm" className="mb-2">
+                      <Badge variant={activeStep.type === 'explore' ? 'default' : 'secondary'} size="sm" className="mb-2">
                         {activeStep.type}
                       </Badge>
                       <p className="text-sm text-gray-600 dark:text-gray-300">
@@ -349,28 +325,36 @@ export function OnboardingPaths() {
 
                     <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
                       <Clock className="h-3 w-3 mr-1" />
-                      Estimated time: {activeStep.estimatedTime}
+                      Reading time: {formatMinutes(activeStep.readingMinutes)}
                     </div>
 
-                    {activeStep.documentId && (
-                      <div className="text-xs text-gray-500 dark:text-gray-400 font-mono bg-gray-50 dark:bg-gray-800 p-2 rounded">
-                        Document: {activeStep.documentId}
-                      </div>
-                    )}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 font-mono bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                      Document: {activeStep.documentPath}
+                    </div>
 
                     <div className="flex space-x-2 pt-4">
-                      {!activeStep.completed && (
+                      {selectedPath.completedSteps.includes(activeStep.documentPath) ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setStepCompleted(selectedPath.id, activeStep.documentPath, false)}
+                        >
+                          Mark Incomplete
+                        </Button>
+                      ) : (
                         <Button
                           size="sm"
                           variant="primary"
-                          onClick={() => handleCompleteStep(activeStep.id)}
+                          onClick={() => setStepCompleted(selectedPath.id, activeStep.documentPath, true)}
                         >
                           Mark Complete
                         </Button>
                       )}
-                      <Button variant="outline" size="sm">
-                        View Documentation
-                      </Button>
+                      {onOpenDocument && (
+                        <Button variant="outline" size="sm" onClick={() => onOpenDocument(activeStep.documentPath)}>
+                          View Documentation
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ) : (
@@ -388,4 +372,4 @@ export function OnboardingPaths() {
       )}
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { Button } from '@/components/ui/button'
@@ -34,6 +35,7 @@ interface Document {
   content: string
   document_type: 'file' | 'class' | 'function' | 'module' | 'overview'
   file_path: string | null
+  component_ids?: unknown
   metadata: any
   created_at: string
   updated_at: string
@@ -48,6 +50,24 @@ interface DocumentNode {
   expanded: boolean
 }
 
+// A passage from GET /api/repositories/[id]/search
+interface SearchResult {
+  id: string
+  sourceType: 'document' | 'component'
+  documentId: string | null
+  componentId: string | null
+  path: string
+  title: string
+  snippet: string
+  highlights: { start: number, end: number }[]
+  score: number
+  startLine: number | null
+  endLine: number | null
+}
+
+// Waits for typing to pause before querying the index
+const SEARCH_DEBOUNCE_MS = 300
+
 interface RepositorySidebarProps {
   user?: { email?: string }
   repository?: Repository
@@ -73,6 +93,43 @@ export function RepositorySidebar({
 }: RepositorySidebarProps) {
   const pathname = usePathname()
   const supabase = createClient()
+  // null until the index answers; the title filter is shown meanwhile and when there is no index
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null)
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    setSearchResults(null)
+    const query = searchQuery.trim()
+    if (!query || !repository) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const response = await fetch(
+          `/api/repositories/${repository.id}/search?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        )
+        const data = await response.json()
+        if (response.ok && data.indexed) {
+          setSearchResults(data.results)
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error searching documentation:', error)
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [searchQuery, repository])
 
   const navItems = [
     {
@@ -118,6 +175,60 @@ export function RepositorySidebar({
     doc.document_path.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
+  // Component passages open the document that covers the component, or else its file
+  const findResultDocument = (result: SearchResult): Document | undefined => {
+    if (result.documentId) {
+      return documents.find(doc => doc.id === result.documentId)
+    }
+    return documents.find(doc => Array.isArray(doc.component_ids) && doc.component_ids.includes(result.componentId))
+      ?? documents.find(doc => doc.file_path === result.path)
+  }
+
+  const renderSnippet = (result: SearchResult): React.ReactNode[] => {
+    const parts: React.ReactNode[] = []
+    let position = 0
+    result.highlights.forEach((highlight, index) => {
+      parts.push(result.snippet.slice(position, highlight.start))
+      parts.push(
+        <mark key={index} className="rounded px-0.5" style={{ backgroundColor: 'var(--overlay-10)', color: 'var(--color-text-primary)' }}>
+          {result.snippet.slice(highlight.start, highlight.end)}
+        </mark>
+      )
+      position = highlight.end
+    })
+    parts.push(result.snippet.slice(position))
+    return parts
+  }
+
+  const renderSearchResult = (result: SearchResult) => {
+    const document = findResultDocument(result)
+    return (
+      <button
+        key={result.id}
+        onClick={() => document && onDocumentSelect(document)}
+        disabled={!document}
+        className="w-full text-left px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-60"
+        style={selectedDocument && selectedDocument.id === document?.id
+          ? { backgroundColor: 'var(--overlay-10)', color: 'var(--color-text-primary)' }
+          : { color: 'var(--color-text-primary)' }
+        }
+      >
+        <div className="flex items-center gap-2">
+          {result.sourceType === 'component'
+            ? <File className="h-4 w-4 flex-shrink-0" />
+            : getDocumentIcon(document?.document_type || 'file')}
+          <span className="truncate font-medium">{result.title}</span>
+        </div>
+        <div className="truncate text-xs mt-0.5" style={{ color: 'var(--color-text-secondary)' }}>
+          {result.path}{result.startLine ? `:${result.startLine}` : ''}
+        </div>
+        <p className="text-xs mt-1 line-clamp-3 whitespace-pre-line" style={{ color: 'var(--color-text-secondary)' }}>
+          {renderSnippet(result)}
+        </p>
+      </button>
+    )
+  }
+
   const renderTreeNode = (node: DocumentNode, level = 0): React.ReactNode => {
     const isDocument = node.type === 'document'
     const hasChildren = node.children.length > 0
@@ -236,10 +347,18 @@ export function RepositorySidebar({
           <div className="p-4">
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-sm font-semibold" style={{ color: 'var(--color-text-primary)' }}>Documentation</h3>
-              <span className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>{documents.length} docs</span>
+              <span className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                {searchResults ? `${searchResults.length} passages` : searching ? 'Searching...' : `${documents.length} docs`}
+              </span>
             </div>
             <div className="space-y-1">
-              {searchQuery ? (
+              {searchQuery && searchResults ? (
+                searchResults.length > 0 ? (
+                  searchResults.map(renderSearchResult)
+                ) : (
+                  <p className="px-3 py-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>No matching passages</p>
+                )
+              ) : searchQuery ? (
                 // Show flat list when searching
                 filteredDocuments.map((doc) => (
                   <button
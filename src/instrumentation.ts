@@ -0,0 +1,9 @@
+// Server startup hook
+// Starts the background generation worker in each Node.js server process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startGenerationWorker } = await import('@/services/generation-queue')
+    startGenerationWorker()
+  }
+}
@@ -0,0 +1,32 @@
+// Utility for bounded concurrency
+// Runs async work over a list with a fixed number of workers
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// Applies `worker` to every item with at most `concurrency` calls in flight.
+// Results keep the input order; the first rejection stops new work and is rethrown.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+  let failed = false
+
+  const runWorker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++
+      try {
+        results[index] = await worker(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workerCount }, runWorker))
+  return results
+}
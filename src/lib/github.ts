@@ -1,14 +1,184 @@
 import { Octokit } from '@octokit/rest'
 import { createIgnoreChecker } from './ignore-patterns'
+import { mapWithConcurrency, sleep } from './concurrency'
+
+export interface RateLimitState {
+  limit: number | null
+  remaining: number | null
+  resetAt: number | null // epoch ms
+}
+
+export interface RateLimitWait {
+  reason: 'primary' | 'secondary' | 'server'
+  waitMs: number
+  attempt: number
+}
+
+export interface GitHubServiceOptions {
+  maxRetries?: number
+  // Longest single pause before giving up instead of waiting for a reset
+  maxWaitMs?: number
+  onRateLimit?: (wait: RateLimitWait) => void
+}
+
+export interface BlobRequest {
+  path: string
+  sha: string
+}
+
+export interface BlobFetchProgress {
+  completed: number
+  failed: number
+  total: number
+  path: string
+  rateLimit: RateLimitState
+}
+
+export interface BlobFetchResult {
+  contents: Map<string, string>
+  errors: Map<string, string>
+}
+
+interface RequestErrorLike {
+  status?: number
+  message?: string
+  response?: { headers: Record<string, string | number | undefined> }
+}
+
+interface CachedResponse {
+  etag: string
+  data: unknown
+}
+
+// Requests below this many remaining calls wait for the window to reset
+const RATE_LIMIT_RESERVE = 10
+const RESPONSE_CACHE_LIMIT = 500
+const BLOB_CACHE_LIMIT = 5000
 
 export class GitHubService {
   private octokit: Octokit
+  private options: Required<Omit<GitHubServiceOptions, 'onRateLimit'>> & Pick<GitHubServiceOptions, 'onRateLimit'>
+  private rateLimit: RateLimitState = { limit: null, remaining: null, resetAt: null }
 
-  constructor(accessToken: string) {
+  // Shared across instances: ETag'd responses for conditional requests and
+  // blob contents, which are immutable for a given SHA
+  private static responseCache = new Map<string, CachedResponse>()
+  private static blobCache = new Map<string, string>()
+
+  constructor(accessToken: string, options: GitHubServiceOptions = {}) {
     this.octokit = new Octokit({
       auth: accessToken,
       userAgent: 'Lookas-App'
     })
+    this.options = {
+      maxRetries: options.maxRetries ?? 5,
+      maxWaitMs: options.maxWaitMs ?? 15 * 60 * 1000,
+      onRateLimit: options.onRateLimit
+    }
+
+    this.octokit.hook.wrap('request', async (request, requestOptions) => {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForPrimaryLimit(attempt)
+        try {
+          const response = await request(requestOptions)
+          this.updateRateLimit(response.headers)
+          return response
+        } catch (error) {
+          const requestError = error as RequestErrorLike
+          this.updateRateLimit(requestError.response?.headers)
+          const wait = this.getRetryWait(requestError, attempt)
+          if (!wait || attempt >= this.options.maxRetries) throw error
+          if (wait.waitMs > this.options.maxWaitMs) {
+            throw new Error(`GitHub rate limit exceeded; retrying would require waiting ${Math.ceil(wait.waitMs / 60000)} minutes`)
+          }
+          this.options.onRateLimit?.(wait)
+          await sleep(wait.waitMs)
+        }
+      }
+    })
+  }
+
+  getRateLimit(): RateLimitState {
+    return { ...this.rateLimit }
+  }
+
+  private updateRateLimit(headers?: Record<string, string | number | undefined>) {
+    if (!headers) return
+    const limit = headers['x-ratelimit-limit']
+    const remaining = headers['x-ratelimit-remaining']
+    const reset = headers['x-ratelimit-reset']
+    if (limit !== undefined) this.rateLimit.limit = Number(limit)
+    if (remaining !== undefined) this.rateLimit.remaining = Number(remaining)
+    if (reset !== undefined) this.rateLimit.resetAt = Number(reset) * 1000
+  }
+
+  // Pause every worker once the primary quota is nearly spent
+  private async waitForPrimaryLimit(attempt: number) {
+    const { remaining, resetAt } = this.rateLimit
+    if (remaining === null || resetAt === null || remaining > RATE_LIMIT_RESERVE) return
+
+    const waitMs = resetAt - Date.now() + 1000
+    if (waitMs <= 0) return
+    if (waitMs > this.options.maxWaitMs) {
+      throw new Error(`GitHub rate limit nearly exhausted (${remaining} requests left) until ${new Date(resetAt).toISOString()}`)
+    }
+
+    this.options.onRateLimit?.({ reason: 'primary', waitMs, attempt })
+    await sleep(waitMs)
+    this.rateLimit.remaining = null
+  }
+
+  private getRetryWait(error: RequestErrorLike, attempt: number): RateLimitWait | null {
+    const status = error.status ?? 0
+    const headers = error.response?.headers || {}
+
+    if (status === 403 || status === 429) {
+      // Secondary limits announce their own delay
+      if (headers['retry-after'] !== undefined) {
+        return { reason: 'secondary', waitMs: Number(headers['retry-after']) * 1000, attempt }
+      }
+      if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset'] !== undefined) {
+        return { reason: 'primary', waitMs: Math.max(Number(headers['x-ratelimit-reset']) * 1000 - Date.now(), 0) + 1000, attempt }
+      }
+      if (/secondary rate limit/i.test(error.message || '')) {
+        return { reason: 'secondary', waitMs: 60 * 1000 * 2 ** attempt, attempt }
+      }
+      return null
+    }
+
+    if (status >= 500) {
+      return { reason: 'server', waitMs: 1000 * 2 ** attempt, attempt }
+    }
+
+    return null
+  }
+
+  // Sends the stored ETag and serves the cached payload when GitHub answers 304
+  private async conditionalRequest<T>(
+    key: string,
+    send: (headers: Record<string, string>) => Promise<{ data: T, headers: { etag?: string } }>
+  ): Promise<T> {
+    const cached = GitHubService.responseCache.get(key)
+    try {
+      const response = await send(cached ? { 'if-none-match': cached.etag } : {})
+      if (response.headers.etag) {
+        GitHubService.remember(GitHubService.responseCache, key, { etag: response.headers.etag, data: response.data }, RESPONSE_CACHE_LIMIT)
+      }
+      return response.data
+    } catch (error) {
+      if ((error as RequestErrorLike).status === 304 && cached) {
+        return cached.data as T
+      }
+      throw error
+    }
+  }
+
+  private static remember<V>(cache: Map<string, V>, key: string, value: V, limit: number) {
+    cache.delete(key)
+    cache.set(key, value)
+    if (cache.size > limit) {
+      cache.delete(cache.keys().next().value as string)
+    }
   }
 
   async getRepositoryContents(owner: string, repo: string, path = '') {
@@ -32,11 +202,14 @@ export class GitHubService {
 
   async getFileContent(owner: string, repo: string, path: string) {
     try {
-      const { data } = await this.octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path
-      })
+      const data = await this.conditionalRequest(`contents:${owner}/${repo}:${path}`, headers =>
+        this.octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          headers
+        })
+      )
       
       if (Array.isArray(data)) {
         throw new Error('Path is a directory, not a file')
@@ -67,12 +240,15 @@ export class GitHubService {
 
   async getRepositoryTree(owner: string, repo: string, branch = 'main') {
     try {
-      const { data } = await this.octokit.rest.git.getTree({
-        owner,
-        repo,
-        tree_sha: branch,
-        recursive: 'true'
-      })
+      const data = await this.conditionalRequest(`tree:${owner}/${repo}:${branch}`, headers =>
+        this.octokit.rest.git.getTree({
+          owner,
+          repo,
+          tree_sha: branch,
+          recursive: 'true',
+          headers
+        })
+      )
       return data.tree
     } catch (error: any) {
       if (error.status === 404) {
@@ -85,6 +261,68 @@ export class GitHubService {
     }
   }
 
+  // Blob contents by SHA; the tree listing already provides the SHA and blobs never change
+  async getBlobContent(owner: string, repo: string, sha: string) {
+    const cached = GitHubService.blobCache.get(sha)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const { data } = await this.octokit.rest.git.getBlob({
+      owner,
+      repo,
+      file_sha: sha
+    })
+    const content = Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8')
+    GitHubService.remember(GitHubService.blobCache, sha, content, BLOB_CACHE_LIMIT)
+    return content
+  }
+
+  // Fetch many blobs through a bounded worker pool; failures are collected per path
+  async getBlobContents(
+    owner: string,
+    repo: string,
+    files: BlobRequest[],
+    options: { concurrency?: number, onProgress?: (progress: BlobFetchProgress) => void } = {}
+  ): Promise<BlobFetchResult> {
+    const contents = new Map<string, string>()
+    const errors = new Map<string, string>()
+    let completed = 0
+
+    await mapWithConcurrency(files, options.concurrency ?? 8, async file => {
+      try {
+        contents.set(file.path, await this.getBlobContent(owner, repo, file.sha))
+      } catch (error) {
+        errors.set(file.path, error instanceof Error ? error.message : String(error))
+      }
+      completed++
+      options.onProgress?.({
+        completed,
+        failed: errors.size,
+        total: files.length,
+        path: file.path,
+        rateLimit: this.getRateLimit()
+      })
+    })
+
+    return { contents, errors }
+  }
+
+  // Whole repository at `ref` as a gzipped tarball, in a single request
+  async getTarball(owner: string, repo: string, ref: string): Promise<Buffer> {
+    try {
+      const { data } = await this.octokit.rest.repos.downloadTarballArchive({
+        owner,
+        repo,
+        ref
+      })
+      return Buffer.from(data as ArrayBuffer)
+    } catch (error) {
+      console.error('Error downloading repository tarball:', error)
+      throw error
+    }
+  }
+
   async getRepositoryInfo(owner: string, repo: string) {
     try {
       const { data } = await this.octokit.rest.repos.get({
@@ -103,15 +341,14 @@ export class GitHubService {
     try {
       const tree = await this.getRepositoryTree(owner, repo, branch)
       
-      // Create ignore checker by reading .gitignore from the repository
+      // Create ignore checker from every .gitignore/.lookasignore in the tree, read by blob SHA
+      const blobShas = new Map(
+        tree.filter(item => item.type === 'blob' && item.path && item.sha).map(item => [item.path!, item.sha!])
+      )
       const ignoreChecker = await createIgnoreChecker(async (path: string) => {
-        try {
-          const fileContent = await this.getFileContent(owner, repo, path)
-          return fileContent ? fileContent.content : null
-        } catch (error) {
-          return null // File doesn't exist
-        }
-      })
+        const sha = blobShas.get(path)
+        return sha ? this.getBlobContent(owner, repo, sha) : null // File doesn't exist
+      }, [...blobShas.keys()])
       
       // Filter out files using ignore patterns
       const codeFiles = tree.filter(item => 
@@ -0,0 +1,203 @@
+// Utility for graph layout
+// Force-directed and layered node positions for the codebase graph, computed in the browser
+
+export interface LayoutNode {
+  id: string
+  cluster: string
+}
+
+export interface LayoutEdge {
+  source: string
+  target: string
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export type LayoutKind = 'force' | 'hierarchical'
+
+const NODE_SPACING = 70
+const LAYER_SPACING = 110
+const FORCE_ITERATIONS = 250
+const CLUSTER_GRAVITY = 0.08
+const CENTER_GRAVITY = 0.01
+
+// Fruchterman-Reingold with an extra pull towards each node's cluster, so
+// directories (or doc-path prefixes) settle as groups. Starting positions are
+// deterministic, so the same graph always gets the same picture.
+export function forceLayout(nodes: LayoutNode[], edges: LayoutEdge[], iterations: number = FORCE_ITERATIONS): Map<string, Point> {
+  const positions = new Map<string, Point>()
+  if (nodes.length === 0) return positions
+
+  const clusters = [...new Set(nodes.map(node => node.cluster))].sort()
+  const ringRadius = NODE_SPACING * Math.sqrt(nodes.length)
+  const clusterSeeds = new Map(clusters.map((cluster, index) => {
+    const angle = (2 * Math.PI * index) / clusters.length
+    return [cluster, clusters.length === 1
+      ? { x: 0, y: 0 }
+      : { x: ringRadius * Math.cos(angle), y: ringRadius * Math.sin(angle) }]
+  }))
+  nodes.forEach((node, index) => {
+    const seed = clusterSeeds.get(node.cluster)!
+    const angle = index * 2.399963 // Golden angle spreads members evenly
+    const radius = NODE_SPACING * 0.5 * Math.sqrt(index % 50 + 1)
+    positions.set(node.id, { x: seed.x + radius * Math.cos(angle), y: seed.y + radius * Math.sin(angle) })
+  })
+
+  const links = edges.filter(edge => edge.source !== edge.target && positions.has(edge.source) && positions.has(edge.target))
+  let temperature = ringRadius / 4
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const forces = new Map(nodes.map(node => [node.id, { x: 0, y: 0 }]))
+
+    for (let i = 0; i < nodes.length; i++) {
+      const a = positions.get(nodes[i].id)!
+      const forceA = forces.get(nodes[i].id)!
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = positions.get(nodes[j].id)!
+        const dx = a.x - b.x
+        const dy = a.y - b.y
+        const distance = Math.max(Math.hypot(dx, dy), 1)
+        const repulsion = (NODE_SPACING * NODE_SPACING) / distance
+        const forceB = forces.get(nodes[j].id)!
+        forceA.x += (dx / distance) * repulsion
+        forceA.y += (dy / distance) * repulsion
+        forceB.x -= (dx / distance) * repulsion
+        forceB.y -= (dy / distance) * repulsion
+      }
+    }
+
+    for (const edge of links) {
+      const a = positions.get(edge.source)!
+      const b = positions.get(edge.target)!
+      const dx = a.x - b.x
+      const dy = a.y - b.y
+      const distance = Math.max(Math.hypot(dx, dy), 1)
+      const attraction = (distance * distance) / NODE_SPACING
+      const forceA = forces.get(edge.source)!
+      const forceB = forces.get(edge.target)!
+      forceA.x -= (dx / distance) * attraction
+      forceA.y -= (dy / distance) * attraction
+      forceB.x += (dx / distance) * attraction
+      forceB.y += (dy / distance) * attraction
+    }
+
+    const centroids = getCentroids(nodes, positions)
+    for (const node of nodes) {
+      const position = positions.get(node.id)!
+      const force = forces.get(node.id)!
+      const centroid = centroids.get(node.cluster)!
+      force.x += (centroid.x - position.x) * CLUSTER_GRAVITY * NODE_SPACING / 10 - position.x * CENTER_GRAVITY
+      force.y += (centroid.y - position.y) * CLUSTER_GRAVITY * NODE_SPACING / 10 - position.y * CENTER_GRAVITY
+
+      const magnitude = Math.max(Math.hypot(force.x, force.y), 0.01)
+      const step = Math.min(magnitude, temperature)
+      position.x += (force.x / magnitude) * step
+      position.y += (force.y / magnitude) * step
+    }
+
+    temperature = Math.max(temperature * 0.97, 1)
+  }
+
+  return positions
+}
+
+// Layers follow the edges: a node sits below everything pointing at it, so
+// dependencies end up under their dependents. Cycles are broken at the edge
+// that closes them. Within a layer nodes are grouped by cluster and then
+// ordered by where their parents are, which keeps crossings down.
+export function hierarchicalLayout(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, Point> {
+  const ids = new Set(nodes.map(node => node.id))
+  const outgoing = new Map(nodes.map(node => [node.id, [] as string[]]))
+  for (const edge of edges) {
+    if (edge.source !== edge.target && ids.has(edge.source) && ids.has(edge.target)) {
+      outgoing.get(edge.source)!.push(edge.target)
+    }
+  }
+
+  // Depth-first search keeps only forward and cross edges
+  const acyclic = new Map(nodes.map(node => [node.id, [] as string[]]))
+  const state = new Map<string, 'visiting' | 'done'>()
+  const visit = (root: string) => {
+    const stack: { id: string, next: number }[] = [{ id: root, next: 0 }]
+    state.set(root, 'visiting')
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]
+      const targets = outgoing.get(frame.id)!
+      if (frame.next >= targets.length) {
+        state.set(frame.id, 'done')
+        stack.pop()
+        continue
+      }
+      const target = targets[frame.next++]
+      if (state.get(target) === 'visiting') continue
+      acyclic.get(frame.id)!.push(target)
+      if (!state.has(target)) {
+        state.set(target, 'visiting')
+        stack.push({ id: target, next: 0 })
+      }
+    }
+  }
+  for (const node of nodes) {
+    if (!state.has(node.id)) visit(node.id)
+  }
+
+  // Longest path from a root, in topological order
+  const incoming = new Map(nodes.map(node => [node.id, 0]))
+  for (const targets of acyclic.values()) {
+    for (const target of targets) incoming.set(target, incoming.get(target)! + 1)
+  }
+  const layerOf = new Map(nodes.map(node => [node.id, 0]))
+  const parents = new Map(nodes.map(node => [node.id, [] as string[]]))
+  const queue = nodes.filter(node => incoming.get(node.id) === 0).map(node => node.id)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const target of acyclic.get(id)!) {
+      layerOf.set(target, Math.max(layerOf.get(target)!, layerOf.get(id)! + 1))
+      parents.get(target)!.push(id)
+      incoming.set(target, incoming.get(target)! - 1)
+      if (incoming.get(target) === 0) queue.push(target)
+    }
+  }
+
+  const layers: LayoutNode[][] = []
+  for (const node of nodes) {
+    const layer = layerOf.get(node.id)!
+    layers[layer] = layers[layer] ?? []
+    layers[layer].push(node)
+  }
+
+  const positions = new Map<string, Point>()
+  layers.forEach((layer, depth) => {
+    const parentX = (node: LayoutNode) => {
+      const xs = parents.get(node.id)!.map(parent => positions.get(parent)?.x ?? 0)
+      return xs.length > 0 ? xs.reduce((sum, x) => sum + x, 0) / xs.length : 0
+    }
+    const ordered = [...layer].sort((a, b) =>
+      a.cluster.localeCompare(b.cluster) || parentX(a) - parentX(b) || a.id.localeCompare(b.id))
+    const width = (ordered.length - 1) * NODE_SPACING
+    ordered.forEach((node, index) => {
+      positions.set(node.id, { x: index * NODE_SPACING - width / 2, y: depth * LAYER_SPACING })
+    })
+  })
+  return positions
+}
+
+export function layoutGraph(kind: LayoutKind, nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, Point> {
+  return kind === 'hierarchical' ? hierarchicalLayout(nodes, edges) : forceLayout(nodes, edges)
+}
+
+function getCentroids(nodes: LayoutNode[], positions: Map<string, Point>): Map<string, Point> {
+  const sums = new Map<string, { x: number, y: number, count: number }>()
+  for (const node of nodes) {
+    const position = positions.get(node.id)!
+    const sum = sums.get(node.cluster) ?? { x: 0, y: 0, count: 0 }
+    sum.x += position.x
+    sum.y += position.y
+    sum.count++
+    sums.set(node.cluster, sum)
+  }
+  return new Map([...sums.entries()].map(([cluster, sum]) => [cluster, { x: sum.x / sum.count, y: sum.y / sum.count }]))
+}
@@ -1,12 +1,108 @@
 // Utility for handling file ignore patterns
-// Reads .gitignore and provides fallback patterns
+// Reads .gitignore (root and nested) plus .lookasignore and applies gitignore semantics
 
 export interface IgnoreChecker {
-  isIgnored(filePath: string): boolean
+  isIgnored(filePath: string, isDirectory?: boolean): boolean
+}
+
+export const GITIGNORE_FILE = '.gitignore'
+// Project-specific excludes, evaluated after every .gitignore rule
+export const LOOKASIGNORE_FILE = '.lookasignore'
+
+interface IgnoreRule {
+  base: string // Directory of the ignore file, '' for the repository root
+  pattern: string
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+// Translates a gitignore glob into a regular expression body
+function globToRegex(glob: string): string {
+  let source = ''
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*') {
+      const isDoubleStar = glob[i + 1] === '*' &&
+        (i === 0 || glob[i - 1] === '/') &&
+        (i + 2 === glob.length || glob[i + 2] === '/')
+
+      if (isDoubleStar) {
+        // "**/" matches zero or more directories, a trailing "/**" everything inside
+        if (i + 2 === glob.length) {
+          source += '.*'
+          i += 1
+        } else {
+          source += '(?:.*/)?'
+          i += 2
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const close = glob.indexOf(']', glob[i + 1] === ']' ? i + 2 : i + 1)
+      if (close === -1) {
+        source += '\\['
+        continue
+      }
+      let range = glob.slice(i + 1, close).replace(/\\/g, '\\\\')
+      const negated = range.startsWith('!') || range.startsWith('^')
+      if (negated) range = range.slice(1)
+      source += negated ? `[^/${range}]` : `[${range}]`
+      i = close
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+
+  return source
+}
+
+// Compiles one gitignore-style pattern (without "!" negation) into a matcher
+function compilePattern(pattern: string): { regex: RegExp, directoryOnly: boolean } {
+  let glob = pattern
+  let directoryOnly = false
+  if (glob.endsWith('/')) {
+    directoryOnly = true
+    glob = glob.replace(/\/+$/, '')
+  }
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = glob.includes('/')
+  const body = globToRegex(glob.startsWith('/') ? glob.slice(1) : glob)
+
+  return {
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    directoryOnly
+  }
+}
+
+// Tests paths against gitignore-style globs; a path also matches when one of
+// its parent directories does (used for include/exclude lists)
+export function createGlobMatcher(patterns: string[]): (filePath: string) => boolean {
+  const compiled = patterns.map(compilePattern)
+
+  return filePath => {
+    const segments = filePath.split('/')
+    return segments.some((_, index) => {
+      const candidate = segments.slice(0, index + 1).join('/')
+      const isDirectory = index < segments.length - 1
+      return compiled.some(rule => (isDirectory || !rule.directoryOnly) && rule.regex.test(candidate))
+    })
+  }
 }
 
 export class GitIgnoreChecker implements IgnoreChecker {
-  private patterns: string[] = []
+  private gitignoreRules: IgnoreRule[] = []
+  private lookasignoreRules: IgnoreRule[] = []
+  // Verdicts for directories, which are checked once per file beneath them
+  private directoryCache = new Map<string, boolean>()
   private ignoredExtensions = new Set([
     // Binary files that should never be analyzed
     'png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'ico', 'webp', 'tiff', 'tif',
@@ -24,29 +120,59 @@ export class GitIgnoreChecker implements IgnoreChecker {
 
   constructor(gitignoreContent?: string) {
     if (gitignoreContent) {
-      this.parseGitignore(gitignoreContent)
+      this.addIgnoreFile(GITIGNORE_FILE, gitignoreContent)
     } else {
       this.loadFallbackPatterns()
     }
   }
 
-  private parseGitignore(content: string): void {
-    const lines = content.split('\n')
-    this.patterns = lines
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#'))
-      .map(line => {
-        // Convert gitignore patterns to our format
-        if (line.startsWith('/')) {
-          return line.slice(1) // Remove leading slash
-        }
-        return line
+  // Registers the rules of an ignore file; parents must be added before their subdirectories
+  addIgnoreFile(filePath: string, content: string): void {
+    const segments = filePath.split('/')
+    const fileName = segments.pop()
+    const base = segments.join('/')
+    const rules = this.parseIgnoreFile(content, base)
+
+    if (fileName === LOOKASIGNORE_FILE) {
+      this.lookasignoreRules.push(...rules)
+    } else {
+      this.gitignoreRules.push(...rules)
+    }
+    this.directoryCache.clear()
+  }
+
+  private parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = []
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      // Trailing spaces are dropped unless escaped with a backslash
+      let line = rawLine.replace(/(?<!\\)\s+$/, '')
+      if (!line || line.startsWith('#')) continue
+
+      let negated = false
+      if (line.startsWith('!')) {
+        negated = true
+        line = line.slice(1)
+      } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+        line = line.slice(1)
+      }
+
+      if (!line.replace(/\/+$/, '')) continue
+
+      rules.push({
+        base,
+        pattern: rawLine.trim(),
+        negated,
+        ...compilePattern(line)
       })
+    }
+
+    return rules
   }
 
   private loadFallbackPatterns(): void {
     // Minimal fallback patterns for essential ignores
-    this.patterns = [
+    this.gitignoreRules = this.parseIgnoreFile([
       'node_modules/',
       '.git/',
       'dist/',
@@ -54,57 +180,104 @@ export class GitIgnoreChecker implements IgnoreChecker {
       '__pycache__/',
       '.DS_Store',
       'Thumbs.db'
-    ]
+    ].join('\n'), '')
   }
 
-  isIgnored(filePath: string): boolean {
+  isIgnored(filePath: string, isDirectory = false): boolean {
+    const path = filePath.replace(/^\/+|\/+$/g, '')
+
     // Always ignore binary file extensions
-    const ext = filePath.split('.').pop()?.toLowerCase() || ''
-    if (this.ignoredExtensions.has(ext)) {
-      return true
+    if (!isDirectory) {
+      const ext = path.split('.').pop()?.toLowerCase() || ''
+      if (this.ignoredExtensions.has(ext)) {
+        return true
+      }
+    }
+
+    // Nothing inside an excluded directory can be re-included
+    const segments = path.split('/')
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (this.isDirectoryIgnored(segments.slice(0, depth).join('/'))) {
+        return true
+      }
     }
 
-    // Check against gitignore patterns
-    return this.patterns.some(pattern => this.matchesPattern(filePath, pattern))
+    return isDirectory ? this.isDirectoryIgnored(path) : this.matchesRules(path, false)
   }
 
-  private matchesPattern(filePath: string, pattern: string): boolean {
-    // Handle directory patterns
-    if (pattern.endsWith('/')) {
-      return filePath.includes(pattern) || filePath.startsWith(pattern.slice(0, -1) + '/')
+  private isDirectoryIgnored(directory: string): boolean {
+    let ignored = this.directoryCache.get(directory)
+    if (ignored === undefined) {
+      ignored = this.matchesRules(directory, true)
+      this.directoryCache.set(directory, ignored)
     }
+    return ignored
+  }
 
-    // Handle glob patterns
-    if (pattern.includes('*')) {
-      const regex = new RegExp(
-        '^' + pattern.replace(/\*/g, '.*').replace(/\?/g, '.') + '$'
-      )
-      return regex.test(filePath) || regex.test(filePath.split('/').pop() || '')
-    }
+  // The last matching rule wins: root before nested .gitignore files, .lookasignore last
+  private matchesRules(path: string, isDirectory: boolean): boolean {
+    let ignored = false
 
-    // Handle negation patterns (!)
-    if (pattern.startsWith('!')) {
-      // This is a negation pattern - would need more complex logic
-      // For now, we'll skip these
-      return false
+    for (const rules of [this.gitignoreRules, this.lookasignoreRules]) {
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue
+        if (rule.base && !path.startsWith(rule.base + '/')) continue
+
+        const relativePath = rule.base ? path.slice(rule.base.length + 1) : path
+        if (rule.regex.test(relativePath)) {
+          ignored = !rule.negated
+        }
+      }
     }
 
-    // Exact match or contains
-    return filePath === pattern || 
-           filePath.includes(pattern) || 
-           filePath.endsWith('/' + pattern) ||
-           filePath.split('/').pop() === pattern
+    return ignored
   }
 }
 
+// Builds a checker from the root .gitignore plus every nested .gitignore and
+// .lookasignore among `filePaths` (when the file listing is known up front)
 export async function createIgnoreChecker(
-  getFileContent: (path: string) => Promise<string | null>
-): Promise<IgnoreChecker> {
+  getFileContent: (path: string) => Promise<string | null>,
+  filePaths: string[] = []
+): Promise<GitIgnoreChecker> {
+  let checker: GitIgnoreChecker
   try {
-    const gitignoreContent = await getFileContent('.gitignore')
-    return new GitIgnoreChecker(gitignoreContent || undefined)
+    const gitignoreContent = await getFileContent(GITIGNORE_FILE)
+    checker = new GitIgnoreChecker(gitignoreContent || undefined)
   } catch {
     console.log('No .gitignore found, using fallback patterns')
-    return new GitIgnoreChecker()
+    checker = new GitIgnoreChecker()
   }
-} 
\ No newline at end of file
+
+  const ignoreFiles = new Set([
+    LOOKASIGNORE_FILE,
+    ...filePaths.filter(filePath => isIgnoreFile(filePath) && filePath !== GITIGNORE_FILE)
+  ])
+
+  // Shallow files first so parents register before their subdirectories
+  const ordered = [...ignoreFiles].sort((a, b) =>
+    a.split('/').length - b.split('/').length || a.localeCompare(b)
+  )
+
+  for (const filePath of ordered) {
+    // Files inside excluded directories never take effect
+    const directory = filePath.split('/').slice(0, -1).join('/')
+    if (directory && checker.isIgnored(directory, true)) continue
+
+    try {
+      const content = await getFileContent(filePath)
+      if (content) {
+        checker.addIgnoreFile(filePath, content)
+      }
+    } catch {
+      // Missing or unreadable ignore files are skipped
+    }
+  }
+
+  return checker
+}
+
+export function isIgnoreFile(filePath: string): boolean {
+  const fileName = filePath.split('/').pop()
+  return fileName === GITIGNORE_FILE || fileName === LOOKASIGNORE_FILE
+}
@@ -0,0 +1,53 @@
+// Utility for markdown rendering
+// Renders generated documentation to HTML, resolving {{link:doc.path}} markers to in-app links
+
+import { Marked, type Tokens } from 'marked'
+
+export interface DocumentLinkTarget {
+  title: string
+  href: string
+}
+
+// Same marker syntax DocGenerator asks for and extractLinks records
+const LINK_MARKER = /^\{\{link:([^}]+)\}\}/
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Markers inside code spans and fences stay literal. A marker whose target has no
+// document renders as a broken link rather than disappearing.
+export function renderMarkdown(content: string, resolveLink: (documentPath: string) => DocumentLinkTarget | null): string {
+  const marked = new Marked({
+    breaks: true,
+    gfm: true,
+    extensions: [{
+      name: 'documentLink',
+      level: 'inline',
+      start: (src: string) => {
+        const index = src.indexOf('{{link:')
+        return index === -1 ? undefined : index
+      },
+      tokenizer: (src: string) => {
+        const match = LINK_MARKER.exec(src)
+        if (!match) return undefined
+        return { type: 'documentLink', raw: match[0], documentPath: match[1].trim() }
+      },
+      renderer: (token: Tokens.Generic) => {
+        const documentPath = token.documentPath as string
+        const target = resolveLink(documentPath)
+        if (!target) {
+          return `<span class="doc-link doc-link-broken" title="No document at ${escapeHtml(documentPath)}">${escapeHtml(documentPath)}</span>`
+        }
+        return `<a class="doc-link" href="${escapeHtml(target.href)}" data-doc-path="${escapeHtml(documentPath)}" title="${escapeHtml(documentPath)}">${escapeHtml(target.title)}</a>`
+      }
+    }]
+  })
+
+  return marked.parse(content, { async: false })
+}
@@ -1,7 +1,25 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 import type { Database } from '@/types/database'
 
+export type DatabaseClient = SupabaseClient<Database>
+
+// Client for code running outside a request (the generation worker). It bypasses
+// RLS, so callers create it explicitly and scope their queries themselves.
+export function createServiceClient(): DatabaseClient {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+}
+
 export async function createClient() {
   const cookieStore = await cookies()
 
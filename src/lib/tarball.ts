@@ -0,0 +1,89 @@
+// Utility for unpacking repository tarballs
+// Minimal ustar/pax reader: regular files only, written below a target directory
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { gunzipSync } from 'zlib'
+
+const BLOCK_SIZE = 512
+
+// Parses the records of a pax extended header ("<len> key=value\n")
+function parsePaxHeader(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space === -1) break
+    const length = parseInt(data.toString('utf-8', offset, space), 10)
+    if (!length) break
+    const record = data.toString('utf-8', space + 1, offset + length - 1)
+    const equals = record.indexOf('=')
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1)
+    }
+    offset += length
+  }
+  return records
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return field.toString('utf-8', 0, end === -1 ? length : end)
+}
+
+function readOctal(block: Buffer, start: number, length: number): number {
+  return parseInt(readString(block, start, length).trim() || '0', 8)
+}
+
+// Extracts a .tar.gz archive into `destination`, dropping the first `strip`
+// path segments (GitHub tarballs wrap everything in "<owner>-<repo>-<sha>/").
+// Returns the relative paths of the extracted files.
+export async function extractTarball(archive: Buffer, destination: string, strip = 1): Promise<string[]> {
+  const tar = gunzipSync(archive)
+  const root = path.resolve(destination)
+  const files: string[] = []
+  let offset = 0
+  let pendingPath: string | null = null
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE)
+    if (header.every(byte => byte === 0)) break
+
+    const size = readOctal(header, 124, 12)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const prefix = readString(header, 345, 155)
+    const name = readString(header, 0, 100)
+    const dataStart = offset + BLOCK_SIZE
+    const data = tar.subarray(dataStart, dataStart + size)
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    if (type === 'x') {
+      pendingPath = parsePaxHeader(data).path ?? pendingPath
+      continue
+    }
+    if (type === 'L') {
+      pendingPath = readString(data, 0, data.length)
+      continue
+    }
+    if (type === 'g') continue
+
+    const entryPath = pendingPath ?? (prefix ? `${prefix}/${name}` : name)
+    pendingPath = null
+    if (type !== '0' && type !== '\0') continue
+
+    const relativePath = entryPath.split('/').slice(strip).join('/')
+    if (!relativePath) continue
+
+    const target = path.resolve(root, relativePath)
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to extract ${entryPath} outside of ${destination}`)
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.writeFile(target, data)
+    files.push(relativePath)
+  }
+
+  return files
+}
@@ -0,0 +1,43 @@
+// Utility for token encryption
+// AES-256-GCM for access tokens that have to be stored, e.g. on queued generation jobs
+
+import crypto from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_BYTES = 12
+const VERSION = 'v1'
+
+// GENERATION_TOKEN_KEY holds 32 random bytes, base64-encoded (`openssl rand -base64 32`)
+export function loadTokenKey(): Buffer {
+  const encoded = process.env.GENERATION_TOKEN_KEY
+  if (!encoded) {
+    throw new Error('GENERATION_TOKEN_KEY is not set')
+  }
+  const key = Buffer.from(encoded, 'base64')
+  if (key.length !== 32) {
+    throw new Error('GENERATION_TOKEN_KEY must be 32 bytes, base64-encoded')
+  }
+  return key
+}
+
+// The context (e.g. user and repository) is authenticated but not stored, so a
+// ciphertext copied to another row does not decrypt
+export function encryptToken(token: string, context: string, key: Buffer = loadTokenKey()): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(context))
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()])
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+export function decryptToken(payload: string, context: string, key: Buffer = loadTokenKey()): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted token format')
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'))
+  decipher.setAAD(Buffer.from(context))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+}
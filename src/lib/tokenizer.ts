@@ -0,0 +1,28 @@
+// Utility for counting tokens
+// Local BPE tokenizer used for prompt budgets and cost estimates
+
+import { Tiktoken } from 'js-tiktoken/lite'
+import o200kBase from 'js-tiktoken/ranks/o200k_base'
+
+// Formatting a chat request adds a few tokens around every message and before the reply
+const MESSAGE_OVERHEAD_TOKENS = 4
+const REPLY_PRIMING_TOKENS = 3
+
+// o200k_base is exact for current OpenAI models and a close approximation for
+// Mistral and self-hosted models. Counts are replaced by the provider's reported
+// usage once a request has been answered.
+let encoder: Tiktoken | undefined
+
+export function countTokens(text: string): number {
+  if (!text) return 0
+  encoder = encoder ?? new Tiktoken(o200kBase)
+  // Special-token markers that appear in source code are counted as plain text
+  return encoder.encode(text, [], []).length
+}
+
+export function countChatTokens(messages: { content: string }[]): number {
+  return messages.reduce(
+    (total, message) => total + MESSAGE_OVERHEAD_TOKENS + countTokens(message.content),
+    REPLY_PRIMING_TOKENS
+  )
+}
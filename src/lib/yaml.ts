@@ -0,0 +1,232 @@
+// Utility for reading small YAML documents
+// Covers the subset used by config files: block mappings and sequences, flow
+// sequences/mappings of scalars, block scalars (| and >), quoted and plain scalars
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue }
+
+export class YamlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`line ${line}: ${message}`)
+    this.name = 'YamlParseError'
+  }
+}
+
+interface YamlLine {
+  indent: number
+  content: string // Text after the indentation, comments not yet stripped
+  line: number
+}
+
+const MAPPING_ENTRY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-[{][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+(.*))?$/
+
+// Removes a trailing comment ("# ..." preceded by whitespace) outside of quotes
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === '\'') {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd()
+    }
+  }
+  return text.trimEnd()
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ')
+}
+
+// Splits flow collection items on top-level commas
+function splitFlowItems(text: string, line: number): string[] {
+  const items: string[] = []
+  let quote: string | null = null
+  let current = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        current += char + (text[++i] ?? '')
+        continue
+      }
+      if (char === quote) quote = null
+    } else if (char === '"' || char === '\'') {
+      quote = char
+    } else if (char === '[' || char === '{') {
+      throw new YamlParseError('Nested flow collections are not supported', line)
+    } else if (char === ',') {
+      items.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (quote) throw new YamlParseError('Unterminated quoted string', line)
+  if (current.trim()) items.push(current.trim())
+  return items
+}
+
+function parseScalar(text: string, line: number): YamlValue {
+  const value = text.trim()
+
+  if (value.startsWith('"')) {
+    if (value.length < 2 || !value.endsWith('"')) throw new YamlParseError('Unterminated quoted string', line)
+    try {
+      return JSON.parse(value) as string
+    } catch {
+      throw new YamlParseError(`Invalid escape sequence in ${value}`, line)
+    }
+  }
+  if (value.startsWith('\'')) {
+    if (value.length < 2 || !value.endsWith('\'')) throw new YamlParseError('Unterminated quoted string', line)
+    return value.slice(1, -1).replace(/''/g, '\'')
+  }
+
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+function parseKey(raw: string, line: number): string {
+  const key = parseScalar(raw, line)
+  return key === null ? '' : String(key)
+}
+
+function parseInlineValue(text: string, line: number): YamlValue {
+  const value = stripComment(text).trim()
+
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw new YamlParseError('Unterminated flow sequence', line)
+    return splitFlowItems(value.slice(1, -1), line).map(item => parseScalar(item, line))
+  }
+
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) throw new YamlParseError('Unterminated flow mapping', line)
+    const mapping: { [key: string]: YamlValue } = {}
+    for (const item of splitFlowItems(value.slice(1, -1), line)) {
+      const match = item.match(MAPPING_ENTRY)
+      if (!match) throw new YamlParseError(`Expected "key: value" in flow mapping, got "${item}"`, line)
+      mapping[parseKey(match[1], line)] = parseScalar(match[2] ?? '', line)
+    }
+    return mapping
+  }
+
+  return parseScalar(value, line)
+}
+
+export function parseYaml(source: string): YamlValue {
+  const lines: YamlLine[] = []
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const indentation = raw.match(/^[ \t]*/)![0]
+    const content = raw.slice(indentation.length)
+    if (!content.trim() || content.startsWith('#')) return
+    if (indentation.includes('\t')) {
+      throw new YamlParseError('Tabs are not allowed for indentation', index + 1)
+    }
+    if (content === '---' || content === '...') return
+    lines.push({ indent: indentation.length, content, line: index + 1 })
+  })
+
+  let position = 0
+
+  const parseNode = (indent: number): YamlValue => {
+    const current = lines[position]
+    if (isSequenceItem(current.content)) return parseSequence(indent)
+    if (MAPPING_ENTRY.test(stripComment(current.content))) return parseMapping(indent)
+    position++
+    return parseInlineValue(current.content, current.line)
+  }
+
+  // Value of a "key:" or "-" with nothing after it: a nested block or null
+  const parseNestedValue = (parentIndent: number, allowSequenceAtSameIndent: boolean): YamlValue => {
+    const next = lines[position]
+    if (next && next.indent > parentIndent) return parseNode(next.indent)
+    if (next && allowSequenceAtSameIndent && next.indent === parentIndent && isSequenceItem(next.content)) {
+      return parseSequence(parentIndent)
+    }
+    return null
+  }
+
+  const parseBlockScalar = (parentIndent: number, style: string): string => {
+    const collected: string[] = []
+    const blockIndent = lines[position]?.indent
+    while (position < lines.length && lines[position].indent > parentIndent) {
+      const current = lines[position]
+      collected.push(' '.repeat(current.indent - blockIndent) + current.content)
+      position++
+    }
+    return style.startsWith('|') ? collected.join('\n') : collected.join(' ')
+  }
+
+  const parseMapping = (indent: number): YamlValue => {
+    const mapping: { [key: string]: YamlValue } = {}
+
+    while (position < lines.length && lines[position].indent === indent && !isSequenceItem(lines[position].content)) {
+      const current = lines[position]
+      const match = stripComment(current.content).match(MAPPING_ENTRY)
+      if (!match) throw new YamlParseError(`Expected "key: value", got "${current.content.trim()}"`, current.line)
+
+      const key = parseKey(match[1], current.line)
+      if (key in mapping) throw new YamlParseError(`Duplicate key "${key}"`, current.line)
+      position++
+
+      const rest = match[2]?.trim()
+      if (!rest) {
+        mapping[key] = parseNestedValue(indent, true)
+      } else if (/^[|>][+-]?$/.test(rest)) {
+        mapping[key] = parseBlockScalar(indent, rest)
+      } else {
+        mapping[key] = parseInlineValue(rest, current.line)
+      }
+
+      if (position < lines.length && lines[position].indent > indent) {
+        throw new YamlParseError('Unexpected indentation', lines[position].line)
+      }
+    }
+
+    return mapping
+  }
+
+  const parseSequence = (indent: number): YamlValue => {
+    const sequence: YamlValue[] = []
+
+    while (position < lines.length && lines[position].indent === indent && isSequenceItem(lines[position].content)) {
+      const current = lines[position]
+      const rest = current.content.slice(1).trimStart()
+
+      if (!rest) {
+        position++
+        sequence.push(parseNestedValue(indent, false))
+      } else if (MAPPING_ENTRY.test(stripComment(rest))) {
+        // "- key: value" opens a mapping whose keys line up after the dash
+        const itemIndent = indent + (current.content.length - rest.length)
+        lines[position] = { indent: itemIndent, content: rest, line: current.line }
+        sequence.push(parseMapping(itemIndent))
+      } else {
+        position++
+        sequence.push(parseInlineValue(rest, current.line))
+      }
+
+      if (position < lines.length && lines[position].indent > indent) {
+        throw new YamlParseError('Unexpected indentation', lines[position].line)
+      }
+    }
+
+    return sequence
+  }
+
+  if (lines.length === 0) return null
+
+  const document = parseNode(lines[0].indent)
+  if (position < lines.length) {
+    throw new YamlParseError('Unexpected content after the document', lines[position].line)
+  }
+  return document
+}
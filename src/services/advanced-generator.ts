@@ -1,18 +1,60 @@
 // Advanced Generator Service
 // Main orchestrator for the advanced AI documentation generation pipeline
 
-import { createClient } from '@/lib/supabase/server'
-import { GitHubService } from '@/lib/github'
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
+import { RateLimitState, RateLimitWait } from '@/lib/github'
 import { ComponentExtractorFactory, Component, Artifact } from './component-extractor'
+import { RelationResolver } from './relation-resolver'
 import { Planner, WorkPlan, WorkPlanItem } from './planner'
-import { DocGenerator, GenerationResult } from './doc-generator'
+import { DocGenerator, GenerationConfig, GenerationResult, RepositoryInfo } from './doc-generator'
 import { ContextLoader } from './context-loader'
+import { GenerationScheduler, SchedulerOptions, SchedulerProgress, buildDocumentDependencies, getSchedulerOptions } from './generation-scheduler'
+import { BudgetStatus, BudgetTracker, BudgetUsage, loadBudgetStatus } from './generation-budget'
+import { SourceProvider, createSourceProvider } from './source-provider'
+import { FakeLLMProvider, LLMProvider, LLMRetryEvent, isStubMode } from './llm-provider'
+import { EmbeddingProvider, FakeEmbeddingProvider } from './embedding-provider'
+import { SearchIndex } from './search-index'
+import { OnboardingPathGenerator } from './onboarding-generator'
+import {
+  ConfigIssue,
+  DEFAULT_REPOSITORY_CONFIG,
+  REPOSITORY_CONFIG_FILES,
+  RepositoryConfig,
+  RepositoryConfigError,
+  createPathFilter,
+  formatConfigIssue,
+  parseRepositoryConfig
+} from './repository-config'
 import crypto from 'crypto'
 
+// Structured progress updates, streamed next to the plain log lines
+export interface FetchProgressEvent {
+  stage: 'fetch'
+  completed: number
+  failed: number
+  total: number
+  path?: string
+  rateLimit?: RateLimitState
+  // Set while requests are paused on a GitHub rate limit
+  waiting?: RateLimitWait & { until: string }
+}
+
+// Documents being generated right now, and any wait on the token budget
+export interface GenerationProgressEvent extends SchedulerProgress {
+  stage: 'generate'
+  sessionId: string // What the cancel and resume endpoints take
+  failed: number
+  spent: BudgetUsage // This session so far
+  remaining: BudgetStatus['remaining'] // Monthly budget left when the session started
+}
+
+export type ProgressEvent = FetchProgressEvent | GenerationProgressEvent
+
 // Logger interface for dependency injection
 export interface Logger {
   log(...args: any[]): void
   error(...args: any[]): void
+  progress?(event: ProgressEvent): void
 }
 
 // Default console logger
@@ -24,9 +66,15 @@ const defaultLogger: Logger = {
 export interface AdvancedGenerationResult {
   success: boolean
   documentsGenerated: number
+  documentsSkipped: number
+  documentsFailed: number
+  documentsSkippedForBudget: number
+  cancelled: boolean // Stopped between work items; the session can be resumed
   linksCreated: number
   totalCost: number
   error?: string
+  // Validation problems in .lookas.yml, when that is why the run failed
+  configIssues?: ConfigIssue[]
   sessionId: string
   metrics: {
     discoveryTimeMs: number
@@ -39,31 +87,113 @@ export interface AdvancedGenerationResult {
   }
 }
 
+// Recorded in planning_sessions.metadata.failed_documents for the retry action
+export interface FailedDocument {
+  docPath: string
+  error: string
+}
+
 export interface GenerationSession {
   id: string
   repositoryId: string
   sessionType: 'full' | 'incremental'
-  status: 'planning' | 'generating' | 'completed' | 'failed'
+  status: 'planning' | 'generating' | 'completed' | 'failed' | 'cancelled'
   workPlan: WorkPlan
   progress: {
     completed: number
     total: number
-    currentItem?: string
+    inFlight?: string[]
   }
+  failedDocuments: FailedDocument[]
+  skippedBudget: string[] // Doc paths not started once the monthly budget was reached
+  cancelRequestedAt?: string
   startedAt: string
   completedAt?: string
   error?: string
 }
 
+// planning_sessions row as the retry and resume paths read it
+interface StoredSession {
+  status: GenerationSession['status']
+  work_plan: WorkPlan | null
+  started_at: string
+  metadata: {
+    failed_documents?: FailedDocument[]
+    skipped_budget?: string[]
+    skipped_documents?: string[] // Not generated by the session's last run (unchanged or done earlier)
+    updated_at?: string
+  } | null
+}
+
+// A session that cannot be cancelled, retried or resumed in its current state
+export class SessionStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionStateError'
+  }
+}
+
+// Pre-flight view of a run: what it would generate and its worst-case spend
+export interface GenerationEstimate {
+  documents: number
+  documentsSkipped: number // Unchanged documents of an incremental run
+  tokens: number
+  costUsd: number
+  budget: BudgetStatus
+  exceedsBudget: boolean
+}
+
+// Paths of the current tree compared to the artifacts stored by the previous run
+export interface ArtifactChanges {
+  added: Set<string>
+  modified: Set<string>
+  removed: Set<string>
+  unchanged: Set<string>
+}
+
+export interface AdvancedGeneratorOptions {
+  // Overrides provider selection for every document (tests inject FakeLLMProvider)
+  llmProvider?: LLMProvider
+  // Overrides the search index's embedding provider (tests inject FakeEmbeddingProvider)
+  embeddingProvider?: EmbeddingProvider
+  // Overrides GENERATION_CONCURRENCY and LLM_TOKENS_PER_MINUTE
+  scheduler?: SchedulerOptions
+  // Cancels the run between work items, e.g. when the client disconnects
+  signal?: AbortSignal
+  // The generation worker runs outside a request and passes its service client;
+  // without one, queries run as the signed-in user of the current request
+  supabase?: DatabaseClient
+}
+
+export { isStubMode }
+
 export class AdvancedGenerator {
+  // Parallel GitHub requests while loading file contents
+  private static readonly FETCH_CONCURRENCY = 8
+  // A generating session without progress for this long is taken as abandoned (crashed server)
+  private static readonly STALE_SESSION_MS = 15 * 60 * 1000
+
   private readonly planner: Planner
   private readonly docGenerator: DocGenerator
   private readonly contextLoader: ContextLoader
-
-  constructor() {
+  private readonly searchIndex: SearchIndex
+  private readonly onboardingGenerator: OnboardingPathGenerator
+
+  private readonly stubMode: boolean
+  private readonly schedulerOptions: SchedulerOptions
+  private readonly signal?: AbortSignal
+  private readonly supabase?: DatabaseClient
+
+  constructor(options: AdvancedGeneratorOptions = {}) {
+    this.stubMode = isStubMode()
+    this.schedulerOptions = options.scheduler ?? getSchedulerOptions()
+    this.signal = options.signal
+    this.supabase = options.supabase
     this.planner = new Planner()
-    this.docGenerator = new DocGenerator()
-    this.contextLoader = new ContextLoader()
+    this.docGenerator = new DocGenerator(options.llmProvider ?? (this.stubMode ? new FakeLLMProvider() : undefined), this.supabase)
+    this.contextLoader = new ContextLoader(this.supabase)
+    this.searchIndex = new SearchIndex(options.embeddingProvider ?? (this.stubMode ? new FakeEmbeddingProvider() : undefined), this.supabase)
+    this.onboardingGenerator = new OnboardingPathGenerator(this.supabase)
   }
 
   async generateDocumentation(
@@ -71,10 +201,12 @@ export class AdvancedGenerator {
     githubToken: string,
     sessionType: 'full' | 'incremental' = 'full',
     pruneOutdated: boolean = true,
-    logger: Logger = defaultLogger
+    logger: Logger = defaultLogger,
+    sourceProvider?: SourceProvider,
+    // Given by the job queue so subscribers can follow the session before it is planned
+    sessionId: string = this.generateSessionId()
   ): Promise<AdvancedGenerationResult> {
     const startTime = Date.now()
-    const sessionId = this.generateSessionId()
     
     let discoveryTime = 0
     let extractionTime = 0
@@ -87,8 +219,9 @@ export class AdvancedGenerator {
     logger.log(`   Session Type: ${sessionType}`)
     logger.log(`   Started at: ${new Date().toISOString()}`)
 
+    let source = sourceProvider
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
 
       // Get repository info
       logger.log(`📋 Loading repository information...`)
@@ -106,65 +239,122 @@ export class AdvancedGenerator {
       logger.log(`   Language: ${repository.language || 'Mixed'}`)
       logger.log(`   Branch: ${repository.default_branch}`)
 
+      source = source ?? createSourceProvider(repository, githubToken, this.stubMode ? 'local' : undefined)
+      logger.log(`   Source: ${source.description}`)
+      if (this.stubMode) {
+        logger.log(`   🧪 Stub mode: fake LLM provider, no network access`)
+      }
+
       // Phase 1: Discovery
       logger.log(`\n🔍 Phase 1: Artifact Discovery`)
       const discoveryStart = Date.now()
-      const artifacts = await this.discoverArtifacts(repository, githubToken, logger)
+      const { artifacts, config } = await this.discoverArtifacts(repository, source, logger)
       discoveryTime = Date.now() - discoveryStart
       logger.log(`   ✅ Discovery completed in ${discoveryTime}ms`)
 
+      // Incremental runs diff the tree against the stored blob SHAs
+      const changes = sessionType === 'incremental'
+        ? await this.diffArtifacts(repositoryId, artifacts, logger)
+        : null
+      const storedComponents = changes ? await this.loadStoredComponents(repositoryId) : []
+
       // Phase 2: Component Extraction
       logger.log(`\n🧩 Phase 2: Component Extraction`)
       const extractionStart = Date.now()
-      const components = await this.extractComponents(repositoryId, artifacts, githubToken, logger)
+      const { components, sourceFiles } = await this.extractComponents(
+        repositoryId,
+        artifacts,
+        source,
+        logger,
+        changes,
+        storedComponents
+      )
       extractionTime = Date.now() - extractionStart
       logger.log(`   ✅ Extraction completed in ${extractionTime}ms`)
 
       // Phase 3: Planning
       logger.log(`\n📝 Phase 3: Work Planning`)
       const planningStart = Date.now()
-      const workPlan = await this.createWorkPlan(repositoryId, components, sessionType, logger)
-      await this.savePlanningSession(sessionId, repositoryId, workPlan)
+      const generationConfig = this.getGenerationConfig(config)
+      const workPlan = await this.createWorkPlan(
+        repositoryId,
+        repository,
+        components,
+        sourceFiles,
+        sessionType,
+        config,
+        generationConfig,
+        logger
+      )
+      await this.savePlanningSession(sessionId, repositoryId, workPlan, generationConfig)
       planningTime = Date.now() - planningStart
       logger.log(`   ✅ Planning completed in ${planningTime}ms`)
       logger.log(`   📄 ${workPlan.items.length} documents planned for generation`)
 
+      const skippedDocuments = changes
+        ? await this.findSkippableDocuments(repositoryId, workPlan, components, storedComponents, changes, logger)
+        : new Map<string, string>()
+
+      // Incremental runs only read changed files; regenerated docs also need their unchanged ones
+      await this.loadMissingSources(workPlan, components, artifacts, skippedDocuments, sourceFiles, source, logger)
+
       // Phase 4: Generation
       logger.log(`\n🤖 Phase 4: AI Document Generation`)
       const generationStart = Date.now()
-      const generationResults = await this.executeWorkPlan(
+      const { results: generationResults, skippedForBudget, cancelled } = await this.executeWorkPlan(
         sessionId,
         repositoryId,
         workPlan,
         components,
         repository,
         pruneOutdated,
-        logger
+        logger,
+        skippedDocuments,
+        generationConfig,
+        sourceFiles
       )
       generationTime = Date.now() - generationStart
       logger.log(`   ✅ Generation completed in ${generationTime}ms`)
 
-      // Update repository status
-      logger.log(`\n💾 Updating repository status...`)
-      await supabase
-        .from('repositories')
-        .update({
-          analysis_status: 'completed',
-          last_analyzed_at: new Date().toISOString()
-        })
-        .eq('id', repositoryId)
+      // A cancelled run has not analyzed the whole repository yet
+      if (!cancelled) {
+        logger.log(`\n💾 Updating repository status...`)
+        await supabase
+          .from('repositories')
+          .update({
+            analysis_status: 'completed',
+            last_analyzed_at: new Date().toISOString()
+          })
+          .eq('id', repositoryId)
+      }
+
+      // Documents saved before a cancel are searchable too
+      await this.updateSearchIndex(repositoryId, logger, { components, sourceFiles })
+      await this.updateOnboardingPaths(repositoryId, workPlan, sessionId, logger)
 
       const totalTime = Date.now() - startTime
       const totalCost = generationResults.reduce((sum, result) => 
         sum + (result.metrics.costEstimated || 0), 0
       )
       const successfulDocs = generationResults.filter(r => r.success).length
+      const failedDocs = generationResults.length - successfulDocs
       const totalLinks = generationResults.reduce((sum, result) => 
         sum + (result.links?.length || 0), 0
       )
 
-      logger.log(`\n🎉 Generation Complete!`)
+      logger.log(cancelled ? `\n⏹️  Generation Cancelled` : `\n🎉 Generation Complete!`)
       logger.log(`   ✅ ${successfulDocs}/${generationResults.length} documents generated successfully`)
+      if (skippedDocuments.size > 0) {
+        logger.log(`   ⏭️  ${skippedDocuments.size} documents skipped (unchanged)`)
+      }
+      if (skippedForBudget.length > 0) {
+        logger.log(`   💸 ${skippedForBudget.length} documents skipped for budget`)
+      }
+      if (cancelled) {
+        logger.log(`   ▶️  The remaining documents can be generated by resuming this session`)
+      } else if (failedDocs + skippedForBudget.length > 0) {
+        logger.log(`   🔁 ${failedDocs + skippedForBudget.length} failed or skipped documents can be retried from this session`)
+      }
       logger.log(`   🔗 ${totalLinks} cross-references created`)
       logger.log(`   💰 Total cost: $${totalCost.toFixed(4)}`)
       logger.log(`   ⏱️  Total time: ${totalTime}ms`)
@@ -177,6 +367,10 @@ export class AdvancedGenerator {
       return {
         success: true,
         documentsGenerated: successfulDocs,
+        documentsSkipped: skippedDocuments.size,
+        documentsFailed: failedDocs,
+        documentsSkippedForBudget: skippedForBudget.length,
+        cancelled,
         linksCreated: totalLinks,
         totalCost,
         sessionId,
@@ -204,9 +398,14 @@ export class AdvancedGenerator {
       return {
         success: false,
         documentsGenerated: 0,
+        documentsSkipped: 0,
+        documentsFailed: 0,
+        documentsSkippedForBudget: 0,
+        cancelled: false,
         linksCreated: 0,
         totalCost: 0,
         error: error instanceof Error ? error.message : 'Unknown error',
+        configIssues: error instanceof RepositoryConfigError ? error.issues : undefined,
         sessionId,
         metrics: {
           discoveryTimeMs: discoveryTime,
@@ -218,23 +417,375 @@ export class AdvancedGenerator {
           artifactsDiscovered: 0
         }
       }
+    } finally {
+      // Temporary checkouts (tarball provider) are removed once the run ends
+      await source?.dispose().catch(error => logger.error('Failed to clean up source provider:', error))
     }
   }
 
-  private async discoverArtifacts(repository: any, githubToken: string, logger: Logger): Promise<Artifact[]> {
-    const github = new GitHubService(githubToken)
-    const [owner, repo] = repository.full_name.split('/')
+  // Runs discovery, extraction and planning without storing anything or calling the
+  // LLM, and prices the plan's worst case against the monthly budget. Only files
+  // changed since the stored analysis are read, so a visit to the generate page
+  // costs a tree listing rather than a full fetch.
+  async estimateGeneration(
+    repositoryId: string,
+    githubToken: string,
+    sessionType: 'full' | 'incremental' = 'full',
+    logger: Logger = defaultLogger,
+    sourceProvider?: SourceProvider
+  ): Promise<GenerationEstimate> {
+    const supabase = this.supabase ?? await createClient()
+    let source = sourceProvider
+
+    try {
+      const { data: repository } = await supabase
+        .from('repositories')
+        .select('*')
+        .eq('id', repositoryId)
+        .single()
+
+      if (!repository) {
+        throw new Error('Repository not found')
+      }
+
+      source = source ?? createSourceProvider(repository, githubToken, this.stubMode ? 'local' : undefined)
+      const { artifacts, config } = await this.discoverArtifacts(repository, source, logger)
+
+      // Only the tree is listed. With a previous analysis, just the files changed since
+      // are read and everything else comes from the stored components, for full runs too.
+      const changes = await this.diffArtifacts(repositoryId, artifacts, logger)
+      const storedComponents = changes ? await this.loadStoredComponents(repositoryId) : []
+      const { components, sourceFiles } = await this.extractComponents(
+        repositoryId,
+        artifacts,
+        source,
+        logger,
+        changes,
+        storedComponents,
+        false
+      )
+
+      const generationConfig = this.getGenerationConfig(config)
+      const workPlan = await this.createWorkPlan(repositoryId, repository, components, sourceFiles, sessionType, config, generationConfig, logger)
+      const skippedDocuments = changes && sessionType === 'incremental'
+        ? await this.findSkippableDocuments(repositoryId, workPlan, components, storedComponents, changes, logger)
+        : new Map<string, string>()
+
+      // Unchanged files were not read, so their source is missing from the new prompt
+      // estimates; the previous plan's estimate of the same document still counts it
+      const previousEstimates = new Map(
+        (changes ? (await this.loadLatestWorkPlan(repositoryId))?.items ?? [] : [])
+          .map(item => [item.docPath, item.estimatedTokens])
+      )
+      const usage = workPlan.items
+        .filter(item => !skippedDocuments.has(item.docPath))
+        .map(item => this.docGenerator.estimateUsage({
+          ...item,
+          estimatedTokens: Math.max(item.estimatedTokens, previousEstimates.get(item.docPath) ?? 0)
+        }, generationConfig))
+      const tokens = usage.reduce((sum, item) => sum + item.tokens, 0)
+      const costUsd = usage.reduce((sum, item) => sum + item.costUsd, 0)
+      const budget = await loadBudgetStatus(repositoryId, this.supabase)
+
+      return {
+        documents: usage.length,
+        documentsSkipped: skippedDocuments.size,
+        tokens,
+        costUsd,
+        budget,
+        exceedsBudget: (budget.remaining.tokens !== null && tokens > budget.remaining.tokens) ||
+          (budget.remaining.costUsd !== null && costUsd > budget.remaining.costUsd)
+      }
+    } finally {
+      await source?.dispose().catch(error => logger.error('Failed to clean up source provider:', error))
+    }
+  }
+
+  // Regenerates the documents a finished session failed on or skipped for budget, within that session.
+  // Components come from the last analysis; sources and .lookas.yml are read again.
+  async retryFailedDocuments(
+    repositoryId: string,
+    sessionId: string,
+    githubToken: string,
+    logger: Logger = defaultLogger,
+    sourceProvider?: SourceProvider
+  ): Promise<AdvancedGenerationResult> {
+    logger.log(`🔁 Retrying failed documents`)
+    logger.log(`   Session ID: ${sessionId}`)
+
+    return this.continueSession(repositoryId, sessionId, githubToken, logger, sourceProvider, async (session, workPlan) => {
+      if (session.status !== 'completed') {
+        throw new SessionStateError(`Only finished sessions can be retried (this one is ${session.status})`)
+      }
+
+      const failedDocuments = session.metadata?.failed_documents || []
+      const budgetSkipped = session.metadata?.skipped_budget || []
+      const failedPaths = new Set([...failedDocuments.map(document => document.docPath), ...budgetSkipped])
+      if (!workPlan.items.some(item => failedPaths.has(item.docPath))) {
+        throw new SessionStateError('This session has no failed or budget-skipped documents to retry')
+      }
+
+      failedDocuments.forEach(document => logger.log(`   ❌ ${document.docPath}: ${document.error}`))
+      budgetSkipped.forEach(docPath => logger.log(`   💸 ${docPath}: skipped_budget`))
+
+      return new Map(workPlan.items
+        .filter(item => !failedPaths.has(item.docPath))
+        .map(item => [item.docPath, 'generated earlier in this session'] as [string, string]))
+    })
+  }
+
+  // Continues a cancelled, failed or abandoned session from its saved work plan. Documents
+  // the session already saved (metadata.session_id) or skipped as unchanged are not regenerated.
+  async resumeSession(
+    repositoryId: string,
+    sessionId: string,
+    githubToken: string,
+    logger: Logger = defaultLogger,
+    sourceProvider?: SourceProvider
+  ): Promise<AdvancedGenerationResult> {
+    logger.log(`▶️  Resuming generation session`)
+    logger.log(`   Session ID: ${sessionId}`)
+
+    return this.continueSession(repositoryId, sessionId, githubToken, logger, sourceProvider, async (session, workPlan) => {
+      if (session.status === 'completed') {
+        throw new SessionStateError('This session has finished; retry its failed documents instead')
+      }
+      if (session.status !== 'cancelled' && session.status !== 'failed' && !this.isSessionStale(session)) {
+        throw new SessionStateError('This session is still running; cancel it before resuming')
+      }
+
+      const supabase = this.supabase ?? await createClient()
+      const { data: savedDocuments, error } = await supabase
+        .from('documents')
+        .select('document_path')
+        .eq('repository_id', repositoryId)
+        .eq('metadata->>session_id', sessionId)
+
+      if (error) {
+        throw new Error(`Failed to load the session's documents: ${error.message}`)
+      }
+
+      const done = new Map<string, string>()
+      for (const docPath of session.metadata?.skipped_documents || []) {
+        done.set(docPath, 'skipped earlier in this session')
+      }
+      for (const document of savedDocuments || []) {
+        done.set(document.document_path, 'generated earlier in this session')
+      }
+
+      const remaining = workPlan.items.filter(item => !done.has(item.docPath)).length
+      logger.log(`   ${workPlan.items.length - remaining} of ${workPlan.items.length} documents already done, ${remaining} left`)
+      return done
+    })
+  }
+
+  // Asks a running session to stop before its next work item. A session whose generator
+  // is gone (no progress for STALE_SESSION_MS) is marked cancelled at once.
+  async cancelSession(repositoryId: string, sessionId: string): Promise<'cancelling' | 'cancelled'> {
+    const supabase = this.supabase ?? await createClient()
+
+    const { data } = await supabase
+      .from('planning_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('repository_id', repositoryId)
+      .single()
+
+    if (!data) {
+      throw new SessionStateError('Generation session not found')
+    }
+    const session = data as StoredSession
+    if (session.status !== 'generating') {
+      throw new SessionStateError(`Only running sessions can be cancelled (this one is ${session.status})`)
+    }
 
+    const now = new Date().toISOString()
+    const abandoned = this.isSessionStale(session)
+    const { error } = await supabase
+      .from('planning_sessions')
+      .update(abandoned
+        ? { cancel_requested_at: now, status: 'cancelled', completed_at: now }
+        : { cancel_requested_at: now })
+      .eq('id', sessionId)
+
+    if (error) {
+      throw new Error(`Failed to cancel the session: ${error.message}`)
+    }
+
+    return abandoned ? 'cancelled' : 'cancelling'
+  }
+
+  private isSessionStale(session: StoredSession): boolean {
+    const lastActivity = Date.parse(session.metadata?.updated_at || session.started_at)
+    return Date.now() - lastActivity > AdvancedGenerator.STALE_SESSION_MS
+  }
+
+  // Shared by retry and resume: reopens the session and generates every item of its
+  // saved work plan except the ones `selectDone` returns (doc path → reason)
+  private async continueSession(
+    repositoryId: string,
+    sessionId: string,
+    githubToken: string,
+    logger: Logger,
+    sourceProvider: SourceProvider | undefined,
+    selectDone: (session: StoredSession, workPlan: WorkPlan) => Promise<Map<string, string>>
+  ): Promise<AdvancedGenerationResult> {
+    const startTime = Date.now()
+    let generationStarted = false
+    let source = sourceProvider
+
+    try {
+      const supabase = this.supabase ?? await createClient()
+
+      const { data } = await supabase
+        .from('planning_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('repository_id', repositoryId)
+        .single()
+
+      if (!data) {
+        throw new SessionStateError('Generation session not found')
+      }
+      const session = data as StoredSession
+      if (!session.work_plan) {
+        throw new SessionStateError('This session stopped before its work plan was saved; start a new generation')
+      }
+
+      // The whole plan is kept so relation links still span every document
+      const workPlan = session.work_plan
+      const doneDocuments = await selectDone(session, workPlan)
+
+      const { data: repository } = await supabase
+        .from('repositories')
+        .select('*')
+        .eq('id', repositoryId)
+        .single()
+
+      if (!repository) {
+        throw new Error('Repository not found')
+      }
+
+      source = source ?? createSourceProvider(repository, githubToken, this.stubMode ? 'local' : undefined)
+      logger.log(`   Repository: ${repository.full_name}`)
+      logger.log(`   Source: ${source.description}`)
+
+      const { artifacts, config } = await this.discoverArtifacts(repository, source, logger)
+      const components = await this.loadStoredComponents(repositoryId)
+      const sourceFiles = new Map<string, string>()
+      await this.loadMissingSources(workPlan, components, artifacts, doneDocuments, sourceFiles, source, logger)
+
+      await supabase
+        .from('planning_sessions')
+        .update({ status: 'generating', completed_at: null, error_message: null, cancel_requested_at: null })
+        .eq('id', sessionId)
+      generationStarted = true
+
+      logger.log(`\n🤖 Regenerating ${workPlan.items.length - doneDocuments.size} documents`)
+      const generationStart = Date.now()
+      const { results, skippedForBudget, cancelled } = await this.executeWorkPlan(
+        sessionId,
+        repositoryId,
+        workPlan,
+        components,
+        repository,
+        false,
+        logger,
+        doneDocuments,
+        this.getGenerationConfig(config),
+        sourceFiles
+      )
+      const generationTime = Date.now() - generationStart
+
+      await this.updateSearchIndex(repositoryId, logger, { components, sourceFiles })
+      await this.updateOnboardingPaths(repositoryId, workPlan, sessionId, logger)
+
+      const successfulDocs = results.filter(result => result.success).length
+      const totalCost = results.reduce((sum, result) => sum + (result.metrics.costEstimated || 0), 0)
+      logger.log(cancelled
+        ? `\n⏹️  Cancelled after regenerating ${successfulDocs}/${results.length} documents; resume the session to continue`
+        : `\n🎉 Complete! ${successfulDocs}/${results.length} documents regenerated`)
+
+      return {
+        success: true,
+        documentsGenerated: successfulDocs,
+        documentsSkipped: 0,
+        documentsFailed: results.length - successfulDocs,
+        documentsSkippedForBudget: skippedForBudget.length,
+        cancelled,
+        linksCreated: results.reduce((sum, result) => sum + (result.links?.length || 0), 0),
+        totalCost,
+        sessionId,
+        metrics: {
+          discoveryTimeMs: 0,
+          extractionTimeMs: 0,
+          planningTimeMs: 0,
+          generationTimeMs: generationTime,
+          totalTimeMs: Date.now() - startTime,
+          componentsExtracted: components.length,
+          artifactsDiscovered: artifacts.length
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      logger.log(`\n❌ Failed!`)
+      logger.log(`   Error: ${message}`)
+
+      // A session that was never reopened keeps its previous state
+      if (generationStarted) {
+        await this.markSessionFailed(sessionId, message)
+      }
+
+      return {
+        success: false,
+        documentsGenerated: 0,
+        documentsSkipped: 0,
+        documentsFailed: 0,
+        documentsSkippedForBudget: 0,
+        cancelled: false,
+        linksCreated: 0,
+        totalCost: 0,
+        error: message,
+        configIssues: error instanceof RepositoryConfigError ? error.issues : undefined,
+        sessionId,
+        metrics: {
+          discoveryTimeMs: 0,
+          extractionTimeMs: 0,
+          planningTimeMs: 0,
+          generationTimeMs: 0,
+          totalTimeMs: Date.now() - startTime,
+          componentsExtracted: 0,
+          artifactsDiscovered: 0
+        }
+      }
+    } finally {
+      await source?.dispose().catch(error => logger.error('Failed to clean up source provider:', error))
+    }
+  }
+
+  private async discoverArtifacts(
+    repository: any,
+    source: SourceProvider,
+    logger: Logger
+  ): Promise<{ artifacts: Artifact[], config: RepositoryConfig }> {
     // Get repository structure
-    const codeFiles = await github.getCodeFiles(owner, repo, repository.default_branch)
+    const listedFiles = await source.listFiles()
     
     logger.log(`📁 Repository Discovery for ${repository.full_name}:`)
-    logger.log(`   Total files found: ${codeFiles.length}`)
+    logger.log(`   Total files found: ${listedFiles.length}`)
+
+    // .lookas.yml include/exclude globs narrow the listing further
+    const config = await this.loadRepositoryConfig(listedFiles, source, logger)
+    const isSelected = createPathFilter(config)
+    const codeFiles = listedFiles.filter(file => isSelected(file.path))
+    if (codeFiles.length < listedFiles.length) {
+      logger.log(`   🚫 ${listedFiles.length - codeFiles.length} files excluded by include/exclude settings`)
+    }
     
-    // The GitHub service already filters using .gitignore, so we just need to map to artifacts
+    // The source provider already filters using .gitignore, so we just need to map to artifacts
     logger.log(`📋 Files that will be analyzed:`)
     codeFiles.forEach((file, index) => {
-      const ext = file.path!.split('.').pop()?.toLowerCase() || ''
+      const ext = file.path.split('.').pop()?.toLowerCase() || ''
       const language = this.mapExtensionToLanguage(ext)
       logger.log(`   ${index + 1}. ${file.path} (${language})`)
     })
@@ -259,81 +810,258 @@ export class AdvancedGenerator {
       })
     }
 
-    return artifacts
+    return { artifacts, config }
   }
 
-  private async extractComponents(repositoryId: string, artifacts: Artifact[], githubToken: string, logger: Logger): Promise<Component[]> {
-    const supabase = await createClient()
-    const allComponents: Component[] = []
+  private async loadRepositoryConfig(
+    files: { path: string, sha: string, size: number }[],
+    source: SourceProvider,
+    logger: Logger
+  ): Promise<RepositoryConfig> {
+    const configFile = files.find(file => REPOSITORY_CONFIG_FILES.includes(file.path))
+    if (!configFile) {
+      return { ...DEFAULT_REPOSITORY_CONFIG }
+    }
 
-    logger.log(`🧩 Starting component extraction from ${artifacts.length} artifacts...`)
+    const { contents, errors } = await source.readFiles([configFile])
+    if (errors.has(configFile.path)) {
+      throw new Error(`Could not read ${configFile.path}: ${errors.get(configFile.path)}`)
+    }
 
-    // Store artifacts in database (this can upsert safely)
-    const artifactRecords = artifacts.map(artifact => ({
-      repository_id: repositoryId,
-      artifact_id: artifact.id,
-      path: artifact.path,
-      language: artifact.language,
-      size: artifact.size,
-      hash: artifact.hash,
-      artifact_type: artifact.type,
-      metadata: { extracted_at: new Date().toISOString() }
-    }))
+    try {
+      const config = parseRepositoryConfig(configFile.path, contents.get(configFile.path) || '', {
+        strategies: this.planner.getStrategyNames()
+      })
+      const settings = [
+        config.include.length > 0 && `include ${config.include.join(', ')}`,
+        config.exclude.length > 0 && `exclude ${config.exclude.join(', ')}`,
+        config.strategy && `strategy ${config.strategy}`,
+        Object.keys(config.docPathPrefixes).length > 0 && `${Object.keys(config.docPathPrefixes).length} doc path prefixes`,
+        config.provider && `provider ${config.provider}`,
+        config.model && `model ${config.model}`,
+        config.audience && `audience ${config.audience}`,
+        config.maxDocuments && `max ${config.maxDocuments} documents`,
+        Object.keys(config.glossary).length > 0 && `${Object.keys(config.glossary).length} glossary terms`
+      ].filter(Boolean)
+      logger.log(`   ⚙️  Using ${configFile.path}${settings.length > 0 ? `: ${settings.join('; ')}` : ' (defaults)'}`)
+      return config
+    } catch (error) {
+      if (error instanceof RepositoryConfigError) {
+        logger.error(`   ❌ ${error.file} has ${error.issues.length} problem${error.issues.length === 1 ? '' : 's'}:`)
+        error.issues.forEach(issue => logger.error(`      • ${formatConfigIssue(issue)}`))
+      }
+      throw error
+    }
+  }
 
-    await supabase.from('artifacts').upsert(artifactRecords)
-    logger.log(`   📦 Stored ${artifactRecords.length} artifacts in database`)
+  // Only the settings the repository actually set override DocGenerator defaults
+  private getGenerationConfig(config: RepositoryConfig): Partial<GenerationConfig> {
+    return {
+      ...(config.provider ? { provider: config.provider } : {}),
+      ...(config.model ? { model: config.model } : {}),
+      ...(config.fallbackModels ? { fallbackModels: config.fallbackModels } : {}),
+      ...(config.audience ? { audience: config.audience } : {}),
+      glossary: config.glossary
+    }
+  }
 
-    // Get repository details
-    const { data: repoData } = await supabase
-      .from('repositories')
-      .select('full_name')
-      .eq('id', repositoryId)
-      .single()
+  private async diffArtifacts(repositoryId: string, artifacts: Artifact[], logger: Logger): Promise<ArtifactChanges | null> {
+    const supabase = this.supabase ?? await createClient()
 
-    if (!repoData) {
-      throw new Error('Repository not found')
+    logger.log(`   🔎 Comparing repository tree with the previous analysis...`)
+    const { data: storedArtifacts, error } = await supabase
+      .from('artifacts')
+      .select('path, hash, updated_at')
+      .eq('repository_id', repositoryId)
+      .order('updated_at', { ascending: true })
+
+    if (error) {
+      logger.log(`   ⚠️  Could not load stored artifacts (${error.message}), falling back to a full run`)
+      return null
     }
 
-    const [owner, repo] = repoData.full_name.split('/')
-    const github = new GitHubService(githubToken)
+    if (!storedArtifacts || storedArtifacts.length === 0) {
+      logger.log(`   ⚠️  No previous analysis found, falling back to a full run`)
+      return null
+    }
+
+    // Latest row wins when a path was stored under several blob SHAs
+    const storedHashes = new Map<string, string | null>()
+    storedArtifacts.forEach(artifact => storedHashes.set(artifact.path, artifact.hash))
+
+    const changes: ArtifactChanges = {
+      added: new Set(),
+      modified: new Set(),
+      removed: new Set(),
+      unchanged: new Set()
+    }
 
-    // Extract components from each artifact
     for (const artifact of artifacts) {
-      const extractor = ComponentExtractorFactory.getExtractor(artifact.language)
-      if (extractor) {
-        logger.log(`   🔍 Extracting components from ${artifact.path} (${artifact.language})...`)
-        
-        try {
-          // Fetch file content from GitHub
-          logger.log(`      📄 Fetching content for ${artifact.path}...`)
-          const fileData = await github.getFileContent(owner, repo, artifact.path)
-          
-          if (fileData && fileData.content) {
-            // Add content to artifact
-            const artifactWithContent: Artifact = {
-              ...artifact,
-              content: fileData.content
-            }
-            
-            logger.log(`      ✅ Content loaded (${fileData.content.length} chars)`)
-            const components = await extractor.extractComponents(artifactWithContent)
-            allComponents.push(...components)
-            logger.log(`      Found ${components.length} components: ${components.map(c => `${c.name}(${c.type})`).join(', ')}`)
-          } else {
-            logger.log(`      ⚠️  No content available for ${artifact.path}`)
+      if (!storedHashes.has(artifact.path)) {
+        changes.added.add(artifact.path)
+      } else if (storedHashes.get(artifact.path) !== artifact.hash) {
+        changes.modified.add(artifact.path)
+      } else {
+        changes.unchanged.add(artifact.path)
+      }
+    }
+
+    const currentPaths = new Set(artifacts.map(artifact => artifact.path))
+    storedHashes.forEach((_, path) => {
+      if (!currentPaths.has(path)) changes.removed.add(path)
+    })
+
+    logger.log(`   📊 ${changes.added.size} added, ${changes.modified.size} modified, ${changes.removed.size} removed, ${changes.unchanged.size} unchanged`)
+    changes.added.forEach(path => logger.log(`      ➕ ${path}`))
+    changes.modified.forEach(path => logger.log(`      ✏️  ${path}`))
+    changes.removed.forEach(path => logger.log(`      ➖ ${path}`))
+
+    return changes
+  }
+
+  private async loadStoredComponents(repositoryId: string): Promise<Component[]> {
+    const supabase = this.supabase ?? await createClient()
+
+    const { data, error } = await supabase
+      .from('components')
+      .select('component_id, name, component_type, parent_path, start_line, end_line, relations, metadata')
+      .eq('repository_id', repositoryId)
+
+    if (error || !data) {
+      throw new Error(`Failed to load stored components: ${error?.message}`)
+    }
+
+    return data.map(row => ({
+      id: row.component_id,
+      name: row.name,
+      type: row.component_type as Component['type'],
+      parentPath: row.parent_path || '',
+      startLine: row.start_line ?? undefined,
+      endLine: row.end_line ?? undefined,
+      relations: (row.relations || []) as unknown as Component['relations'],
+      metadata: (row.metadata || {}) as Component['metadata']
+    }))
+  }
+
+  private async extractComponents(
+    repositoryId: string,
+    artifacts: Artifact[],
+    source: SourceProvider,
+    logger: Logger,
+    changes: ArtifactChanges | null = null,
+    storedComponents: Component[] = [],
+    persist: boolean = true // Pre-flight estimates leave stored components and artifacts untouched
+  ): Promise<{ components: Component[], sourceFiles: Map<string, string> }> {
+    const supabase = this.supabase ?? await createClient()
+    const allComponents: Component[] = []
+
+    // Incremental runs only refetch files whose blob SHA changed
+    const artifactsToExtract = changes
+      ? artifacts.filter(artifact => changes.added.has(artifact.path) || changes.modified.has(artifact.path))
+      : artifacts
+
+    logger.log(`🧩 Starting component extraction from ${artifactsToExtract.length} artifacts...`)
+
+    const fetchProgress: FetchProgressEvent = { stage: 'fetch', completed: 0, failed: 0, total: 0 }
+    const extractable = artifactsToExtract.filter(artifact => {
+      if (ComponentExtractorFactory.getExtractor(artifact.language)) return true
+      logger.log(`   ⏭️  No extractor available for ${artifact.language} (${artifact.path})`)
+      return false
+    })
+
+    // Contents are read by SHA through a bounded worker pool
+    logger.log(`   📄 Fetching ${extractable.length} files from ${source.description} (${AdvancedGenerator.FETCH_CONCURRENCY} in parallel)...`)
+    fetchProgress.total = extractable.length
+    logger.progress?.({ ...fetchProgress })
+    let nextProgressLog = 0.25
+    const { contents, errors } = await source.readFiles(
+      extractable.map(artifact => ({ path: artifact.path, sha: artifact.hash, size: artifact.size })),
+      {
+        concurrency: AdvancedGenerator.FETCH_CONCURRENCY,
+        onRateLimit: wait => {
+          const until = new Date(Date.now() + wait.waitMs).toISOString()
+          logger.log(`   ⏳ GitHub ${wait.reason} rate limit hit, pausing requests until ${until}`)
+          logger.progress?.({ ...fetchProgress, rateLimit: source.getRateLimit?.(), waiting: { ...wait, until } })
+        },
+        onProgress: progress => {
+          Object.assign(fetchProgress, { completed: progress.completed, failed: progress.failed })
+          logger.progress?.({ ...fetchProgress, path: progress.path, rateLimit: progress.rateLimit })
+          if (progress.completed / progress.total >= nextProgressLog) {
+            logger.log(`      📥 Fetched ${progress.completed}/${progress.total} files`)
+            nextProgressLog += 0.25
           }
-        } catch (error) {
-          logger.log(`      ❌ Error fetching content for ${artifact.path}: ${error}`)
         }
-      } else {
-        logger.log(`   ⏭️  No extractor available for ${artifact.language} (${artifact.path})`)
+      }
+    )
+
+    const rateLimit = source.getRateLimit?.()
+    const quota = rateLimit?.remaining != null ? `, ${rateLimit.remaining}/${rateLimit.limit} GitHub requests left` : ''
+    logger.log(`   ✅ Contents loaded (${contents.size} files, ${errors.size} failed${quota})`)
+
+    // Files that could not be fetched or extracted; their components are missing this run
+    const failedPaths = new Set<string>()
+
+    // Extract components from each artifact
+    for (const artifact of extractable) {
+      const extractor = ComponentExtractorFactory.getExtractor(artifact.language)
+      const content = contents.get(artifact.path)
+      if (!extractor) continue
+
+      if (errors.has(artifact.path)) {
+        logger.log(`      ❌ Error fetching content for ${artifact.path}: ${errors.get(artifact.path)}`)
+        failedPaths.add(artifact.path)
+        continue
+      }
+      if (!content) {
+        logger.log(`      ⚠️  No content available for ${artifact.path}`)
+        continue
+      }
+
+      logger.log(`   🔍 Extracting components from ${artifact.path} (${artifact.language}, ${content.length} chars)...`)
+      try {
+        const components = await extractor.extractComponents({ ...artifact, content })
+        allComponents.push(...components)
+        logger.log(`      Found ${components.length} components: ${components.map(c => `${c.name}(${c.type})`).join(', ')}`)
+      } catch (error) {
+        logger.log(`      ❌ Error extracting components from ${artifact.path}: ${error}`)
+        failedPaths.add(artifact.path)
       }
     }
 
     logger.log(`🎯 Total components extracted: ${allComponents.length}`)
 
-    // Delete existing components for this repository to ensure clean overwrite
-    if (allComponents.length > 0) {
+    // Components of untouched files are reused as stored, relations included
+    const reusedComponents = changes
+      ? storedComponents.filter(component => changes.unchanged.has(component.parentPath))
+      : []
+    if (changes) {
+      logger.log(`   ♻️  Reusing ${reusedComponents.length} components from ${changes.unchanged.size} unchanged files`)
+    }
+
+    // Rewrite raw import/call targets into component ids now that every file is known
+    await this.resolveRelations([...reusedComponents, ...allComponents], artifacts, source, logger)
+
+    if (!persist) {
+      return { components: [...reusedComponents, ...allComponents], sourceFiles: contents }
+    }
+
+    if (changes) {
+      // Only rows belonging to changed or deleted files are replaced
+      const stalePaths = [...changes.added, ...changes.modified, ...changes.removed]
+      if (stalePaths.length > 0) {
+        logger.log(`   🗑️  Clearing components of ${stalePaths.length} changed files...`)
+        const { error: deleteError } = await supabase
+          .from('components')
+          .delete()
+          .eq('repository_id', repositoryId)
+          .in('parent_path', stalePaths)
+
+        if (deleteError) {
+          console.error('Error deleting changed components:', deleteError)
+        }
+      }
+    } else if (allComponents.length > 0) {
+      // Delete existing components for this repository to ensure clean overwrite
       logger.log(`   🗑️  Clearing existing components for repository...`)
       const { error: deleteError } = await supabase
         .from('components')
@@ -345,7 +1073,9 @@ export class AdvancedGenerator {
       } else {
         logger.log(`   ✅ Existing components cleared`)
       }
+    }
 
+    if (allComponents.length > 0) {
       // Insert new components (fresh insert, not upsert)
       const componentRecords = allComponents.map(component => ({
         repository_id: repositoryId,
@@ -369,39 +1099,175 @@ export class AdvancedGenerator {
       }
     }
 
-    return allComponents
+    // Artifacts are stored last, without the files that failed: the next run finds no
+    // stored SHA for them and extracts them again instead of taking them as unchanged
+    if (failedPaths.size > 0) {
+      logger.log(`   ⚠️  ${failedPaths.size} files failed and will be extracted again on the next run`)
+    }
+    await this.storeArtifacts(repositoryId, artifacts.filter(artifact => !failedPaths.has(artifact.path)), logger)
+
+    // Contents stay loaded so generation prompts can quote the source
+    return { components: [...reusedComponents, ...allComponents], sourceFiles: contents }
+  }
+
+  private async storeArtifacts(repositoryId: string, artifacts: Artifact[], logger: Logger): Promise<void> {
+    const supabase = this.supabase ?? await createClient()
+
+    // Drop rows for deleted files and for previous SHAs of changed files
+    const currentArtifactIds = new Set(artifacts.map(artifact => artifact.id))
+    const { data: storedArtifacts } = await supabase
+      .from('artifacts')
+      .select('id, artifact_id')
+      .eq('repository_id', repositoryId)
+
+    const staleIds = (storedArtifacts || [])
+      .filter(artifact => !currentArtifactIds.has(artifact.artifact_id))
+      .map(artifact => artifact.id)
+
+    if (staleIds.length > 0) {
+      const { error } = await supabase.from('artifacts').delete().in('id', staleIds)
+      if (error) {
+        console.error('Error deleting stale artifacts:', error)
+      }
+    }
+
+    const artifactRecords = artifacts.map(artifact => ({
+      repository_id: repositoryId,
+      artifact_id: artifact.id,
+      path: artifact.path,
+      language: artifact.language,
+      size: artifact.size,
+      hash: artifact.hash,
+      artifact_type: artifact.type,
+      metadata: { extracted_at: new Date().toISOString() },
+      updated_at: new Date().toISOString()
+    }))
+
+    const { error } = await supabase
+      .from('artifacts')
+      .upsert(artifactRecords, { onConflict: 'repository_id,artifact_id' })
+
+    if (error) {
+      console.error('Error storing artifacts:', error)
+    } else {
+      logger.log(`   📦 Stored ${artifactRecords.length} artifacts in database`)
+    }
+  }
+
+  private async resolveRelations(
+    components: Component[],
+    artifacts: Artifact[],
+    source: SourceProvider,
+    logger: Logger
+  ): Promise<void> {
+    logger.log(`   🔗 Resolving component relations...`)
+
+    // Path aliases come from tsconfig/jsconfig files, Go module paths from go.mod,
+    // Rust crate names from Cargo.toml
+    const configArtifacts = artifacts.filter(artifact =>
+      /(^|\/)((tsconfig|jsconfig)(\.[\w-]+)?\.json|go\.mod|Cargo\.toml)$/.test(artifact.path)
+    )
+    const { contents, errors } = await source.readFiles(
+      configArtifacts.map(artifact => ({ path: artifact.path, sha: artifact.hash, size: artifact.size })),
+      { concurrency: AdvancedGenerator.FETCH_CONCURRENCY }
+    )
+    errors.forEach((error, path) => logger.log(`      ⚠️  Could not load ${path}: ${error}`))
+    const configFiles = Object.fromEntries(contents)
+
+    if (Object.keys(configFiles).length > 0) {
+      logger.log(`      ⚙️  Using module settings from ${Object.keys(configFiles).join(', ')}`)
+    }
+
+    const resolver = new RelationResolver(artifacts.map(artifact => artifact.path), configFiles)
+    const summary = resolver.resolveRelations(components)
+
+    logger.log(`   ✅ Relations resolved: ${summary.resolved} to components, ${summary.modules} to modules, ${summary.external} external, ${summary.unresolved} unresolved (${summary.dropped} built-in references dropped)`)
   }
 
   private async createWorkPlan(
     repositoryId: string,
+    repository: RepositoryInfo,
     components: Component[],
+    sourceFiles: Map<string, string>,
     sessionType: 'full' | 'incremental',
+    config: RepositoryConfig,
+    generationConfig: Partial<GenerationConfig>,
     logger: Logger
   ): Promise<WorkPlan> {
     logger.log(`   📋 Creating work plan for ${components.length} components...`)
-    const workPlan = await this.planner.createWorkPlan(repositoryId, components, sessionType)
+    const workPlan = await this.planner.createWorkPlan(repositoryId, components, sessionType, config.strategy, {
+      docPathPrefixes: config.docPathPrefixes,
+      maxDocuments: config.maxDocuments,
+      estimatePromptTokens: (item, itemComponents) =>
+        this.docGenerator.estimatePromptTokens(item, itemComponents, repository, sourceFiles, generationConfig)
+    })
+    if (workPlan.metadata.droppedDocuments) {
+      logger.log(`   ✂️  ${workPlan.metadata.droppedDocuments} lower-priority documents dropped (maxDocuments: ${config.maxDocuments})`)
+    }
     
     logger.log(`   📄 Planned documents:`)
     workPlan.items.forEach((item, index) => {
-      logger.log(`      ${index + 1}. ${item.docPath} (${item.documentType}) - ${item.componentIds.length} components`)
+      logger.log(`      ${index + 1}. ${item.docPath} (${item.documentType}) - ${item.componentIds.length} components, ~${item.estimatedTokens} prompt tokens`)
     })
+    logger.log(`   📏 Estimated prompt size: ${workPlan.totalEstimatedTokens} tokens`)
     
     return workPlan
   }
 
+  private async loadMissingSources(
+    workPlan: WorkPlan,
+    components: Component[],
+    artifacts: Artifact[],
+    skippedDocuments: Map<string, string>,
+    sourceFiles: Map<string, string>,
+    source: SourceProvider,
+    logger: Logger
+  ): Promise<void> {
+    const componentIds = new Set(workPlan.items
+      .filter(item => !skippedDocuments.has(item.docPath))
+      .flatMap(item => item.componentIds))
+    const missingPaths = new Set(components
+      .filter(component => componentIds.has(component.id) && !sourceFiles.has(component.parentPath))
+      .map(component => component.parentPath))
+    if (missingPaths.size === 0) return
+
+    logger.log(`   📄 Loading ${missingPaths.size} unchanged files for source snippets...`)
+    const { contents, errors } = await source.readFiles(
+      artifacts
+        .filter(artifact => missingPaths.has(artifact.path))
+        .map(artifact => ({ path: artifact.path, sha: artifact.hash, size: artifact.size })),
+      { concurrency: AdvancedGenerator.FETCH_CONCURRENCY }
+    )
+    contents.forEach((content, path) => sourceFiles.set(path, content))
+    if (errors.size > 0) {
+      logger.log(`   ⚠️  ${errors.size} files could not be loaded; their components are documented without source`)
+    }
+  }
+
   private async savePlanningSession(
     sessionId: string,
     repositoryId: string,
-    workPlan: WorkPlan
+    workPlan: WorkPlan,
+    generationConfig: Partial<GenerationConfig>
   ): Promise<void> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     await supabase.from('planning_sessions').insert({
       id: sessionId,
       repository_id: repositoryId,
       session_type: workPlan.sessionType,
       status: 'generating',
-      work_plan: workPlan,
+      work_plan: {
+        ...workPlan,
+        metadata: {
+          ...workPlan.metadata,
+          llm: {
+            provider: generationConfig.provider,
+            model: generationConfig.model,
+            fallbackModels: generationConfig.fallbackModels
+          }
+        }
+      },
       metadata: {
         created_at: new Date().toISOString()
       }
@@ -415,12 +1281,14 @@ export class AdvancedGenerator {
     allComponents: Component[],
     repository: any,
     pruneOutdated: boolean,
-    logger: Logger
-  ): Promise<GenerationResult[]> {
-    const results: GenerationResult[] = []
-    const supabase = await createClient()
+    logger: Logger,
+    skippedDocuments: Map<string, string> = new Map(),
+    generationConfig: Partial<GenerationConfig> = {},
+    sourceFiles: Map<string, string> = new Map()
+  ): Promise<{ results: GenerationResult[], skippedForBudget: string[], cancelled: boolean }> {
+    const supabase = this.supabase ?? await createClient()
 
-    logger.log(`📝 Starting document generation for ${workPlan.items.length} planned documents...`)
+    logger.log(`📝 Starting document generation for ${workPlan.items.length - skippedDocuments.size} of ${workPlan.items.length} planned documents...`)
 
     // Prune outdated documents before generating new ones (if enabled)
     if (pruneOutdated) {
@@ -429,14 +1297,67 @@ export class AdvancedGenerator {
       logger.log(`   ⏭️  Skipping document pruning (disabled)`)
     }
 
+    // Documents untouched by an incremental run keep their current content
+    skippedDocuments.forEach((reason, docPath) => {
+      logger.log(`   ⏭️  Skipping ${docPath}: ${reason}`)
+    })
+    const itemsToGenerate = workPlan.items.filter(item => !skippedDocuments.has(item.docPath))
+    const skippedPaths = [...skippedDocuments.keys()]
+
     // Update session status
-    await this.updateSessionProgress(sessionId, 0, workPlan.items.length)
+    await this.updateSessionProgress(sessionId, 0, itemsToGenerate.length, [], skippedPaths)
+
+    // Cancellation (the cancel endpoint or a disconnected client) stops new items
+    // from starting; items already in flight finish and are saved
+    let cancelled = false
+    const checkCancelled = async () => {
+      if (cancelled || this.signal?.aborted) {
+        cancelled = true
+        return
+      }
+      const { data: session } = await supabase
+        .from('planning_sessions')
+        .select('cancel_requested_at')
+        .eq('id', sessionId)
+        .single()
+      cancelled = !!session?.cancel_requested_at
+    }
+    await checkCancelled()
+
+    const failedDocuments: FailedDocument[] = []
+
+    // Monthly caps; items reserve their worst case before they start
+    const budget = new BudgetTracker(await loadBudgetStatus(repositoryId, this.supabase))
+    const estimates = new Map(itemsToGenerate.map(item => [item.docPath, this.docGenerator.estimateUsage(item, generationConfig)]))
+    if (budget.isLimited) {
+      const worstCase = [...estimates.values()].reduce((sum, usage) => sum + usage.costUsd, 0)
+      const { tokens, costUsd } = budget.status.remaining
+      logger.log(`   💰 Budget left this month: ${costUsd !== null ? `$${costUsd.toFixed(4)}` : 'no cost cap'}, ${tokens !== null ? `${tokens} tokens` : 'no token cap'} (worst case for this session: $${worstCase.toFixed(4)})`)
+    }
+
+    // Dependencies are generated first and pinned into their dependents' context
+    const dependencies = buildDocumentDependencies(workPlan.items, allComponents)
+    const dependencyCount = [...dependencies.values()].reduce((sum, docPaths) => sum + docPaths.size, 0)
+    const { concurrency, tokensPerMinute } = this.schedulerOptions
+    logger.log(`   🕸️  ${dependencyCount} dependencies between documents; generating up to ${concurrency} at a time${tokensPerMinute ? ` within ${tokensPerMinute} tokens/min` : ''}`)
+
+    let started = 0
+    let completed = 0
+    let inFlight: string[] = []
+
+    const generateItem = async (workItem: WorkPlanItem): Promise<GenerationResult> => {
+      const number = ++started
+      // Lines of concurrent items interleave, so each carries its item number
+      const log = (message: string) => logger.log(message.replace(/^(\s*)/, `$1#${number} `))
+      const itemConfig: Partial<GenerationConfig> = {
+        ...generationConfig,
+        onRetry: (event: LLMRetryEvent) => log(event.fallbackModel
+          ? `      ↪️  ${event.model} failed after ${event.attempt} attempts (${event.error}), falling back to ${event.fallbackModel}`
+          : `      🔁 ${event.model} attempt ${event.attempt} failed (${event.error}), retrying in ${(event.waitMs / 1000).toFixed(1)}s`)
+      }
 
-    for (let i = 0; i < workPlan.items.length; i++) {
-      const workItem = workPlan.items[i]
-      
       try {
-        logger.log(`   📄 Generating document ${i + 1}/${workPlan.items.length}: ${workItem.docPath}`)
+        logger.log(`   📄 #${number}/${itemsToGenerate.length} Generating document: ${workItem.docPath}`)
         
         // Check if document already exists
         const { data: existingDoc } = await supabase
@@ -447,9 +1368,9 @@ export class AdvancedGenerator {
           .single()
 
         if (existingDoc) {
-          logger.log(`      🔄 Document exists, will overwrite: "${existingDoc.title}"`)
+          log(`      🔄 Document exists, will overwrite: "${existingDoc.title}"`)
         } else {
-          logger.log(`      ✨ Creating new document`)
+          log(`      ✨ Creating new document`)
         }
 
         // Get components for this work item
@@ -457,31 +1378,34 @@ export class AdvancedGenerator {
           workItem.componentIds.includes(component.id)
         )
 
-        logger.log(`      🧩 Using ${itemComponents.length} components: ${itemComponents.map(c => c.name).join(', ')}`)
+        log(`      🧩 Using ${itemComponents.length} components: ${itemComponents.map(c => c.name).join(', ')}`)
 
         let result: GenerationResult
 
         if (workItem.documentType === 'overview') {
           // Generate overview document
-          logger.log(`      🌐 Generating overview document...`)
+          log(`      🌐 Generating overview document...`)
           result = await this.docGenerator.generateOverviewDocument(
             repository,
             allComponents.length,
-            workPlan.metadata.totalFiles ? [repository.language] : []
+            workPlan.metadata.totalFiles ? [repository.language] : [],
+            itemConfig
           )
         } else {
           // Generate regular document
-          logger.log(`      🤖 Generating ${workItem.documentType} document...`)
+          log(`      🤖 Generating ${workItem.documentType} document...`)
           result = await this.docGenerator.generateDocument(
             repositoryId,
             workItem,
             itemComponents,
-            repository
+            repository,
+            { ...itemConfig, contextDocPaths: [...(dependencies.get(workItem.docPath) || [])] },
+            sourceFiles
           )
         }
 
         if (result.success && result.document) {
-          logger.log(`      ✅ AI generation successful (${result.metrics.tokensOutput} tokens, $${result.metrics.costEstimated?.toFixed(4) || '0.0000'})`)
+          log(`      ✅ AI generation successful (${result.metrics.modelUsed}, ${result.metrics.tokensOutput} tokens, $${result.metrics.costEstimated?.toFixed(4) || '0.0000'})`)
           
           // Use upsert to handle both new and existing documents
           const documentData = {
@@ -496,7 +1420,9 @@ export class AdvancedGenerator {
               ...workItem.metadata,
               generated_at: new Date().toISOString(),
               session_id: sessionId,
-              overwritten: !!existingDoc
+              overwritten: !!existingDoc,
+              // Title, summary, sections, links and examples for search and onboarding
+              structured: result.document.structured
             }
           }
 
@@ -513,9 +1439,9 @@ export class AdvancedGenerator {
             console.error(`      ❌ Error saving document:`, saveError)
           } else if (savedDoc) {
             if (existingDoc) {
-              logger.log(`      🔄 Document overwritten successfully: "${savedDoc.title}"`)
+              log(`      🔄 Document overwritten successfully: "${savedDoc.title}"`)
             } else {
-              logger.log(`      💾 New document saved successfully: "${savedDoc.title}"`)
+              log(`      💾 New document saved successfully: "${savedDoc.title}"`)
             }
             
             // Save generation metrics
@@ -527,22 +1453,28 @@ export class AdvancedGenerator {
 
             // Save document links
             if (result.links && result.links.length > 0) {
-              logger.log(`      🔗 Creating ${result.links.length} document links...`)
+              log(`      🔗 Creating ${result.links.length} document links...`)
               await this.saveDocumentLinks(savedDoc.id, result.links, repositoryId)
             }
           }
         } else {
-          logger.log(`      ❌ AI generation failed: ${result.error}`)
+          log(`      ❌ AI generation failed: ${result.error}`)
+          failedDocuments.push({ docPath: workItem.docPath, error: result.error || 'Unknown error' })
+          // A failed repair still spent tokens; they count against the monthly budget
+          if (result.metrics.tokensInput + result.metrics.tokensOutput > 0) {
+            await this.docGenerator.saveGenerationMetrics(repositoryId, null, result.metrics)
+          }
         }
 
-        results.push(result)
-
         // Update progress
-        await this.updateSessionProgress(sessionId, i + 1, workPlan.items.length, workItem.docPath)
+        await this.updateSessionProgress(sessionId, ++completed, itemsToGenerate.length, inFlight, skippedPaths)
+        return result
 
       } catch (error) {
         console.error(`❌ Error generating document for ${workItem.docPath}:`, error)
-        results.push({
+        failedDocuments.push({ docPath: workItem.docPath, error: error instanceof Error ? error.message : 'Unknown error' })
+        await this.updateSessionProgress(sessionId, ++completed, itemsToGenerate.length, inFlight, skippedPaths)
+        return {
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error',
           metrics: {
@@ -551,10 +1483,56 @@ export class AdvancedGenerator {
             generationTimeMs: 0,
             modelUsed: 'none'
           }
-        })
+        }
+      }
+    }
+
+    const scheduler = new GenerationScheduler(this.schedulerOptions)
+    const { results, notStarted } = await scheduler.run(
+      itemsToGenerate,
+      dependencies,
+      async workItem => {
+        const result = await generateItem(workItem)
+        const tokensUsed = result.metrics.tokensInput + result.metrics.tokensOutput
+        budget.settle(estimates.get(workItem.docPath)!, { tokens: tokensUsed, costUsd: result.metrics.costEstimated || 0 })
+        await checkCancelled()
+        return { result, tokensUsed }
+      },
+      {
+        onProgress: progress => {
+          inFlight = progress.inFlight
+          logger.progress?.({
+            stage: 'generate',
+            sessionId,
+            failed: failedDocuments.length,
+            spent: budget.sessionSpend,
+            remaining: budget.status.remaining,
+            ...progress
+          })
+        },
+        // Hard stop: once one item would go over a cap, nothing else starts
+        shouldStart: workItem => {
+          if (cancelled || this.signal?.aborted) {
+            cancelled = true
+            logger.log(`   ⏹️  Cancellation requested: no further documents are started`)
+            return false
+          }
+          if (budget.reserve(estimates.get(workItem.docPath)!)) return true
+          logger.log(`   🛑 Monthly budget reached: ${workItem.docPath} could cost up to $${estimates.get(workItem.docPath)!.costUsd.toFixed(4)} (${estimates.get(workItem.docPath)!.tokens} tokens)`)
+          return false
+        }
       }
+    )
+
+    const skippedForBudget = cancelled ? [] : notStarted.map(item => item.docPath)
+    skippedForBudget.forEach(docPath => logger.log(`   💸 Skipping ${docPath}: skipped_budget`))
+    if (cancelled) {
+      logger.log(`   ⏹️  ${notStarted.length} documents not started`)
     }
 
+    // Link documents whose components reference each other in the code
+    await this.saveRelationLinks(repositoryId, workPlan, allComponents, logger)
+
     logger.log(`📚 Document generation complete!`)
     const successfulDocs = results.filter(r => r.success).length
     const failedDocs = results.filter(r => !r.success).length
@@ -562,17 +1540,101 @@ export class AdvancedGenerator {
     if (failedDocs > 0) {
       logger.log(`   ❌ ${failedDocs} documents failed to generate`)
     }
+    if (skippedForBudget.length > 0) {
+      logger.log(`   💸 ${skippedForBudget.length} documents skipped, monthly budget reached`)
+    }
 
-    // Mark session as completed
+    // Mark session as completed (or cancelled, to be resumed); failed and budget-skipped
+    // documents stay listed for a retry
     await supabase
       .from('planning_sessions')
       .update({
-        status: 'completed',
-        completed_at: new Date().toISOString()
+        status: cancelled ? 'cancelled' : 'completed',
+        completed_at: new Date().toISOString(),
+        metadata: {
+          progress: { completed, total: itemsToGenerate.length },
+          failed_documents: failedDocuments,
+          skipped_budget: skippedForBudget,
+          skipped_documents: skippedPaths,
+          spend: budget.sessionSpend,
+          updated_at: new Date().toISOString()
+        }
       })
       .eq('id', sessionId)
 
-    return results
+    return { results, skippedForBudget, cancelled }
+  }
+
+  private async findSkippableDocuments(
+    repositoryId: string,
+    workPlan: WorkPlan,
+    components: Component[],
+    storedComponents: Component[],
+    changes: ArtifactChanges,
+    logger: Logger
+  ): Promise<Map<string, string>> {
+    const supabase = this.supabase ?? await createClient()
+    const skipped = new Map<string, string>()
+
+    const { data: existingDocs } = await supabase
+      .from('documents')
+      .select('document_path, component_ids')
+      .eq('repository_id', repositoryId)
+
+    const existingComponentIds = new Map<string, string[]>()
+    for (const doc of existingDocs || []) {
+      existingComponentIds.set(doc.document_path, (doc.component_ids as string[] | null) || [])
+    }
+
+    // Components declared in changed files, before and after this run
+    const changedPaths = new Set([...changes.added, ...changes.modified, ...changes.removed])
+    // Go imports resolve to package directories rather than files
+    const changedModules = new Set(changedPaths)
+    changedPaths.forEach(path => changedModules.add(path.substring(0, Math.max(0, path.lastIndexOf('/')))))
+    const changedIds = new Set<string>()
+    for (const component of [...storedComponents, ...components]) {
+      if (changedPaths.has(component.parentPath)) {
+        changedIds.add(component.id)
+      }
+    }
+
+    // Unchanged components whose resolved relations point into changed code
+    const dependentIds = new Set<string>()
+    for (const component of components) {
+      if (changedIds.has(component.id)) continue
+      const dependsOnChange = component.relations.some(relation =>
+        (relation.resolution === 'component' && changedIds.has(relation.target)) ||
+        (relation.resolution === 'module' && changedModules.has(relation.target))
+      )
+      if (dependsOnChange) {
+        dependentIds.add(component.id)
+      }
+    }
+
+    logger.log(`   🧮 ${changedIds.size} changed components, ${dependentIds.size} dependent components`)
+
+    for (const item of workPlan.items) {
+      const previousIds = existingComponentIds.get(item.docPath)
+      if (!previousIds) continue
+
+      // Regrouped documents (components moved in or out) must be rewritten
+      const sameComponents = previousIds.length === item.componentIds.length &&
+        item.componentIds.every(id => previousIds.includes(id))
+      if (!sameComponents) continue
+
+      if (item.documentType === 'overview') {
+        if (changes.added.size === 0 && changes.removed.size === 0) {
+          skipped.set(item.docPath, 'no files added or removed')
+        }
+        continue
+      }
+
+      if (item.componentIds.some(id => changedIds.has(id) || dependentIds.has(id))) continue
+
+      skipped.set(item.docPath, `none of its ${item.componentIds.length} components changed or depend on changed code`)
+    }
+
+    return skipped
   }
 
   private async pruneOutdatedDocuments(
@@ -580,7 +1642,7 @@ export class AdvancedGenerator {
     workPlan: WorkPlan,
     logger: Logger
   ): Promise<void> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     try {
       logger.log(`🧹 Pruning outdated documents...`)
@@ -630,15 +1692,8 @@ export class AdvancedGenerator {
         logger.log(`   ⚠️  Warning: Error deleting document links: ${linksError.message}`)
       }
       
-      // Delete generation metrics
-      const { error: metricsError } = await supabase
-        .from('generation_metrics')
-        .delete()
-        .in('document_id', outdatedDocIds)
-      
-      if (metricsError) {
-        logger.log(`   ⚠️  Warning: Error deleting generation metrics: ${metricsError.message}`)
-      }
+      // Generation metrics are kept: they are the month-to-date spend, and lose
+      // only their document_id when it is deleted
       
       // Finally, delete the documents themselves
       const { error: deleteError } = await supabase
@@ -663,7 +1718,7 @@ export class AdvancedGenerator {
     links: any[],
     repositoryId: string
   ): Promise<void> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
 
     // First, remove any existing links from this document to avoid conflicts
     await supabase
@@ -699,27 +1754,140 @@ export class AdvancedGenerator {
     }
   }
 
+  private async saveRelationLinks(
+    repositoryId: string,
+    workPlan: WorkPlan,
+    allComponents: Component[],
+    logger: Logger
+  ): Promise<void> {
+    const supabase = this.supabase ?? await createClient()
+
+    // Overview documents list every component, so they would link to everything
+    const docPathByComponent = new Map<string, string>()
+    for (const item of workPlan.items) {
+      if (item.documentType === 'overview') continue
+      for (const componentId of item.componentIds) {
+        if (!docPathByComponent.has(componentId)) {
+          docPathByComponent.set(componentId, item.docPath)
+        }
+      }
+    }
+
+    const linkKeys = new Set<string>()
+    const pendingLinks: { sourcePath: string, targetPath: string, linkType: string }[] = []
+
+    for (const component of allComponents) {
+      const sourcePath = docPathByComponent.get(component.id)
+      if (!sourcePath) continue
+
+      for (const relation of component.relations) {
+        if (relation.resolution !== 'component') continue
+
+        const targetPath = docPathByComponent.get(relation.target)
+        if (!targetPath || targetPath === sourcePath) continue
+
+        const key = `${sourcePath}|${targetPath}|${relation.type}`
+        if (!linkKeys.has(key)) {
+          linkKeys.add(key)
+          pendingLinks.push({ sourcePath, targetPath, linkType: relation.type })
+        }
+      }
+    }
+
+    if (pendingLinks.length === 0) {
+      logger.log(`   🔗 No cross-document relations found`)
+      return
+    }
+
+    const { data: documents, error: fetchError } = await supabase
+      .from('documents')
+      .select('id, document_path')
+      .eq('repository_id', repositoryId)
+      .in('document_path', Array.from(new Set(pendingLinks.flatMap(link => [link.sourcePath, link.targetPath]))))
+
+    if (fetchError || !documents) {
+      logger.log(`   ⚠️  Could not load documents for relation links: ${fetchError?.message}`)
+      return
+    }
+
+    const documentIds = new Map(documents.map(doc => [doc.document_path, doc.id]))
+    const linkRecords = pendingLinks
+      .filter(link => documentIds.has(link.sourcePath) && documentIds.has(link.targetPath))
+      .map(link => ({
+        source_document_id: documentIds.get(link.sourcePath),
+        target_document_id: documentIds.get(link.targetPath),
+        link_type: link.linkType
+      }))
+
+    if (linkRecords.length === 0) return
+
+    logger.log(`   🔗 Creating ${linkRecords.length} links from resolved component relations...`)
+    const { error } = await supabase
+      .from('document_links')
+      .upsert(linkRecords, {
+        onConflict: 'source_document_id,target_document_id,link_type',
+        ignoreDuplicates: true
+      })
+
+    if (error) {
+      console.error(`   ⚠️  Error saving relation links:`, error)
+    }
+  }
+
   private async updateSessionProgress(
     sessionId: string,
     completed: number,
     total: number,
-    currentItem?: string
+    inFlight: string[] = [],
+    skippedDocuments: string[] = []
   ): Promise<void> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     await supabase
       .from('planning_sessions')
       .update({
         metadata: {
-          progress: { completed, total, currentItem },
+          progress: { completed, total, inFlight },
+          // Kept so a resumed session does not regenerate what this run skipped
+          skipped_documents: skippedDocuments,
           updated_at: new Date().toISOString()
         }
       })
       .eq('id', sessionId)
   }
 
+  // The index only serves search, so a failure is reported without failing the run
+  private async updateSearchIndex(
+    repositoryId: string,
+    logger: Logger,
+    sources: { components: Component[], sourceFiles: Map<string, string> }
+  ): Promise<void> {
+    logger.log(`\n🔎 Updating search index...`)
+    try {
+      const stats = await this.searchIndex.indexRepository(repositoryId, logger, sources)
+      logger.log(`   ✅ ${stats.chunks} passages indexed (${stats.embedded} embedded, ${stats.removed} removed)`)
+    } catch (error) {
+      logger.error(`   ⚠️  Search index not updated: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  private async updateOnboardingPaths(
+    repositoryId: string,
+    workPlan: WorkPlan,
+    sessionId: string,
+    logger: Logger
+  ): Promise<void> {
+    logger.log(`\n🧭 Updating onboarding paths...`)
+    try {
+      const paths = await this.onboardingGenerator.generate(repositoryId, workPlan, sessionId)
+      logger.log(`   ✅ ${paths.length} learning paths (${paths.map(path => `${path.role}: ${path.steps.length} steps`).join(', ') || 'no role-specific documents'})`)
+    } catch (error) {
+      logger.error(`   ⚠️  Onboarding paths not updated: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   private async markSessionFailed(sessionId: string, error: string): Promise<void> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     await supabase
       .from('planning_sessions')
@@ -757,6 +1925,8 @@ export class AdvancedGenerator {
       'tsx': 'typescript',
       'mjs': 'javascript',
       'cjs': 'javascript',
+      'mts': 'typescript',
+      'cts': 'typescript',
       
       // Python
       'py': 'python',
@@ -785,6 +1955,7 @@ export class AdvancedGenerator {
       'rs': 'rust',
       'swift': 'swift',
       'kt': 'kotlin',
+      'kts': 'kotlin',
       'scala': 'scala',
       'clj': 'clojure',
       'elm': 'elm',
@@ -832,7 +2003,7 @@ export class AdvancedGenerator {
 
   // Utility methods for checking generation status
   async getSessionStatus(sessionId: string): Promise<GenerationSession | null> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     const { data, error } = await supabase
       .from('planning_sessions')
@@ -851,14 +2022,32 @@ export class AdvancedGenerator {
       status: data.status,
       workPlan: data.work_plan,
       progress: data.metadata?.progress || { completed: 0, total: 0 },
+      failedDocuments: data.metadata?.failed_documents || [],
+      skippedBudget: data.metadata?.skipped_budget || [],
+      cancelRequestedAt: data.cancel_requested_at || undefined,
       startedAt: data.started_at,
       completedAt: data.completed_at,
       error: data.error_message
     }
   }
 
+  private async loadLatestWorkPlan(repositoryId: string): Promise<WorkPlan | null> {
+    const supabase = this.supabase ?? await createClient()
+
+    const { data } = await supabase
+      .from('planning_sessions')
+      .select('work_plan')
+      .eq('repository_id', repositoryId)
+      .not('work_plan', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return (data?.work_plan as WorkPlan | null) ?? null
+  }
+
   async getRepositoryGenerationHistory(repositoryId: string): Promise<GenerationSession[]> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     const { data, error } = await supabase
       .from('planning_sessions')
@@ -877,6 +2066,9 @@ export class AdvancedGenerator {
       status: session.status,
       workPlan: session.work_plan,
       progress: session.metadata?.progress || { completed: 0, total: 0 },
+      failedDocuments: session.metadata?.failed_documents || [],
+      skippedBudget: session.metadata?.skipped_budget || [],
+      cancelRequestedAt: session.cancel_requested_at || undefined,
       startedAt: session.started_at,
       completedAt: session.completed_at,
       error: session.error_message
@@ -0,0 +1,392 @@
+// Codebase Chat Service
+// Answers questions about a repository from its generated docs and component source, with citations
+
+import { createClient } from '@/lib/supabase/server'
+import type { Json } from '@/types/database'
+import { countTokens } from '@/lib/tokenizer'
+import { ContextLoader, formatContextEntry } from './context-loader'
+import { AnswerResult, DocGenerator, GenerationConfig } from './doc-generator'
+import { BudgetTracker, loadBudgetStatus } from './generation-budget'
+import { ChatMessage, LLMProvider } from './llm-provider'
+import type { WorkPlan } from './planner'
+import { EmbeddingProvider } from './embedding-provider'
+import { SearchIndex } from './search-index'
+
+// A numbered source the answer can cite as [n]
+export interface ChatCitation {
+  index: number
+  kind: 'document' | 'source'
+  title: string
+  documentPath?: string // Documents open in the docs viewer
+  filePath?: string // Source ranges link to file:line on GitHub
+  startLine?: number
+  endLine?: number
+}
+
+export interface ChatSource extends ChatCitation {
+  content: string
+}
+
+export interface ChatTurn {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  citations: ChatCitation[]
+  createdAt: string
+}
+
+export interface ChatAnswerHandlers {
+  onConversation?: (conversationId: string) => void
+  onSources?: (citations: ChatCitation[]) => void
+  onDelta: (text: string) => void
+}
+
+export interface ChatAnswer {
+  conversationId: string
+  messageId: string
+  content: string
+  citations: ChatCitation[] // Only the sources the answer cites
+  model: string
+}
+
+// A question that cannot be answered in the repository's current state
+export class ChatUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChatUnavailableError'
+  }
+}
+
+const MAX_PASSAGES = 10
+const SOURCE_MAX_TOKENS = 6000
+const CONTEXT_MAX_TOKENS = 1500
+const HISTORY_TURNS = 6
+const ANSWER_MAX_TOKENS = 1500
+const TITLE_MAX_LENGTH = 80
+
+const SYSTEM_PROMPT = `You answer questions about a software repository for developers who are new to it.
+Use only the numbered sources in the user's message. After every statement, cite the sources it rests on by number in square brackets, e.g. [2] or [1][3].
+Refer to code as \`path:line\` when a source gives line numbers. If the sources do not answer the question, say so and name the documents or files most likely to help.
+Answer in concise markdown.`
+
+export function formatCitationLabel(citation: ChatCitation): string {
+  if (citation.kind === 'document') {
+    return `Document: ${citation.title} (${citation.documentPath})`
+  }
+  const range = citation.startLine ? `:${citation.startLine}-${citation.endLine ?? citation.startLine}` : ''
+  return `Source: ${citation.filePath}${range} (${citation.title})`
+}
+
+function toCitation(source: ChatSource): ChatCitation {
+  const { index, kind, title, documentPath, filePath, startLine, endLine } = source
+  return { index, kind, title, documentPath, filePath, startLine, endLine }
+}
+
+// Source numbers the answer refers to, in order of first mention
+function getCitedIndexes(answer: string): number[] {
+  return [...new Set([...answer.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1])))]
+}
+
+export class CodebaseChat {
+  private readonly docGenerator: DocGenerator
+  private readonly searchIndex: SearchIndex
+  private readonly contextLoader = new ContextLoader()
+
+  constructor(options: { llmProvider?: LLMProvider, embeddingProvider?: EmbeddingProvider } = {}) {
+    this.docGenerator = new DocGenerator(options.llmProvider)
+    this.searchIndex = new SearchIndex(options.embeddingProvider)
+  }
+
+  // Retrieves sources for the question, streams a cited answer and stores both turns
+  async ask(
+    repositoryId: string,
+    userId: string,
+    question: string,
+    conversationId: string | null,
+    handlers: ChatAnswerHandlers
+  ): Promise<ChatAnswer> {
+    const existing = conversationId ? await this.loadConversation(repositoryId, userId, conversationId) : null
+    if (conversationId && !existing) {
+      throw new ChatUnavailableError('Conversation not found')
+    }
+    const history = existing ? await this.loadMessages(existing.id) : []
+
+    // Follow-ups like "and where is it tested?" are searched with the question before them
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content
+    const sources = await this.retrieveSources(repositoryId, previousQuestion ? `${previousQuestion}\n${question}` : question)
+
+    const messages = this.buildMessages(history, sources, question)
+    const config: Partial<GenerationConfig> = {
+      ...(await this.loadLLMConfig(repositoryId)),
+      maxTokens: ANSWER_MAX_TOKENS,
+      temperature: 0.2
+    }
+
+    // The turn's worst case has to fit what is left, like a document's does
+    const budget = new BudgetTracker(await loadBudgetStatus(repositoryId))
+    if (!budget.reserve(this.docGenerator.estimateAnswerUsage(messages, config))) {
+      throw new ChatUnavailableError('Not enough of the monthly generation budget is left for this repository to answer')
+    }
+
+    const conversation = existing ?? await this.createConversation(repositoryId, userId, question)
+    handlers.onConversation?.(conversation.id)
+    handlers.onSources?.(sources.map(toCitation))
+
+    const startTime = Date.now()
+    let answer: AnswerResult
+    try {
+      answer = await this.docGenerator.answer(messages, config, handlers.onDelta)
+    } catch (error) {
+      // Nothing was saved for this turn; a conversation it started is removed again
+      if (!existing) await this.deleteConversation(conversation.id).catch(() => undefined)
+      throw error
+    }
+
+    // The question is only stored with its answer, so a failed turn leaves no trace in the history
+    await this.saveMessage(conversation.id, { role: 'user', content: question, citations: [] })
+
+    const cited = getCitedIndexes(answer.content)
+      .map(index => sources.find(source => source.index === index))
+      .filter((source): source is ChatSource => source !== undefined)
+      .map(toCitation)
+
+    const messageId = await this.saveMessage(conversation.id, {
+      role: 'assistant',
+      content: answer.content,
+      citations: cited,
+      model: answer.model,
+      tokensInput: answer.tokensInput,
+      tokensOutput: answer.tokensOutput
+    })
+
+    const supabase = await createClient()
+    await supabase
+      .from('chat_conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', conversation.id)
+
+    // Chat spend counts against the same monthly budget as generation
+    const { error: metricsError } = await supabase
+      .from('generation_metrics')
+      .insert({
+        repository_id: repositoryId,
+        document_id: null,
+        model_used: answer.model,
+        tokens_input: answer.tokensInput,
+        tokens_output: answer.tokensOutput,
+        cost_estimated: answer.costEstimated,
+        generation_time_ms: Date.now() - startTime,
+        purpose: 'chat'
+      })
+    if (metricsError) {
+      console.warn('Failed to save chat metrics:', metricsError.message)
+    }
+
+    return {
+      conversationId: conversation.id,
+      messageId,
+      content: answer.content,
+      citations: cited,
+      model: answer.model
+    }
+  }
+
+  // Matching passages from the search index first, then summaries of the
+  // documents around them from the context loader, while they fit the budget.
+  // Without an index the answer rests on the overview and recent summaries.
+  async retrieveSources(repositoryId: string, query: string): Promise<ChatSource[]> {
+    const supabase = await createClient()
+    const candidates: Omit<ChatSource, 'index'>[] = []
+
+    const passages = await this.searchIndex.isIndexed(repositoryId)
+      ? await this.searchIndex.search(repositoryId, query, MAX_PASSAGES)
+      : []
+
+    if (passages.length > 0) {
+      const { data: chunks } = await supabase
+        .from('search_chunks')
+        .select('id, content')
+        .in('id', passages.map(passage => passage.id))
+      const contents = new Map((chunks || []).map(chunk => [chunk.id, chunk.content]))
+
+      for (const passage of passages) {
+        const content = contents.get(passage.id) ?? passage.snippet
+        candidates.push(passage.sourceType === 'document'
+          ? { kind: 'document', title: passage.title, documentPath: passage.path, content }
+          : {
+              kind: 'source',
+              title: passage.title,
+              filePath: passage.path,
+              startLine: passage.startLine ?? undefined,
+              endLine: passage.endLine ?? undefined,
+              content
+            })
+      }
+    }
+
+    const documentPaths = [...new Set(passages.filter(passage => passage.sourceType === 'document').map(passage => passage.path))]
+    const context = await this.contextLoader.loadContextWindow(repositoryId, documentPaths[0], {
+      maxTokens: CONTEXT_MAX_TOKENS,
+      maxDocuments: 15,
+      strategy: 'relevant',
+      pinnedDocPaths: documentPaths
+    })
+    for (const doc of context.documents) {
+      candidates.push({ kind: 'document', title: doc.title, documentPath: doc.documentPath, content: formatContextEntry(doc) })
+    }
+
+    const sources: ChatSource[] = []
+    let totalTokens = 0
+    for (const candidate of candidates) {
+      const tokens = countTokens(candidate.content)
+      if (totalTokens + tokens > SOURCE_MAX_TOKENS) continue
+      totalTokens += tokens
+      sources.push({ ...candidate, index: sources.length + 1 })
+    }
+    return sources
+  }
+
+  private buildMessages(history: ChatTurn[], sources: ChatSource[], question: string): ChatMessage[] {
+    const sourceBlocks = sources.map(source => `[${source.index}] ${formatCitationLabel(source)}\n${source.content}`)
+
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...history.slice(-HISTORY_TURNS).map((turn): ChatMessage => ({ role: turn.role, content: turn.content })),
+      {
+        role: 'user',
+        content: `SOURCES:
+${sourceBlocks.length > 0 ? sourceBlocks.join('\n\n') : 'No documentation has been generated for this repository yet.'}
+
+QUESTION: ${question}`
+      }
+    ]
+  }
+
+  // The provider and models the repository's latest generation ran with
+  private async loadLLMConfig(repositoryId: string): Promise<Partial<GenerationConfig>> {
+    const supabase = await createClient()
+    const { data } = await supabase
+      .from('planning_sessions')
+      .select('work_plan')
+      .eq('repository_id', repositoryId)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const llm = (data?.work_plan as WorkPlan | null)?.metadata.llm
+    return {
+      provider: llm?.provider,
+      model: llm?.model,
+      fallbackModels: llm?.fallbackModels
+    }
+  }
+
+  async listConversations(repositoryId: string, userId: string) {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .select('id, title, created_at, updated_at')
+      .eq('repository_id', repositoryId)
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load conversations: ${error.message}`)
+    }
+    return data || []
+  }
+
+  async loadConversation(repositoryId: string, userId: string, conversationId: string) {
+    const supabase = await createClient()
+    const { data } = await supabase
+      .from('chat_conversations')
+      .select('id, title, created_at, updated_at')
+      .eq('id', conversationId)
+      .eq('repository_id', repositoryId)
+      .eq('user_id', userId)
+      .maybeSingle()
+    return data
+  }
+
+  async loadMessages(conversationId: string): Promise<ChatTurn[]> {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('id, role, content, citations, created_at')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load messages: ${error.message}`)
+    }
+    return (data || []).map(row => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      citations: (row.citations as unknown as ChatCitation[] | null) || [],
+      createdAt: row.created_at
+    }))
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    const supabase = await createClient()
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', conversationId)
+
+    if (error) {
+      throw new Error(`Failed to delete conversation: ${error.message}`)
+    }
+  }
+
+  private async createConversation(repositoryId: string, userId: string, question: string) {
+    const supabase = await createClient()
+    const title = question.length > TITLE_MAX_LENGTH
+      ? `${question.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+      : question
+
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .insert({ repository_id: repositoryId, user_id: userId, title })
+      .select('id, title, created_at, updated_at')
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to create conversation: ${error?.message}`)
+    }
+    return data
+  }
+
+  private async saveMessage(
+    conversationId: string,
+    message: {
+      role: 'user' | 'assistant'
+      content: string
+      citations: ChatCitation[]
+      model?: string
+      tokensInput?: number
+      tokensOutput?: number
+    }
+  ): Promise<string> {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .insert({
+        conversation_id: conversationId,
+        role: message.role,
+        content: message.content,
+        citations: message.citations as unknown as Json,
+        model: message.model ?? null,
+        tokens_input: message.tokensInput ?? null,
+        tokens_output: message.tokensOutput ?? null
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to save message: ${error?.message}`)
+    }
+    return data.id
+  }
+}
@@ -0,0 +1,233 @@
+// Codebase Graph Service
+// Builds the file and document graphs of a repository from stored component relations and document links
+
+import { createClient } from '@/lib/supabase/server'
+import type { ComponentRelation } from './component-extractor'
+
+export type GraphView = 'files' | 'documents'
+
+export interface GraphNode {
+  id: string
+  label: string
+  kind: string // File extension or document type
+  directory: string // Clustering by directory
+  docPrefix: string // Clustering by doc-path prefix
+  documentPath: string | null // Opened on click
+  filePath: string | null
+  degree: number
+}
+
+export interface GraphEdge {
+  source: string
+  target: string
+  type: string // Relation or link type
+  count: number // Relations merged into this edge
+}
+
+export interface CodebaseGraphData {
+  view: GraphView
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  relationTypes: string[]
+  totalNodes: number // Before the best-connected MAX_NODES were kept
+}
+
+// Layouts run in the browser; beyond this the graph is unreadable anyway
+const MAX_NODES = 300
+const ID_BATCH_SIZE = 100
+
+interface StoredComponent {
+  component_id: string
+  parent_path: string | null
+  relations: ComponentRelation[]
+}
+
+interface StoredDocument {
+  id: string
+  title: string
+  document_path: string
+  document_type: string
+  file_path: string | null
+  component_ids: string[]
+}
+
+function getDirectory(filePath: string): string {
+  const index = filePath.lastIndexOf('/')
+  return index === -1 ? '.' : filePath.slice(0, index)
+}
+
+function getDocPrefix(documentPath: string): string {
+  const index = documentPath.lastIndexOf('.')
+  return index === -1 ? documentPath : documentPath.slice(0, index)
+}
+
+// Merges parallel relations of one type into a single weighted edge
+function collectEdges(relations: { source: string, target: string, type: string }[]): GraphEdge[] {
+  const edges = new Map<string, GraphEdge>()
+  for (const { source, target, type } of relations) {
+    if (source === target) continue
+    const key = `${source}\u0000${target}\u0000${type}`
+    const edge = edges.get(key)
+    if (edge) {
+      edge.count++
+    } else {
+      edges.set(key, { source, target, type, count: 1 })
+    }
+  }
+  return [...edges.values()]
+}
+
+// Keeps the best-connected nodes and the edges between them
+function limitGraph(view: GraphView, nodes: GraphNode[], edges: GraphEdge[]): CodebaseGraphData {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  for (const edge of edges) {
+    for (const id of [edge.source, edge.target]) {
+      const node = byId.get(id)
+      if (node) node.degree += edge.count
+    }
+  }
+
+  const kept = [...nodes]
+    .sort((a, b) => b.degree - a.degree || a.id.localeCompare(b.id))
+    .slice(0, MAX_NODES)
+  const keptIds = new Set(kept.map(node => node.id))
+  const keptEdges = edges.filter(edge => keptIds.has(edge.source) && keptIds.has(edge.target))
+
+  return {
+    view,
+    nodes: kept,
+    edges: keptEdges,
+    relationTypes: [...new Set(keptEdges.map(edge => edge.type))].sort(),
+    totalNodes: nodes.length
+  }
+}
+
+export class CodebaseGraph {
+  async build(repositoryId: string, view: GraphView): Promise<CodebaseGraphData> {
+    const documents = await this.loadDocuments(repositoryId)
+    return view === 'documents'
+      ? this.buildDocumentGraph(documents)
+      : this.buildFileGraph(repositoryId, documents)
+  }
+
+  // One node per source file. Relations between components become edges between
+  // their files; relations resolved to a module point at that file.
+  private async buildFileGraph(repositoryId: string, documents: StoredDocument[]): Promise<CodebaseGraphData> {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('components')
+      .select('component_id, parent_path, relations')
+      .eq('repository_id', repositoryId)
+
+    if (error) {
+      throw new Error(`Failed to load components: ${error.message}`)
+    }
+
+    const components = (data || []) as unknown as StoredComponent[]
+    const fileOf = new Map(components.map(component => [component.component_id, component.parent_path || '']))
+    const files = new Set([...fileOf.values()].filter(Boolean))
+
+    // A file opens the document covering most of its components, else the one written for it
+    const documentVotes = new Map<string, Map<string, number>>()
+    for (const document of documents) {
+      for (const componentId of document.component_ids) {
+        const file = fileOf.get(componentId)
+        if (!file) continue
+        const votes = documentVotes.get(file) ?? new Map<string, number>()
+        votes.set(document.document_path, (votes.get(document.document_path) ?? 0) + 1)
+        documentVotes.set(file, votes)
+      }
+    }
+    const documentForFile = (file: string): string | null => {
+      const votes = documentVotes.get(file)
+      if (votes) {
+        return [...votes.entries()].sort((a, b) => b[1] - a[1])[0][0]
+      }
+      return documents.find(document => document.file_path === file)?.document_path ?? null
+    }
+
+    const relations: { source: string, target: string, type: string }[] = []
+    for (const component of components) {
+      const source = component.parent_path
+      if (!source) continue
+      for (const relation of component.relations || []) {
+        const target = relation.resolution === 'module'
+          ? relation.target
+          : relation.resolution === 'component' || !relation.resolution
+            ? fileOf.get(relation.target)
+            : undefined
+        if (target && files.has(target)) {
+          relations.push({ source, target, type: relation.type })
+        }
+      }
+    }
+
+    const nodes = [...files].map((file): GraphNode => {
+      const documentPath = documentForFile(file)
+      const extension = file.match(/\.([a-z0-9]+)$/i)?.[1]
+      return {
+        id: file,
+        label: file.slice(file.lastIndexOf('/') + 1),
+        kind: extension ? extension.toLowerCase() : 'file',
+        directory: getDirectory(file),
+        docPrefix: documentPath ? getDocPrefix(documentPath) : getDirectory(file),
+        documentPath,
+        filePath: file,
+        degree: 0
+      }
+    })
+
+    return limitGraph('files', nodes, collectEdges(relations))
+  }
+
+  private async buildDocumentGraph(documents: StoredDocument[]): Promise<CodebaseGraphData> {
+    const supabase = await createClient()
+    const ids = documents.map(document => document.id)
+    const links: { source: string, target: string, type: string }[] = []
+
+    for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('document_links')
+        .select('source_document_id, target_document_id, link_type')
+        .in('source_document_id', ids.slice(start, start + ID_BATCH_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load document links: ${error.message}`)
+      }
+      for (const link of data || []) {
+        links.push({ source: link.source_document_id, target: link.target_document_id, type: link.link_type })
+      }
+    }
+
+    const known = new Set(ids)
+    const nodes = documents.map((document): GraphNode => ({
+      id: document.id,
+      label: document.title,
+      kind: document.document_type,
+      directory: document.file_path ? getDirectory(document.file_path) : getDocPrefix(document.document_path),
+      docPrefix: getDocPrefix(document.document_path),
+      documentPath: document.document_path,
+      filePath: document.file_path,
+      degree: 0
+    }))
+
+    return limitGraph('documents', nodes, collectEdges(links.filter(link => known.has(link.target))))
+  }
+
+  private async loadDocuments(repositoryId: string): Promise<StoredDocument[]> {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, title, document_path, document_type, file_path, component_ids')
+      .eq('repository_id', repositoryId)
+
+    if (error) {
+      throw new Error(`Failed to load documents: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      ...row,
+      component_ids: Array.isArray(row.component_ids) ? row.component_ids.filter((id): id is string => typeof id === 'string') : []
+    }))
+  }
+}
@@ -1,6 +1,8 @@
 // Component Extractor Service
 // Analyzes code files and extracts logical components (classes, functions, etc.)
 
+import * as ts from 'typescript'
+
 export interface Component {
   id: string
   name: string
@@ -16,6 +18,9 @@ export interface ComponentRelation {
   type: RelationType
   target: string
   confidence: number
+  localName?: string                  // local binding for aliased, default and namespace imports
+  resolution?: RelationResolution     // set once RelationResolver has rewritten the target
+  originalTarget?: string             // raw target as emitted by the extractor
 }
 
 export type ComponentType = 
@@ -29,6 +34,9 @@ export type ComponentType =
   | 'constant'
   | 'variable'
   | 'export'
+  | 'method'
+  | 'enum'
+  | 'namespace'
 
 export type RelationType = 
   | 'imports' 
@@ -40,6 +48,12 @@ export type RelationType =
   | 'exposes'
   | 'depends_on'
 
+export type RelationResolution =
+  | 'component'   // target is a component id
+  | 'module'      // target is a file path in the repository
+  | 'external'    // target lives outside the repository (package, stdlib)
+  | 'unresolved'  // looked local but no matching file or symbol was found
+
 export interface Artifact {
   id: string
   path: string
@@ -50,6 +64,40 @@ export interface Artifact {
   content?: string
 }
 
+// Traversal state shared while walking one TypeScript source file
+interface DeclarationScope {
+  sourceFile: ts.SourceFile
+  filePath: string
+  components: Map<string, Component>
+  localExports: Set<string>
+  parent?: Component
+}
+
+// Brace-delimited region of a source file, by character offset
+interface SourceBlock {
+  open: number
+  close: number
+}
+
+// JVM type declaration with the offsets of its header and body (-1 when it has none)
+interface JvmDeclaration {
+  component: Component
+  start: number
+  bodyStart: number
+  bodyEnd: number
+}
+
+// Rust body that gives nested items a module path (`mod`) or parent type (`impl`, `trait`)
+interface RustScope {
+  kind: 'mod' | 'impl' | 'trait'
+  bodyStart: number
+  modulePath: string
+  component?: Component      // inline module, trait, or the impl's type when declared in the same file
+  selfType?: string
+  traitName?: string
+  isTest?: boolean
+}
+
 export abstract class ComponentExtractor {
   abstract language: string
   abstract supportedExtensions: string[]
@@ -69,12 +117,812 @@ export abstract class ComponentExtractor {
     // Default implementation - override in language-specific extractors
     return []
   }
+
+  // Helpers for C-like languages (Go, Java, Kotlin, Rust) scanned without a parser
+
+  protected maskCommentsAndStrings(content: string): string {
+    // Blank out comments and literal contents with spaces, keeping offsets and
+    // newlines, so regexes and brace matching only ever see code
+    const chars = content.split('')
+    const blank = (from: number, to: number) => {
+      for (let i = from; i < to && i < chars.length; i++) {
+        if (chars[i] !== '\n') chars[i] = ' '
+      }
+    }
+
+    let i = 0
+    while (i < content.length) {
+      const char = content[i]
+      const next = content[i + 1]
+
+      if (char === '/' && next === '/') {
+        const end = content.indexOf('\n', i)
+        blank(i, end < 0 ? content.length : end)
+        i = end < 0 ? content.length : end
+      } else if (char === '/' && next === '*') {
+        const end = content.indexOf('*/', i + 2)
+        blank(i, end < 0 ? content.length : end + 2)
+        i = end < 0 ? content.length : end + 2
+      } else if (content.startsWith('"""', i)) {
+        // Java/Kotlin text blocks
+        const end = content.indexOf('"""', i + 3)
+        blank(i + 3, end < 0 ? content.length : end)
+        i = end < 0 ? content.length : end + 3
+      } else if (char === 'r' && /^r#*"/.test(content.substring(i, i + 8)) && !/\w/.test(content[i - 1] || '')) {
+        // Rust raw strings: r"..." / r#"..."#
+        const hashes = content.substring(i + 1).match(/^#*/)![0]
+        const start = i + 2 + hashes.length
+        const end = content.indexOf(`"${hashes}`, start)
+        blank(start, end < 0 ? content.length : end)
+        i = end < 0 ? content.length : end + 1 + hashes.length
+      } else if (char === '"' || char === '`') {
+        let end = i + 1
+        while (end < content.length && content[end] !== char) {
+          if (content[end] === '\\' && char === '"') end++
+          if (content[end] === '\n' && char === '"') break
+          end++
+        }
+        blank(i + 1, end)
+        i = end + 1
+      } else if (char === '\'') {
+        // Character literals; a lone quote is a Rust lifetime or label
+        const literal = content.substring(i).match(/^'(\\u\{[0-9a-fA-F]+\}|\\.[^']{0,8}|[^'\\\n]{1,2})'/)
+        if (literal) {
+          blank(i + 1, i + literal[0].length - 1)
+          i += literal[0].length
+        } else {
+          i++
+        }
+      } else {
+        i++
+      }
+    }
+
+    return chars.join('')
+  }
+
+  protected findBlockEnd(masked: string, openIndex: number): number {
+    // Index of the bracket closing the one at openIndex (in masked source)
+    const open = masked[openIndex]
+    const close = open === '{' ? '}' : open === '(' ? ')' : open === '[' ? ']' : '>'
+    let depth = 0
+
+    for (let i = openIndex; i < masked.length; i++) {
+      if (masked[i] === open) depth++
+      else if (masked[i] === close && --depth === 0) return i
+    }
+
+    return masked.length - 1
+  }
+
+  protected findBlocks(masked: string): SourceBlock[] {
+    // Every `{ }` pair of the file, by offset
+    const blocks: SourceBlock[] = []
+    const stack: number[] = []
+
+    for (let i = 0; i < masked.length; i++) {
+      if (masked[i] === '{') {
+        stack.push(i)
+      } else if (masked[i] === '}' && stack.length > 0) {
+        blocks.push({ open: stack.pop()!, close: i })
+      }
+    }
+
+    return blocks
+  }
+
+  protected findInnermostBlock(blocks: SourceBlock[], index: number): SourceBlock | undefined {
+    let innermost: SourceBlock | undefined
+    for (const block of blocks) {
+      if (block.open < index && block.close > index && (!innermost || block.open > innermost.open)) {
+        innermost = block
+      }
+    }
+    return innermost
+  }
+
+  protected splitTopLevel(text: string): string[] {
+    // Split on commas outside of <>, (), [] and {} (`->` is not a bracket)
+    const parts: string[] = []
+    let depth = 0
+    let current = ''
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if ('<([{'.includes(char)) depth++
+      else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '-')) depth--
+
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim())
+        current = ''
+      } else {
+        current += char
+      }
+    }
+
+    if (current.trim()) parts.push(current.trim())
+    return parts
+  }
+
+  protected getLineNumber(content: string, index: number): number {
+    return content.substring(0, index).split('\n').length
+  }
+
+  protected getLeadingComment(lines: string[], declarationLine: number): string | undefined {
+    // Doc comment directly above a declaration: `//`, `///` lines or a `/** */` block.
+    // Annotation and attribute lines between the comment and the declaration are skipped
+    let index = declarationLine - 2
+    while (index >= 0 && /^\s*(@\w|#\[)/.test(lines[index])) {
+      index--
+    }
+
+    const commentLines: string[] = []
+    if (index >= 0 && /\*\/\s*$/.test(lines[index])) {
+      while (index >= 0) {
+        commentLines.unshift(lines[index])
+        if (/^\s*\/\*/.test(lines[index])) break
+        index--
+      }
+      if (!/^\s*\/\*\*/.test(commentLines[0] || '')) return undefined
+    } else {
+      while (index >= 0 && /^\s*\/\//.test(lines[index])) {
+        commentLines.unshift(lines[index])
+        index--
+      }
+    }
+
+    const description = commentLines
+      .map(line => line.replace(/^\s*(\/\*\*|\/\/\/?!?|\*\/|\*)?\s?/, '').replace(/\*\/\s*$/, '').trimEnd())
+      .filter(line => !/^\s*@\w/.test(line))
+      .join('\n')
+      .trim()
+
+    return description || undefined
+  }
 }
 
 // TypeScript/JavaScript Component Extractor
+// Walks the TypeScript compiler AST so line ranges, class members and relations
+// come from real syntax instead of regexes and brace counting
 export class TypeScriptExtractor extends ComponentExtractor {
   language = 'typescript'
-  supportedExtensions = ['.ts', '.tsx', '.js', '.jsx']
+  supportedExtensions = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+
+  async extractComponents(artifact: Artifact): Promise<Component[]> {
+    if (!artifact.content) return []
+
+    const sourceFile = this.parseSource(artifact.path, artifact.content)
+    const scope: DeclarationScope = {
+      sourceFile,
+      filePath: artifact.path,
+      components: new Map(),
+      localExports: this.collectLocalExports(sourceFile)
+    }
+
+    // Extract imports
+    const imports = this.collectImports(sourceFile)
+
+    // Extract declarations (classes, functions, types, namespaces, exports...)
+    this.visitStatements(sourceFile.statements, scope)
+
+    const components = Array.from(scope.components.values())
+
+    // Add import relations to all components
+    components.forEach(component => {
+      component.relations.push(...imports)
+    })
+
+    return components
+  }
+
+  protected detectImports(content: string): ComponentRelation[] {
+    return this.collectImports(this.parseSource('module.tsx', content))
+  }
+
+  private parseSource(filePath: string, content: string): ts.SourceFile {
+    return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, this.getScriptKind(filePath))
+  }
+
+  private getScriptKind(filePath: string): ts.ScriptKind {
+    const ext = filePath.split('.').pop()?.toLowerCase()
+    switch (ext) {
+      case 'tsx':
+        return ts.ScriptKind.TSX
+      case 'jsx':
+        return ts.ScriptKind.JSX
+      case 'js':
+      case 'mjs':
+      case 'cjs':
+        return ts.ScriptKind.JS
+      default:
+        return ts.ScriptKind.TS
+    }
+  }
+
+  private visitStatements(statements: ts.NodeArray<ts.Statement>, scope: DeclarationScope): void {
+    for (const statement of statements) {
+      if (ts.isClassDeclaration(statement)) {
+        this.extractClass(statement, statement.name?.text || 'default', statement, scope)
+      } else if (ts.isFunctionDeclaration(statement)) {
+        this.extractFunction(statement, statement.name?.text || 'default', statement, scope)
+      } else if (ts.isVariableStatement(statement)) {
+        this.extractVariables(statement, scope)
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        this.extractInterface(statement, scope)
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        this.addComponent(scope, this.createComponent(statement, statement.name.text, 'type', scope, {
+          typeParameters: statement.typeParameters?.map(p => p.name.text)
+        }))
+      } else if (ts.isEnumDeclaration(statement)) {
+        this.addComponent(scope, this.createComponent(statement, statement.name.text, 'enum', scope, {
+          isConst: this.hasModifier(statement, ts.SyntaxKind.ConstKeyword),
+          members: statement.members.map(member => member.name.getText(scope.sourceFile))
+        }))
+      } else if (ts.isModuleDeclaration(statement)) {
+        this.extractNamespace(statement, scope)
+      } else if (ts.isExportDeclaration(statement)) {
+        this.extractExportDeclaration(statement, scope)
+      } else if (ts.isExportAssignment(statement)) {
+        this.extractExportAssignment(statement, scope)
+      }
+    }
+  }
+
+  private extractClass(
+    node: ts.ClassLikeDeclaration,
+    className: string,
+    rangeNode: ts.Node,
+    scope: DeclarationScope
+  ): void {
+    const relations: ComponentRelation[] = []
+    let extendsClass: string | undefined
+    const implementsClasses: string[] = []
+
+    for (const clause of node.heritageClauses || []) {
+      for (const heritageType of clause.types) {
+        const target = heritageType.expression.getText(scope.sourceFile)
+        if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+          extendsClass = target
+          relations.push({ type: 'extends', target, confidence: 0.95 })
+        } else {
+          implementsClasses.push(target)
+          relations.push({ type: 'implements', target, confidence: 0.95 })
+        }
+      }
+    }
+
+    const classComponent = this.createComponent(rangeNode, className, 'class', scope, {
+      isAbstract: this.hasModifier(node, ts.SyntaxKind.AbstractKeyword),
+      extendsClass,
+      implementsClasses: implementsClasses.length > 0 ? implementsClasses : undefined,
+      decorators: this.getDecorators(node, scope.sourceFile),
+      typeParameters: node.typeParameters?.map(p => p.name.text),
+      properties: this.getClassProperties(node, scope.sourceFile),
+      signature: this.getHeaderText(rangeNode, node.members.pos, scope.sourceFile)
+    }, relations, ts.isClassDeclaration(node) ? node : rangeNode)
+    this.addComponent(scope, classComponent)
+
+    // Extract methods, accessors and constructors as members of this class
+    const memberScope: DeclarationScope = { ...scope, parent: classComponent }
+    for (const member of node.members) {
+      this.extractClassMember(member, memberScope)
+    }
+  }
+
+  private extractClassMember(member: ts.ClassElement, scope: DeclarationScope): void {
+    const sourceFile = scope.sourceFile
+    let fn: ts.FunctionLikeDeclaration | undefined
+    let kind: string
+
+    if (ts.isMethodDeclaration(member)) {
+      fn = member
+      kind = 'method'
+    } else if (ts.isGetAccessorDeclaration(member)) {
+      fn = member
+      kind = 'getter'
+    } else if (ts.isSetAccessorDeclaration(member)) {
+      fn = member
+      kind = 'setter'
+    } else if (ts.isConstructorDeclaration(member)) {
+      fn = member
+      kind = 'constructor'
+    } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+      // Arrow functions assigned to class fields behave like methods
+      const initializer = this.unwrapExpression(member.initializer)
+      if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        fn = initializer
+        kind = 'method'
+      } else {
+        return
+      }
+    } else {
+      return
+    }
+
+    const name = ts.isConstructorDeclaration(member) ? 'constructor' : member.name?.getText(sourceFile) || 'anonymous'
+    const body = fn.body
+    const component = this.createComponent(member, name, 'method', scope, {
+      kind,
+      visibility: this.getVisibility(member),
+      isStatic: this.hasModifier(member, ts.SyntaxKind.StaticKeyword),
+      isAbstract: this.hasModifier(member, ts.SyntaxKind.AbstractKeyword),
+      isAsync: this.hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+      isOptional: !!(member as ts.MethodDeclaration).questionToken || undefined,
+      isArrowFunction: ts.isArrowFunction(fn) || undefined,
+      isOverloadSignature: !body,
+      decorators: this.getDecorators(member, sourceFile),
+      parameters: this.getParameters(fn, sourceFile),
+      signature: this.getHeaderText(member, body ? body.getStart(sourceFile) : member.getEnd(), sourceFile)
+    }, this.findFunctionCalls(body), member)
+
+    this.addComponent(scope, component)
+  }
+
+  private extractFunction(
+    fn: ts.FunctionLikeDeclaration,
+    functionName: string,
+    rangeNode: ts.Node,
+    scope: DeclarationScope,
+    metadata: Component['metadata'] = {}
+  ): void {
+    const sourceFile = scope.sourceFile
+    const body = fn.body
+    let type: ComponentType = 'function'
+
+    // Classify hooks and React components by naming convention and JSX usage
+    if (/^use[A-Z0-9]/.test(functionName)) {
+      type = 'hook'
+    } else if (/^[A-Z]/.test(functionName) && body && this.containsJsx(body)) {
+      type = 'component'
+    }
+
+    const component = this.createComponent(rangeNode, functionName, type, scope, {
+      isAsync: this.hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+      isGenerator: !!fn.asteriskToken || undefined,
+      isArrowFunction: ts.isArrowFunction(fn) || undefined,
+      isOverloadSignature: !body,
+      framework: type === 'function' ? undefined : 'react',
+      parameters: this.getParameters(fn, sourceFile),
+      typeParameters: fn.typeParameters?.map(p => p.name.text),
+      signature: this.getHeaderText(rangeNode, body ? body.getStart(sourceFile) : rangeNode.getEnd(), sourceFile),
+      ...metadata
+    }, this.findFunctionCalls(body))
+
+    this.addComponent(scope, component)
+  }
+
+  private extractVariables(statement: ts.VariableStatement, scope: DeclarationScope): void {
+    const declarations = statement.declarationList.declarations
+    const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0
+
+    for (const declaration of declarations) {
+      if (!ts.isIdentifier(declaration.name)) continue
+
+      const name = declaration.name.text
+      // Use the whole statement as the range when it only declares one binding
+      const rangeNode = declarations.length === 1 ? statement : declaration
+      const initializer = declaration.initializer && this.unwrapExpression(declaration.initializer)
+      const fn = initializer && this.findFunctionInitializer(initializer, name)
+
+      if (fn) {
+        this.extractFunction(fn, name, rangeNode, scope, {
+          wrappedBy: initializer && ts.isCallExpression(initializer)
+            ? initializer.expression.getText(scope.sourceFile)
+            : undefined
+        })
+      } else if (initializer && ts.isClassExpression(initializer)) {
+        this.extractClass(initializer, name, rangeNode, scope)
+      } else if (isConst && /^[A-Z][A-Z0-9_]*$/.test(name)) {
+        this.addComponent(scope, this.createComponent(rangeNode, name, 'constant', scope, {
+          isConstant: true,
+          valueType: declaration.type?.getText(scope.sourceFile)
+        }, [], declaration))
+      } else if (this.isExported(declaration, name, scope)) {
+        this.addComponent(scope, this.createComponent(rangeNode, name, isConst ? 'constant' : 'variable', scope, {
+          isConstant: isConst,
+          valueType: declaration.type?.getText(scope.sourceFile)
+        }, [], declaration))
+      }
+    }
+  }
+
+  private findFunctionInitializer(initializer: ts.Expression, name: string): ts.FunctionLikeDeclaration | undefined {
+    if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+      return initializer
+    }
+
+    // Unwrap React.memo(...), forwardRef(...) and similar wrappers around components
+    if (ts.isCallExpression(initializer) && /^[A-Z]/.test(name)) {
+      const [firstArgument] = initializer.arguments
+      const argument = firstArgument && this.unwrapExpression(firstArgument)
+      if (argument && (ts.isArrowFunction(argument) || ts.isFunctionExpression(argument))) {
+        return argument
+      }
+    }
+
+    return undefined
+  }
+
+  private extractInterface(node: ts.InterfaceDeclaration, scope: DeclarationScope): void {
+    const sourceFile = scope.sourceFile
+    const extendsInterfaces = (node.heritageClauses || [])
+      .flatMap(clause => clause.types.map(t => t.expression.getText(sourceFile)))
+
+    const relations: ComponentRelation[] = extendsInterfaces.map(target => ({
+      type: 'extends' as RelationType,
+      target,
+      confidence: 0.95
+    }))
+
+    this.addComponent(scope, this.createComponent(node, node.name.text, 'interface', scope, {
+      extendsInterfaces: extendsInterfaces.length > 0 ? extendsInterfaces : undefined,
+      typeParameters: node.typeParameters?.map(p => p.name.text),
+      members: node.members
+        .map(member => member.name?.getText(sourceFile))
+        .filter((name): name is string => !!name)
+    }, relations))
+  }
+
+  private extractNamespace(node: ts.ModuleDeclaration, scope: DeclarationScope): void {
+    // `namespace A.B.C {}` nests ModuleDeclarations; flatten them into one name
+    const nameParts = [node.name.text]
+    let body = node.body
+    while (body && ts.isModuleDeclaration(body)) {
+      nameParts.push(body.name.text)
+      body = body.body
+    }
+
+    const namespaceComponent = this.createComponent(node, nameParts.join('.'), 'namespace', scope, {
+      isAmbient: this.hasModifier(node, ts.SyntaxKind.DeclareKeyword),
+      isGlobalAugmentation: (node.flags & ts.NodeFlags.GlobalAugmentation) !== 0 || undefined,
+      isModuleDeclaration: ts.isStringLiteral(node.name) || undefined
+    })
+    this.addComponent(scope, namespaceComponent)
+
+    if (body && ts.isModuleBlock(body)) {
+      this.visitStatements(body.statements, { ...scope, parent: namespaceComponent })
+    }
+  }
+
+  private extractExportDeclaration(node: ts.ExportDeclaration, scope: DeclarationScope): void {
+    const source = node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+      ? node.moduleSpecifier.text
+      : undefined
+
+    // export * from './module' / export * as ns from './module'
+    if (!node.exportClause || ts.isNamespaceExport(node.exportClause)) {
+      const alias = node.exportClause?.name.getText(scope.sourceFile)
+      const component = this.createComponent(node, alias || '*', 'export', scope, {
+        exportType: alias ? 'namespace' : 'star',
+        source,
+        isTypeOnly: node.isTypeOnly || undefined
+      }, source ? [{ type: 'exposes', target: `${source}.*`, confidence: 0.95 }] : [])
+      component.id = this.generateComponentId(`${alias || '*'}:${source}`, 'export', scope.filePath)
+      this.addComponent(scope, component)
+      return
+    }
+
+    // export { a, b as c } [from './module']
+    for (const specifier of node.exportClause.elements) {
+      const localName = (specifier.propertyName || specifier.name).getText(scope.sourceFile)
+      const exportedName = specifier.name.getText(scope.sourceFile)
+      const relations: ComponentRelation[] = source
+        ? [{ type: 'exposes', target: `${source}.${localName}`, confidence: 0.95 }]
+        : []
+
+      this.addComponent(scope, this.createComponent(node, localName, 'export', scope, {
+        exportType: 'named',
+        alias: specifier.propertyName ? exportedName : undefined,
+        source,
+        isTypeOnly: node.isTypeOnly || specifier.isTypeOnly || undefined
+      }, relations))
+    }
+  }
+
+  private extractExportAssignment(node: ts.ExportAssignment, scope: DeclarationScope): void {
+    const expression = this.unwrapExpression(node.expression)
+    const exportName = ts.isIdentifier(expression) ? expression.text : 'default'
+
+    this.addComponent(scope, this.createComponent(node, exportName, 'export', scope, {
+      exportType: node.isExportEquals ? 'commonjs' : 'default'
+    }))
+  }
+
+  private createComponent(
+    rangeNode: ts.Node,
+    name: string,
+    type: ComponentType,
+    scope: DeclarationScope,
+    metadata: Component['metadata'],
+    relations: ComponentRelation[] = [],
+    declarationNode: ts.Node = rangeNode
+  ): Component {
+    const sourceFile = scope.sourceFile
+    const qualifiedName = scope.parent ? `${scope.parent.metadata.qualifiedName}.${name}` : name
+    const isMember = scope.parent?.type === 'class'
+
+    return {
+      id: this.generateComponentId(qualifiedName, type, scope.filePath),
+      name,
+      type,
+      parentPath: scope.filePath,
+      startLine: sourceFile.getLineAndCharacterOfPosition(rangeNode.getStart(sourceFile)).line + 1,
+      endLine: sourceFile.getLineAndCharacterOfPosition(rangeNode.getEnd()).line + 1,
+      relations,
+      metadata: {
+        qualifiedName,
+        parentId: scope.parent?.id,
+        parentName: scope.parent?.metadata.qualifiedName,
+        isExported: isMember || type === 'export' ? undefined : this.isExported(declarationNode, name, scope),
+        isDefaultExport: this.hasModifier(declarationNode, ts.SyntaxKind.DefaultKeyword) || undefined,
+        ...this.getDocumentation(declarationNode),
+        ...metadata
+      }
+    }
+  }
+
+  private addComponent(scope: DeclarationScope, component: Component): void {
+    const existing = scope.components.get(component.id)
+    if (!existing) {
+      scope.components.set(component.id, component)
+      return
+    }
+
+    // Overloads, getter/setter pairs and declaration merging share one id:
+    // keep a single component spanning every declaration
+    existing.startLine = Math.min(existing.startLine || 0, component.startLine || 0)
+    existing.endLine = Math.max(existing.endLine || 0, component.endLine || 0)
+    existing.relations.push(...component.relations)
+
+    const overloads: string[] = existing.metadata.overloads || [existing.metadata.signature].filter(Boolean)
+    if (component.metadata.signature) {
+      overloads.push(component.metadata.signature)
+    }
+    existing.metadata.overloads = overloads
+
+    if (existing.metadata.kind && existing.metadata.kind !== component.metadata.kind) {
+      existing.metadata.kind = 'accessor'
+    }
+
+    // The implementation (with a body) is the most useful signature to show
+    if (existing.metadata.isOverloadSignature && !component.metadata.isOverloadSignature) {
+      existing.metadata.signature = component.metadata.signature
+      existing.metadata.parameters = component.metadata.parameters
+      existing.metadata.isOverloadSignature = false
+    }
+    existing.metadata.description = existing.metadata.description || component.metadata.description
+  }
+
+  private collectImports(sourceFile: ts.SourceFile): ComponentRelation[] {
+    const relations = new Map<string, ComponentRelation>()
+    const addImport = (target: string, localName?: string) => {
+      relations.set(target, { type: 'imports', target, confidence: 0.95, localName })
+    }
+
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const modulePath = node.moduleSpecifier.text
+        const clause = node.importClause
+
+        if (!clause) {
+          // Side-effect import: import './styles.css'
+          addImport(modulePath)
+        } else {
+          if (clause.name) {
+            addImport(`${modulePath}.default`, clause.name.text)
+          }
+          if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+            addImport(`${modulePath}.*`, clause.namedBindings.name.text)
+          } else if (clause.namedBindings) {
+            for (const element of clause.namedBindings.elements) {
+              // Target the exported name; keep the local alias for resolving references
+              addImport(
+                `${modulePath}.${(element.propertyName || element.name).text}`,
+                element.propertyName ? element.name.text : undefined
+              )
+            }
+          }
+        }
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)
+      ) {
+        addImport(node.moduleReference.expression.text, node.name.text)
+      } else if (
+        ts.isCallExpression(node) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          (ts.isIdentifier(node.expression) && node.expression.text === 'require')) &&
+        node.arguments.length === 1 &&
+        ts.isStringLiteral(node.arguments[0])
+      ) {
+        // Dynamic import('x') and CommonJS require('x')
+        addImport(node.arguments[0].text)
+      }
+
+      ts.forEachChild(node, visit)
+    }
+
+    visit(sourceFile)
+    return Array.from(relations.values())
+  }
+
+  private collectLocalExports(sourceFile: ts.SourceFile): Set<string> {
+    // Names exported separately from their declaration: export { a, b } / export default a
+    const names = new Set<string>()
+
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isExportDeclaration(statement) &&
+        !statement.moduleSpecifier &&
+        statement.exportClause &&
+        ts.isNamedExports(statement.exportClause)
+      ) {
+        statement.exportClause.elements.forEach(element => {
+          names.add((element.propertyName || element.name).text)
+        })
+      } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        names.add(statement.expression.text)
+      }
+    }
+
+    return names
+  }
+
+  private findFunctionCalls(body: ts.Node | undefined): ComponentRelation[] {
+    const relations = new Map<string, ComponentRelation>()
+    if (!body) return []
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const target = this.getCalleeName(node.expression)
+        if (target) {
+          const calleeName = target.split('.').pop() || target
+          const isHook = /^use[A-Z0-9]/.test(calleeName)
+          relations.set(`${isHook ? 'uses' : 'calls'}:${target}`, {
+            type: isHook ? 'uses' : 'calls',
+            target,
+            confidence: isHook ? 0.9 : 0.8
+          })
+        }
+      } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        // Only PascalCase tags are components; lowercase tags are DOM elements
+        const tagName = node.tagName.getText()
+        if (/^[A-Z]/.test(tagName)) {
+          relations.set(`composes:${tagName}`, { type: 'composes', target: tagName, confidence: 0.85 })
+        }
+      }
+
+      ts.forEachChild(node, visit)
+    }
+
+    visit(body)
+    return Array.from(relations.values())
+  }
+
+  private getCalleeName(expression: ts.Expression): string | undefined {
+    if (ts.isIdentifier(expression)) {
+      return expression.text
+    }
+    if (expression.kind === ts.SyntaxKind.ThisKeyword) {
+      return 'this'
+    }
+    if (ts.isPropertyAccessExpression(expression)) {
+      const objectName = this.getCalleeName(expression.expression)
+      return objectName ? `${objectName}.${expression.name.text}` : undefined
+    }
+    return undefined
+  }
+
+  private containsJsx(node: ts.Node): boolean {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      return true
+    }
+    return ts.forEachChild(node, child => this.containsJsx(child) || undefined) || false
+  }
+
+  private unwrapExpression(expression: ts.Expression): ts.Expression {
+    while (
+      ts.isParenthesizedExpression(expression) ||
+      ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression) ||
+      ts.isTypeAssertionExpression(expression) ||
+      ts.isNonNullExpression(expression)
+    ) {
+      expression = expression.expression
+    }
+    return expression
+  }
+
+  private isExported(node: ts.Node, name: string, scope: DeclarationScope): boolean {
+    if (ts.isDeclarationStatement(node) || ts.isVariableDeclaration(node) || ts.isVariableStatement(node)) {
+      const flags = ts.getCombinedModifierFlags(node as ts.Declaration)
+      if ((flags & ts.ModifierFlags.Export) !== 0) return true
+    }
+    return !scope.parent && scope.localExports.has(name)
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    if (!ts.canHaveModifiers(node)) return false
+    return ts.getModifiers(node)?.some(modifier => modifier.kind === kind) || false
+  }
+
+  private getVisibility(member: ts.ClassElement): 'public' | 'protected' | 'private' {
+    if (this.hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) {
+      return 'private'
+    }
+    if (this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) {
+      return 'protected'
+    }
+    return 'public'
+  }
+
+  private getDecorators(node: ts.Node, sourceFile: ts.SourceFile): string[] | undefined {
+    if (!ts.canHaveDecorators(node)) return undefined
+    const decorators = ts.getDecorators(node)
+    return decorators && decorators.length > 0
+      ? decorators.map(decorator => `@${decorator.expression.getText(sourceFile)}`)
+      : undefined
+  }
+
+  private getParameters(fn: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): { name: string, type?: string, optional?: boolean }[] {
+    return fn.parameters.map(parameter => ({
+      name: parameter.name.getText(sourceFile),
+      type: parameter.type?.getText(sourceFile),
+      optional: !!parameter.questionToken || !!parameter.initializer || undefined
+    }))
+  }
+
+  private getClassProperties(node: ts.ClassLikeDeclaration, sourceFile: ts.SourceFile) {
+    const properties = node.members
+      .filter(ts.isPropertyDeclaration)
+      .filter(member => {
+        const initializer = member.initializer && this.unwrapExpression(member.initializer)
+        return !initializer || !(ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+      })
+      .map(member => ({
+        name: member.name.getText(sourceFile),
+        type: member.type?.getText(sourceFile),
+        visibility: this.getVisibility(member),
+        isStatic: this.hasModifier(member, ts.SyntaxKind.StaticKeyword) || undefined,
+        isReadonly: this.hasModifier(member, ts.SyntaxKind.ReadonlyKeyword) || undefined
+      }))
+
+    return properties.length > 0 ? properties : undefined
+  }
+
+  private getDocumentation(node: ts.Node): Component['metadata'] {
+    const jsDocs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc)
+    const jsDoc = jsDocs[jsDocs.length - 1]
+    if (!jsDoc) return {}
+
+    const description = ts.getTextOfJSDocComment(jsDoc.comment)?.trim()
+    const tags = (jsDoc.tags || []).map(tag => ({
+      name: tag.tagName.text,
+      text: ts.getTextOfJSDocComment(tag.comment)?.trim() || undefined
+    }))
+
+    return {
+      description: description || undefined,
+      jsDocTags: tags.length > 0 ? tags : undefined,
+      isDeprecated: tags.some(tag => tag.name === 'deprecated') || undefined
+    }
+  }
+
+  private getHeaderText(node: ts.Node, end: number, sourceFile: ts.SourceFile): string {
+    // Declaration text up to (not including) the body, collapsed onto one line
+    return sourceFile.text
+      .substring(node.getStart(sourceFile), end)
+      .replace(/\s+/g, ' ')
+      .replace(/\s*\{?\s*$/, '')
+      .trim()
+  }
+}
+
+// Python Component Extractor
+export class PythonExtractor extends ComponentExtractor {
+  language = 'python'
+  supportedExtensions = ['.py', '.pyw']
   
   async extractComponents(artifact: Artifact): Promise<Component[]> {
     if (!artifact.content) return []
@@ -89,20 +937,19 @@ export class TypeScriptExtractor extends ComponentExtractor {
     // Extract classes
     components.push(...this.extractClasses(content, artifact.path, lines))
     
-    // Extract functions
+    // Extract functions (including methods)
     components.push(...this.extractFunctions(content, artifact.path, lines))
     
-    // Extract React components
-    components.push(...this.extractReactComponents(content, artifact.path, lines))
-    
-    // Extract hooks
-    components.push(...this.extractHooks(content, artifact.path, lines))
+    // Extract decorators
+    components.push(...this.extractDecorators(content, artifact.path, lines))
     
-    // Extract types and interfaces
-    components.push(...this.extractTypes(content, artifact.path, lines))
+    // Extract variables and constants
+    components.push(...this.extractVariables(content, artifact.path, lines))
     
-    // Extract exports
-    components.push(...this.extractExports(content, artifact.path, lines))
+    // Package __init__ files re-export what they import from their submodules
+    if (/(^|\/)__init__\.pyi?$/.test(artifact.path)) {
+      components.push(...this.extractPackageExports(imports, artifact.path))
+    }
     
     // Add import relations to all components
     components.forEach(component => {
@@ -114,32 +961,32 @@ export class TypeScriptExtractor extends ComponentExtractor {
   
   private extractClasses(content: string, filePath: string, lines: string[]): Component[] {
     const components: Component[] = []
-    const classRegex = /(?:export\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([\w,\s]+))?/g
+    const classRegex = /^(\s*)class\s+(\w+)(?:\(([^)]+)\))?:/gm
     
     let match
     while ((match = classRegex.exec(content)) !== null) {
-      const [fullMatch, className, extendsClass, implementsClasses] = match
+      const [fullMatch, indentation, className, parentClasses] = match
       const startLine = content.substring(0, match.index).split('\n').length
       
       const relations: ComponentRelation[] = []
       
-      if (extendsClass) {
-        relations.push({
-          type: 'extends',
-          target: extendsClass,
-          confidence: 0.9
+      if (parentClasses) {
+        parentClasses.split(',').forEach(parent => {
+          const parentName = parent.trim()
+          if (parentName) {
+            relations.push({
+              type: 'extends',
+              target: parentName,
+              confidence: 0.9
+            })
+          }
         })
       }
       
-      if (implementsClasses) {
-        implementsClasses.split(',').forEach(impl => {
-          relations.push({
-            type: 'implements',
-            target: impl.trim(),
-            confidence: 0.9
-          })
-        })
-      }
+      // Find decorators for this class
+      const decorators = this.findDecoratorsBeforeLine(content, match.index)
+      
+      const endLine = this.findClassEndLine(content, match.index, indentation.length)
       
       components.push({
         id: this.generateComponentId(className, 'class', filePath),
@@ -147,13 +994,12 @@ export class TypeScriptExtractor extends ComponentExtractor {
         type: 'class',
         parentPath: filePath,
         startLine,
-        endLine: this.findClassEndLine(content, match.index),
+        endLine,
         relations,
         metadata: {
-          isExported: fullMatch.includes('export'),
-          isAbstract: fullMatch.includes('abstract'),
-          extendsClass,
-          implementsClasses: implementsClasses?.split(',').map(s => s.trim())
+          parentClasses: parentClasses?.split(',').map(s => s.trim()).filter(Boolean),
+          decorators,
+          indentationLevel: indentation.length
         }
       })
     }
@@ -163,111 +1009,40 @@ export class TypeScriptExtractor extends ComponentExtractor {
   
   private extractFunctions(content: string, filePath: string, lines: string[]): Component[] {
     const components: Component[] = []
-    const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\(/g
-    const arrowFunctionRegex = /(?:export\s+)?(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?\([^)]*\)\s*=>/g
+    const functionRegex = /^(\s*)(?:async\s+)?def\s+(\w+)\s*\([^)]*\):/gm
     
-    // Regular functions
     let match
     while ((match = functionRegex.exec(content)) !== null) {
-      const [fullMatch, functionName] = match
+      const [fullMatch, indentation, functionName] = match
       const startLine = content.substring(0, match.index).split('\n').length
       
-      components.push({
-        id: this.generateComponentId(functionName, 'function', filePath),
-        name: functionName,
-        type: 'function',
-        parentPath: filePath,
-        startLine,
-        endLine: this.findFunctionEndLine(content, match.index),
-        relations: this.findFunctionCalls(content, match.index),
-        metadata: {
-          isExported: fullMatch.includes('export'),
-          isAsync: fullMatch.includes('async')
-        }
-      })
-    }
-    
-    // Arrow functions
-    while ((match = arrowFunctionRegex.exec(content)) !== null) {
-      const [fullMatch, functionName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
+      // Determine if it's a method (inside a class) or standalone function
+      const isMethod = indentation.length > 0
+      const isPrivate = functionName.startsWith('_')
+      const isSpecial = functionName.startsWith('__') && functionName.endsWith('__')
+      
+      // Find decorators for this function
+      const decorators = this.findDecoratorsBeforeLine(content, match.index)
+      
+      const componentType = isMethod ? 'function' : 'function'
+      
+      const endLine = this.findFunctionEndLine(content, match.index, indentation.length)
       
       components.push({
-        id: this.generateComponentId(functionName, 'function', filePath),
+        id: this.generateComponentId(functionName, componentType, filePath),
         name: functionName,
-        type: 'function',
+        type: componentType,
         parentPath: filePath,
         startLine,
-        endLine: this.findFunctionEndLine(content, match.index),
+        endLine,
         relations: this.findFunctionCalls(content, match.index),
         metadata: {
-          isExported: fullMatch.includes('export'),
+          isMethod,
+          isPrivate,
+          isSpecial,
           isAsync: fullMatch.includes('async'),
-          isArrowFunction: true
-        }
-      })
-    }
-    
-    return components
-  }
-  
-  private extractReactComponents(content: string, filePath: string, lines: string[]): Component[] {
-    const components: Component[] = []
-    
-    // React function components
-    const componentRegex = /(?:export\s+)?(?:const|function)\s+([A-Z]\w+)\s*[=:]\s*(?:\([^)]*\)\s*)?(?:=>\s*)?{/g
-    
-    let match
-    while ((match = componentRegex.exec(content)) !== null) {
-      const [fullMatch, componentName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      // Check if it looks like a React component (starts with capital letter, uses JSX)
-      if (componentName[0] === componentName[0].toUpperCase()) {
-        const componentContent = this.extractComponentContent(content, match.index)
-        const usesJSX = /<[A-Z]/.test(componentContent) || /return\s*\(/.test(componentContent)
-        
-        if (usesJSX) {
-          components.push({
-            id: this.generateComponentId(componentName, 'component', filePath),
-            name: componentName,
-            type: 'component',
-            parentPath: filePath,
-            startLine,
-            endLine: this.findFunctionEndLine(content, match.index),
-            relations: this.findHookUsage(componentContent),
-            metadata: {
-              isExported: fullMatch.includes('export'),
-              framework: 'react'
-            }
-          })
-        }
-      }
-    }
-    
-    return components
-  }
-  
-  private extractHooks(content: string, filePath: string, lines: string[]): Component[] {
-    const components: Component[] = []
-    const hookRegex = /(?:export\s+)?(?:const|function)\s+(use[A-Z]\w+)/g
-    
-    let match
-    while ((match = hookRegex.exec(content)) !== null) {
-      const [fullMatch, hookName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      components.push({
-        id: this.generateComponentId(hookName, 'hook', filePath),
-        name: hookName,
-        type: 'hook',
-        parentPath: filePath,
-        startLine,
-        endLine: this.findFunctionEndLine(content, match.index),
-        relations: this.findHookUsage(content.substring(match.index)),
-        metadata: {
-          isExported: fullMatch.includes('export'),
-          framework: 'react'
+          decorators,
+          indentationLevel: indentation.length
         }
       })
     }
@@ -275,58 +1050,27 @@ export class TypeScriptExtractor extends ComponentExtractor {
     return components
   }
   
-  private extractTypes(content: string, filePath: string, lines: string[]): Component[] {
+  private extractDecorators(content: string, filePath: string, lines: string[]): Component[] {
     const components: Component[] = []
+    const decoratorRegex = /^(\s*)@(\w+)(?:\([^)]*\))?$/gm
     
-    // Interfaces
-    const interfaceRegex = /(?:export\s+)?interface\s+(\w+)(?:\s+extends\s+([\w,\s]+))?/g
     let match
-    while ((match = interfaceRegex.exec(content)) !== null) {
-      const [fullMatch, interfaceName, extendsInterfaces] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      const relations: ComponentRelation[] = []
-      if (extendsInterfaces) {
-        extendsInterfaces.split(',').forEach(ext => {
-          relations.push({
-            type: 'extends',
-            target: ext.trim(),
-            confidence: 0.9
-          })
-        })
-      }
-      
-      components.push({
-        id: this.generateComponentId(interfaceName, 'interface', filePath),
-        name: interfaceName,
-        type: 'interface',
-        parentPath: filePath,
-        startLine,
-        endLine: this.findBlockEndLine(content, match.index),
-        relations,
-        metadata: {
-          isExported: fullMatch.includes('export'),
-          extendsInterfaces: extendsInterfaces?.split(',').map(s => s.trim())
-        }
-      })
-    }
-    
-    // Type aliases
-    const typeRegex = /(?:export\s+)?type\s+(\w+)\s*=/g
-    while ((match = typeRegex.exec(content)) !== null) {
-      const [fullMatch, typeName] = match
+    while ((match = decoratorRegex.exec(content)) !== null) {
+      const [fullMatch, indentation, decoratorName] = match
       const startLine = content.substring(0, match.index).split('\n').length
       
       components.push({
-        id: this.generateComponentId(typeName, 'type', filePath),
-        name: typeName,
-        type: 'type',
+        id: this.generateComponentId(decoratorName, 'constant', filePath),
+        name: `@${decoratorName}`,
+        type: 'constant',
         parentPath: filePath,
         startLine,
         endLine: startLine,
         relations: [],
         metadata: {
-          isExported: fullMatch.includes('export')
+          isDecorator: true,
+          decoratorName,
+          indentationLevel: indentation.length
         }
       })
     }
@@ -334,52 +1078,32 @@ export class TypeScriptExtractor extends ComponentExtractor {
     return components
   }
   
-  private extractExports(content: string, filePath: string, lines: string[]): Component[] {
+  private extractVariables(content: string, filePath: string, lines: string[]): Component[] {
     const components: Component[] = []
+    // Match variable assignments at module level (no indentation) or class level
+    const variableRegex = /^(\s*)([A-Z_][A-Z0-9_]*)\s*[:=]/gm
     
-    // Named exports
-    const namedExportRegex = /export\s*{\s*([^}]+)\s*}/g
     let match
-    while ((match = namedExportRegex.exec(content)) !== null) {
-      const exports = match[1].split(',').map(exp => exp.trim())
+    while ((match = variableRegex.exec(content)) !== null) {
+      const [fullMatch, indentation, variableName] = match
       const startLine = content.substring(0, match.index).split('\n').length
       
-      exports.forEach(exportName => {
-        const cleanName = exportName.replace(/\s+as\s+\w+/, '').trim()
+      // Only capture constants (all caps) or class attributes
+      if (variableName === variableName.toUpperCase()) {
         components.push({
-          id: this.generateComponentId(cleanName, 'export', filePath),
-          name: cleanName,
-          type: 'export',
+          id: this.generateComponentId(variableName, 'constant', filePath),
+          name: variableName,
+          type: 'constant',
           parentPath: filePath,
           startLine,
           endLine: startLine,
           relations: [],
           metadata: {
-            exportType: 'named',
-            alias: exportName.includes(' as ') ? exportName.split(' as ')[1].trim() : undefined
+            isConstant: true,
+            indentationLevel: indentation.length
           }
         })
-      })
-    }
-    
-    // Default exports
-    const defaultExportRegex = /export\s+default\s+(\w+)/g
-    while ((match = defaultExportRegex.exec(content)) !== null) {
-      const [, exportName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      components.push({
-        id: this.generateComponentId(exportName, 'export', filePath),
-        name: exportName,
-        type: 'export',
-        parentPath: filePath,
-        startLine,
-        endLine: startLine,
-        relations: [],
-        metadata: {
-          exportType: 'default'
-        }
-      })
+      }
     }
     
     return components
@@ -387,73 +1111,151 @@ export class TypeScriptExtractor extends ComponentExtractor {
   
   protected detectImports(content: string): ComponentRelation[] {
     const relations: ComponentRelation[] = []
-    const importRegex = /import\s+(?:{([^}]+)}|(\w+))\s+from\s+['"]([^'"]+)['"]/g
     
+    // Standard imports: import module
+    const standardImportRegex = /^import\s+(\w+(?:\.\w+)*)(?:\s+as\s+(\w+))?$/gm
     let match
-    while ((match = importRegex.exec(content)) !== null) {
-      const [, namedImports, defaultImport, modulePath] = match
+    while ((match = standardImportRegex.exec(content)) !== null) {
+      const [, modulePath, alias] = match
+      relations.push({
+        type: 'imports',
+        target: modulePath,
+        confidence: 0.95,
+        localName: alias
+      })
+    }
+    
+    // From imports: from module import name1, name2
+    const fromImportRegex = /^from\s+([\w.]+)\s+import\s+(.+)$/gm
+    while ((match = fromImportRegex.exec(content)) !== null) {
+      const [, modulePath, imports] = match
       
-      if (namedImports) {
-        namedImports.split(',').forEach(imp => {
-          const importName = imp.trim().replace(/\s+as\s+\w+/, '')
+      // Handle different import formats
+      if (imports.includes('(')) {
+        // Multi-line imports with parentheses
+        const multiLineMatch = content.match(new RegExp(`from\\s+${modulePath.replace('.', '\\.')}\\s+import\\s+\\([^)]+\\)`, 's'))
+        if (multiLineMatch) {
+          const importList = multiLineMatch[0].replace(/from\s+[\w.]+\s+import\s+\(|\)/g, '')
+          this.parseImportList(importList, modulePath, relations)
+        }
+      } else {
+        this.parseImportList(imports, modulePath, relations)
+      }
+    }
+    
+    return relations
+  }
+  
+  private extractPackageExports(imports: ComponentRelation[], filePath: string): Component[] {
+    return imports
+      .filter(relation => relation.target.startsWith('.'))
+      .map(relation => {
+        const splitIndex = relation.target.lastIndexOf('.')
+        const importName = relation.target.substring(splitIndex + 1)
+        // `.views` comes from `from . import views`: the source is the package itself
+        let source = relation.target.substring(0, splitIndex)
+        if (/^\.*$/.test(source)) {
+          source = relation.target.substring(0, splitIndex + 1)
+        }
+        
+        return {
+          id: this.generateComponentId(relation.localName || importName, 'export', filePath),
+          name: importName,
+          type: 'export' as ComponentType,
+          parentPath: filePath,
+          relations: [{ type: 'exposes' as RelationType, target: relation.target, confidence: 0.95 }],
+          metadata: {
+            exportType: 'named',
+            alias: relation.localName,
+            source,
+            indentationLevel: 0
+          }
+        }
+      })
+  }
+  
+  private parseImportList(imports: string, modulePath: string, relations: ComponentRelation[]): void {
+    imports.split(',').forEach(imp => {
+      const trimmed = imp.trim()
+      if (trimmed) {
+        const asMatch = trimmed.match(/(\w+)(?:\s+as\s+(\w+))?/)
+        if (asMatch) {
+          const [, importName, alias] = asMatch
+          // `from . import x` must become `.x`, not `..x`
+          const separator = modulePath.endsWith('.') ? '' : '.'
           relations.push({
             type: 'imports',
-            target: `${modulePath}.${importName}`,
-            confidence: 0.95
+            target: `${modulePath}${separator}${importName}`,
+            confidence: 0.95,
+            localName: alias
           })
-        })
+        }
       }
-      
-      if (defaultImport) {
-        relations.push({
-          type: 'imports',
-          target: `${modulePath}.${defaultImport}`,
-          confidence: 0.95
-        })
+    })
+  }
+  
+  private findDecoratorsBeforeLine(content: string, startIndex: number): string[] {
+    const decorators: string[] = []
+    const beforeContent = content.substring(0, startIndex)
+    const lines = beforeContent.split('\n')
+    
+    // Look backwards for decorators
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const line = lines[i].trim()
+      if (line.startsWith('@')) {
+        decorators.unshift(line)
+      } else if (line && !line.startsWith('#')) {
+        // Stop if we hit a non-decorator, non-comment line
+        break
       }
     }
     
-    return relations
-  }
-  
-  private findClassEndLine(content: string, startIndex: number): number {
-    return this.findBlockEndLine(content, startIndex)
+    return decorators
   }
   
-  private findFunctionEndLine(content: string, startIndex: number): number {
-    return this.findBlockEndLine(content, startIndex)
+  private findClassEndLine(content: string, startIndex: number, indentationLevel: number): number {
+    const lines = content.substring(startIndex).split('\n')
+    
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i]
+      if (line.trim() === '') continue // Skip empty lines
+      
+      const currentIndentation = line.length - line.trimStart().length
+      if (currentIndentation <= indentationLevel && line.trim()) {
+        return content.substring(0, startIndex).split('\n').length + i - 1
+      }
+    }
+    
+    return content.split('\n').length
   }
   
-  private findBlockEndLine(content: string, startIndex: number): number {
-    let braceCount = 0
-    let inBlock = false
+  private findFunctionEndLine(content: string, startIndex: number, indentationLevel: number): number {
+    const lines = content.substring(startIndex).split('\n')
     
-    for (let i = startIndex; i < content.length; i++) {
-      const char = content[i]
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i]
+      if (line.trim() === '') continue // Skip empty lines
       
-      if (char === '{') {
-        braceCount++
-        inBlock = true
-      } else if (char === '}') {
-        braceCount--
-        if (inBlock && braceCount === 0) {
-          return content.substring(0, i).split('\n').length
-        }
+      const currentIndentation = line.length - line.trimStart().length
+      if (currentIndentation <= indentationLevel && line.trim()) {
+        return content.substring(0, startIndex).split('\n').length + i - 1
       }
     }
     
-    return content.substring(0, startIndex).split('\n').length
+    return content.split('\n').length
   }
   
   private findFunctionCalls(content: string, startIndex: number): ComponentRelation[] {
     const relations: ComponentRelation[] = []
-    const functionCallRegex = /(\w+)\s*\(/g
-    const blockContent = this.extractComponentContent(content, startIndex)
+    const functionContent = this.extractFunctionContent(content, startIndex)
     
+    // Find function calls: function_name(
+    const functionCallRegex = /(\w+)\s*\(/g
     let match
-    while ((match = functionCallRegex.exec(blockContent)) !== null) {
+    while ((match = functionCallRegex.exec(functionContent)) !== null) {
       const [, functionName] = match
-      if (functionName && !['if', 'for', 'while', 'switch', 'catch'].includes(functionName)) {
+      // Skip common Python keywords and built-ins
+      if (!['if', 'for', 'while', 'with', 'try', 'except', 'print', 'len', 'str', 'int', 'float', 'bool', 'list', 'dict', 'tuple', 'set'].includes(functionName)) {
         relations.push({
           type: 'calls',
           target: functionName,
@@ -462,397 +1264,1930 @@ export class TypeScriptExtractor extends ComponentExtractor {
       }
     }
     
-    return relations
-  }
-  
-  private findHookUsage(content: string): ComponentRelation[] {
-    const relations: ComponentRelation[] = []
-    const hookRegex = /(use[A-Z]\w*)\s*\(/g
-    
-    let match
-    while ((match = hookRegex.exec(content)) !== null) {
-      const [, hookName] = match
+    // Find method calls: object.method(
+    const methodCallRegex = /(\w+)\.(\w+)\s*\(/g
+    while ((match = methodCallRegex.exec(functionContent)) !== null) {
+      const [, objectName, methodName] = match
       relations.push({
         type: 'uses',
-        target: hookName,
-        confidence: 0.9
+        target: `${objectName}.${methodName}`,
+        confidence: 0.8
       })
     }
     
     return relations
   }
   
-  private extractComponentContent(content: string, startIndex: number): string {
-    let braceCount = 0
-    let start = -1
-    let end = content.length
+  private extractFunctionContent(content: string, startIndex: number): string {
+    const lines = content.substring(startIndex).split('\n')
+    if (lines.length === 0) return ''
     
-    for (let i = startIndex; i < content.length; i++) {
-      const char = content[i]
-      
-      if (char === '{') {
-        if (start === -1) start = i
-        braceCount++
-      } else if (char === '}') {
-        braceCount--
-        if (braceCount === 0) {
-          end = i
-          break
-        }
+    const firstLine = lines[0]
+    const baseIndentation = firstLine.length - firstLine.trimStart().length
+    
+    let functionContent = firstLine + '\n'
+    
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i]
+      if (line.trim() === '') {
+        functionContent += line + '\n'
+        continue
+      }
+      
+      const currentIndentation = line.length - line.trimStart().length
+      if (currentIndentation <= baseIndentation && line.trim()) {
+        break
       }
+      
+      functionContent += line + '\n'
     }
     
-    return start !== -1 ? content.substring(start, end + 1) : ''
+    return functionContent
   }
 }
 
-// Python Component Extractor
-export class PythonExtractor extends ComponentExtractor {
-  language = 'python'
-  supportedExtensions = ['.py', '.pyw']
-  
+// Go Component Extractor
+// Scans gofmt-style sources: top-level declarations start at column 0 and
+// grouped `type (...)` / `const (...)` specs are parsed one level deep
+export class GoExtractor extends ComponentExtractor {
+  language = 'go'
+  supportedExtensions = ['.go']
+
+  private static readonly BUILTINS = new Set([
+    'if', 'for', 'switch', 'select', 'func', 'return', 'go', 'defer', 'range', 'case',
+    'append', 'cap', 'clear', 'close', 'complex', 'copy', 'delete', 'imag', 'len', 'make',
+    'max', 'min', 'new', 'panic', 'print', 'println', 'real', 'recover',
+    'bool', 'byte', 'rune', 'string', 'error', 'any', 'int', 'int8', 'int16', 'int32', 'int64',
+    'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr', 'float32', 'float64',
+    'complex64', 'complex128'
+  ])
+
   async extractComponents(artifact: Artifact): Promise<Component[]> {
     if (!artifact.content) return []
-    
-    const components: Component[] = []
+
     const content = artifact.content
+    const masked = this.maskCommentsAndStrings(content)
     const lines = content.split('\n')
-    
+    const packageName = masked.match(/^package\s+(\w+)/m)?.[1]
+
+    const components: Component[] = []
+
     // Extract imports
     const imports = this.detectImports(content)
-    
-    // Extract classes
-    components.push(...this.extractClasses(content, artifact.path, lines))
-    
-    // Extract functions (including methods)
-    components.push(...this.extractFunctions(content, artifact.path, lines))
-    
-    // Extract decorators
-    components.push(...this.extractDecorators(content, artifact.path, lines))
-    
-    // Extract variables and constants
-    components.push(...this.extractVariables(content, artifact.path, lines))
-    
-    // Add import relations to all components
+
+    // Extract the package clause (only from the file documenting the package)
+    const packageComponent = this.extractPackage(masked, lines, artifact.path)
+    if (packageComponent) components.push(packageComponent)
+
+    // Extract type declarations (structs, interfaces, named types)
+    components.push(...this.extractTypes(masked, content, lines, artifact.path))
+
+    // Extract functions and methods
+    components.push(...this.extractFunctions(masked, content, lines, artifact.path))
+
+    // Extract constants and exported variables
+    components.push(...this.extractValues(masked, lines, artifact.path, components))
+
+    // Explicit interface assertions: var _ Handler = (*Server)(nil)
+    this.detectInterfaceAssertions(masked, components)
+
     components.forEach(component => {
+      component.metadata.package = packageName
       component.relations.push(...imports)
     })
-    
+
     return components
   }
-  
-  private extractClasses(content: string, filePath: string, lines: string[]): Component[] {
-    const components: Component[] = []
-    const classRegex = /^(\s*)class\s+(\w+)(?:\(([^)]+)\))?:/gm
-    
+
+  protected detectImports(content: string): ComponentRelation[] {
+    const masked = this.maskCommentsAndStrings(content)
+    const relations: ComponentRelation[] = []
+    const importRegex = /^import\s*(\(|(?:[\w.]+\s+)?")/gm
+
     let match
-    while ((match = classRegex.exec(content)) !== null) {
-      const [fullMatch, indentation, className, parentClasses] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      const relations: ComponentRelation[] = []
-      
-      if (parentClasses) {
-        parentClasses.split(',').forEach(parent => {
-          const parentName = parent.trim()
-          if (parentName) {
-            relations.push({
-              type: 'extends',
-              target: parentName,
-              confidence: 0.9
-            })
-          }
+    while ((match = importRegex.exec(masked)) !== null) {
+      const start = match.index + match[0].length - 1
+      const end = match[1] === '(' ? this.findBlockEnd(masked, start) : masked.indexOf('\n', start)
+      const block = content.substring(start, end < 0 ? content.length : end)
+
+      // Each spec: [alias] "path"
+      const specRegex = /(?:^|\n|\()\s*([\w.]+)?\s*"([^"\n]+)"/g
+      let spec
+      while ((spec = specRegex.exec(block)) !== null) {
+        const [, alias, importPath] = spec
+        relations.push({
+          type: 'imports',
+          target: importPath,
+          confidence: 0.95,
+          // `_` and `.` imports don't introduce a usable package name
+          localName: alias && alias !== '_' && alias !== '.' ? alias : undefined
         })
       }
-      
-      // Find decorators for this class
-      const decorators = this.findDecoratorsBeforeLine(content, match.index)
-      
-      const endLine = this.findClassEndLine(content, match.index, indentation.length)
-      
+    }
+
+    return relations
+  }
+
+  private extractPackage(masked: string, lines: string[], filePath: string): Component | null {
+    const match = masked.match(/^package\s+(\w+)/m)
+    if (!match || match.index === undefined) return null
+
+    const packageName = match[1]
+    const line = this.getLineNumber(masked, match.index)
+    const description = this.getLeadingComment(lines, line)
+    const fileName = filePath.split('/').pop()?.replace(/\.go$/, '')
+
+    // Go keeps the package doc comment in one file (often doc.go)
+    const documentsPackage = description?.startsWith(`Package ${packageName}`) ||
+      fileName === 'doc' ||
+      fileName === packageName
+    if (!documentsPackage) return null
+
+    return {
+      id: this.generateComponentId(packageName, 'namespace', filePath),
+      name: packageName,
+      type: 'namespace',
+      parentPath: filePath,
+      startLine: line,
+      endLine: lines.length,
+      relations: [],
+      metadata: {
+        qualifiedName: packageName,
+        isExported: true,
+        isMain: packageName === 'main' || undefined,
+        description
+      }
+    }
+  }
+
+  private extractTypes(masked: string, content: string, lines: string[], filePath: string): Component[] {
+    const components: Component[] = []
+
+    for (const spec of this.findSpecs(masked, 'type')) {
+      const header = masked.substring(spec.nameIndex).match(/^(\w+)\s*(\[[^\]]*\])?\s*(=\s*)?(struct|interface)?\s*(\{)?/)
+      if (!header) continue
+
+      const [headerText, name, typeParameters, alias, kind, brace] = header
+      const startLine = this.getLineNumber(masked, spec.declarationIndex)
+      const bodyStart = brace ? spec.nameIndex + headerText.length - 1 : -1
+      const bodyEnd = bodyStart >= 0 ? this.findBlockEnd(masked, bodyStart) : masked.indexOf('\n', spec.nameIndex)
+      const endLine = this.getLineNumber(masked, bodyEnd < 0 ? masked.length : bodyEnd)
+      const relations: ComponentRelation[] = []
+      const metadata: Component['metadata'] = {
+        qualifiedName: name,
+        isExported: this.isExportedName(name),
+        typeParameters: typeParameters?.slice(1, -1).trim() || undefined,
+        description: this.getLeadingComment(lines, startLine)
+      }
+
+      let type: ComponentType = 'type'
+      if (kind === 'struct' && bodyStart >= 0) {
+        type = 'class'
+        const members = this.parseMembers(masked, content, bodyStart, bodyEnd)
+        metadata.kind = 'struct'
+        metadata.fields = members.fields.length > 0 ? members.fields : undefined
+        // Embedded structs promote their fields and methods
+        members.embedded.forEach(target => relations.push({ type: 'composes', target, confidence: 0.85 }))
+        metadata.embedded = members.embedded.length > 0 ? members.embedded : undefined
+      } else if (kind === 'interface' && bodyStart >= 0) {
+        type = 'interface'
+        const members = this.parseMembers(masked, content, bodyStart, bodyEnd)
+        metadata.methods = members.methods
+        members.embedded.forEach(target => relations.push({ type: 'extends', target, confidence: 0.9 }))
+      } else {
+        metadata.kind = alias ? 'alias' : 'named'
+        metadata.underlyingType = content
+          .substring(spec.nameIndex + headerText.length, bodyEnd < 0 ? content.length : bodyEnd)
+          .trim() || undefined
+      }
+
       components.push({
-        id: this.generateComponentId(className, 'class', filePath),
-        name: className,
-        type: 'class',
+        id: this.generateComponentId(name, type, filePath),
+        name,
+        type,
         parentPath: filePath,
         startLine,
         endLine,
         relations,
-        metadata: {
-          parentClasses: parentClasses?.split(',').map(s => s.trim()).filter(Boolean),
-          decorators,
-          indentationLevel: indentation.length
-        }
+        metadata
       })
     }
-    
+
     return components
   }
-  
-  private extractFunctions(content: string, filePath: string, lines: string[]): Component[] {
+
+  private extractFunctions(masked: string, content: string, lines: string[], filePath: string): Component[] {
     const components: Component[] = []
-    const functionRegex = /^(\s*)(?:async\s+)?def\s+(\w+)\s*\([^)]*\):/gm
-    
+    const functionRegex = /^func\s*(?:\(\s*(?:(\w+)\s+)?(\*?)\s*(\w+)\s*(?:\[[^\]]*\])?\s*\)\s*)?(\w+)\s*(\[[^\]]*\])?\s*\(/gm
+
     let match
-    while ((match = functionRegex.exec(content)) !== null) {
-      const [fullMatch, indentation, functionName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      // Determine if it's a method (inside a class) or standalone function
-      const isMethod = indentation.length > 0
-      const isPrivate = functionName.startsWith('_')
-      const isSpecial = functionName.startsWith('__') && functionName.endsWith('__')
-      
-      // Find decorators for this function
-      const decorators = this.findDecoratorsBeforeLine(content, match.index)
-      
-      const componentType = isMethod ? 'function' : 'function'
-      
-      const endLine = this.findFunctionEndLine(content, match.index, indentation.length)
-      
+    while ((match = functionRegex.exec(masked)) !== null) {
+      const [fullMatch, receiverName, pointer, receiverType, name, typeParameters] = match
+      const startLine = this.getLineNumber(masked, match.index)
+      const bodyStart = this.findBodyStart(masked, match.index + fullMatch.length - 1)
+      const bodyEnd = bodyStart >= 0 ? this.findBlockEnd(masked, bodyStart) : masked.indexOf('\n', match.index)
+      const signature = content
+        .substring(match.index, bodyStart >= 0 ? bodyStart : (bodyEnd < 0 ? content.length : bodyEnd))
+        .replace(/\s+/g, ' ')
+        .trim()
+
+      const qualifiedName = receiverType ? `${receiverType}.${name}` : name
+      const relations = bodyStart >= 0
+        ? this.findFunctionCalls(masked.substring(bodyStart, bodyEnd), receiverName, receiverType)
+        : []
+
       components.push({
-        id: this.generateComponentId(functionName, componentType, filePath),
-        name: functionName,
-        type: componentType,
+        id: this.generateComponentId(qualifiedName, receiverType ? 'method' : 'function', filePath),
+        name,
+        type: receiverType ? 'method' : 'function',
         parentPath: filePath,
         startLine,
-        endLine,
-        relations: this.findFunctionCalls(content, match.index),
+        endLine: this.getLineNumber(masked, bodyEnd < 0 ? masked.length : bodyEnd),
+        relations,
         metadata: {
-          isMethod,
-          isPrivate,
-          isSpecial,
-          isAsync: fullMatch.includes('async'),
-          decorators,
-          indentationLevel: indentation.length
+          qualifiedName,
+          // Methods hang off their receiver type like class members
+          parentId: receiverType ? this.generateComponentId(receiverType, 'class', filePath) : undefined,
+          parentName: receiverType,
+          receiver: receiverType,
+          receiverName: receiverName || undefined,
+          pointerReceiver: receiverType ? pointer === '*' : undefined,
+          isExported: this.isExportedName(name),
+          typeParameters: typeParameters?.slice(1, -1).trim() || undefined,
+          signature,
+          isTest: /_test\.go$/.test(filePath) && /^(Test|Benchmark|Fuzz|Example)/.test(name) || undefined,
+          description: this.getLeadingComment(lines, startLine)
         }
       })
     }
-    
+
+    // Receivers declared in another file of the package have no local parent
+    const localTypes = new Set(components.map(c => c.metadata.receiver).filter(Boolean))
+    const declaredTypes = new Set(
+      this.findSpecs(masked, 'type').map(spec => masked.substring(spec.nameIndex).match(/^\w+/)?.[0])
+    )
+    localTypes.forEach(receiverType => {
+      if (declaredTypes.has(receiverType)) return
+      components
+        .filter(c => c.metadata.receiver === receiverType)
+        .forEach(c => { c.metadata.parentId = undefined })
+    })
+
     return components
   }
-  
-  private extractDecorators(content: string, filePath: string, lines: string[]): Component[] {
+
+  private extractValues(
+    masked: string,
+    lines: string[],
+    filePath: string,
+    declared: Component[]
+  ): Component[] {
     const components: Component[] = []
-    const decoratorRegex = /^(\s*)@(\w+)(?:\([^)]*\))?$/gm
-    
-    let match
-    while ((match = decoratorRegex.exec(content)) !== null) {
-      const [fullMatch, indentation, decoratorName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      components.push({
-        id: this.generateComponentId(decoratorName, 'constant', filePath),
-        name: `@${decoratorName}`,
-        type: 'constant',
-        parentPath: filePath,
-        startLine,
-        endLine: startLine,
-        relations: [],
-        metadata: {
-          isDecorator: true,
-          decoratorName,
-          indentationLevel: indentation.length
+
+    for (const keyword of ['const', 'var'] as const) {
+      const specs = this.findSpecs(masked, keyword)
+      let enumType: Component | undefined
+
+      for (const spec of specs) {
+        const header = masked.substring(spec.nameIndex).match(/^(\w+(?:\s*,\s*\w+)*)\s*([^=\n]*?)\s*(=|\n|$)/)
+        if (!header) continue
+
+        const names = header[1].split(',').map(name => name.trim()).filter(name => name !== '_')
+        const valueType = header[2].trim() || undefined
+        const startLine = this.getLineNumber(masked, spec.nameIndex)
+
+        // type Color int + const ( Red Color = iota ... ) reads as an enum
+        if (keyword === 'const') {
+          if (spec.groupStart !== undefined && spec.isFirstInGroup) {
+            const iotaType = valueType && /=\s*iota\b/.test(masked.substring(spec.nameIndex, masked.indexOf('\n', spec.nameIndex)))
+              ? declared.find(c => c.name === valueType && c.type === 'type')
+              : undefined
+            enumType = iotaType
+            if (iotaType) {
+              iotaType.type = 'enum'
+              iotaType.id = this.generateComponentId(iotaType.name, 'enum', filePath)
+              iotaType.metadata.values = []
+            }
+          }
+          if (enumType && spec.groupStart !== undefined) {
+            enumType.metadata.values.push(...names)
+            continue
+          }
         }
-      })
+
+        for (const name of names) {
+          // Unexported package variables are implementation details
+          if (keyword === 'var' && !this.isExportedName(name)) continue
+
+          components.push({
+            id: this.generateComponentId(name, keyword === 'const' ? 'constant' : 'variable', filePath),
+            name,
+            type: keyword === 'const' ? 'constant' : 'variable',
+            parentPath: filePath,
+            startLine,
+            endLine: startLine,
+            relations: [],
+            metadata: {
+              qualifiedName: name,
+              isExported: this.isExportedName(name),
+              valueType,
+              description: this.getLeadingComment(lines, startLine)
+            }
+          })
+        }
+      }
     }
-    
+
     return components
   }
-  
-  private extractVariables(content: string, filePath: string, lines: string[]): Component[] {
-    const components: Component[] = []
-    // Match variable assignments at module level (no indentation) or class level
-    const variableRegex = /^(\s*)([A-Z_][A-Z0-9_]*)\s*[:=]/gm
-    
+
+  private detectInterfaceAssertions(masked: string, components: Component[]): void {
+    const assertionRegex = /(?:^var|^\s+)\s*_\s+(\*?[\w.]+)\s*=\s*(?:\(\s*\*\s*(\w+)\s*\)\s*\(\s*nil\s*\)|&?(\w+)\s*\{)/gm
+
     let match
-    while ((match = variableRegex.exec(content)) !== null) {
-      const [fullMatch, indentation, variableName] = match
-      const startLine = content.substring(0, match.index).split('\n').length
-      
-      // Only capture constants (all caps) or class attributes
-      if (variableName === variableName.toUpperCase()) {
-        components.push({
-          id: this.generateComponentId(variableName, 'constant', filePath),
-          name: variableName,
-          type: 'constant',
-          parentPath: filePath,
-          startLine,
-          endLine: startLine,
-          relations: [],
-          metadata: {
-            isConstant: true,
-            indentationLevel: indentation.length
-          }
-        })
+    while ((match = assertionRegex.exec(masked)) !== null) {
+      const [, interfaceName, pointerType, valueType] = match
+      const implementer = components.find(c => c.name === (pointerType || valueType) && c.type === 'class')
+      if (implementer) {
+        implementer.relations.push({ type: 'implements', target: interfaceName.replace(/^\*/, ''), confidence: 0.95 })
       }
     }
-    
-    return components
   }
-  
-  protected detectImports(content: string): ComponentRelation[] {
-    const relations: ComponentRelation[] = []
-    
-    // Standard imports: import module
-    const standardImportRegex = /^import\s+(\w+(?:\.\w+)*)(?:\s+as\s+(\w+))?$/gm
+
+  private findSpecs(masked: string, keyword: 'type' | 'const' | 'var') {
+    // Positions of every spec of a top-level `keyword X ...` or `keyword ( ... )` declaration
+    const specs: { declarationIndex: number, nameIndex: number, groupStart?: number, isFirstInGroup?: boolean }[] = []
+    const declarationRegex = new RegExp(`^${keyword}\\s*(\\(|\\w)`, 'gm')
+
     let match
-    while ((match = standardImportRegex.exec(content)) !== null) {
-      const [, modulePath, alias] = match
-      relations.push({
-        type: 'imports',
-        target: alias || modulePath,
-        confidence: 0.95
-      })
+    while ((match = declarationRegex.exec(masked)) !== null) {
+      const openIndex = match.index + match[0].length - 1
+      if (match[1] !== '(') {
+        specs.push({ declarationIndex: match.index, nameIndex: openIndex })
+        continue
+      }
+
+      const closeIndex = this.findBlockEnd(masked, openIndex)
+      let depth = 0
+      let isFirst = true
+      for (let i = openIndex + 1; i < closeIndex; i++) {
+        const char = masked[i]
+        if (char === '{' || char === '(' || char === '[') depth++
+        else if (char === '}' || char === ')' || char === ']') depth--
+        else if (depth === 0 && (i === openIndex + 1 || masked[i - 1] === '\n')) {
+          const nameMatch = masked.substring(i, closeIndex).match(/^[ \t]*([A-Za-z_]\w*)/)
+          if (nameMatch) {
+            const nameIndex = i + nameMatch[0].length - nameMatch[1].length
+            specs.push({ declarationIndex: nameIndex, nameIndex, groupStart: openIndex, isFirstInGroup: isFirst })
+            isFirst = false
+          }
+        }
+      }
+      declarationRegex.lastIndex = closeIndex
     }
-    
-    // From imports: from module import name1, name2
-    const fromImportRegex = /^from\s+([\w.]+)\s+import\s+(.+)$/gm
-    while ((match = fromImportRegex.exec(content)) !== null) {
-      const [, modulePath, imports] = match
-      
-      // Handle different import formats
-      if (imports.includes('(')) {
-        // Multi-line imports with parentheses
-        const multiLineMatch = content.match(new RegExp(`from\\s+${modulePath.replace('.', '\\.')}\\s+import\\s+\\([^)]+\\)`, 's'))
-        if (multiLineMatch) {
-          const importList = multiLineMatch[0].replace(/from\s+[\w.]+\s+import\s+\(|\)/g, '')
-          this.parseImportList(importList, modulePath, relations)
+
+    return specs
+  }
+
+  private parseMembers(masked: string, content: string, bodyStart: number, bodyEnd: number) {
+    const fields: { name: string, type: string }[] = []
+    const methods: string[] = []
+    const embedded: string[] = []
+
+    let depth = 0
+    let lineStart = bodyStart + 1
+    for (let i = bodyStart + 1; i <= bodyEnd; i++) {
+      const char = masked[i]
+      if (char === '{' || char === '(' || char === '[') depth++
+      else if ((char === '}' || char === ')' || char === ']') && i < bodyEnd) depth--
+
+      if (char !== '\n' && char !== ';' && i !== bodyEnd) continue
+
+      // Struct tags are masked string literals: drop them
+      const line = masked.substring(lineStart, i).replace(/\s*[`"]\s*[`"]\s*$/, '').trim()
+      lineStart = i + 1
+      if (!line || depth > 0 && char !== '\n') continue
+
+      const methodMatch = line.match(/^(\w+)\s*(\[[^\]]*\])?\s*\(/)
+      const fieldMatch = line.match(/^(\w+(?:\s*,\s*\w+)*)\s+(.+)$/)
+      const embeddedMatch = line.match(/^\*?((?:\w+\.)?\w+)(?:\[[^\]]*\])?$/)
+
+      if (methodMatch) {
+        methods.push(methodMatch[1])
+      } else if (embeddedMatch) {
+        embedded.push(embeddedMatch[1])
+      } else if (fieldMatch && !line.includes('|') && !line.startsWith('~')) {
+        fieldMatch[1].split(',').forEach(name => fields.push({ name: name.trim(), type: fieldMatch[2].trim() }))
+      }
+    }
+
+    return { fields, methods, embedded }
+  }
+
+  private findBodyStart(masked: string, parametersStart: number): number {
+    // First `{` after the parameter and result lists that isn't part of an
+    // inline interface{}/struct{} type
+    let depth = 0
+    for (let i = parametersStart; i < masked.length; i++) {
+      const char = masked[i]
+      if (char === '(' || char === '[') depth++
+      else if (char === ')' || char === ']') depth--
+      else if (char === '{' && depth === 0) {
+        if (/\b(interface|struct)\s*$/.test(masked.substring(Math.max(0, i - 12), i))) {
+          i = this.findBlockEnd(masked, i)
+          continue
         }
-      } else {
-        this.parseImportList(imports, modulePath, relations)
+        return i
+      } else if (char === '\n' && depth === 0) {
+        return -1
       }
     }
-    
+    return -1
+  }
+
+  private findFunctionCalls(body: string, receiverName?: string, receiverType?: string): ComponentRelation[] {
+    const relations = new Map<string, ComponentRelation>()
+
+    // Calls: helper(), pkg.Func(), s.method()
+    const callRegex = /(?<![\w.])([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\s*(?:\[[^\]\n]*\])?\s*\(/g
+    let match
+    while ((match = callRegex.exec(body)) !== null) {
+      const parts = match[1].split('.')
+      if (parts.length === 1 && GoExtractor.BUILTINS.has(parts[0])) continue
+
+      // Calls through the receiver target the receiver type's members
+      if (receiverName && receiverType && parts[0] === receiverName && parts.length > 1) {
+        parts[0] = receiverType
+      }
+      const target = parts.join('.')
+      relations.set(`calls:${target}`, { type: 'calls', target, confidence: 0.8 })
+    }
+
+    // Composite literals: &Server{...}, pkg.Config{...}
+    const literalRegex = /(?:[=(,:&{]|\breturn)\s*&?((?:\w+\.)?[A-Za-z_]\w*)\s*\{/g
+    while ((match = literalRegex.exec(body)) !== null) {
+      const target = match[1]
+      if (['struct', 'interface', 'func', 'range'].includes(target)) continue
+      if (!relations.has(`calls:${target}`)) {
+        relations.set(`uses:${target}`, { type: 'uses', target, confidence: 0.75 })
+      }
+    }
+
+    return Array.from(relations.values())
+  }
+
+  private isExportedName(name: string): boolean {
+    return /^[A-Z]/.test(name)
+  }
+}
+
+// JVM Component Extractors (Java, Kotlin)
+// Declarations are matched line by line on masked source; a declaration belongs
+// to the type whose body is the innermost block around it
+abstract class JvmExtractor extends ComponentExtractor {
+  private static readonly STEREOTYPES: Record<string, string> = {
+    Service: 'service',
+    RestController: 'controller',
+    Controller: 'controller',
+    Repository: 'repository',
+    Component: 'component',
+    Configuration: 'configuration',
+    Entity: 'entity',
+    Embeddable: 'entity',
+    MappedSuperclass: 'entity',
+    SpringBootApplication: 'application'
+  }
+
+  private static readonly ROUTE_ANNOTATIONS: Record<string, string> = {
+    GetMapping: 'GET',
+    PostMapping: 'POST',
+    PutMapping: 'PUT',
+    PatchMapping: 'PATCH',
+    DeleteMapping: 'DELETE',
+    RequestMapping: 'ANY'
+  }
+
+  private static readonly KEYWORDS = new Set([
+    'if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'else',
+    'case', 'when', 'try', 'do', 'super', 'this', 'assert', 'yield', 'is', 'in', 'as', 'object'
+  ])
+
+  async extractComponents(artifact: Artifact): Promise<Component[]> {
+    if (!artifact.content) return []
+
+    const content = artifact.content
+    const masked = this.maskCommentsAndStrings(content)
+    const lines = content.split('\n')
+    const packageName = masked.match(/^\s*package\s+([\w.]+)/m)?.[1]
+    const blocks = this.findBlocks(masked)
+
+    // Extract imports
+    const imports = this.detectImports(content)
+
+    // Extract types first: members need them to find their parent
+    const types = this.extractTypes(content, masked, lines, artifact.path, blocks)
+
+    // Extract methods, constructors and properties
+    const members = this.extractMembers(content, masked, lines, artifact.path, blocks, types)
+
+    const components = this.mergeOverloads([...types.map(type => type.component), ...members])
+    components.forEach(component => {
+      component.metadata.package = packageName
+      component.relations.push(...imports)
+    })
+
+    return components
+  }
+
+  protected detectImports(content: string): ComponentRelation[] {
+    const masked = this.maskCommentsAndStrings(content)
+    const relations: ComponentRelation[] = []
+    const importRegex = /^\s*import\s+(static\s+)?(\w+(?:\.\w+)*(?:\.\*)?)(?:\s+as\s+(\w+))?/gm
+
+    let match
+    while ((match = importRegex.exec(masked)) !== null) {
+      const [, isStatic, target, alias] = match
+      relations.push({ type: 'imports', target, confidence: 0.95, localName: alias || (isStatic ? target.split('.').pop() : undefined) })
+    }
+
     return relations
   }
-  
-  private parseImportList(imports: string, modulePath: string, relations: ComponentRelation[]): void {
-    imports.split(',').forEach(imp => {
-      const trimmed = imp.trim()
-      if (trimmed) {
-        const asMatch = trimmed.match(/(\w+)(?:\s+as\s+(\w+))?/)
-        if (asMatch) {
-          const [, importName, alias] = asMatch
-          relations.push({
-            type: 'imports',
-            target: `${modulePath}.${alias || importName}`,
-            confidence: 0.95
-          })
+
+  protected abstract extractTypes(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[]
+  ): JvmDeclaration[]
+
+  protected abstract extractMembers(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[],
+    types: JvmDeclaration[]
+  ): Component[]
+
+  protected findContainer(
+    blocks: SourceBlock[],
+    types: JvmDeclaration[],
+    index: number
+  ): { isTopLevel: boolean, parent?: JvmDeclaration } {
+    // Innermost block around the declaration: none means top level, a type
+    // body means a member, anything else (method bodies, lambdas) is local
+    const innermost = this.findInnermostBlock(blocks, index)
+    if (!innermost) return { isTopLevel: true }
+    return { isTopLevel: false, parent: types.find(type => type.bodyStart === innermost.open) }
+  }
+
+  protected findDeclarationEnd(
+    masked: string,
+    from: number,
+    newlineEnds: boolean
+  ): { bodyStart: number, end: number, terminator: string } {
+    // Scan a header to its `{` body, `=` expression body or end of declaration
+    let depth = 0
+    for (let i = from; i < masked.length; i++) {
+      const char = masked[i]
+      if (char === '(' || char === '[') depth++
+      else if (char === ')' || char === ']') depth--
+      if (depth > 0) continue
+
+      if (char === '{') {
+        return { bodyStart: i, end: this.findBlockEnd(masked, i), terminator: '{' }
+      }
+      if (char === ';' || char === '}') {
+        return { bodyStart: -1, end: i, terminator: ';' }
+      }
+      if (char === '=' && newlineEnds && !/[=!<>]/.test(masked[i - 1]) && masked[i + 1] !== '=' && masked[i + 1] !== '>') {
+        return { bodyStart: i, end: this.findExpressionEnd(masked, i + 1), terminator: '=' }
+      }
+      if (char === '\n' && newlineEnds) {
+        // Kotlin headers continue over `:`, `,` and `where` line breaks
+        const before = masked.substring(from, i).trimEnd()
+        const after = masked.substring(i + 1).trimStart()
+        if (/[:,(]$/.test(before) || /^([:,{=]|where\b|\.)/.test(after)) continue
+        return { bodyStart: -1, end: i, terminator: '\n' }
+      }
+    }
+
+    return { bodyStart: -1, end: masked.length, terminator: 'eof' }
+  }
+
+  private findExpressionEnd(masked: string, from: number): number {
+    let depth = 0
+    for (let i = from; i < masked.length; i++) {
+      const char = masked[i]
+      if (char === '(' || char === '[' || char === '{') depth++
+      else if (char === ')' || char === ']' || char === '}') {
+        if (depth === 0) return i - 1
+        depth--
+      } else if (char === '\n' && depth === 0) {
+        // Chained calls and operators carry the expression onto the next line
+        const after = masked.substring(i + 1).trimStart()
+        if (masked.substring(from, i).trim() === '' || /^(\.|\?[.:]|&&|\|\||[+\-*/])/.test(after)) continue
+        return i
+      }
+    }
+    return masked.length
+  }
+
+  protected parseAnnotations(text: string): { name: string, args?: string }[] {
+    const annotations: { name: string, args?: string }[] = []
+    const annotationRegex = /@(?:\w+:)?([\w.]+)(?:\s*\(([^)]*)\))?/g
+
+    let match
+    while ((match = annotationRegex.exec(text)) !== null) {
+      annotations.push({ name: match[1].split('.').pop()!, args: match[2]?.trim() || undefined })
+    }
+
+    return annotations
+  }
+
+  protected describeAnnotations(annotations: { name: string, args?: string }[]): Component['metadata'] {
+    if (annotations.length === 0) return {}
+
+    const stereotype = annotations
+      .map(annotation => JvmExtractor.STEREOTYPES[annotation.name])
+      .find(Boolean)
+
+    // Spring MVC routes: @GetMapping("/invoices/{id}")
+    const mapping = annotations.find(annotation => JvmExtractor.ROUTE_ANNOTATIONS[annotation.name])
+    const route = mapping
+      ? {
+          method: this.getRequestMethod(mapping),
+          path: mapping.args?.match(/"([^"]*)"/)?.[1] || ''
         }
+      : undefined
+
+    return {
+      annotations: annotations.map(annotation => annotation.name),
+      stereotype,
+      route,
+      isDeprecated: annotations.some(annotation => annotation.name === 'Deprecated') || undefined
+    }
+  }
+
+  private getRequestMethod(mapping: { name: string, args?: string }): string {
+    const method = JvmExtractor.ROUTE_ANNOTATIONS[mapping.name]
+    if (method !== 'ANY') return method
+    return mapping.args?.match(/RequestMethod\.(\w+)/)?.[1] || 'ANY'
+  }
+
+  protected findTypeReferences(typeText: string): string[] {
+    // Capitalized names in a type, generic arguments included: Map<String, Invoice>
+    return Array.from(new Set(typeText.match(/\b[A-Z]\w*(?:\.[A-Z]\w*)*/g) || []))
+  }
+
+  protected findCalls(body: string): ComponentRelation[] {
+    const relations = new Map<string, ComponentRelation>()
+
+    // Java instantiation: new InvoiceService(...)
+    const instantiationRegex = /\bnew\s+([\w.]+)\s*[(<[]/g
+    let match
+    while ((match = instantiationRegex.exec(body)) !== null) {
+      relations.set(`uses:${match[1]}`, { type: 'uses', target: match[1], confidence: 0.8 })
+    }
+
+    // Calls: helper(), this.save(), Money.of(), repository.findById()
+    const callRegex = /(?<![\w$.])((?:this\.)?[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(?:<[^<>()]*>\s*)?\(/g
+    while ((match = callRegex.exec(body)) !== null) {
+      const target = match[1]
+      const head = target.split('.')[0]
+      if (JvmExtractor.KEYWORDS.has(target) || head === 'super') continue
+      if (/\bnew\s+$/.test(body.substring(Math.max(0, match.index - 8), match.index))) continue
+
+      relations.set(`calls:${target}`, { type: 'calls', target, confidence: 0.8 })
+    }
+
+    return Array.from(relations.values())
+  }
+
+  protected createJvmComponent(
+    name: string,
+    type: ComponentType,
+    filePath: string,
+    lines: string[],
+    startLine: number,
+    endLine: number,
+    parent: JvmDeclaration | undefined,
+    metadata: Component['metadata'],
+    relations: ComponentRelation[] = []
+  ): Component {
+    const qualifiedName = parent ? `${parent.component.metadata.qualifiedName}.${name}` : name
+
+    return {
+      id: this.generateComponentId(qualifiedName, type, filePath),
+      name,
+      type,
+      parentPath: filePath,
+      startLine,
+      endLine,
+      relations,
+      metadata: {
+        qualifiedName,
+        parentId: parent?.component.id,
+        parentName: parent?.component.metadata.qualifiedName,
+        description: this.getLeadingComment(lines, startLine),
+        ...metadata
       }
-    })
+    }
   }
-  
-  private findDecoratorsBeforeLine(content: string, startIndex: number): string[] {
-    const decorators: string[] = []
-    const beforeContent = content.substring(0, startIndex)
-    const lines = beforeContent.split('\n')
-    
-    // Look backwards for decorators
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i].trim()
-      if (line.startsWith('@')) {
-        decorators.unshift(line)
-      } else if (line && !line.startsWith('#')) {
-        // Stop if we hit a non-decorator, non-comment line
+
+  protected getSignature(content: string, start: number, end: number): string {
+    return content
+      .substring(start, end)
+      .replace(/^\s*(@[\w.:]+(\s*\([^)]*\))?\s*)*/, '')
+      .replace(/\s+/g, ' ')
+      .replace(/\s*[{=]?\s*$/, '')
+      .trim()
+  }
+
+  private mergeOverloads(components: Component[]): Component[] {
+    // Overloaded methods and constructors share an id: keep one component per id
+    const merged = new Map<string, Component>()
+
+    for (const component of components) {
+      const existing = merged.get(component.id)
+      if (!existing) {
+        merged.set(component.id, component)
+        continue
+      }
+
+      existing.startLine = Math.min(existing.startLine || 0, component.startLine || 0)
+      existing.endLine = Math.max(existing.endLine || 0, component.endLine || 0)
+      existing.relations.push(...component.relations)
+      existing.metadata.overloads = [
+        ...(existing.metadata.overloads || [existing.metadata.signature]),
+        component.metadata.signature
+      ].filter(Boolean)
+      existing.metadata.description = existing.metadata.description || component.metadata.description
+    }
+
+    return Array.from(merged.values())
+  }
+}
+
+// Java Component Extractor
+export class JavaExtractor extends JvmExtractor {
+  language = 'java'
+  supportedExtensions = ['.java']
+
+  private static readonly MODIFIERS =
+    'public|protected|private|static|final|abstract|synchronized|native|default|strictfp|transient|volatile|sealed|non-sealed'
+
+  private static readonly ANNOTATIONS = '((?:@(?!interface\\b)[\\w.]+(?:\\s*\\([^)]*\\))?\\s+)*)'
+
+  protected extractTypes(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[]
+  ): JvmDeclaration[] {
+    const types: JvmDeclaration[] = []
+    const typeRegex = new RegExp(
+      `^[ \\t]*${JavaExtractor.ANNOTATIONS}((?:(?:${JavaExtractor.MODIFIERS})\\s+)*)(class|interface|enum|record|@interface)\\s+(\\w+)`,
+      'gm'
+    )
+
+    let match
+    while ((match = typeRegex.exec(masked)) !== null) {
+      const [fullMatch, annotationText, modifierText, keyword, name] = match
+      const container = this.findContainer(blocks, types, match.index + fullMatch.length)
+      if (!container.isTopLevel && !container.parent) continue
+
+      const { bodyStart, end } = this.findDeclarationEnd(masked, match.index + fullMatch.length, false)
+      const header = masked.substring(match.index + fullMatch.length, bodyStart >= 0 ? bodyStart : end)
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      const annotations = this.parseAnnotations(annotationText)
+      const relations: ComponentRelation[] = []
+
+      // extends A<B> implements C, D / interface X extends Y, Z
+      const extendsMatch = header.match(/\bextends\s+([\s\S]+?)(?=\bimplements\b|\bpermits\b|$)/)
+      const implementsMatch = header.match(/\bimplements\s+([\s\S]+?)(?=\bpermits\b|$)/)
+      this.splitTopLevel(extendsMatch?.[1] || '').forEach(target =>
+        relations.push({ type: 'extends', target: target.replace(/<[\s\S]*$/, '').trim(), confidence: 0.95 })
+      )
+      this.splitTopLevel(implementsMatch?.[1] || '').forEach(target =>
+        relations.push({ type: 'implements', target: target.replace(/<[\s\S]*$/, '').trim(), confidence: 0.95 })
+      )
+
+      // Record components are the record's fields: record Money(long amount, Currency currency)
+      const recordComponents = keyword === 'record'
+        ? this.parseParameters(masked, header.indexOf('(') + match.index + fullMatch.length)
+        : []
+      recordComponents.forEach(field => this.findTypeReferences(field.type).forEach(target =>
+        relations.push({ type: 'uses', target, confidence: 0.7 })
+      ))
+
+      const type: ComponentType = keyword === 'interface' ? 'interface'
+        : keyword === 'enum' ? 'enum'
+        : keyword === '@interface' ? 'type'
+        : 'class'
+      const visibility = this.getVisibility(modifiers, container.parent)
+      const startLine = this.getLineNumber(masked, match.index)
+
+      const component = this.createJvmComponent(name, type, filePath, lines, startLine, this.getLineNumber(masked, end), container.parent, {
+        kind: keyword === '@interface' ? 'annotation' : keyword,
+        visibility,
+        isExported: visibility === 'public' || (visibility !== 'private' && !!container.parent?.component.metadata.isExported && container.parent.component.type === 'interface'),
+        isStatic: modifiers.includes('static') || undefined,
+        isAbstract: modifiers.includes('abstract') || undefined,
+        isSealed: modifiers.includes('sealed') || undefined,
+        typeParameters: header.trimStart().startsWith('<') ? header.substring(header.indexOf('<') + 1, this.findBlockEnd(header, header.indexOf('<'))) : undefined,
+        fields: recordComponents.length > 0 ? recordComponents : undefined,
+        values: type === 'enum' && bodyStart >= 0 ? this.parseEnumConstants(masked, bodyStart, end) : undefined,
+        ...this.describeAnnotations(annotations)
+      }, relations)
+
+      types.push({ component, start: match.index, bodyStart, bodyEnd: end })
+    }
+
+    return types
+  }
+
+  protected extractMembers(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[],
+    types: JvmDeclaration[]
+  ): Component[] {
+    const components: Component[] = []
+
+    // Methods and constructors: [annotations] [modifiers] [<T>] [ReturnType] name(
+    const methodRegex = new RegExp(
+      `^[ \\t]*${JavaExtractor.ANNOTATIONS}((?:(?:${JavaExtractor.MODIFIERS})\\s+)*)(?:(<(?:[^<>{};]|<[^<>{};]*>)*>)\\s*)?(?:([\\w.$]+(?:\\s*<[^;{}()=]*>)?(?:\\s*\\[\\s*\\])*)\\s+)?(\\w+)\\s*\\(`,
+      'gm'
+    )
+
+    let match
+    while ((match = methodRegex.exec(masked)) !== null) {
+      const [fullMatch, annotationText, modifierText, typeParameters, returnType, name] = match
+      const container = this.findContainer(blocks, types, match.index + fullMatch.length)
+      const parent = container.parent
+      if (!parent || parent.bodyStart < 0) continue
+
+      // Without a return type only a constructor is a declaration (enum constants look alike)
+      const isConstructor = !returnType && name === parent.component.name
+      if (!returnType && !isConstructor) continue
+      // `record Name(...)` declares a type, which extractTypes already emitted
+      if (returnType && ['return', 'new', 'throw', 'else', 'case', 'record'].includes(returnType)) continue
+
+      const parametersStart = match.index + fullMatch.length - 1
+      const { bodyStart, end } = this.findDeclarationEnd(masked, this.findBlockEnd(masked, parametersStart) + 1, false)
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      const annotations = this.parseAnnotations(annotationText)
+      const parameters = this.parseParameters(masked, parametersStart)
+      const isInterfaceMember = this.isInterfaceLike(parent)
+      const visibility = this.getVisibility(modifiers, parent)
+      const relations = bodyStart >= 0 ? this.findCalls(masked.substring(bodyStart, end)) : []
+
+      // Constructor parameters are the class's injected dependencies
+      if (isConstructor) {
+        parameters.forEach(parameter => this.findTypeReferences(parameter.type).forEach(target =>
+          parent.component.relations.push({ type: 'uses', target, confidence: 0.75 })
+        ))
+      }
+
+      components.push(this.createJvmComponent(
+        isConstructor ? 'constructor' : name,
+        'method',
+        filePath,
+        lines,
+        this.getLineNumber(masked, match.index),
+        this.getLineNumber(masked, end),
+        parent,
+        {
+          kind: isConstructor ? 'constructor' : 'method',
+          visibility,
+          isExported: visibility === 'public' && !!parent.component.metadata.isExported,
+          isStatic: modifiers.includes('static') || undefined,
+          isAbstract: modifiers.includes('abstract') || (isInterfaceMember && bodyStart < 0) || undefined,
+          isDefault: modifiers.includes('default') || undefined,
+          returnType: returnType?.replace(/\s+/g, ' '),
+          typeParameters: typeParameters?.slice(1, -1).trim(),
+          parameters: parameters.length > 0 ? parameters : undefined,
+          signature: this.getSignature(content, match.index, bodyStart >= 0 ? bodyStart : end),
+          ...this.describeAnnotations(annotations)
+        },
+        relations
+      ))
+    }
+
+    // Fields: [annotations] [modifiers] Type name [= ...];
+    const fieldRegex = new RegExp(
+      `^[ \\t]*${JavaExtractor.ANNOTATIONS}((?:(?:${JavaExtractor.MODIFIERS})\\s+)*)([\\w.$]+(?:\\s*<[^;{}()=]*>)?(?:\\s*\\[\\s*\\])*)\\s+(\\w+)\\s*(?=[=;,])`,
+      'gm'
+    )
+    while ((match = fieldRegex.exec(masked)) !== null) {
+      const [fullMatch, annotationText, modifierText, fieldType, name] = match
+      const parent = this.findContainer(blocks, types, match.index + fullMatch.length).parent
+      if (!parent || ['return', 'throw', 'package', 'import'].includes(fieldType)) continue
+
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      const annotations = this.parseAnnotations(annotationText)
+      const fields: Component['metadata'][] = parent.component.metadata.fields || []
+      fields.push({ name, type: fieldType.replace(/\s+/g, ' '), visibility: this.getVisibility(modifiers, parent), annotations: annotations.length > 0 ? annotations.map(a => a.name) : undefined })
+      parent.component.metadata.fields = fields
+
+      // Injected or composed collaborators: private final InvoiceRepository repository;
+      if (!modifiers.includes('static')) {
+        this.findTypeReferences(fieldType).forEach(target =>
+          parent.component.relations.push({ type: 'uses', target, confidence: 0.7 })
+        )
+      }
+
+      // Public constants are documented on their own
+      const isConstant = modifiers.includes('static') && modifiers.includes('final') &&
+        (modifiers.includes('public') || this.isInterfaceLike(parent))
+      if (isConstant) {
+        const line = this.getLineNumber(masked, match.index)
+        components.push(this.createJvmComponent(name, 'constant', filePath, lines, line, line, parent, {
+          visibility: 'public',
+          isExported: !!parent.component.metadata.isExported,
+          valueType: fieldType
+        }))
+      }
+    }
+
+    return components
+  }
+
+  private parseParameters(masked: string, openIndex: number): { name: string, type: string }[] {
+    if (openIndex < 0 || masked[openIndex] !== '(') return []
+    const closeIndex = this.findBlockEnd(masked, openIndex)
+
+    return this.splitTopLevel(masked.substring(openIndex + 1, closeIndex))
+      .map(parameter => parameter.replace(/@[\w.]+(\s*\([^)]*\))?\s*/g, '').replace(/\bfinal\s+/, '').trim())
+      .map(parameter => parameter.match(/^([\s\S]+?)\s+(\w+)$/))
+      .filter((parameter): parameter is RegExpMatchArray => !!parameter)
+      .map(([, type, name]) => ({ name, type: type.replace(/\s+/g, ' ') }))
+  }
+
+  private parseEnumConstants(masked: string, bodyStart: number, bodyEnd: number): string[] {
+    // Constants come first in the body, up to the first `;` at depth 0
+    let depth = 0
+    let end = bodyEnd
+    for (let i = bodyStart + 1; i < bodyEnd; i++) {
+      if ('({['.includes(masked[i])) depth++
+      else if (')}]'.includes(masked[i])) depth--
+      else if (masked[i] === ';' && depth === 0) {
+        end = i
         break
       }
     }
-    
-    return decorators
+
+    return this.splitTopLevel(masked.substring(bodyStart + 1, end))
+      .map(constant => constant.replace(/@[\w.]+(\s*\([^)]*\))?\s*/g, '').match(/^(\w+)/)?.[1])
+      .filter((constant): constant is string => !!constant)
   }
-  
-  private findClassEndLine(content: string, startIndex: number, indentationLevel: number): number {
-    const lines = content.substring(startIndex).split('\n')
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i]
-      if (line.trim() === '') continue // Skip empty lines
-      
-      const currentIndentation = line.length - line.trimStart().length
-      if (currentIndentation <= indentationLevel && line.trim()) {
-        return content.substring(0, startIndex).split('\n').length + i - 1
+
+  private getVisibility(modifiers: string[], parent?: JvmDeclaration): string {
+    if (modifiers.includes('public')) return 'public'
+    if (modifiers.includes('protected')) return 'protected'
+    if (modifiers.includes('private')) return 'private'
+    // Interface members are implicitly public
+    return parent && this.isInterfaceLike(parent) ? 'public' : 'package'
+  }
+
+  private isInterfaceLike(declaration: JvmDeclaration): boolean {
+    return declaration.component.type === 'interface' || declaration.component.metadata.kind === 'annotation'
+  }
+}
+
+// Kotlin Component Extractor
+export class KotlinExtractor extends JvmExtractor {
+  language = 'kotlin'
+  supportedExtensions = ['.kt', '.kts']
+
+  private static readonly ANNOTATIONS = '((?:@[\\w.:]+(?:\\s*\\([^)]*\\))?\\s+)*)'
+
+  private static readonly TYPE_MODIFIERS =
+    'public|protected|private|internal|open|abstract|sealed|data|enum|annotation|inner|value|inline|final|companion|fun|expect|actual|external'
+
+  private static readonly MEMBER_MODIFIERS =
+    'public|protected|private|internal|open|abstract|final|override|suspend|inline|infix|operator|tailrec|external|expect|actual|const|lateinit'
+
+  protected extractTypes(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[]
+  ): JvmDeclaration[] {
+    const types: JvmDeclaration[] = []
+    const typeRegex = new RegExp(
+      `^[ \\t]*${KotlinExtractor.ANNOTATIONS}((?:(?:${KotlinExtractor.TYPE_MODIFIERS})\\s+)*)(class|interface|object|typealias)\\b(?:\\s+(\\w+))?`,
+      'gm'
+    )
+
+    let match
+    while ((match = typeRegex.exec(masked)) !== null) {
+      const [fullMatch, annotationText, modifierText, keyword] = match
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      // `object : Listener {}` is an anonymous object expression
+      const name = match[4] || (modifiers.includes('companion') ? 'Companion' : undefined)
+      if (!name) continue
+
+      const headerStart = match.index + fullMatch.length
+      const container = this.findContainer(blocks, types, headerStart)
+      if (!container.isTopLevel && !container.parent) continue
+
+      const annotations = this.parseAnnotations(annotationText)
+      const startLine = this.getLineNumber(masked, match.index)
+      const visibility = this.getVisibility(modifiers)
+      const isExported = visibility !== 'private' && visibility !== 'internal' &&
+        (!container.parent || !!container.parent.component.metadata.isExported)
+
+      if (keyword === 'typealias') {
+        const end = masked.indexOf('\n', headerStart)
+        const line = this.getLineNumber(masked, match.index)
+        types.push({
+          component: this.createJvmComponent(name, 'type', filePath, lines, startLine, line, container.parent, {
+            kind: 'typealias',
+            visibility,
+            isExported,
+            aliasedType: content.substring(headerStart, end < 0 ? content.length : end).replace(/^\s*(<[^>]*>)?\s*=\s*/, '').trim()
+          }),
+          start: match.index,
+          bodyStart: -1,
+          bodyEnd: end
+        })
+        continue
+      }
+
+      const { bodyStart, end } = this.findDeclarationEnd(masked, headerStart, true)
+      const header = masked.substring(headerStart, bodyStart >= 0 ? bodyStart : end)
+      const relations: ComponentRelation[] = []
+
+      // Primary constructor: class Invoice(val id: InvoiceId, private val repo: Repo)
+      const constructorIndex = header.search(/^\s*(<[^>]*>)?\s*((?:@\w+\s+)*(?:private|protected|internal|public)?\s*constructor\s*)?\(/)
+      const parametersOpen = constructorIndex >= 0 ? header.indexOf('(') : -1
+      const parametersClose = parametersOpen >= 0 ? this.findBlockEnd(header, parametersOpen) : -1
+      const properties = parametersOpen >= 0
+        ? this.parseConstructorParameters(header.substring(parametersOpen + 1, parametersClose))
+        : []
+      properties.forEach(property => this.findTypeReferences(property.type).forEach(target =>
+        relations.push({ type: 'uses', target, confidence: 0.75 })
+      ))
+
+      // Supertypes: `: Base(args), Repository<T> by delegate`
+      const afterConstructor = header.substring(parametersClose + 1)
+      const supertypeText = afterConstructor.match(/^\s*(?:<[^>]*>)?\s*:\s*([\s\S]*?)(?:\bwhere\b|$)/)?.[1] || ''
+      this.splitTopLevel(supertypeText).forEach(supertype => {
+        const target = supertype.replace(/\s+by\s+[\s\S]*$/, '').replace(/[<(][\s\S]*$/, '').trim()
+        if (!target) return
+        // A constructor call marks the superclass; everything else is an interface
+        const isSuperclass = /\(/.test(supertype) || keyword === 'interface'
+        relations.push({ type: isSuperclass ? 'extends' : 'implements', target, confidence: 0.9 })
+      })
+
+      const isEnum = modifiers.includes('enum')
+      const type: ComponentType = keyword === 'interface' ? 'interface'
+        : isEnum ? 'enum'
+        : modifiers.includes('annotation') ? 'type'
+        : 'class'
+
+      const component = this.createJvmComponent(name, type, filePath, lines, startLine, this.getLineNumber(masked, end), container.parent, {
+        kind: modifiers.includes('companion') ? 'companion'
+          : keyword === 'object' ? 'object'
+          : isEnum ? 'enum'
+          : modifiers.includes('data') ? 'data'
+          : modifiers.includes('annotation') ? 'annotation'
+          : keyword,
+        visibility,
+        isExported,
+        isAbstract: modifiers.includes('abstract') || undefined,
+        isSealed: modifiers.includes('sealed') || undefined,
+        isOpen: modifiers.includes('open') || undefined,
+        isFunctional: modifiers.includes('fun') || undefined,
+        properties: properties.filter(property => property.isProperty).map(({ name, type }) => ({ name, type })),
+        values: isEnum && bodyStart >= 0 ? this.parseEnumEntries(masked, bodyStart, end) : undefined,
+        ...this.describeAnnotations(annotations)
+      }, relations)
+
+      if (component.metadata.properties.length === 0) {
+        component.metadata.properties = undefined
       }
+      types.push({ component, start: match.index, bodyStart, bodyEnd: end })
     }
-    
-    return content.split('\n').length
+
+    return types
   }
-  
-  private findFunctionEndLine(content: string, startIndex: number, indentationLevel: number): number {
-    const lines = content.substring(startIndex).split('\n')
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i]
-      if (line.trim() === '') continue // Skip empty lines
-      
-      const currentIndentation = line.length - line.trimStart().length
-      if (currentIndentation <= indentationLevel && line.trim()) {
-        return content.substring(0, startIndex).split('\n').length + i - 1
+
+  protected extractMembers(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    blocks: SourceBlock[],
+    types: JvmDeclaration[]
+  ): Component[] {
+    const components: Component[] = []
+
+    // Functions: [annotations] [modifiers] fun [<T>] [Receiver.]name(
+    const functionRegex = new RegExp(
+      `^[ \\t]*${KotlinExtractor.ANNOTATIONS}((?:(?:${KotlinExtractor.MEMBER_MODIFIERS})\\s+)*)fun\\s+(?:(<[^>]*>)\\s*)?(?:([\\w.]+(?:<[^>]*>)?\\??)\\.)?(\\w+)\\s*\\(`,
+      'gm'
+    )
+
+    let match
+    while ((match = functionRegex.exec(masked)) !== null) {
+      const [fullMatch, annotationText, modifierText, typeParameters, receiverType, name] = match
+      const container = this.findContainer(blocks, types, match.index + fullMatch.length)
+      if (!container.isTopLevel && !container.parent) continue
+
+      const parent = container.parent
+      const parametersStart = match.index + fullMatch.length - 1
+      const parametersEnd = this.findBlockEnd(masked, parametersStart)
+      const { bodyStart, end, terminator } = this.findDeclarationEnd(masked, parametersEnd + 1, true)
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      const annotations = this.parseAnnotations(annotationText)
+      const visibility = this.getVisibility(modifiers)
+      const returnType = masked.substring(parametersEnd + 1, bodyStart >= 0 ? bodyStart : end).match(/^\s*:\s*([^{=]+)/)?.[1].trim()
+      const relations = bodyStart >= 0
+        ? this.findCalls(masked.substring(bodyStart + (terminator === '=' ? 1 : 0), end + 1))
+        : []
+
+      components.push(this.createJvmComponent(
+        name,
+        parent ? 'method' : 'function',
+        filePath,
+        lines,
+        this.getLineNumber(masked, match.index),
+        this.getLineNumber(masked, end),
+        parent,
+        {
+          kind: parent ? 'method' : 'function',
+          visibility,
+          isExported: visibility !== 'private' && visibility !== 'internal' && (!parent || !!parent.component.metadata.isExported),
+          isSuspend: modifiers.includes('suspend') || undefined,
+          isOverride: modifiers.includes('override') || undefined,
+          isAbstract: modifiers.includes('abstract') || (parent?.component.type === 'interface' && bodyStart < 0) || undefined,
+          extensionReceiver: receiverType,
+          returnType,
+          typeParameters: typeParameters?.slice(1, -1).trim(),
+          signature: this.getSignature(content, match.index, bodyStart >= 0 ? bodyStart : end),
+          ...this.describeAnnotations(annotations)
+        },
+        relations
+      ))
+    }
+
+    // Properties: [modifiers] val|var [Receiver.]name[: Type] [= ... | by ...]
+    const propertyRegex = new RegExp(
+      `^[ \\t]*${KotlinExtractor.ANNOTATIONS}((?:(?:${KotlinExtractor.MEMBER_MODIFIERS})\\s+)*)(val|var)\\s+(?:<[^>]*>\\s*)?(?:([\\w.]+)\\.)?(\\w+)\\s*(?::\\s*([^=\\n{]+?))?\\s*(?=[=\\n{]|by\\b|$)`,
+      'gm'
+    )
+    while ((match = propertyRegex.exec(masked)) !== null) {
+      const [fullMatch, , modifierText, keyword, receiverType, name, propertyType] = match
+      const container = this.findContainer(blocks, types, match.index + fullMatch.length)
+      if (!container.isTopLevel && !container.parent) continue
+      // Primary constructor properties were collected with their class
+      const declarationStart = match.index
+      if (types.some(type => declarationStart > type.start && declarationStart < (type.bodyStart >= 0 ? type.bodyStart : type.bodyEnd))) continue
+
+      const modifiers = modifierText.split(/\s+/).filter(Boolean)
+      const visibility = this.getVisibility(modifiers)
+      const parent = container.parent
+
+      if (parent) {
+        const properties: Component['metadata'][] = parent.component.metadata.properties || []
+        properties.push({ name, type: propertyType?.trim(), mutable: keyword === 'var' || undefined })
+        parent.component.metadata.properties = properties
+        this.findTypeReferences(propertyType || '').forEach(target =>
+          parent.component.relations.push({ type: 'uses', target, confidence: 0.7 })
+        )
       }
+
+      // Constants and public top-level/object properties are documented on their own
+      const isConstant = modifiers.includes('const')
+      const isPublicTopLevel = !parent && visibility !== 'private'
+      if (!isConstant && !isPublicTopLevel) continue
+
+      const line = this.getLineNumber(masked, match.index)
+      components.push(this.createJvmComponent(name, isConstant ? 'constant' : 'variable', filePath, lines, line, line, parent, {
+        visibility,
+        isExported: visibility !== 'private' && visibility !== 'internal',
+        isMutable: keyword === 'var' || undefined,
+        extensionReceiver: receiverType,
+        valueType: propertyType?.trim()
+      }))
     }
-    
-    return content.split('\n').length
+
+    return components
   }
-  
-  private findFunctionCalls(content: string, startIndex: number): ComponentRelation[] {
+
+  private parseConstructorParameters(text: string): { name: string, type: string, isProperty: boolean }[] {
+    return this.splitTopLevel(text)
+      .map(parameter => parameter.replace(/@[\w.:]+(\s*\([^)]*\))?\s*/g, '').trim())
+      .map(parameter => parameter.match(/^(?:(?:private|protected|internal|public|override|open|vararg)\s+)*(val|var)?\s*(\w+)\s*:\s*([^=]+?)\s*(?:=[\s\S]*)?$/))
+      .filter((parameter): parameter is RegExpMatchArray => !!parameter)
+      .map(([, keyword, name, type]) => ({ name, type: type.replace(/\s+/g, ' '), isProperty: !!keyword }))
+  }
+
+  private parseEnumEntries(masked: string, bodyStart: number, bodyEnd: number): string[] {
+    // Entries come first, up to the first `;` at depth 0 (or the end of the body)
+    const body = masked.substring(bodyStart + 1, bodyEnd)
+    let depth = 0
+    let end = body.length
+    for (let i = 0; i < body.length; i++) {
+      if ('({['.includes(body[i])) depth++
+      else if (')}]'.includes(body[i])) depth--
+      else if (body[i] === ';' && depth === 0) {
+        end = i
+        break
+      }
+    }
+
+    return this.splitTopLevel(body.substring(0, end))
+      .map(entry => entry.replace(/@[\w.:]+(\s*\([^)]*\))?\s*/g, '').match(/^([A-Za-z_]\w*)/)?.[1])
+      .filter((entry): entry is string => !!entry && !['fun', 'val', 'var', 'companion', 'override'].includes(entry))
+  }
+
+  private getVisibility(modifiers: string[]): string {
+    return ['private', 'protected', 'internal'].find(modifier => modifiers.includes(modifier)) || 'public'
+  }
+}
+
+// Rust Component Extractor
+// Items are matched line by line on masked source; `mod` blocks give them their
+// module path and `impl`/`trait` bodies their parent type
+export class RustExtractor extends ComponentExtractor {
+  language = 'rust'
+  supportedExtensions = ['.rs']
+
+  private static readonly ITEM_REGEX =
+    /^[ \t]*(pub(?:\s*\([^)]*\))?\s+)?((?:(?:default|const|async|unsafe|extern(?:\s*"[^"\n]*")?)\s+)*)(struct|enum|union|trait|fn|mod|type|const|static|impl|macro_rules!)(?=[\s<{!])/gm
+
+  private static readonly BUILTIN_MACROS = new Set([
+    'println', 'print', 'eprintln', 'eprint', 'format', 'format_args', 'write', 'writeln', 'vec',
+    'panic', 'assert', 'assert_eq', 'assert_ne', 'debug_assert', 'debug_assert_eq', 'debug_assert_ne',
+    'unreachable', 'unimplemented', 'todo', 'matches', 'dbg', 'concat', 'stringify', 'env',
+    'include', 'include_str', 'include_bytes', 'cfg', 'line', 'file', 'column', 'module_path', 'compile_error'
+  ])
+
+  private static readonly KEYWORDS = new Set([
+    'if', 'while', 'for', 'match', 'loop', 'return', 'fn', 'move', 'as', 'in', 'let', 'mut', 'ref',
+    'unsafe', 'where', 'impl', 'dyn', 'Some', 'None', 'Ok', 'Err', 'Box', 'Vec', 'String', 'Option',
+    'Result', 'drop'
+  ])
+
+  async extractComponents(artifact: Artifact): Promise<Component[]> {
+    if (!artifact.content) return []
+
+    const content = artifact.content
+    const masked = this.maskCommentsAndStrings(content)
+    const lines = content.split('\n')
+    const blocks = this.findBlocks(masked)
+    const fileModule = this.getFileModulePath(artifact.path)
+
+    const components: Component[] = []
+    const scopes: RustScope[] = []
+    const implFunctions: { match: RegExpExecArray, scope: RustScope }[] = []
+
+    const itemRegex = new RegExp(RustExtractor.ITEM_REGEX.source, 'gm')
+    let match
+    while ((match = itemRegex.exec(masked)) !== null) {
+      // Items inside function bodies are local; only module, impl and trait bodies count
+      const innermost = this.findInnermostBlock(blocks, match.index)
+      const scope = innermost ? scopes.find(candidate => candidate.bodyStart === innermost.open) : undefined
+      if (innermost && !scope) continue
+
+      const keyword = match[3]
+      if (keyword === 'impl') {
+        const implScope = this.parseImpl(masked, match, scope, fileModule)
+        if (implScope) scopes.push(implScope)
+        continue
+      }
+
+      if (scope?.kind === 'impl') {
+        if (keyword === 'fn') implFunctions.push({ match, scope })
+        continue
+      }
+
+      const component = this.extractItem(content, masked, lines, artifact.path, match, scope, fileModule, scopes)
+      if (component) components.push(component)
+    }
+
+    // Impl blocks may come before the type they implement, so link them once every type is known
+    for (const scope of scopes.filter(candidate => candidate.kind === 'impl')) {
+      const selfType = components.find(component =>
+        component.name === scope.selfType &&
+        component.metadata.modulePath === scope.modulePath &&
+        ['class', 'enum', 'type'].includes(component.type)
+      )
+      scope.component = selfType
+      if (selfType && scope.traitName && !selfType.relations.some(r => r.type === 'implements' && r.target === scope.traitName)) {
+        selfType.relations.push({ type: 'implements', target: scope.traitName, confidence: 0.95 })
+      }
+    }
+
+    for (const { match: fnMatch, scope } of implFunctions) {
+      const method = this.extractFunction(content, masked, lines, artifact.path, fnMatch, scope, fileModule)
+      if (method) components.push(method)
+    }
+
+    // `use` declarations belong to the module they appear in
+    const imports = this.detectModuleImports(masked, blocks, scopes, fileModule)
+    components.push(...this.extractReexports(masked, lines, artifact.path, imports))
+    components.forEach(component => {
+      component.relations.push(...(imports.get(component.metadata.modulePath) || []).map(entry => entry.relation))
+    })
+
+    return this.mergeDuplicates(components)
+  }
+
+  protected detectImports(content: string): ComponentRelation[] {
+    const masked = this.maskCommentsAndStrings(content)
+    const imports = this.detectModuleImports(masked, this.findBlocks(masked), [], '')
+    return Array.from(imports.values()).flat().map(entry => entry.relation)
+  }
+
+  private extractItem(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    match: RegExpExecArray,
+    scope: RustScope | undefined,
+    fileModule: string,
+    scopes: RustScope[]
+  ): Component | null {
+    const [fullMatch, visibility, , keyword] = match
+    const afterKeyword = match.index + fullMatch.length
+    const modulePath = scope?.modulePath ?? fileModule
+    const isExported = this.isPublic(visibility)
+    const startLine = this.getLineNumber(masked, match.index)
+    const attributes = this.getAttributes(lines, startLine)
+
+    if (keyword === 'fn') {
+      return this.extractFunction(content, masked, lines, filePath, match, scope, fileModule)
+    }
+
+    if (keyword === 'macro_rules!') {
+      const name = masked.substring(afterKeyword).match(/^\s*(\w+)/)?.[1]
+      if (!name) return null
+      const bodyStart = masked.indexOf('{', afterKeyword)
+      const end = bodyStart >= 0 ? this.findBlockEnd(masked, bodyStart) : afterKeyword
+      return this.createRustComponent(name, 'function', filePath, lines, startLine, this.getLineNumber(masked, end), scope, modulePath, {
+        kind: 'macro',
+        // macro_rules! visibility comes from #[macro_export], not `pub`
+        isExported: attributes.some(attribute => attribute.startsWith('macro_export')),
+        signature: `macro_rules! ${name}`
+      })
+    }
+
+    const header = masked.substring(afterKeyword).match(/^\s+(?:mut\s+)?(\w+)/)
+    if (!header) return null
+    const name = header[1]
+    const headerEnd = afterKeyword + header[0].length
+
+    // Associated types and consts of traits describe the trait itself
+    if (scope?.kind === 'trait' && keyword !== 'fn') {
+      if (keyword === 'type' && scope.component) {
+        scope.component.metadata.associatedTypes = [...(scope.component.metadata.associatedTypes || []), name]
+      }
+      return null
+    }
+
+    if (keyword === 'mod') {
+      return this.extractModule(masked, lines, filePath, name, match, headerEnd, scope, fileModule, scopes, attributes)
+    }
+
+    if (keyword === 'const' || keyword === 'static' || keyword === 'type') {
+      const end = this.findItemEnd(masked, headerEnd)
+      const declaration = content.substring(match.index, end).replace(/\s+/g, ' ').trim()
+      return this.createRustComponent(name, keyword === 'type' ? 'type' : keyword === 'const' ? 'constant' : 'variable', filePath, lines, startLine, this.getLineNumber(masked, end), scope, modulePath, {
+        kind: keyword,
+        isExported,
+        visibility: this.getVisibility(visibility),
+        isMutable: keyword === 'static' && /^\s+mut\b/.test(masked.substring(afterKeyword)) || undefined,
+        valueType: keyword !== 'type' ? declaration.match(/:\s*([^=;]+)/)?.[1].trim() : undefined,
+        aliasedType: keyword === 'type' ? declaration.match(/=\s*([^;]+)/)?.[1].trim() : undefined,
+        signature: declaration.replace(/\s*=[\s\S]*$/, '')
+      })
+    }
+
+    // struct / enum / union / trait
+    const { bodyStart, end } = this.findItemBody(masked, headerEnd)
+    const headerText = masked.substring(headerEnd, bodyStart >= 0 ? bodyStart : end)
+    const typeParameters = headerText.trimStart().startsWith('<')
+      ? headerText.substring(headerText.indexOf('<') + 1, this.findBlockEnd(headerText, headerText.indexOf('<')))
+      : undefined
     const relations: ComponentRelation[] = []
-    const functionContent = this.extractFunctionContent(content, startIndex)
-    
-    // Find function calls: function_name(
-    const functionCallRegex = /(\w+)\s*\(/g
+    const genericNames = this.splitTopLevel(typeParameters || '').map(parameter => parameter.match(/^(\w+)/)?.[1])
+    const findTypeNames = (typeText: string) => this.findTypeNames(typeText).filter(name => !genericNames.includes(name))
+    const metadata: Component['metadata'] = {
+      kind: keyword,
+      isExported,
+      visibility: this.getVisibility(visibility),
+      typeParameters,
+      derives: this.getDerives(attributes),
+      signature: content.substring(match.index, bodyStart >= 0 ? bodyStart : end).replace(/\s+/g, ' ').trim()
+    }
+
+    let type: ComponentType = 'class'
+    if (keyword === 'trait') {
+      type = 'interface'
+      // trait Store: Send + Sync + fmt::Debug
+      const supertraits = headerText
+        .replace(/^\s*<[\s\S]*?>(?=\s*:)/, '')
+        .match(/^\s*:\s*([\s\S]*?)(?:\bwhere\b|$)/)?.[1]
+      supertraits?.split('+')
+        .map(bound => bound.replace(/<[\s\S]*$/, '').replace(/^\?/, '').trim())
+        .filter(bound => bound && !bound.startsWith('\'') && bound !== 'Sized')
+        .forEach(target => relations.push({ type: 'extends', target, confidence: 0.9 }))
+      metadata.methods = []
+    } else if (keyword === 'enum' && bodyStart >= 0) {
+      type = 'enum'
+      const variants = this.splitTopLevel(masked.substring(bodyStart + 1, end))
+        .map(variant => variant.replace(/#\[[^\]]*\]\s*/g, '').trim())
+        .filter(Boolean)
+      metadata.values = variants.map(variant => variant.match(/^(\w+)/)?.[1]).filter(Boolean)
+      variants.forEach(variant => findTypeNames(variant.replace(/^\w+/, '')).forEach(target =>
+        relations.push({ type: 'uses', target, confidence: 0.7 })
+      ))
+    } else {
+      const fields = this.parseFields(masked, headerText, bodyStart, end, headerEnd)
+      metadata.fields = fields.length > 0 ? fields : undefined
+      fields.forEach(field => findTypeNames(field.type).forEach(target =>
+        relations.push({ type: 'uses', target, confidence: 0.7 })
+      ))
+    }
+
+    const component = this.createRustComponent(name, type, filePath, lines, startLine, this.getLineNumber(masked, end), scope, modulePath, metadata, relations)
+    if (keyword === 'trait' && bodyStart >= 0) {
+      scopes.push({ kind: 'trait', bodyStart, modulePath, component, selfType: name })
+    }
+    return component
+  }
+
+  private extractModule(
+    masked: string,
+    lines: string[],
+    filePath: string,
+    name: string,
+    match: RegExpExecArray,
+    headerEnd: number,
+    scope: RustScope | undefined,
+    fileModule: string,
+    scopes: RustScope[],
+    attributes: string[]
+  ): Component {
+    const parentModule = scope?.modulePath ?? fileModule
+    const modulePath = parentModule ? `${parentModule}::${name}` : name
+    const startLine = this.getLineNumber(masked, match.index)
+    const isInline = /^\s*\{/.test(masked.substring(headerEnd))
+    const bodyStart = isInline ? masked.indexOf('{', headerEnd) : -1
+    const end = bodyStart >= 0 ? this.findBlockEnd(masked, bodyStart) : masked.indexOf(';', headerEnd)
+    const isTest = scope?.isTest || attributes.some(attribute => /^cfg\(\s*test\s*\)/.test(attribute)) || undefined
+
+    // `mod billing;` lives in billing.rs or billing/mod.rs next to this module's file
+    // (`#[path = "..."]` overrides it)
+    const pathAttribute = attributes.map(attribute => attribute.match(/^path\s*=\s*"([^"]+)"/)?.[1]).find(Boolean)
+    const directory = this.getModuleDirectory(filePath, scope?.modulePath ?? fileModule, fileModule)
+    const files = isInline ? undefined : pathAttribute
+      ? [this.joinPath(filePath.substring(0, filePath.lastIndexOf('/') + 1), pathAttribute)]
+      : [`${directory}${name}.rs`, `${directory}${name}/mod.rs`]
+
+    const component = this.createRustComponent(name, 'namespace', filePath, lines, startLine, this.getLineNumber(masked, end), scope, parentModule, {
+      kind: 'module',
+      isExported: this.isPublic(match[1]),
+      visibility: this.getVisibility(match[1]),
+      isInline: isInline || undefined,
+      isTest,
+      files,
+      moduleName: modulePath
+    }, isInline ? [] : [{ type: 'composes', target: `crate::${modulePath}`, confidence: 0.9 }])
+
+    if (bodyStart >= 0) {
+      scopes.push({ kind: 'mod', bodyStart, modulePath, component, isTest })
+    }
+    return component
+  }
+
+  private extractFunction(
+    content: string,
+    masked: string,
+    lines: string[],
+    filePath: string,
+    match: RegExpExecArray,
+    scope: RustScope | undefined,
+    fileModule: string
+  ): Component | null {
+    const [fullMatch, visibility, qualifiers] = match
+    const header = masked.substring(match.index + fullMatch.length).match(/^\s+(\w+)\s*(<(?:[^<>]|<[^<>]*>)*>)?\s*\(/)
+    if (!header) return null
+
+    const name = header[1]
+    const parametersStart = match.index + fullMatch.length + header[0].length - 1
+    const parametersEnd = this.findBlockEnd(masked, parametersStart)
+    const { bodyStart, end } = this.findItemBody(masked, parametersEnd + 1)
+    const startLine = this.getLineNumber(masked, match.index)
+    const parameters = masked.substring(parametersStart + 1, parametersEnd)
+    const hasReceiver = /^\s*(&\s*('\w+\s+)?(mut\s+)?)?(mut\s+)?self\b/.test(parameters)
+    const isMember = scope?.kind === 'impl' || scope?.kind === 'trait'
+    const modulePath = scope?.modulePath ?? fileModule
+    const returnType = masked.substring(parametersEnd + 1, bodyStart >= 0 ? bodyStart : end).match(/^\s*->\s*([\s\S]+?)\s*(?:\bwhere\b|$)/)?.[1]
+
+    const relations = bodyStart >= 0 ? this.findCalls(masked.substring(bodyStart, end + 1)) : []
+    const metadata: Component['metadata'] = {
+      kind: !isMember ? 'function' : hasReceiver ? 'method' : 'associated',
+      // Trait items are as visible as the trait; trait impl items as the type
+      isExported: scope?.kind === 'trait' || (scope?.kind === 'impl' && !!scope.traitName)
+        ? !!scope.component?.metadata.isExported || !scope.component
+        : this.isPublic(visibility),
+      visibility: scope?.kind === 'trait' || scope?.traitName ? undefined : this.getVisibility(visibility),
+      isAsync: /\basync\b/.test(qualifiers) || undefined,
+      isUnsafe: /\bunsafe\b/.test(qualifiers) || undefined,
+      isConst: /\bconst\b/.test(qualifiers) || undefined,
+      isStatic: isMember && !hasReceiver || undefined,
+      isAbstract: scope?.kind === 'trait' && bodyStart < 0 || undefined,
+      isTest: scope?.isTest || this.getAttributes(lines, startLine).some(attribute => /^(tokio::)?test\b/.test(attribute)) || undefined,
+      typeParameters: header[2]?.slice(1, -1).trim(),
+      returnType: returnType?.replace(/\s+/g, ' '),
+      signature: content.substring(match.index, bodyStart >= 0 ? bodyStart : end).replace(/\s+/g, ' ').trim()
+    }
+
+    if (scope?.kind === 'impl') {
+      // Methods may extend a type declared in another file: keep the impl target by name
+      metadata.implFor = scope.selfType
+      metadata.trait = scope.traitName
+    }
+    if (scope?.kind === 'trait') {
+      scope.component?.metadata.methods.push(name)
+    }
+
+    if (isMember) {
+      const parent = scope?.component
+      const qualifiedName = `${scope?.selfType}::${name}`
+      return {
+        id: this.generateComponentId(qualifiedName.replace(/::/g, '.'), 'method', filePath),
+        name,
+        type: 'method',
+        parentPath: filePath,
+        startLine,
+        endLine: this.getLineNumber(masked, end),
+        relations,
+        metadata: {
+          qualifiedName,
+          modulePath,
+          parentId: parent?.id,
+          parentName: scope?.selfType,
+          description: this.getLeadingComment(lines, startLine),
+          ...metadata
+        }
+      }
+    }
+
+    return this.createRustComponent(name, 'function', filePath, lines, startLine, this.getLineNumber(masked, end), scope, modulePath, metadata, relations)
+  }
+
+  private parseImpl(
+    masked: string,
+    match: RegExpExecArray,
+    scope: RustScope | undefined,
+    fileModule: string
+  ): RustScope | null {
+    const headerStart = match.index + match[0].length
+    const { bodyStart } = this.findItemBody(masked, headerStart)
+    if (bodyStart < 0) return null
+
+    // impl<T: Display> fmt::Display for Wrapper<T> where T: Clone
+    let header = masked.substring(headerStart, bodyStart).trim()
+    if (header.startsWith('<')) {
+      header = header.substring(this.findBlockEnd(header, 0) + 1).trim()
+    }
+    header = header.replace(/\bwhere\b[\s\S]*$/, '').trim()
+
+    const forMatch = header.match(/^([\s\S]+?)\s+for\s+([\s\S]+)$/)
+    const traitName = forMatch?.[1].trim().replace(/<[\s\S]*$/, '')
+    const selfType = (forMatch ? forMatch[2] : header)
+      .replace(/^[&\s]*(?:'\w+\s+)?(?:mut\s+|dyn\s+)*/, '')
+      .replace(/<[\s\S]*$/, '')
+      .split('::')
+      .pop()!
+      .trim()
+
+    return {
+      kind: 'impl',
+      bodyStart,
+      modulePath: scope?.modulePath ?? fileModule,
+      selfType,
+      // Negative impls (impl !Send for T) don't implement anything
+      traitName: traitName && !traitName.startsWith('!') ? traitName : undefined,
+      isTest: scope?.isTest
+    }
+  }
+
+  private detectModuleImports(
+    masked: string,
+    blocks: SourceBlock[],
+    scopes: RustScope[],
+    fileModule: string
+  ): Map<string, { relation: ComponentRelation, isPublic: boolean, index: number }[]> {
+    const imports = new Map<string, { relation: ComponentRelation, isPublic: boolean, index: number }[]>()
+    const useRegex = /^[ \t]*(pub(?:\s*\([^)]*\))?\s+)?use\s+([^;]+);/gm
+
     let match
-    while ((match = functionCallRegex.exec(functionContent)) !== null) {
-      const [, functionName] = match
-      // Skip common Python keywords and built-ins
-      if (!['if', 'for', 'while', 'with', 'try', 'except', 'print', 'len', 'str', 'int', 'float', 'bool', 'list', 'dict', 'tuple', 'set'].includes(functionName)) {
-        relations.push({
-          type: 'calls',
-          target: functionName,
-          confidence: 0.8
+    while ((match = useRegex.exec(masked)) !== null) {
+      // `use` inside a function body only affects that function
+      const innermost = this.findInnermostBlock(blocks, match.index)
+      const scope = innermost ? scopes.find(candidate => candidate.bodyStart === innermost.open && candidate.kind === 'mod') : undefined
+      if (innermost && !scope) continue
+
+      const modulePath = scope?.modulePath ?? fileModule
+      if (!imports.has(modulePath)) imports.set(modulePath, [])
+
+      const tree = match[2].replace(/\s*(::|[{},])\s*/g, '$1').replace(/\s+/g, ' ').trim()
+      for (const entry of this.expandUseTree('', tree)) {
+        const target = this.normalizeModulePath(entry.path, modulePath)
+        imports.get(modulePath)!.push({
+          relation: { type: 'imports', target, confidence: 0.95, localName: entry.alias },
+          isPublic: !!match[1],
+          index: match.index
         })
       }
     }
-    
-    // Find method calls: object.method(
-    const methodCallRegex = /(\w+)\.(\w+)\s*\(/g
-    while ((match = methodCallRegex.exec(functionContent)) !== null) {
-      const [, objectName, methodName] = match
-      relations.push({
-        type: 'uses',
-        target: `${objectName}.${methodName}`,
-        confidence: 0.8
+
+    return imports
+  }
+
+  private expandUseTree(prefix: string, tree: string): { path: string, alias?: string }[] {
+    // use a::{b, c::{d, e as f}, self, *}
+    const braceIndex = tree.indexOf('{')
+    if (braceIndex >= 0 && tree.endsWith('}')) {
+      const base = [prefix, tree.substring(0, braceIndex).replace(/::$/, '')].filter(Boolean).join('::')
+      return this.splitTopLevel(tree.substring(braceIndex + 1, tree.length - 1))
+        .flatMap(subtree => this.expandUseTree(base, subtree))
+    }
+
+    const [, path, alias] = tree.match(/^(.*?)(?:\s+as\s+(\w+))?$/)!
+    if (path === 'self') {
+      return [{ path: prefix, alias }]
+    }
+    return [{ path: [prefix, path].filter(Boolean).join('::').replace(/^::/, ''), alias: alias === '_' ? undefined : alias }]
+  }
+
+  private normalizeModulePath(target: string, modulePath: string): string {
+    // self::x and super::x become crate paths; crate names and `crate::` stay as written
+    const segments = target.split('::')
+    const current = modulePath ? modulePath.split('::') : []
+
+    if (segments[0] === 'self') {
+      return ['crate', ...current, ...segments.slice(1)].join('::')
+    }
+    if (segments[0] === 'super') {
+      let depth = 0
+      while (segments[depth] === 'super') depth++
+      return ['crate', ...current.slice(0, Math.max(0, current.length - depth)), ...segments.slice(depth)].join('::')
+    }
+    return target
+  }
+
+  private extractReexports(
+    masked: string,
+    lines: string[],
+    filePath: string,
+    imports: Map<string, { relation: ComponentRelation, isPublic: boolean, index: number }[]>
+  ): Component[] {
+    // `pub use` re-exports a path under this module, like a barrel file
+    const components: Component[] = []
+
+    imports.forEach((entries, modulePath) => {
+      entries.filter(entry => entry.isPublic).forEach(({ relation, index }) => {
+        const isGlob = relation.target.endsWith('::*')
+        const name = relation.localName || relation.target.split('::').pop()!
+        const line = this.getLineNumber(masked, index)
+        components.push({
+          id: this.generateComponentId(isGlob ? relation.target.replace(/::/g, '.') : name, 'export', filePath),
+          name: isGlob ? '*' : name,
+          type: 'export',
+          parentPath: filePath,
+          startLine: line,
+          endLine: line,
+          relations: [{ type: 'exposes', target: relation.target, confidence: 0.9 }],
+          metadata: {
+            exportType: isGlob ? 'star' : 'named',
+            source: relation.target,
+            modulePath,
+            isExported: true
+          }
+        })
       })
+    })
+
+    return components
+  }
+
+  private findCalls(body: string): ComponentRelation[] {
+    const relations = new Map<string, ComponentRelation>()
+    let match
+
+    // Method calls on self: self.total()
+    const selfRegex = /\bself\.(\w+)\s*(?:::<[^>]*>)?\s*\(/g
+    while ((match = selfRegex.exec(body)) !== null) {
+      relations.set(`calls:self.${match[1]}`, { type: 'calls', target: `self.${match[1]}`, confidence: 0.85 })
     }
-    
-    return relations
+
+    // Path calls: helper(), Invoice::new(), billing::issue::<T>()
+    const callRegex = /(?<![\w:.!])((?:\w+::)*\w+)\s*(?:::<(?:[^<>]|<[^<>]*>)*>)?\s*\(/g
+    while ((match = callRegex.exec(body)) !== null) {
+      const target = match[1]
+      if (RustExtractor.KEYWORDS.has(target.split('::')[0]) || /^(self|super|crate)$/.test(target)) continue
+      relations.set(`calls:${target}`, { type: 'calls', target, confidence: 0.8 })
+    }
+
+    // Macro invocations other than the standard ones: my_macro!(...)
+    const macroRegex = /(?<![\w:])((?:\w+::)*\w+)!\s*[([{]/g
+    while ((match = macroRegex.exec(body)) !== null) {
+      const name = match[1].split('::').pop()!
+      if (RustExtractor.BUILTIN_MACROS.has(name)) continue
+      relations.set(`calls:${match[1]}`, { type: 'calls', target: match[1], confidence: 0.75 })
+    }
+
+    // Struct literals: Invoice { id, total }
+    const literalRegex = /(?<![\w:])((?:\w+::)*[A-Z]\w*)\s*\{/g
+    while ((match = literalRegex.exec(body)) !== null) {
+      if (relations.has(`calls:${match[1]}`) || match[1] === 'Self') continue
+      relations.set(`uses:${match[1]}`, { type: 'uses', target: match[1], confidence: 0.75 })
+    }
+
+    return Array.from(relations.values())
   }
-  
-  private extractFunctionContent(content: string, startIndex: number): string {
-    const lines = content.substring(startIndex).split('\n')
-    if (lines.length === 0) return ''
-    
-    const firstLine = lines[0]
-    const baseIndentation = firstLine.length - firstLine.trimStart().length
-    
-    let functionContent = firstLine + '\n'
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i]
-      if (line.trim() === '') {
-        functionContent += line + '\n'
-        continue
+
+  private parseFields(
+    masked: string,
+    headerText: string,
+    bodyStart: number,
+    end: number,
+    headerEnd: number
+  ): { name: string, type: string, isPublic?: boolean }[] {
+    // Named fields: struct Invoice { pub id: InvoiceId, total: Money }
+    if (bodyStart >= 0) {
+      return this.splitTopLevel(masked.substring(bodyStart + 1, end))
+        .map(field => field.replace(/#\[[^\]]*\]\s*/g, '').match(/^(pub(?:\s*\([^)]*\))?\s+)?(\w+)\s*:\s*([\s\S]+)$/))
+        .filter((field): field is RegExpMatchArray => !!field)
+        .map(([, visibility, name, type]) => ({ name, type: type.replace(/\s+/g, ' '), isPublic: !!visibility || undefined }))
+    }
+
+    // Tuple structs: struct InvoiceId(pub u64);
+    const openIndex = headerText.search(/\(/)
+    if (openIndex < 0) return []
+    const tupleStart = headerEnd + openIndex
+    return this.splitTopLevel(masked.substring(tupleStart + 1, this.findBlockEnd(masked, tupleStart)))
+      .map((field, index) => {
+        const visibility = field.match(/^pub(?:\s*\([^)]*\))?\s+/)
+        return { name: String(index), type: field.substring(visibility?.[0].length || 0).trim(), isPublic: !!visibility || undefined }
+      })
+  }
+
+  private findItemBody(masked: string, from: number): { bodyStart: number, end: number } {
+    // First `{` or `;` outside parentheses: the item body or the end of a declaration
+    let depth = 0
+    for (let i = from; i < masked.length; i++) {
+      const char = masked[i]
+      if (char === '(' || char === '[') depth++
+      else if (char === ')' || char === ']') depth--
+      else if (depth === 0 && char === '{') return { bodyStart: i, end: this.findBlockEnd(masked, i) }
+      else if (depth === 0 && (char === ';' || char === '}')) return { bodyStart: -1, end: i }
+    }
+    return { bodyStart: -1, end: masked.length }
+  }
+
+  private findItemEnd(masked: string, from: number): number {
+    // `;` ending a const/static/type item, skipping nested brackets in its value
+    let depth = 0
+    for (let i = from; i < masked.length; i++) {
+      if ('([{'.includes(masked[i])) depth++
+      else if (')]}'.includes(masked[i])) depth--
+      else if (masked[i] === ';' && depth === 0) return i
+    }
+    return masked.length
+  }
+
+  private getVisibility(visibility: string | undefined): string {
+    // pub(crate) / pub(super) / pub(in path) stay inside the crate
+    return visibility ? visibility.replace(/\s+/g, '') : 'private'
+  }
+
+  private isPublic(visibility: string | undefined): boolean {
+    return this.getVisibility(visibility) === 'pub'
+  }
+
+  private getAttributes(lines: string[], declarationLine: number): string[] {
+    // #[...] lines directly above an item (doc comments may sit between them)
+    const attributes: string[] = []
+    for (let index = declarationLine - 2; index >= 0; index--) {
+      const attribute = lines[index].match(/^\s*#\[(.*)\]\s*$/)
+      if (attribute) attributes.unshift(attribute[1].trim())
+      else if (!/^\s*\/\/\//.test(lines[index])) break
+    }
+    return attributes
+  }
+
+  private getDerives(attributes: string[]): string[] | undefined {
+    const derives = attributes
+      .flatMap(attribute => attribute.match(/^derive\(([^)]*)\)/)?.[1].split(',') || [])
+      .map(derive => derive.trim().split('::').pop()!)
+      .filter(Boolean)
+    return derives.length > 0 ? derives : undefined
+  }
+
+  private findTypeNames(typeText: string): string[] {
+    // Capitalized paths in a type, generic arguments included: Vec<line::LineItem>
+    return Array.from(new Set(
+      (typeText.match(/\b(?:\w+::)*[A-Z]\w*/g) || []).filter(name => !RustExtractor.KEYWORDS.has(name) && name !== 'Self')
+    ))
+  }
+
+  private getFileModulePath(filePath: string): string {
+    // src/billing/invoice.rs -> billing::invoice; lib.rs, main.rs and mod.rs name their directory
+    const srcIndex = filePath.startsWith('src/') ? 0 : filePath.lastIndexOf('/src/') + 1
+    const relative = srcIndex > 0 || filePath.startsWith('src/')
+      ? filePath.substring(srcIndex + 4)
+      : filePath.split('/').pop()!
+    const segments = relative.replace(/\.rs$/, '').split('/')
+    const last = segments.pop()!
+
+    const isCrateRoot = segments.length === 0 && (last === 'lib' || last === 'main')
+    if (!isCrateRoot && last !== 'mod') segments.push(last)
+    return segments.join('::')
+  }
+
+  private getModuleDirectory(filePath: string, modulePath: string, fileModule: string): string {
+    // Child modules of lib.rs/main.rs/mod.rs sit beside it, others in a directory named after the file
+    const directory = filePath.substring(0, filePath.lastIndexOf('/') + 1)
+    const fileName = filePath.split('/').pop()!.replace(/\.rs$/, '')
+    const ownsDirectory = ['lib', 'main', 'mod'].includes(fileName)
+    const inlinePath = modulePath.substring(fileModule.length).split('::').filter(Boolean)
+
+    return [directory + (ownsDirectory ? '' : `${fileName}/`), ...inlinePath.map(segment => `${segment}/`)].join('')
+  }
+
+  private joinPath(directory: string, relativePath: string): string {
+    const segments: string[] = []
+    for (const segment of `${directory}${relativePath}`.split('/')) {
+      if (segment === '..') segments.pop()
+      else if (segment && segment !== '.') segments.push(segment)
+    }
+    return segments.join('/')
+  }
+
+  private createRustComponent(
+    name: string,
+    type: ComponentType,
+    filePath: string,
+    lines: string[],
+    startLine: number,
+    endLine: number,
+    scope: RustScope | undefined,
+    modulePath: string,
+    metadata: Component['metadata'],
+    relations: ComponentRelation[] = []
+  ): Component {
+    // Inline modules prefix the qualified name: tests::fixture
+    const parentModule = scope?.kind === 'mod' ? scope.component : undefined
+    const qualifiedName = parentModule ? `${parentModule.metadata.qualifiedName}::${name}` : name
+
+    return {
+      id: this.generateComponentId(qualifiedName.replace(/::/g, '.'), type, filePath),
+      name,
+      type,
+      parentPath: filePath,
+      startLine,
+      endLine,
+      relations,
+      metadata: {
+        qualifiedName,
+        modulePath,
+        parentId: parentModule?.id,
+        parentName: parentModule?.metadata.qualifiedName,
+        description: this.getLeadingComment(lines, startLine),
+        isTest: scope?.isTest,
+        ...metadata
       }
-      
-      const currentIndentation = line.length - line.trimStart().length
-      if (currentIndentation <= baseIndentation && line.trim()) {
-        break
+    }
+  }
+
+  private mergeDuplicates(components: Component[]): Component[] {
+    // cfg-gated alternatives of one item share an id: keep the first declaration
+    const merged = new Map<string, Component>()
+    for (const component of components) {
+      const existing = merged.get(component.id)
+      if (existing) {
+        existing.relations.push(...component.relations.filter(relation => relation.type !== 'imports'))
+      } else {
+        merged.set(component.id, component)
       }
-      
-      functionContent += line + '\n'
     }
-    
-    return functionContent
+    return Array.from(merged.values())
   }
 }
 
@@ -862,6 +3197,10 @@ export class ComponentExtractorFactory {
     ['typescript', new TypeScriptExtractor()],
     ['javascript', new TypeScriptExtractor()], // TypeScript extractor handles JS too
     ['python', new PythonExtractor()],
+    ['go', new GoExtractor()],
+    ['java', new JavaExtractor()],
+    ['kotlin', new KotlinExtractor()],
+    ['rust', new RustExtractor()],
   ])
   
   static getExtractor(language: string): ComponentExtractor | null {
@@ -1,8 +1,9 @@
 // Context Loader Service
 // Manages AI context windows for documentation generation
 
-import { createClient } from '@/lib/supabase/server'
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
 import crypto from 'crypto'
+import { countTokens } from '@/lib/tokenizer'
 
 export interface ContextWindow {
   documents: ContextDocument[]
@@ -30,15 +31,25 @@ export interface ContextConfig {
   strategy: 'recent' | 'relevant' | 'mixed'
   includeOverview: boolean
   cacheExpiryHours: number
+  pinnedDocPaths: string[] // Always included, e.g. the documents the target depends on
+}
+
+// How a context document is listed in generation prompts
+export function formatContextEntry(doc: ContextDocument): string {
+  return `- **${doc.title}** (${doc.documentPath}): ${doc.summary}`
 }
 
 export class ContextLoader {
+  // Without a client, queries run as the signed-in user of the current request
+  constructor(private readonly supabase?: DatabaseClient) {}
+
   private readonly defaultConfig: ContextConfig = {
     maxTokens: 8000,
     maxDocuments: 50,
     strategy: 'mixed',
     includeOverview: true,
-    cacheExpiryHours: 24
+    cacheExpiryHours: 24,
+    pinnedDocPaths: []
   }
 
   async loadContextWindow(
@@ -69,7 +80,7 @@ export class ContextLoader {
     targetDocPath: string | undefined,
     config: ContextConfig
   ): Promise<ContextWindow> {
-    const supabase = await createClient()
+    const supabase = this.supabase ?? await createClient()
     
     // Load existing documents with summaries
     const { data: documents, error } = await supabase
@@ -87,6 +98,18 @@ export class ContextLoader {
       return this.createEmptyContext(repositoryId, targetDocPath, config)
     }
 
+    // Pinned documents may be older than the most recently updated ones
+    const loadedPaths = new Set(documents.map(doc => doc.document_path))
+    const missingPinned = config.pinnedDocPaths.filter(path => !loadedPaths.has(path))
+    if (missingPinned.length > 0) {
+      const { data: pinnedDocuments } = await supabase
+        .from('documents')
+        .select('id, title, document_path, summary, document_type, created_at, updated_at')
+        .eq('repository_id', repositoryId)
+        .in('document_path', missingPinned)
+      documents.push(...(pinnedDocuments || []))
+    }
+
     // Filter and score documents
     const contextDocs = await this.selectContextDocuments(
       documents,
@@ -94,13 +117,19 @@ export class ContextLoader {
       config
     )
 
-    // Calculate total tokens (rough estimation)
-    const totalTokens = contextDocs.reduce((total, doc) => {
-      return total + this.estimateTokens(doc.title + ' ' + (doc.summary || ''))
-    }, 0)
+    // Keep documents in selection order while their prompt entries fit in maxTokens;
+    // an entry that does not fit is skipped so shorter ones after it can still be used
+    const windowDocs: ContextDocument[] = []
+    let totalTokens = 0
+    for (const doc of contextDocs.slice(0, config.maxDocuments)) {
+      const tokens = countTokens(formatContextEntry(doc) + '\n')
+      if (totalTokens + tokens > config.maxTokens) continue
+      windowDocs.push(doc)
+      totalTokens += tokens
+    }
 
     return {
-      documents: contextDocs.slice(0, config.maxDocuments),
+      documents: windowDocs,
       totalTokens,
       metadata: {
         repositoryId,
@@ -133,17 +162,33 @@ export class ContextLoader {
       }
     }
 
+    for (const doc of documents) {
+      if (config.pinnedDocPaths.includes(doc.document_path) && doc.document_type !== 'overview') {
+        contextDocs.push({
+          id: doc.id,
+          title: doc.title,
+          documentPath: doc.document_path,
+          summary: doc.summary || this.generateFallbackSummary(doc.title),
+          documentType: doc.document_type,
+          relevanceScore: 1.0
+        })
+      }
+    }
+    const pinned = new Set(contextDocs.map(doc => doc.id))
+    const unpinned = documents.filter(doc => !pinned.has(doc.id))
+    const remaining = Math.max(0, config.maxDocuments - contextDocs.length)
+
     // Select documents based on strategy
     switch (config.strategy) {
       case 'recent':
-        contextDocs.push(...this.selectRecentDocuments(documents, config.maxDocuments - contextDocs.length))
+        contextDocs.push(...this.selectRecentDocuments(unpinned, remaining))
         break
       case 'relevant':
-        contextDocs.push(...this.selectRelevantDocuments(documents, targetDocPath, config.maxDocuments - contextDocs.length))
+        contextDocs.push(...this.selectRelevantDocuments(unpinned, targetDocPath, remaining))
         break
       case 'mixed':
       default:
-        contextDocs.push(...this.selectMixedDocuments(documents, targetDocPath, config.maxDocuments - contextDocs.length))
+        contextDocs.push(...this.selectMixedDocuments(unpinned, targetDocPath, remaining))
         break
     }
 
@@ -228,7 +273,7 @@ export class ContextLoader {
 
   private async loadFromCache(repositoryId: string, cacheKey: string): Promise<ContextWindow | null> {
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
       
       const { data, error } = await supabase
         .from('context_cache')
@@ -256,7 +301,7 @@ export class ContextLoader {
     expiryHours: number
   ): Promise<void> {
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
       const expiresAt = new Date(Date.now() + expiryHours * 60 * 60 * 1000)
 
       await supabase
@@ -283,7 +328,8 @@ export class ContextLoader {
       targetDocPath: targetDocPath || 'none',
       strategy: config.strategy,
       maxTokens: config.maxTokens,
-      maxDocuments: config.maxDocuments
+      maxDocuments: config.maxDocuments,
+      pinnedDocPaths: [...config.pinnedDocPaths].sort()
     }
     
     return crypto
@@ -309,18 +355,13 @@ export class ContextLoader {
     }
   }
 
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4)
-  }
-
   private generateFallbackSummary(title: string): string {
     return `Documentation for ${title}`
   }
 
   async clearExpiredCache(): Promise<void> {
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
       
       await supabase
         .from('context_cache')
@@ -333,7 +374,7 @@ export class ContextLoader {
 
   async clearCacheForRepository(repositoryId: string): Promise<void> {
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
       
       await supabase
         .from('context_cache')
@@ -1,11 +1,40 @@
 // Doc Generator Service
 // Handles AI-powered documentation generation with context awareness
 
-import { Mistral } from '@mistralai/mistralai'
 import { Component } from './component-extractor'
 import { WorkPlanItem } from './planner'
-import { ContextWindow, ContextLoader } from './context-loader'
-import { createClient } from '@/lib/supabase/server'
+import { ContextWindow, ContextLoader, formatContextEntry } from './context-loader'
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
+import { AudienceLevel } from './repository-config'
+import {
+  ChatMessage,
+  CompletionResponse,
+  LLMProvider,
+  LLMProviderKind,
+  LLMRetryEvent,
+  LLMRetryPolicy,
+  completeWithFallback,
+  createLLMProvider,
+  getDefaultLLMProviderKind,
+  getLLMRetryPolicy,
+  streamWithFallback
+} from './llm-provider'
+import {
+  StructuredDocument,
+  STRUCTURED_DOCUMENT_SCHEMA,
+  parseStructuredDocument,
+  renderStructuredDocument
+} from './structured-document'
+import { SourceSnippet, buildSourceSnippets } from './source-snippets'
+import { countChatTokens, countTokens } from '@/lib/tokenizer'
+import { BudgetUsage } from './generation-budget'
+
+// Repository row fields the prompts use
+export interface RepositoryInfo {
+  name: string
+  description?: string | null
+  language?: string | null
+}
 
 export interface GenerationResult {
   success: boolean
@@ -19,6 +48,7 @@ export interface GeneratedDocument {
   title: string
   content: string
   summary?: string
+  structured?: StructuredDocument // Source of `content`, kept in documents.metadata
 }
 
 export interface DocumentLink {
@@ -35,138 +65,372 @@ export interface GenerationMetrics {
   costEstimated?: number
 }
 
-export interface GenerationConfig {
+// A free-form answer (codebase chat) and what it cost
+export interface AnswerResult {
+  content: string
   model: string
+  tokensInput: number
+  tokensOutput: number
+  costEstimated: number
+}
+
+export interface GenerationConfig {
+  provider?: LLMProviderKind // Server default (LLM_PROVIDER) when unset
+  model?: string // Provider's default model when unset
+  fallbackModels?: string[] // Provider's fallback chain when unset
+  retry: LLMRetryPolicy
+  onRetry?: (event: LLMRetryEvent) => void
   maxTokens: number
   temperature: number
   includeContext: boolean
+  contextDocPaths?: string[] // Always in the context window (documents this one depends on)
   extractLinks: boolean
   generateSummary: boolean
+  audience: AudienceLevel
+  glossary: Record<string, string>
+}
+
+// How each audience level shapes the task and the writing style
+const AUDIENCE_GUIDES: Record<AudienceLevel, { task: string, style: string }> = {
+  beginner: {
+    task: 'comprehensive, beginner-friendly',
+    style: 'Use clear, jargon-free language suitable for junior developers'
+  },
+  intermediate: {
+    task: 'clear, practical',
+    style: 'Assume working knowledge of the language and common tooling; explain project-specific concepts'
+  },
+  expert: {
+    task: 'concise, in-depth',
+    style: 'Write for experienced engineers; skip the basics and focus on design decisions, invariants and edge cases'
+  }
+}
+
+// Upper bound of the existing-documentation context added to each prompt
+const CONTEXT_MAX_TOKENS = 2000
+const OVERVIEW_MAX_TOKENS = 2000
+// Upper bound of the repair request's instruction and validation errors
+const REPAIR_INSTRUCTION_TOKENS = 500
+
+interface StructuredCompletion {
+  document: StructuredDocument
+  model: string // Fallback chain entry that produced the document
+  tokensInput: number
+  tokensOutput: number
+}
+
+// A structured completion that failed after tokens were spent; carries that usage
+// so the failed generation is still settled against the budget and recorded
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly model: string,
+    public readonly tokensInput: number,
+    public readonly tokensOutput: number
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
 }
 
 export class DocGenerator {
-  private readonly mistral: Mistral
   private readonly contextLoader: ContextLoader
+  // Providers are created on first use so unused ones need no credentials
+  private readonly providers = new Map<LLMProviderKind, LLMProvider>()
   
   private readonly defaultConfig: GenerationConfig = {
-    model: 'mistral-large-latest',
     maxTokens: 4000,
     temperature: 0.1,
     includeContext: true,
     extractLinks: true,
-    generateSummary: true
+    generateSummary: true,
+    audience: 'beginner',
+    glossary: {},
+    retry: getLLMRetryPolicy()
   }
 
-  constructor() {
-    this.mistral = new Mistral({
-      apiKey: process.env.MISTRAL_API_KEY!,
-    })
-    this.contextLoader = new ContextLoader()
+  // A fixed provider (e.g. FakeLLMProvider in tests) overrides per-repository selection
+  constructor(private readonly fixedProvider?: LLMProvider, private readonly supabase?: DatabaseClient) {
+    this.contextLoader = new ContextLoader(supabase)
+  }
+
+  private getProvider(kind?: LLMProviderKind): LLMProvider {
+    if (this.fixedProvider) {
+      return this.fixedProvider
+    }
+
+    const resolvedKind = kind ?? getDefaultLLMProviderKind()
+    let provider = this.providers.get(resolvedKind)
+    if (!provider) {
+      provider = createLLMProvider(resolvedKind)
+      this.providers.set(resolvedKind, provider)
+    }
+    return provider
   }
 
   async generateDocument(
     repositoryId: string,
     workItem: WorkPlanItem,
     components: Component[],
-    repositoryInfo: any,
-    config: Partial<GenerationConfig> = {}
+    repositoryInfo: RepositoryInfo,
+    config: Partial<GenerationConfig> = {},
+    sourceFiles: Map<string, string> = new Map() // File path → content, for source snippets
   ): Promise<GenerationResult> {
     const startTime = Date.now()
     const finalConfig = { ...this.defaultConfig, ...config }
+    let model = finalConfig.model || 'unknown'
+    let providerKind = finalConfig.provider ?? getDefaultLLMProviderKind()
 
     try {
+      const provider = this.getProvider(finalConfig.provider)
+      model = finalConfig.model || provider.defaultModel
+      providerKind = provider.kind
+
       // Load context window if requested
       let contextWindow: ContextWindow | null = null
       if (finalConfig.includeContext) {
         contextWindow = await this.contextLoader.loadContextWindow(
           repositoryId,
           workItem.docPath,
-          { maxTokens: 2000, maxDocuments: 20 }
+          { maxTokens: CONTEXT_MAX_TOKENS, maxDocuments: 20, pinnedDocPaths: finalConfig.contextDocPaths || [] }
         )
       }
 
       // Build the prompt
-      const prompt = await this.buildPrompt(workItem, components, repositoryInfo, contextWindow)
+      const snippets = buildSourceSnippets(components, sourceFiles, workItem.sourceTokenBudget)
+      const prompt = this.buildPrompt(workItem, components, repositoryInfo, contextWindow, finalConfig, snippets)
       
       // Generate documentation
-      const response = await this.mistral.chat.complete({
-        model: finalConfig.model,
-        messages: [{ role: 'user', content: prompt }],
-        maxTokens: finalConfig.maxTokens,
-        temperature: finalConfig.temperature
-      })
-
-      const content = response.choices?.[0]?.message?.content
-      if (!content || typeof content !== 'string') {
-        throw new Error('No content generated by AI model')
-      }
+      const completion = await this.completeStructured(provider, model, prompt, finalConfig)
+      const structured = completion.document
+      const content = renderStructuredDocument(structured)
 
-      // Parse the generated content
-      const parsedResult = this.parseGeneratedContent(content)
-      
       // Extract links if requested
       let links: DocumentLink[] = []
       if (finalConfig.extractLinks && contextWindow) {
-        links = await this.extractLinks(parsedResult.content, contextWindow)
-      }
-
-      // Generate summary if requested
-      let summary: string | undefined
-      if (finalConfig.generateSummary) {
-        summary = this.generateSummary(parsedResult.content)
+        links = this.extractLinks(structured, contextWindow)
       }
 
       const endTime = Date.now()
       const metrics: GenerationMetrics = {
-        tokensInput: this.estimateTokens(prompt),
-        tokensOutput: this.estimateTokens(content),
+        tokensInput: completion.tokensInput,
+        tokensOutput: completion.tokensOutput,
         generationTimeMs: endTime - startTime,
-        modelUsed: finalConfig.model,
-        costEstimated: this.estimateCost(
-          this.estimateTokens(prompt),
-          this.estimateTokens(content),
-          finalConfig.model
-        )
+        modelUsed: completion.model,
+        costEstimated: this.estimateCost(completion.tokensInput, completion.tokensOutput, completion.model, provider.kind)
       }
 
       return {
         success: true,
         document: {
-          title: parsedResult.title || workItem.title,
-          content: parsedResult.content,
-          summary
+          title: structured.title || workItem.title,
+          content,
+          summary: finalConfig.generateSummary ? this.truncateSummary(structured.summary) : undefined,
+          structured
         },
         links,
         metrics
       }
 
     } catch (error) {
-      const endTime = Date.now()
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        metrics: {
-          tokensInput: 0,
-          tokensOutput: 0,
-          generationTimeMs: endTime - startTime,
-          modelUsed: finalConfig.model
-        }
+      return this.failedResult(error, model, providerKind, startTime)
+    }
+  }
+
+  // Requests a StructuredDocument; an invalid answer gets one repair request
+  // listing every validation error before the generation is failed. Both go
+  // through the retry/fallback chain.
+  private async completeStructured(
+    provider: LLMProvider,
+    model: string,
+    prompt: string,
+    config: GenerationConfig
+  ): Promise<StructuredCompletion> {
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }]
+    const send = (requestModel: string) => completeWithFallback(provider, {
+      model: requestModel,
+      messages,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      responseFormat: 'json'
+    }, {
+      fallbackModels: config.fallbackModels,
+      policy: config.retry,
+      onRetry: config.onRetry
+    })
+
+    // The provider's reported usage when there is one, the local tokenizer otherwise
+    const countUsage = (response: CompletionResponse) => response.usage ?? {
+      inputTokens: countChatTokens(messages),
+      outputTokens: countTokens(response.content)
+    }
+
+    let response = await send(model)
+    let { content, model: usedModel } = response
+    let { inputTokens: tokensInput, outputTokens: tokensOutput } = countUsage(response)
+    let parsed = parseStructuredDocument(content)
+
+    if (parsed.document) {
+      return { document: parsed.document, model: usedModel, tokensInput, tokensOutput }
+    }
+
+    console.warn(`Structured output invalid, requesting repair: ${parsed.errors.join('; ')}`)
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON schema:
+${parsed.errors.map(error => `- ${error}`).join('\n')}
+
+Reply with the corrected JSON object only, keeping all valid content.`
       }
+    )
+
+    // The repair starts from the model that answered; if it fails, the first answer was still paid for
+    try {
+      response = await send(usedModel)
+    } catch (error) {
+      throw new StructuredOutputError(error instanceof Error ? error.message : 'Repair request failed', usedModel, tokensInput, tokensOutput)
+    }
+    ;({ content, model: usedModel } = response)
+    const repairUsage = countUsage(response)
+    tokensInput += repairUsage.inputTokens
+    tokensOutput += repairUsage.outputTokens
+    parsed = parseStructuredDocument(content)
+
+    if (!parsed.document) {
+      throw new StructuredOutputError(
+        `Model returned invalid structured output after a repair attempt: ${parsed.errors.slice(0, 5).join('; ')}`,
+        usedModel,
+        tokensInput,
+        tokensOutput
+      )
+    }
+
+    return { document: parsed.document, model: usedModel, tokensInput, tokensOutput }
+  }
+
+  // Failed generations report the tokens a StructuredOutputError says were spent
+  private failedResult(error: unknown, model: string, providerKind: LLMProviderKind, startTime: number): GenerationResult {
+    const metrics: GenerationMetrics = {
+      tokensInput: 0,
+      tokensOutput: 0,
+      generationTimeMs: Date.now() - startTime,
+      modelUsed: model
+    }
+    if (error instanceof StructuredOutputError) {
+      metrics.tokensInput = error.tokensInput
+      metrics.tokensOutput = error.tokensOutput
+      metrics.modelUsed = error.model
+      metrics.costEstimated = this.estimateCost(error.tokensInput, error.tokensOutput, error.model, providerKind)
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      metrics
+    }
+  }
+
+  // Streams a free-form answer with the provider, model and fallbacks documents are
+  // generated with, so chat follows the repository's provider choice
+  async answer(
+    messages: ChatMessage[],
+    config: Partial<GenerationConfig>,
+    onDelta: (text: string) => void
+  ): Promise<AnswerResult> {
+    const finalConfig = { ...this.defaultConfig, ...config }
+    const provider = this.getProvider(finalConfig.provider)
+
+    const response = await streamWithFallback(provider, {
+      model: finalConfig.model || provider.defaultModel,
+      messages,
+      maxTokens: finalConfig.maxTokens,
+      temperature: finalConfig.temperature
+    }, onDelta, {
+      fallbackModels: finalConfig.fallbackModels,
+      policy: finalConfig.retry,
+      onRetry: finalConfig.onRetry
+    })
+
+    const usage = response.usage ?? {
+      inputTokens: countChatTokens(messages),
+      outputTokens: countTokens(response.content)
+    }
+    return {
+      content: response.content,
+      model: response.model,
+      tokensInput: usage.inputTokens,
+      tokensOutput: usage.outputTokens,
+      costEstimated: this.estimateCost(usage.inputTokens, usage.outputTokens, response.model, provider.kind)
+    }
+  }
+
+  // Worst case of an answer: its whole prompt plus a full-length answer
+  estimateAnswerUsage(messages: ChatMessage[], config: Partial<GenerationConfig> = {}): BudgetUsage {
+    const finalConfig = { ...this.defaultConfig, ...config }
+    const provider = this.getProvider(finalConfig.provider)
+    const model = finalConfig.model || provider.defaultModel
+    const inputTokens = countChatTokens(messages)
+
+    return {
+      tokens: inputTokens + finalConfig.maxTokens,
+      costUsd: this.estimateCost(inputTokens, finalConfig.maxTokens, model, provider.kind)
     }
   }
 
-  private async buildPrompt(
+  // Prompt size the work item will be generated with: the same prompt minus the
+  // context window, which is counted at its upper bound
+  estimatePromptTokens(
     workItem: WorkPlanItem,
     components: Component[],
-    repositoryInfo: any,
-    contextWindow: ContextWindow | null
-  ): Promise<string> {
+    repositoryInfo: RepositoryInfo,
+    sourceFiles: Map<string, string>,
+    config: Partial<GenerationConfig> = {}
+  ): number {
+    const finalConfig = { ...this.defaultConfig, ...config }
+
+    if (workItem.documentType === 'overview') {
+      const languages = repositoryInfo.language ? [repositoryInfo.language] : []
+      return countChatTokens([{ content: this.buildOverviewPrompt(repositoryInfo, workItem.metadata.totalComponents ?? 0, languages, finalConfig) }])
+    }
+
+    const snippets = buildSourceSnippets(components, sourceFiles, workItem.sourceTokenBudget)
+    const prompt = this.buildPrompt(workItem, components, repositoryInfo, null, finalConfig, snippets)
+    return countChatTokens([{ content: prompt }]) + (finalConfig.includeContext ? CONTEXT_MAX_TOKENS : 0)
+  }
+
+  // Worst case of a planned item: its estimated prompt and a full-length answer, then
+  // the repair request completeStructured may send (the prompt, that answer and the
+  // repair instruction) and a second full-length answer, priced for the model it
+  // will be sent to
+  estimateUsage(workItem: WorkPlanItem, config: Partial<GenerationConfig> = {}): BudgetUsage {
+    const finalConfig = { ...this.defaultConfig, ...config }
+    const provider = this.getProvider(finalConfig.provider)
+    const model = finalConfig.model || provider.defaultModel
+    const outputTokens = workItem.documentType === 'overview' ? OVERVIEW_MAX_TOKENS : finalConfig.maxTokens
+    const inputTokens = 2 * workItem.estimatedTokens + outputTokens + REPAIR_INSTRUCTION_TOKENS
+
+    return {
+      tokens: inputTokens + 2 * outputTokens,
+      costUsd: this.estimateCost(inputTokens, 2 * outputTokens, model, provider.kind)
+    }
+  }
+
+  private buildPrompt(
+    workItem: WorkPlanItem,
+    components: Component[],
+    repositoryInfo: RepositoryInfo,
+    contextWindow: ContextWindow | null,
+    config: GenerationConfig,
+    snippets: Map<string, SourceSnippet> = new Map()
+  ): string {
     const contextSection = contextWindow && contextWindow.documents.length > 0
       ? this.buildContextSection(contextWindow)
       : ''
 
-    const componentsSection = this.buildComponentsSection(components)
+    const componentsSection = this.buildComponentsSection(components, snippets)
+    const audience = AUDIENCE_GUIDES[config.audience]
     
     return `You are Lookas, an expert AI code documentation assistant.
 
@@ -174,31 +438,43 @@ REPOSITORY: ${repositoryInfo.name || 'Unknown'}
 DOCUMENT PATH: ${workItem.docPath}
 DOCUMENT TYPE: ${workItem.documentType}
 
-${contextSection}
+${contextSection}${this.buildGlossarySection(config.glossary)}
 
 COMPONENTS TO DOCUMENT:
 ${componentsSection}
 
 TASK:
-Create comprehensive, beginner-friendly documentation for this ${workItem.documentType}. The documentation should:
+Create ${audience.task} documentation for this ${workItem.documentType}. The documentation should:
 
 1. **Overview**: Provide a clear 2-3 sentence summary of what this ${workItem.documentType} does
 2. **Purpose**: Explain why this code exists and what problems it solves
 3. **Key Components**: Document each component's role and functionality
 4. **Relationships**: Describe how components interact with each other
-5. **Usage Examples**: Include practical examples where applicable
+5. **Usage Examples**: Include practical examples where applicable (in usageExamples)
 6. **Implementation Details**: Highlight important patterns, conventions, or gotchas
 
 FORMATTING GUIDELINES:
-- Use clear, jargon-free language suitable for junior developers
-- Include code examples where helpful
-- Use markdown formatting for better readability
-- When referencing existing documented components, use this format: {{link:target.doc.path}}
+- ${audience.style}
+- Use the glossary terms consistently where they apply
+- Use markdown formatting inside section content for better readability
+- When referencing existing documented components in section content, use this format: {{link:target.doc.path}}
 
 ${contextWindow ? 'CONTEXT AWARENESS: Reference related documentation when relevant, but avoid duplication. Build on existing knowledge.' : ''}
 
-OUTPUT FORMAT:
-Provide your response as a well-structured markdown document. Start with a clear title and organize content logically with appropriate headings.`
+${this.buildOutputFormatSection()}`
+  }
+
+  private buildOutputFormatSection(): string {
+    return `OUTPUT FORMAT:
+Respond with a single JSON object and nothing else, matching this JSON schema:
+${JSON.stringify(STRUCTURED_DOCUMENT_SCHEMA)}
+
+- title: a specific title naming what is documented
+- summary: one or two sentences (at most 280 characters) stating what the code does; do not start with "This document"
+- sections: the documentation body in reading order; each content is markdown without a top-level heading
+- referencedComponents: names of the components above that the document covers
+- links: existing documents (by document path) this one relates to, with the relation type
+- usageExamples: short code snippets showing how to use the code; empty when there is nothing to show`
   }
 
   private buildContextSection(contextWindow: ContextWindow): string {
@@ -208,7 +484,7 @@ Provide your response as a well-structured markdown document. Start with a clear
 
     const contextDocs = contextWindow.documents
       .slice(0, 10) // Limit context to avoid overwhelming the prompt
-      .map(doc => `- **${doc.title}** (${doc.documentPath}): ${doc.summary}`)
+      .map(formatContextEntry)
       .join('\n')
 
     return `EXISTING DOCUMENTATION CONTEXT:
@@ -219,7 +495,19 @@ ${contextDocs}
 `
   }
 
-  private buildComponentsSection(components: Component[]): string {
+  private buildGlossarySection(glossary: Record<string, string>): string {
+    const terms = Object.entries(glossary)
+    if (terms.length === 0) {
+      return ''
+    }
+
+    return `GLOSSARY (project-specific terms):
+${terms.map(([term, definition]) => `- **${term}**: ${definition}`).join('\n')}
+
+`
+  }
+
+  private buildComponentsSection(components: Component[], snippets: Map<string, SourceSnippet>): string {
     if (components.length === 0) {
       return 'No specific components identified.'
     }
@@ -230,61 +518,58 @@ ${contextDocs}
         : ''
 
       return `- **${component.name}** (${component.type})${relationsText}
-  Location: ${component.parentPath}${component.startLine ? `:${component.startLine}` : ''}
+  Location: ${component.parentPath}${component.startLine ? `:${component.startLine}` : ''}${this.buildSnippetText(snippets.get(component.id))}
   ${component.metadata ? `Metadata: ${JSON.stringify(component.metadata, null, 2)}` : ''}`
     }).join('\n\n')
   }
 
-  private parseGeneratedContent(content: string): { title?: string, content: string } {
-    // Try to extract title from the first heading
-    const titleMatch = content.match(/^#\s+(.+)$/m)
-    const title = titleMatch ? titleMatch[1].trim() : undefined
-
-    return {
-      title,
-      content: content.trim()
+  // Indented under the component's bullet so prompt section headers never match code
+  private buildSnippetText(snippet?: SourceSnippet): string {
+    if (!snippet) {
+      return ''
     }
+
+    const omitted = snippet.omittedLines > 0 ? `, ${snippet.omittedLines} lines omitted` : ''
+    const code = ['```' + snippet.language, ...snippet.code.split('\n'), '```']
+      .map(line => `  ${line}`)
+      .join('\n')
+    return `\n  Source (lines ${snippet.startLine}-${snippet.endLine}${omitted}):\n${code}`
   }
 
-  private async extractLinks(content: string, contextWindow: ContextWindow): Promise<DocumentLink[]> {
+  private extractLinks(document: StructuredDocument, contextWindow: ContextWindow): DocumentLink[] {
     const links: DocumentLink[] = []
-    
-    // Extract {{link:path}} patterns
-    const linkRegex = /\{\{link:([^}]+)\}\}/g
-    let match
+    const seen = new Set<string>()
 
-    while ((match = linkRegex.exec(content)) !== null) {
-      const targetPath = match[1].trim()
-      
+    const addLink = (targetPath: string, linkType: string, confidence: number) => {
       // Verify the target exists in context
-      const targetExists = contextWindow.documents.some(doc => 
-        doc.documentPath === targetPath
-      )
+      const targetExists = contextWindow.documents.some(doc => doc.documentPath === targetPath)
+      const key = `${targetPath}:${linkType}`
+      if (targetExists && !seen.has(key)) {
+        seen.add(key)
+        links.push({ targetDocPath: targetPath, linkType, confidence })
+      }
+    }
 
-      if (targetExists) {
-        links.push({
-          targetDocPath: targetPath,
-          linkType: 'references',
-          confidence: 0.9
-        })
+    // Typed links the model declared
+    for (const link of document.links) {
+      addLink(link.target, link.type, 0.9)
+    }
+
+    // {{link:path}} markers inside the prose count as plain references
+    const linkRegex = /\{\{link:([^}]+)\}\}/g
+    for (const section of document.sections) {
+      for (const match of section.content.matchAll(linkRegex)) {
+        if (!document.links.some(link => link.target === match[1].trim())) {
+          addLink(match[1].trim(), 'references', 0.8)
+        }
       }
     }
 
-    // Additional heuristics for implicit links could be added here
-    
     return links
   }
 
-  private generateSummary(content: string): string {
-    // Extract first paragraph or first few sentences
-    const firstParagraph = content
-      .replace(/^#+\s+.*$/gm, '') // Remove headings
-      .split('\n\n')[0] // Get first paragraph
-      ?.trim()
-
-    if (!firstParagraph) {
-      return 'Documentation content'
-    }
+  private truncateSummary(summary: string): string {
+    const firstParagraph = summary.split('\n\n')[0].trim()
 
     // Limit to ~280 characters
     if (firstParagraph.length <= 280) {
@@ -302,12 +587,12 @@ ${contextDocs}
     return truncated + '...'
   }
 
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4)
-  }
+  private estimateCost(inputTokens: number, outputTokens: number, model: string, provider: LLMProviderKind): number {
+    // Self-hosted and fake providers have no per-token price
+    if (provider !== 'mistral') {
+      return 0
+    }
 
-  private estimateCost(inputTokens: number, outputTokens: number, model: string): number {
     // Pricing estimates for Mistral models (as of 2024)
     const pricing: Record<string, { input: number, output: number }> = {
       'mistral-large-latest': { input: 0.000008, output: 0.000024 }, // $8/$24 per 1M tokens
@@ -319,13 +604,14 @@ ${contextDocs}
     return (inputTokens * modelPricing.input) + (outputTokens * modelPricing.output)
   }
 
+  // documentId is null for a failed generation whose tokens were still spent
   async saveGenerationMetrics(
     repositoryId: string,
-    documentId: string,
+    documentId: string | null,
     metrics: GenerationMetrics
   ): Promise<void> {
     try {
-      const supabase = await createClient()
+      const supabase = this.supabase ?? await createClient()
       
       await supabase
         .from('generation_metrics')
@@ -344,16 +630,13 @@ ${contextDocs}
     }
   }
 
-  // Specialized prompts for different document types
-  async generateOverviewDocument(
-    repositoryInfo: any,
+  private buildOverviewPrompt(
+    repositoryInfo: RepositoryInfo,
     totalComponents: number,
-    mainLanguages: string[]
-  ): Promise<GenerationResult> {
-    const startTime = Date.now()
-
-    try {
-      const prompt = `You are Lookas, an expert AI code documentation assistant.
+    mainLanguages: string[],
+    config: GenerationConfig
+  ): string {
+    return `You are Lookas, an expert AI code documentation assistant.
 
 Create a comprehensive project overview for the repository: ${repositoryInfo.name}
 
@@ -364,7 +647,7 @@ REPOSITORY DETAILS:
 - Total Components Analyzed: ${totalComponents}
 - Technologies: ${mainLanguages.join(', ')}
 
-TASK:
+${this.buildGlossarySection(config.glossary)}TASK:
 Create an engaging project overview that includes:
 
 1. **Project Summary**: What this project does and its main purpose
@@ -373,59 +656,56 @@ Create an engaging project overview that includes:
 4. **Getting Started**: Basic information for new developers
 5. **Project Structure**: Overview of main directories and their purposes
 
-Keep the documentation welcoming for new contributors and provide a clear mental model of the project.
+Keep the documentation welcoming for new contributors and provide a clear mental model of the project. ${AUDIENCE_GUIDES[config.audience].style}.
 
-OUTPUT: Provide a well-structured markdown document.`
+Use one section per topic above.
 
-      const response = await this.mistral.chat.complete({
-        model: this.defaultConfig.model,
-        messages: [{ role: 'user', content: prompt }],
-        maxTokens: 2000,
-        temperature: 0.1
-      })
+${this.buildOutputFormatSection()}`
+  }
 
-      const content = response.choices?.[0]?.message?.content
-      if (!content || typeof content !== 'string') {
-        throw new Error('No content generated for overview')
-      }
+  // Specialized prompts for different document types
+  async generateOverviewDocument(
+    repositoryInfo: RepositoryInfo,
+    totalComponents: number,
+    mainLanguages: string[],
+    config: Partial<GenerationConfig> = {}
+  ): Promise<GenerationResult> {
+    const startTime = Date.now()
+    const finalConfig = { ...this.defaultConfig, ...config }
+    let model = finalConfig.model || 'unknown'
+    let providerKind = finalConfig.provider ?? getDefaultLLMProviderKind()
+
+    try {
+      const provider = this.getProvider(finalConfig.provider)
+      model = finalConfig.model || provider.defaultModel
+      providerKind = provider.kind
+
+      const prompt = this.buildOverviewPrompt(repositoryInfo, totalComponents, mainLanguages, finalConfig)
 
-      const parsedResult = this.parseGeneratedContent(content)
+      const completion = await this.completeStructured(provider, model, prompt, { ...finalConfig, maxTokens: OVERVIEW_MAX_TOKENS, temperature: 0.1 })
+      const structured = completion.document
       const endTime = Date.now()
 
       return {
         success: true,
         document: {
-          title: parsedResult.title || `${repositoryInfo.name} - Project Overview`,
-          content: parsedResult.content,
-          summary: this.generateSummary(parsedResult.content)
+          title: structured.title || `${repositoryInfo.name} - Project Overview`,
+          content: renderStructuredDocument(structured),
+          summary: this.truncateSummary(structured.summary),
+          structured
         },
         links: [],
         metrics: {
-          tokensInput: this.estimateTokens(prompt),
-          tokensOutput: this.estimateTokens(content),
+          tokensInput: completion.tokensInput,
+          tokensOutput: completion.tokensOutput,
           generationTimeMs: endTime - startTime,
-          modelUsed: this.defaultConfig.model,
-          costEstimated: this.estimateCost(
-            this.estimateTokens(prompt),
-            this.estimateTokens(content),
-            this.defaultConfig.model
-          )
+          modelUsed: completion.model,
+          costEstimated: this.estimateCost(completion.tokensInput, completion.tokensOutput, completion.model, provider.kind)
         }
       }
 
     } catch (error) {
-      const endTime = Date.now()
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        metrics: {
-          tokensInput: 0,
-          tokensOutput: 0,
-          generationTimeMs: endTime - startTime,
-          modelUsed: this.defaultConfig.model
-        }
-      }
+      return this.failedResult(error, model, providerKind, startTime)
     }
   }
 } 
\ No newline at end of file
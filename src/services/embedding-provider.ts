@@ -0,0 +1,136 @@
+// Embedding Provider Service
+// Text embedding adapters for the search index: Mistral, OpenAI-compatible endpoints and a deterministic fake
+
+import { Mistral } from '@mistralai/mistralai'
+import crypto from 'crypto'
+import { getAllowedLLMProviders, LLMProviderKind, toLLMRequestError } from './llm-provider'
+
+export interface EmbeddingProvider {
+  readonly kind: LLMProviderKind
+  readonly model: string // Stored with every vector; vectors of different models are never compared
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const REQUEST_TIMEOUT_MS = 60 * 1000
+const FAKE_DIMENSIONS = 256
+
+export class MistralEmbeddingProvider implements EmbeddingProvider {
+  readonly kind: LLMProviderKind = 'mistral'
+  private readonly client: Mistral
+
+  constructor(apiKey: string, readonly model: string = 'mistral-embed') {
+    this.client = new Mistral({ apiKey })
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, inputs: texts }, {
+      timeoutMs: REQUEST_TIMEOUT_MS
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    return response.data.map(item => item.embedding ?? [])
+  }
+}
+
+// Any server speaking the OpenAI embeddings API. With Ollama and e.g.
+// nomic-embed-text, code and docs never leave the network.
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly kind: LLMProviderKind = 'openai-compatible'
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`Embedding endpoint responded with ${response.status}: ${body.slice(0, 200) || response.statusText}`)
+    }
+
+    const data: { data?: { embedding: number[], index?: number }[] } = await response.json()
+    return [...(data.data || [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding)
+  }
+}
+
+// Hashes words and word pairs into a fixed-size vector. Not semantic, but
+// deterministic and offline: stub runs and tests get a working index whose
+// ranking follows shared vocabulary.
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly kind: LLMProviderKind = 'fake'
+  readonly model = `fake-hash-${FAKE_DIMENSIONS}`
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(FAKE_DIMENSIONS).fill(0)
+      const words = text.toLowerCase().match(/[a-z0-9]+/g) || []
+      const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)]
+
+      for (const feature of features) {
+        const hash = crypto.createHash('md5').update(feature).digest()
+        vector[hash.readUInt16BE(0) % FAKE_DIMENSIONS] += hash[2] % 2 === 0 ? 1 : -1
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+      return vector.map(value => value / norm)
+    })
+  }
+}
+
+// EMBEDDING_PROVIDER picks the provider; by default the one used for generation,
+// so embeddings go wherever generation already sends the code. Stub mode injects
+// the fake provider instead.
+export function getDefaultEmbeddingProviderKind(): LLMProviderKind {
+  const configured = process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER
+  if (configured === 'mistral' || configured === 'openai-compatible' || configured === 'fake') {
+    return configured
+  }
+  if (configured) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER '${configured}' (expected mistral, openai-compatible, fake)`)
+  }
+  return getAllowedLLMProviders()[0] || 'mistral'
+}
+
+// Follows LLM_ALLOWED_PROVIDERS like chat completions do
+export function createEmbeddingProvider(kind: LLMProviderKind = getDefaultEmbeddingProviderKind()): EmbeddingProvider {
+  if (!getAllowedLLMProviders().includes(kind)) {
+    throw new Error(`Embedding provider '${kind}' is not allowed on this server (allowed: ${getAllowedLLMProviders().join(', ')})`)
+  }
+
+  switch (kind) {
+    case 'mistral':
+      if (!process.env.MISTRAL_API_KEY) {
+        throw new Error('MISTRAL_API_KEY must be set to use the mistral embedding provider')
+      }
+      return new MistralEmbeddingProvider(process.env.MISTRAL_API_KEY, process.env.EMBEDDING_MODEL || undefined)
+    case 'openai-compatible': {
+      const baseUrl = process.env.EMBEDDING_BASE_URL || process.env.OPENAI_COMPATIBLE_BASE_URL
+      if (!baseUrl) {
+        throw new Error('EMBEDDING_BASE_URL or OPENAI_COMPATIBLE_BASE_URL must be set to use the openai-compatible embedding provider')
+      }
+      return new OpenAICompatibleEmbeddingProvider(
+        baseUrl,
+        process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        process.env.EMBEDDING_API_KEY || process.env.OPENAI_COMPATIBLE_API_KEY
+      )
+    }
+    case 'fake':
+      return new FakeEmbeddingProvider()
+  }
+}
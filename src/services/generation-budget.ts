@@ -0,0 +1,144 @@
+// Generation Budget Service
+// Monthly token and cost caps per repository and per user, enforced while documents are generated
+
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
+
+export interface BudgetUsage {
+  tokens: number
+  costUsd: number
+}
+
+export interface BudgetCap {
+  scope: 'repository' | 'user'
+  tokens: number | null // null = no cap
+  costUsd: number | null
+  spent: BudgetUsage // This month, before the current session
+}
+
+export interface BudgetStatus {
+  monthStart: string
+  caps: BudgetCap[]
+  remaining: { tokens: number | null, costUsd: number | null } // null = unlimited
+}
+
+// Start of the current calendar month (UTC), when budgets reset
+export function getBudgetMonthStart(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+async function loadMonthlySpend(supabase: DatabaseClient, repositoryIds: string[], monthStart: string): Promise<BudgetUsage> {
+  if (repositoryIds.length === 0) return { tokens: 0, costUsd: 0 }
+
+  const { data, error } = await supabase
+    .from('generation_metrics')
+    .select('tokens_input, tokens_output, cost_estimated')
+    .in('repository_id', repositoryIds)
+    .gte('created_at', monthStart)
+
+  if (error) {
+    throw new Error(`Failed to load this month's generation spend: ${error.message}`)
+  }
+
+  return (data || []).reduce((usage, row) => ({
+    tokens: usage.tokens + row.tokens_input + row.tokens_output,
+    costUsd: usage.costUsd + Number(row.cost_estimated || 0)
+  }), { tokens: 0, costUsd: 0 })
+}
+
+function remainingOf(caps: BudgetCap[], key: keyof BudgetUsage): number | null {
+  const limits = caps
+    .filter(cap => cap[key] !== null)
+    .map(cap => Math.max(0, cap[key]! - cap.spent[key]))
+  return limits.length > 0 ? Math.min(...limits) : null
+}
+
+// Caps of the repository and its owner with what each has spent this month.
+// Scopes without a token or cost cap are left out.
+export async function loadBudgetStatus(repositoryId: string, client?: DatabaseClient): Promise<BudgetStatus> {
+  const supabase = client ?? await createClient()
+  const monthStart = getBudgetMonthStart()
+
+  const { data: repository, error } = await supabase
+    .from('repositories')
+    .select('id, user_id, monthly_token_budget, monthly_cost_budget_usd')
+    .eq('id', repositoryId)
+    .single()
+
+  if (error || !repository) {
+    throw new Error('Repository not found')
+  }
+
+  const caps: BudgetCap[] = []
+
+  if (repository.monthly_token_budget !== null || repository.monthly_cost_budget_usd !== null) {
+    caps.push({
+      scope: 'repository',
+      tokens: repository.monthly_token_budget,
+      costUsd: repository.monthly_cost_budget_usd !== null ? Number(repository.monthly_cost_budget_usd) : null,
+      spent: await loadMonthlySpend(supabase, [repository.id], monthStart)
+    })
+  }
+
+  const { data: owner } = await supabase
+    .from('users')
+    .select('monthly_token_budget, monthly_cost_budget_usd')
+    .eq('id', repository.user_id)
+    .single()
+
+  if (owner && (owner.monthly_token_budget !== null || owner.monthly_cost_budget_usd !== null)) {
+    // A user's budget covers every repository they own
+    const { data: ownedRepositories } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('user_id', repository.user_id)
+
+    caps.push({
+      scope: 'user',
+      tokens: owner.monthly_token_budget,
+      costUsd: owner.monthly_cost_budget_usd !== null ? Number(owner.monthly_cost_budget_usd) : null,
+      spent: await loadMonthlySpend(supabase, (ownedRepositories || []).map(owned => owned.id), monthStart)
+    })
+  }
+
+  return {
+    monthStart,
+    caps,
+    remaining: { tokens: remainingOf(caps, 'tokens'), costUsd: remainingOf(caps, 'costUsd') }
+  }
+}
+
+// Tracks a session's spend against the remaining budget. Items reserve their
+// worst case before they start so concurrent items cannot overshoot together.
+export class BudgetTracker {
+  private readonly spent: BudgetUsage = { tokens: 0, costUsd: 0 }
+  private readonly reserved: BudgetUsage = { tokens: 0, costUsd: 0 }
+
+  constructor(readonly status: BudgetStatus) {}
+
+  get isLimited(): boolean {
+    return this.status.remaining.tokens !== null || this.status.remaining.costUsd !== null
+  }
+
+  get sessionSpend(): BudgetUsage {
+    return { ...this.spent }
+  }
+
+  // False, without reserving, when `estimate` would take the session over a cap
+  reserve(estimate: BudgetUsage): boolean {
+    const { tokens, costUsd } = this.status.remaining
+    if (tokens !== null && this.spent.tokens + this.reserved.tokens + estimate.tokens > tokens) return false
+    if (costUsd !== null && this.spent.costUsd + this.reserved.costUsd + estimate.costUsd > costUsd) return false
+
+    this.reserved.tokens += estimate.tokens
+    this.reserved.costUsd += estimate.costUsd
+    return true
+  }
+
+  // Replaces a reservation with what the item actually used
+  settle(estimate: BudgetUsage, actual: BudgetUsage): void {
+    this.reserved.tokens -= estimate.tokens
+    this.reserved.costUsd -= estimate.costUsd
+    this.spent.tokens += actual.tokens
+    this.spent.costUsd += actual.costUsd
+  }
+}
@@ -0,0 +1,450 @@
+// Generation Queue Service
+// Durable Postgres job queue for generation runs: leasing, heartbeats, retries and per-session events
+
+import crypto from 'crypto'
+import os from 'os'
+import { DatabaseClient, createClient, createServiceClient } from '@/lib/supabase/server'
+import { decryptToken, encryptToken, loadTokenKey } from '@/lib/token-encryption'
+import type { Database, Json } from '@/types/database'
+import { AdvancedGenerationResult, AdvancedGenerator, Logger, isStubMode } from './advanced-generator'
+
+export type GenerationJob = Database['public']['Tables']['generation_jobs']['Row']
+export type GenerationJobKind = GenerationJob['kind']
+
+export interface QueueOptions {
+  enabled: boolean // GENERATION_WORKER=false leaves jobs to other server instances
+  leaseSeconds: number
+  maxAttempts: number
+  pollIntervalMs: number
+}
+
+export interface EnqueueRequest {
+  repositoryId: string
+  userId: string
+  kind: GenerationJobKind
+  sessionId?: string // The session to retry or resume; new runs get a fresh one
+  sessionType?: 'full' | 'incremental'
+  pruneOutdated?: boolean
+  githubToken: string
+}
+
+export interface SessionEvent {
+  id: number
+  event: string
+  data: Json
+}
+
+// The last event of a job; subscribers stop after it
+export const TERMINAL_EVENTS = ['complete', 'error']
+export const ACTIVE_JOB_STATUSES: GenerationJob['status'][] = ['queued', 'running']
+
+const EVENT_FLUSH_MS = 500
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const UNIQUE_VIOLATION = '23505'
+
+// Binds a job's encrypted token to the user and repository it was queued for
+function tokenContext(job: { userId: string, repositoryId: string }): string {
+  return `${job.userId}:${job.repositoryId}`
+}
+
+function readIntegerEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getQueueOptions(): QueueOptions {
+  return {
+    enabled: process.env.GENERATION_WORKER !== 'false',
+    leaseSeconds: readIntegerEnv('GENERATION_JOB_LEASE_SECONDS', 60),
+    maxAttempts: readIntegerEnv('GENERATION_JOB_MAX_ATTEMPTS', 3),
+    pollIntervalMs: readIntegerEnv('GENERATION_WORKER_POLL_MS', 2000)
+  }
+}
+
+async function loadActiveJob(column: 'repository_id' | 'session_id', value: string): Promise<GenerationJob | null> {
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq(column, value)
+    .in('status', ACTIVE_JOB_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  return data?.[0] ?? null
+}
+
+// Queues a run. When the repository already has one queued or running, that job is
+// returned instead so the caller follows it rather than starting a second run.
+export async function enqueueGenerationJob(request: EnqueueRequest): Promise<{ job: GenerationJob, existing: boolean }> {
+  const active = await loadActiveJob('repository_id', request.repositoryId)
+  if (active) {
+    return { job: active, existing: true }
+  }
+
+  const supabase = await createClient()
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .insert({
+      repository_id: request.repositoryId,
+      user_id: request.userId,
+      session_id: request.sessionId ?? crypto.randomUUID(),
+      kind: request.kind,
+      session_type: request.sessionType ?? 'full',
+      prune_outdated: request.pruneOutdated ?? true,
+      max_attempts: getQueueOptions().maxAttempts,
+      encrypted_github_token: request.githubToken ? encryptToken(request.githubToken, tokenContext(request)) : null
+    })
+    .select()
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    // Another request queued a run for this repository in the meantime
+    const winner = await loadActiveJob('repository_id', request.repositoryId)
+    if (winner) return { job: winner, existing: true }
+  }
+  if (error || !job) {
+    throw new Error(`Failed to queue generation: ${error?.message || 'no job returned'}`)
+  }
+
+  getRunningWorker()?.wake()
+  return { job, existing: false }
+}
+
+// Cancels a queued job at once and asks a running one to stop between work items
+// (its worker sees the request on the next heartbeat). Null when the session has no
+// active job.
+export async function cancelGenerationJob(sessionId: string): Promise<'cancelled' | 'cancelling' | null> {
+  const job = await loadActiveJob('session_id', sessionId)
+  if (!job) return null
+
+  // Users have no UPDATE policy on jobs; the function only sets the cancel request
+  const supabase = await createClient()
+  const { data, error } = await supabase.rpc('cancel_generation_job', { p_job_id: job.id })
+  if (error) {
+    throw new Error(`Failed to cancel generation job: ${error.message}`)
+  }
+  return data === 'cancelled' || data === 'cancelling' ? data : null
+}
+
+// Latest job of a session: retries and resumes add jobs to the session that made it
+export async function loadSessionJob(sessionId: string): Promise<GenerationJob | null> {
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  return data?.[0] ?? null
+}
+
+export async function loadJobEvents(jobId: string, afterId: number, limit: number = 500): Promise<SessionEvent[]> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('generation_events')
+    .select('id, event, data')
+    .eq('job_id', jobId)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load generation events: ${error.message}`)
+  }
+  return data || []
+}
+
+export async function hasTerminalEvent(jobId: string): Promise<boolean> {
+  const supabase = await createClient()
+  const { count } = await supabase
+    .from('generation_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .in('event', TERMINAL_EVENTS)
+  return (count ?? 0) > 0
+}
+
+// Buffers a job's events and inserts them in batches. A progress event replaces an
+// unsent one of the same stage, so bursts of per-file updates cost one row.
+class JobEventWriter {
+  private pending: { event: string, data: Json }[] = []
+  private timer?: ReturnType<typeof setTimeout>
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(private readonly supabase: DatabaseClient, private readonly job: GenerationJob) {}
+
+  push(event: string, data: object): void {
+    const entry = { event, data: data as Json }
+    const last = this.pending[this.pending.length - 1]
+    if (event === 'progress' && last?.event === 'progress' && this.stageOf(last.data) === this.stageOf(entry.data)) {
+      this.pending[this.pending.length - 1] = entry
+    } else {
+      this.pending.push(entry)
+    }
+
+    this.timer = this.timer ?? setTimeout(() => this.flush(), EVENT_FLUSH_MS)
+  }
+
+  flush(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    const batch = this.pending.splice(0)
+    if (batch.length === 0) return this.writing
+
+    this.writing = this.writing.then(async () => {
+      const { error } = await this.supabase
+        .from('generation_events')
+        .insert(batch.map(entry => ({ session_id: this.job.session_id, job_id: this.job.id, ...entry })))
+      if (error) {
+        console.error(`Failed to store ${batch.length} generation events:`, error.message)
+      }
+    })
+    return this.writing
+  }
+
+  private stageOf(data: Json): Json | undefined {
+    return data && typeof data === 'object' && !Array.isArray(data) ? data.stage : undefined
+  }
+}
+
+// Claims jobs one at a time and runs them with AdvancedGenerator. The lease is
+// extended by heartbeats; a job whose worker dies is claimed again once its lease
+// expires, and continues the session its previous attempt saved.
+// Jobs run without a user session, so the worker uses the service client; creating
+// it throws when SUPABASE_SERVICE_ROLE_KEY is missing, before any job is claimed.
+export class GenerationWorker {
+  readonly id = `${os.hostname()}-${process.pid}-${crypto.randomUUID().slice(0, 8)}`
+  private running = false
+  private wakeUp?: () => void
+
+  constructor(
+    private readonly options: QueueOptions = getQueueOptions(),
+    private readonly supabase: DatabaseClient = createServiceClient()
+  ) {
+    // Queued jobs carry encrypted GitHub tokens; stub runs need none
+    if (!isStubMode()) loadTokenKey()
+  }
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    console.log(`🧵 Generation worker ${this.id} started`)
+    this.loop().catch(error => console.error('Generation worker stopped:', error))
+  }
+
+  stop(): void {
+    this.running = false
+    this.wakeUp?.()
+  }
+
+  // Skips the rest of the poll interval, e.g. right after a job is queued
+  wake(): void {
+    this.wakeUp?.()
+  }
+
+  // Claims and runs one job; false when none was runnable
+  async runOnce(): Promise<boolean> {
+    const job = await this.claim()
+    if (!job) return false
+    await this.runJob(job)
+    return true
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      try {
+        if (await this.runOnce()) continue
+      } catch (error) {
+        console.error('Failed to claim a generation job:', error)
+      }
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, this.options.pollIntervalMs)
+        this.wakeUp = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+      this.wakeUp = undefined
+    }
+  }
+
+  private async claim(): Promise<GenerationJob | null> {
+    const { data, error } = await this.supabase.rpc('claim_generation_job', {
+      p_worker_id: this.id,
+      p_lease_seconds: this.options.leaseSeconds
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+    return data?.[0] ?? null
+  }
+
+  private async runJob(job: GenerationJob): Promise<void> {
+    const supabase = this.supabase
+    const events = new JobEventWriter(supabase, job)
+    const cancel = new AbortController()
+    const logger: Logger = {
+      log: (...args) => events.push('log', { level: 'info', message: args.join(' '), timestamp: new Date().toISOString() }),
+      error: (...args) => events.push('log', { level: 'error', message: args.join(' '), timestamp: new Date().toISOString() }),
+      progress: event => events.push('progress', { ...event, timestamp: new Date().toISOString() })
+    }
+
+    // Three heartbeats per lease; each one also picks up cancel requests
+    const heartbeat = setInterval(() => {
+      this.heartbeat(job, cancel).catch(error => console.error(`Heartbeat of job ${job.id} failed:`, error))
+    }, this.options.leaseSeconds * 1000 / 3)
+
+    let update: Database['public']['Tables']['generation_jobs']['Update']
+    try {
+      const { data: repository } = await supabase
+        .from('repositories')
+        .select('full_name')
+        .eq('id', job.repository_id)
+        .single()
+
+      events.push('start', {
+        repositoryName: repository?.full_name,
+        sessionType: job.session_type,
+        sessionId: job.session_id,
+        attempt: job.attempts
+      })
+      if (job.attempts > 1) {
+        logger.log(`🧵 Attempt ${job.attempts} of ${job.max_attempts} for this job`)
+      }
+
+      const result = await this.execute(new AdvancedGenerator({ signal: cancel.signal, supabase }), job, logger)
+
+      if (result.success) {
+        events.push('complete', {
+          success: true,
+          documentsGenerated: result.documentsGenerated,
+          documentsSkipped: result.documentsSkipped,
+          documentsFailed: result.documentsFailed,
+          documentsSkippedForBudget: result.documentsSkippedForBudget,
+          cancelled: result.cancelled,
+          metrics: result.metrics,
+          sessionId: result.sessionId
+        })
+      } else {
+        events.push('error', {
+          message: result.error || 'Generation failed',
+          configIssues: result.configIssues,
+          sessionId: result.sessionId
+        })
+      }
+
+      update = {
+        status: result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed',
+        last_error: result.error ?? null,
+        finished_at: new Date().toISOString(),
+        encrypted_github_token: null
+      }
+    } catch (error) {
+      // Failures the generator did not handle itself (lost database connection, ...)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      if (job.attempts < job.max_attempts) {
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+        logger.error(`❌ ${message}; retrying in ${delayMs / 1000}s`)
+        update = {
+          status: 'queued',
+          run_after: new Date(Date.now() + delayMs).toISOString(),
+          last_error: message,
+          locked_by: null,
+          locked_until: null
+        }
+      } else {
+        events.push('error', { message, sessionId: job.session_id })
+        update = { status: 'failed', last_error: message, finished_at: new Date().toISOString(), encrypted_github_token: null }
+      }
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    await events.flush()
+    await supabase
+      .from('generation_jobs')
+      .update(update)
+      .eq('id', job.id)
+      .eq('locked_by', this.id)
+  }
+
+  private async execute(generator: AdvancedGenerator, job: GenerationJob, logger: Logger): Promise<AdvancedGenerationResult> {
+    const supabase = this.supabase
+    const githubToken = job.encrypted_github_token
+      ? decryptToken(job.encrypted_github_token, tokenContext({ userId: job.user_id, repositoryId: job.repository_id }))
+      : ''
+
+    // A later attempt continues what the stopped one saved instead of starting over
+    if (job.attempts > 1) {
+      const { data: session } = await supabase
+        .from('planning_sessions')
+        .select('status, work_plan')
+        .eq('id', job.session_id)
+        .single()
+
+      if (session?.work_plan && session.status !== 'completed') {
+        if (session.status === 'generating') {
+          await supabase
+            .from('planning_sessions')
+            .update({ status: 'failed', error_message: 'The worker running this session stopped' })
+            .eq('id', job.session_id)
+        }
+        return generator.resumeSession(job.repository_id, job.session_id, githubToken, logger)
+      }
+    }
+
+    switch (job.kind) {
+      case 'retry':
+        return generator.retryFailedDocuments(job.repository_id, job.session_id, githubToken, logger)
+      case 'resume':
+        return generator.resumeSession(job.repository_id, job.session_id, githubToken, logger)
+      default:
+        return generator.generateDocumentation(
+          job.repository_id,
+          githubToken,
+          job.session_type,
+          job.prune_outdated,
+          logger,
+          undefined,
+          job.session_id
+        )
+    }
+  }
+
+  // Extends the lease. A cancel request, or a lease another worker has taken over,
+  // stops the run between work items.
+  private async heartbeat(job: GenerationJob, cancel: AbortController): Promise<void> {
+    const now = Date.now()
+    const { data } = await this.supabase
+      .from('generation_jobs')
+      .update({
+        heartbeat_at: new Date(now).toISOString(),
+        locked_until: new Date(now + this.options.leaseSeconds * 1000).toISOString()
+      })
+      .eq('id', job.id)
+      .eq('locked_by', this.id)
+      .select('cancel_requested_at')
+
+    if (!data || data.length === 0 || data[0].cancel_requested_at) {
+      cancel.abort()
+    }
+  }
+}
+
+// One worker per server process, kept across dev-server reloads
+const workerRegistry = globalThis as typeof globalThis & { generationWorker?: GenerationWorker }
+
+function getRunningWorker(): GenerationWorker | undefined {
+  return workerRegistry.generationWorker
+}
+
+export function startGenerationWorker(): GenerationWorker | undefined {
+  const options = getQueueOptions()
+  if (!options.enabled) return undefined
+
+  workerRegistry.generationWorker = workerRegistry.generationWorker ?? new GenerationWorker(options)
+  workerRegistry.generationWorker.start()
+  return workerRegistry.generationWorker
+}
@@ -0,0 +1,214 @@
+// Generation Scheduler Service
+// Orders work plan items by component dependencies and runs independent ones concurrently
+
+import { sleep } from '@/lib/concurrency'
+import { Component } from './component-extractor'
+import { WorkPlanItem } from './planner'
+
+export interface SchedulerOptions {
+  concurrency: number
+  tokensPerMinute: number // 0 disables the budget
+}
+
+export interface SchedulerProgress {
+  completed: number
+  total: number
+  inFlight: string[] // Doc paths being generated
+  waitingUntil?: string // Set while the token budget holds back the next item
+}
+
+// What the worker reports back: its result and the tokens it actually used
+export interface ScheduledOutcome<R> {
+  result: R
+  tokensUsed: number
+}
+
+export interface ScheduleRunOptions {
+  onProgress?: (progress: SchedulerProgress) => void
+  // Checked right before an item starts; false stops the run and leaves it and
+  // every later item unstarted
+  shouldStart?: (item: WorkPlanItem) => boolean
+}
+
+export interface ScheduleResult<R> {
+  results: R[] // Items that ran, in input order
+  notStarted: WorkPlanItem[]
+}
+
+interface BudgetEntry {
+  at: number
+  tokens: number
+}
+
+const BUDGET_WINDOW_MS = 60 * 1000
+
+function readIntegerEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+// GENERATION_CONCURRENCY documents at a time, within LLM_TOKENS_PER_MINUTE
+export function getSchedulerOptions(): SchedulerOptions {
+  return {
+    concurrency: Math.max(1, readIntegerEnv('GENERATION_CONCURRENCY', 3)),
+    tokensPerMinute: readIntegerEnv('LLM_TOKENS_PER_MINUTE', 0)
+  }
+}
+
+// Doc path → doc paths it depends on. A document depends on another when one of its
+// components has a resolved relation to a component, file or package directory of it.
+export function buildDocumentDependencies(items: WorkPlanItem[], components: Component[]): Map<string, Set<string>> {
+  const componentsById = new Map(components.map(component => [component.id, component]))
+  const docByComponent = new Map<string, string>()
+  const docsByModule = new Map<string, Set<string>>()
+
+  const addModuleDoc = (modulePath: string, docPath: string) => {
+    if (!docsByModule.has(modulePath)) docsByModule.set(modulePath, new Set())
+    docsByModule.get(modulePath)!.add(docPath)
+  }
+
+  for (const item of items) {
+    for (const id of item.componentIds) {
+      docByComponent.set(id, item.docPath)
+      const component = componentsById.get(id)
+      if (!component) continue
+      addModuleDoc(component.parentPath, item.docPath)
+      // Go imports resolve to package directories rather than files
+      addModuleDoc(component.parentPath.substring(0, Math.max(0, component.parentPath.lastIndexOf('/'))), item.docPath)
+    }
+  }
+
+  const dependencies = new Map<string, Set<string>>()
+  for (const item of items) {
+    const itemDependencies = new Set<string>()
+    for (const id of item.componentIds) {
+      for (const relation of componentsById.get(id)?.relations || []) {
+        if (relation.resolution === 'component') {
+          const docPath = docByComponent.get(relation.target)
+          if (docPath) itemDependencies.add(docPath)
+        } else if (relation.resolution === 'module') {
+          docsByModule.get(relation.target)?.forEach(docPath => itemDependencies.add(docPath))
+        }
+      }
+    }
+    itemDependencies.delete(item.docPath)
+    dependencies.set(item.docPath, itemDependencies)
+  }
+
+  return dependencies
+}
+
+export class GenerationScheduler {
+  private readonly budget: BudgetEntry[] = []
+
+  constructor(private readonly options: SchedulerOptions = getSchedulerOptions()) {}
+
+  // Runs `worker` over the items, dependencies first, keeping at most `concurrency`
+  // items in flight. Dependencies outside `items` (skipped documents) count as done.
+  // Cycles are broken by starting the earliest pending item once nothing else can run.
+  // A rejection stops new work and is rethrown once running items have settled.
+  async run<R>(
+    items: WorkPlanItem[],
+    dependencies: Map<string, Set<string>>,
+    worker: (item: WorkPlanItem) => Promise<ScheduledOutcome<R>>,
+    options: ScheduleRunOptions = {}
+  ): Promise<ScheduleResult<R>> {
+    const results = new Map<string, R>()
+    const scheduled = new Set(items.map(item => item.docPath))
+    const done = new Set<string>()
+    const pending = [...items]
+    const inFlight = new Map<string, Promise<void>>()
+    let failure: { error: unknown } | undefined
+    let stopped = false
+
+    const report = (waitingUntil?: number) => options.onProgress?.({
+      completed: done.size,
+      total: items.length,
+      inFlight: [...inFlight.keys()],
+      ...(waitingUntil ? { waitingUntil: new Date(waitingUntil).toISOString() } : {})
+    })
+
+    const isReady = (item: WorkPlanItem) =>
+      [...(dependencies.get(item.docPath) || [])].every(dep => done.has(dep) || !scheduled.has(dep))
+
+    while (!failure && !stopped && pending.length > 0) {
+      if (inFlight.size >= this.options.concurrency) {
+        await Promise.race(inFlight.values())
+        continue
+      }
+
+      let index = pending.findIndex(isReady)
+      if (index === -1) {
+        if (inFlight.size > 0) {
+          await Promise.race(inFlight.values())
+          continue
+        }
+        index = 0
+      }
+
+      const item = pending[index]
+      const waitMs = this.getBudgetWait(item.estimatedTokens)
+      if (waitMs > 0) {
+        report(Date.now() + waitMs)
+        await Promise.race([sleep(waitMs), ...inFlight.values()])
+        continue
+      }
+
+      if (options.shouldStart && !options.shouldStart(item)) {
+        stopped = true
+        break
+      }
+
+      pending.splice(index, 1)
+      const reservation: BudgetEntry = { at: Date.now(), tokens: item.estimatedTokens }
+      this.budget.push(reservation)
+
+      const task = worker(item)
+        .then(outcome => {
+          results.set(item.docPath, outcome.result)
+          reservation.tokens = outcome.tokensUsed
+        })
+        .catch(error => {
+          failure = failure ?? { error }
+        })
+        .finally(() => {
+          inFlight.delete(item.docPath)
+          done.add(item.docPath)
+          report()
+        })
+      inFlight.set(item.docPath, task)
+      report()
+    }
+
+    await Promise.all(inFlight.values())
+    if (failure) throw failure.error
+
+    return {
+      results: items.filter(item => results.has(item.docPath)).map(item => results.get(item.docPath)!),
+      notStarted: pending
+    }
+  }
+
+  // Time until `tokens` fit in the sliding one-minute window. An item larger than
+  // the whole budget still runs once the window is empty.
+  private getBudgetWait(tokens: number): number {
+    if (this.options.tokensPerMinute <= 0) return 0
+
+    const now = Date.now()
+    while (this.budget.length > 0 && this.budget[0].at + BUDGET_WINDOW_MS <= now) {
+      this.budget.shift()
+    }
+
+    let used = this.budget.reduce((sum, entry) => sum + entry.tokens, 0)
+    if (used + tokens <= this.options.tokensPerMinute) return 0
+
+    // Wait for the oldest entries to leave the window until enough is free
+    for (const entry of this.budget) {
+      used -= entry.tokens
+      if (used + tokens <= this.options.tokensPerMinute || used <= 0) {
+        return entry.at + BUDGET_WINDOW_MS - now
+      }
+    }
+    return 0
+  }
+}
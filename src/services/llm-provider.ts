@@ -0,0 +1,640 @@
+// LLM Provider Service
+// Chat completion adapters behind one interface: Mistral, OpenAI-compatible endpoints and a deterministic fake
+
+import { Mistral } from '@mistralai/mistralai'
+import crypto from 'crypto'
+import { sleep } from '@/lib/concurrency'
+import { StructuredDocument, renderStructuredDocument } from './structured-document'
+
+export const LLM_PROVIDER_KINDS = ['mistral', 'openai-compatible', 'fake'] as const
+export type LLMProviderKind = typeof LLM_PROVIDER_KINDS[number]
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  maxTokens: number
+  temperature: number
+  responseFormat?: 'text' | 'json' // 'json' asks for a single JSON object
+  timeoutMs?: number
+}
+
+export interface CompletionUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResponse {
+  content: string
+  model: string
+  usage?: CompletionUsage // As reported by the provider; absent when it reports none
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind
+  readonly defaultModel: string
+  // Tried in order when the requested model keeps failing
+  readonly fallbackModels: string[]
+  complete(request: CompletionRequest): Promise<CompletionResponse>
+  // Answers piece by piece; providers without it answer in one piece
+  stream?(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResponse>
+}
+
+export interface LLMRetryPolicy {
+  maxRetries: number // Per model, after the first attempt
+  baseDelayMs: number
+  maxDelayMs: number // Longer Retry-After waits move on to the next model instead
+  timeoutMs: number // Per request
+}
+
+export interface LLMRetryEvent {
+  model: string
+  attempt: number
+  error: string
+  waitMs: number
+  fallbackModel?: string // Set when the chain moves on to the next model
+}
+
+// Failure of one completion request. Rate limits, server errors, timeouts and
+// connection problems are retryable; a missing model only moves to the next one.
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable = false,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'LLMRequestError'
+  }
+}
+
+// Shape shared by SDK, fetch and abort errors
+interface HttpErrorLike {
+  name?: string
+  message?: string
+  statusCode?: number
+  rawResponse?: Response
+}
+
+// Self-hosted servers can be slow on long prompts
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500
+}
+
+// Retry-After is either delta seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+export function toLLMRequestError(error: unknown): LLMRequestError {
+  if (error instanceof LLMRequestError) {
+    return error
+  }
+
+  const failure = (error ?? {}) as HttpErrorLike
+  const message = failure.message || String(error)
+
+  if (typeof failure.statusCode === 'number') {
+    return new LLMRequestError(
+      message,
+      failure.statusCode,
+      isRetryableStatus(failure.statusCode),
+      parseRetryAfter(failure.rawResponse?.headers.get('retry-after'))
+    )
+  }
+
+  // AbortSignal.timeout, the Mistral SDK's timeout and connection errors, and undici's "fetch failed"
+  if (
+    ['TimeoutError', 'AbortError', 'RequestTimeoutError', 'ConnectionError'].includes(failure.name || '') ||
+    (error instanceof TypeError && message === 'fetch failed')
+  ) {
+    return new LLMRequestError(message, undefined, true)
+  }
+
+  return new LLMRequestError(message)
+}
+
+export class MistralProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'mistral'
+  readonly defaultModel = 'mistral-large-latest'
+  private readonly client: Mistral
+
+  constructor(apiKey: string, readonly fallbackModels: string[] = ['mistral-medium-latest']) {
+    // Retries happen in completeWithFallback so the SDK must not add its own
+    this.client = new Mistral({ apiKey, retryConfig: { strategy: 'none' } })
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.client.chat.complete({
+      model: request.model,
+      messages: request.messages,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat === 'json' ? { responseFormat: { type: 'json_object' as const } } : {})
+    }, {
+      timeoutMs: request.timeoutMs ?? REQUEST_TIMEOUT_MS
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    const content = response.choices?.[0]?.message?.content
+    if (!content || typeof content !== 'string') {
+      throw new Error('No content generated by AI model')
+    }
+
+    return {
+      content,
+      model: response.model || request.model,
+      ...(response.usage ? { usage: { inputTokens: response.usage.promptTokens, outputTokens: response.usage.completionTokens } } : {})
+    }
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResponse> {
+    const events = await this.client.chat.stream({
+      model: request.model,
+      messages: request.messages,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    }, {
+      timeoutMs: request.timeoutMs ?? REQUEST_TIMEOUT_MS
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    let content = ''
+    let model = request.model
+    let usage: CompletionUsage | undefined
+    for await (const event of events) {
+      const delta = event.data.choices[0]?.delta.content
+      if (typeof delta === 'string' && delta) {
+        content += delta
+        onDelta(delta)
+      }
+      model = event.data.model || model
+      if (event.data.usage) {
+        usage = { inputTokens: event.data.usage.promptTokens, outputTokens: event.data.usage.completionTokens }
+      }
+    }
+
+    if (!content) {
+      throw new Error('No content generated by AI model')
+    }
+    return { content, model, ...(usage ? { usage } : {}) }
+  }
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama,
+// llama.cpp, vLLM, LM Studio, ...
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'openai-compatible'
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly defaultModel: string,
+    private readonly apiKey?: string,
+    readonly fallbackModels: string[] = []
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal: AbortSignal.timeout(request.timeoutMs ?? REQUEST_TIMEOUT_MS)
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new LLMRequestError(
+        `LLM endpoint responded with ${response.status}: ${body.slice(0, 200) || response.statusText}`,
+        response.status,
+        isRetryableStatus(response.status),
+        parseRetryAfter(response.headers.get('retry-after'))
+      )
+    }
+
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+    if (!content || typeof content !== 'string') {
+      throw new Error('No content generated by AI model')
+    }
+
+    // Some servers omit usage or leave fields out of it
+    const usage = data.usage
+    return {
+      content,
+      model: data.model || request.model,
+      ...(typeof usage?.prompt_tokens === 'number' && typeof usage?.completion_tokens === 'number'
+        ? { usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } }
+        : {})
+    }
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResponse> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+      }),
+      signal: AbortSignal.timeout(request.timeoutMs ?? REQUEST_TIMEOUT_MS)
+    }).catch(error => {
+      throw toLLMRequestError(error)
+    })
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '')
+      throw new LLMRequestError(
+        `LLM endpoint responded with ${response.status}: ${body.slice(0, 200) || response.statusText}`,
+        response.status,
+        isRetryableStatus(response.status),
+        parseRetryAfter(response.headers.get('retry-after'))
+      )
+    }
+
+    let content = ''
+    let model = request.model
+    let usage: CompletionUsage | undefined
+    const decoder = new TextDecoder()
+    const reader = response.body.getReader()
+    let buffer = ''
+
+    // Server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const payload = line.startsWith('data:') ? line.slice(5).trim() : ''
+        if (!payload || payload === '[DONE]') continue
+
+        const chunk = JSON.parse(payload)
+        const delta = chunk.choices?.[0]?.delta?.content
+        if (typeof delta === 'string' && delta) {
+          content += delta
+          onDelta(delta)
+        }
+        model = chunk.model || model
+        if (typeof chunk.usage?.prompt_tokens === 'number' && typeof chunk.usage?.completion_tokens === 'number') {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens }
+        }
+      }
+    }
+
+    if (!content) {
+      throw new Error('No content generated by AI model')
+    }
+    return { content, model, ...(usage ? { usage } : {}) }
+  }
+}
+
+interface StubComponent {
+  name: string
+  type: string
+  location?: string
+  relations: string[]
+  signature?: string
+}
+
+// Text between "HEADER:" and the next all-caps prompt header ("GLOSSARY (...):" included)
+function getPromptSection(prompt: string, header: string): string {
+  const start = prompt.indexOf(`${header}:`)
+  if (start === -1) return ''
+  const rest = prompt.slice(start + header.length + 1)
+  const next = rest.search(/^[A-Z][A-Z ]+(?: \(.*\))?:/m)
+  return (next === -1 ? rest : rest.slice(0, next)).trim()
+}
+
+// Reads back the component blocks DocGenerator writes into the prompt
+function parseStubComponents(section: string): StubComponent[] {
+  return section
+    .split(/\n\n(?=- \*\*)/)
+    .map((block): StubComponent | null => {
+      const header = block.match(/^- \*\*(.+?)\*\* \((\w+)\)/)
+      if (!header) return null
+
+      let signature: string | undefined
+      const metadata = block.match(/Metadata: (\{[\s\S]*\})\s*$/)?.[1]
+      if (metadata) {
+        try {
+          signature = JSON.parse(metadata).signature
+        } catch {
+          // Metadata is informational only
+        }
+      }
+
+      return {
+        name: header[1],
+        type: header[2],
+        location: block.match(/^\s*Location: (.+)$/m)?.[1]?.trim(),
+        relations: block.match(/^\s*Relations: (.+)$/m)?.[1]?.split(', ') ?? [],
+        signature: typeof signature === 'string' ? signature : undefined
+      }
+    })
+    .filter((component): component is StubComponent => component !== null)
+}
+
+// Deterministic templated documents built from the prompt's component data, for
+// offline stub runs and tests. Existing documents from the context window become
+// typed links so link extraction has something to find. Answers JSON when asked
+// for it, rendered markdown otherwise.
+export class FakeLLMProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'fake'
+  readonly defaultModel = 'fake'
+  readonly fallbackModels: string[] = []
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const prompt = request.messages.map(message => message.content).join('\n')
+    if (/^QUESTION:/m.test(prompt)) {
+      return { content: this.buildAnswer(prompt), model: request.model }
+    }
+
+    const document = this.buildDocument(prompt)
+    return {
+      content: request.responseFormat === 'json' ? JSON.stringify(document, null, 2) : renderStructuredDocument(document),
+      model: request.model
+    }
+  }
+
+  // Word by word, so offline runs exercise streaming clients
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResponse> {
+    const response = await this.complete(request)
+    for (const piece of response.content.match(/\S+\s*|\s+/g) ?? []) {
+      onDelta(piece)
+    }
+    return response
+  }
+
+  // Codebase chat: names the question and cites the first retrieved sources
+  private buildAnswer(prompt: string): string {
+    const question = prompt.match(/^QUESTION: (.+)$/m)?.[1]?.trim() || 'this question'
+    const sources = [...getPromptSection(prompt, 'SOURCES').matchAll(/^\[(\d+)\] (.+)$/gm)].slice(0, 3)
+
+    if (sources.length === 0) {
+      return `The fake LLM provider found no sources for "${question}".`
+    }
+    return [
+      `The fake LLM provider answers "${question}" from these sources:`,
+      '',
+      ...sources.map(([, index, label]) => `- ${label} [${index}]`)
+    ].join('\n')
+  }
+
+  private buildDocument(prompt: string): StructuredDocument {
+    const docPath = prompt.match(/^DOCUMENT PATH: (.+)$/m)?.[1]?.trim()
+    const documentType = prompt.match(/^DOCUMENT TYPE: (.+)$/m)?.[1]?.trim() || 'document'
+    const repository = prompt.match(/^REPOSITORY: (.+)$/m)?.[1]?.trim()
+      || prompt.match(/^- Name: (.+)$/m)?.[1]?.trim()
+      || 'the repository'
+    const digest = crypto.createHash('sha1').update(prompt).digest('hex').slice(0, 8)
+
+    if (!docPath) {
+      return {
+        title: `${repository} Overview`,
+        summary: `Overview of ${repository} produced by the fake LLM provider (prompt ${digest}).`,
+        sections: [{
+          heading: 'Project Summary',
+          content: (prompt.match(/^- (Total Components Analyzed|Technologies): .*$/gm) ?? []).join('\n') || `${repository} has no details.`
+        }],
+        referencedComponents: [],
+        links: [],
+        usageExamples: []
+      }
+    }
+
+    const title = docPath.split('.').pop()!.replace(/[-_]/g, ' ').replace(/\b\w/g, char => char.toUpperCase())
+    const components = parseStubComponents(getPromptSection(prompt, 'COMPONENTS TO DOCUMENT'))
+    const relatedDocs = [...getPromptSection(prompt, 'EXISTING DOCUMENTATION CONTEXT').matchAll(/^- \*\*(.+?)\*\* \(([^)]+)\)/gm)]
+
+    return {
+      title,
+      summary: `Fake ${documentType} documentation for \`${docPath}\` (prompt ${digest}).`,
+      sections: [
+        {
+          heading: 'Overview',
+          content: `This ${documentType} documentation for \`${docPath}\` was produced by the fake LLM provider.`
+        },
+        ...components.map(component => ({
+          heading: `\`${component.name}\` (${component.type})`,
+          content: [
+            component.location ? `Defined in \`${component.location}\`.` : `Part of \`${docPath}\`.`,
+            component.relations.map(relation => `- ${relation}`).join('\n')
+          ].filter(Boolean).join('\n\n')
+        }))
+      ],
+      referencedComponents: components.map(component => component.name),
+      links: relatedDocs.map(([, docTitle, path]) => ({ target: path, type: 'references' as const, description: docTitle })),
+      usageExamples: components
+        .filter(component => component.signature)
+        .map(component => ({
+          title: component.name,
+          language: component.location?.split(':')[0].split('.').pop() || 'text',
+          code: component.signature!
+        }))
+    }
+  }
+}
+
+// Exponential backoff with jitter: half the delay is fixed, half random
+function getBackoffDelay(attempt: number, policy: LLMRetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(delay / 2 + Math.random() * delay / 2)
+}
+
+// Sends the request to `request.model`, retrying transient failures with backoff
+// (or the server's Retry-After), then moves down the fallback chain. The answer's
+// `model` is the chain entry that produced it.
+export async function completeWithFallback(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  options: {
+    fallbackModels?: string[]
+    policy?: LLMRetryPolicy
+    onRetry?: (event: LLMRetryEvent) => void
+  } = {}
+): Promise<CompletionResponse> {
+  const policy = options.policy ?? getLLMRetryPolicy()
+  const fallbackModels = options.fallbackModels ?? provider.fallbackModels
+  const models = [request.model, ...fallbackModels.filter(model => model !== request.model)]
+  let lastError: LLMRequestError | undefined
+
+  for (const [index, model] of models.entries()) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await provider.complete({ ...request, model, timeoutMs: request.timeoutMs ?? policy.timeoutMs })
+        return { ...response, model }
+      } catch (error) {
+        lastError = toLLMRequestError(error)
+        if (!lastError.retryable && lastError.status !== 404) {
+          throw lastError
+        }
+
+        const waitMs = lastError.retryAfterMs ?? getBackoffDelay(attempt, policy)
+        if (lastError.retryable && attempt < policy.maxRetries && waitMs <= policy.maxDelayMs) {
+          options.onRetry?.({ model, attempt: attempt + 1, error: lastError.message, waitMs })
+          await sleep(waitMs)
+          continue
+        }
+
+        if (models[index + 1]) {
+          options.onRetry?.({ model, attempt: attempt + 1, error: lastError.message, waitMs: 0, fallbackModel: models[index + 1] })
+        }
+        break
+      }
+    }
+  }
+
+  throw lastError!
+}
+
+// completeWithFallback for streamed answers. Failures before the first piece are
+// retried and fall back like any request; once text has been sent the answer
+// cannot be restarted, so later failures are final.
+export async function streamWithFallback(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  onDelta: (text: string) => void,
+  options: Parameters<typeof completeWithFallback>[2] = {}
+): Promise<CompletionResponse> {
+  let streamed = false
+  const emit = (text: string) => {
+    streamed = true
+    onDelta(text)
+  }
+
+  const streaming: LLMProvider = {
+    kind: provider.kind,
+    defaultModel: provider.defaultModel,
+    fallbackModels: provider.fallbackModels,
+    complete: async attempt => {
+      try {
+        if (provider.stream) {
+          return await provider.stream(attempt, emit)
+        }
+        const response = await provider.complete(attempt)
+        emit(response.content)
+        return response
+      } catch (error) {
+        if (streamed) {
+          throw new LLMRequestError(`The answer stopped: ${toLLMRequestError(error).message}`)
+        }
+        throw error
+      }
+    }
+  }
+
+  return completeWithFallback(streaming, request, options)
+}
+
+function readIntegerEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function readListEnv(name: string): string[] | undefined {
+  const value = process.env[name]
+  return value === undefined
+    ? undefined
+    : value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+export function getLLMRetryPolicy(): LLMRetryPolicy {
+  return {
+    maxRetries: readIntegerEnv('LLM_MAX_RETRIES', 3),
+    baseDelayMs: readIntegerEnv('LLM_RETRY_BASE_DELAY_MS', 1000),
+    maxDelayMs: readIntegerEnv('LLM_RETRY_MAX_DELAY_MS', 60 * 1000),
+    timeoutMs: readIntegerEnv('LLM_TIMEOUT_MS', 2 * 60 * 1000)
+  }
+}
+
+// LOOKAS_STUB_MODE runs the whole pipeline offline: the fake LLM provider writes
+// templated markdown and files come from LOCAL_SOURCE_DIR/<owner>/<repo>
+export function isStubMode(): boolean {
+  return process.env.LOOKAS_STUB_MODE === 'true' || process.env.LOOKAS_STUB_MODE === '1'
+}
+
+// Providers the server is allowed to use; repositories may only pick among these.
+// LLM_ALLOWED_PROVIDERS (comma separated) keeps code inside the network when set
+// to e.g. "openai-compatible". The fake provider is for tests: without the list it
+// is only allowed in stub mode or when the server itself is configured to use it,
+// so a repository cannot select it to overwrite real documents.
+export function getAllowedLLMProviders(): LLMProviderKind[] {
+  const allowed = process.env.LLM_ALLOWED_PROVIDERS
+  if (!allowed) {
+    const fakeConfigured = isStubMode() || process.env.LLM_PROVIDER === 'fake' || process.env.EMBEDDING_PROVIDER === 'fake'
+    return LLM_PROVIDER_KINDS.filter(kind => kind !== 'fake' || fakeConfigured)
+  }
+  return allowed
+    .split(',')
+    .map(kind => kind.trim())
+    .filter((kind): kind is LLMProviderKind => (LLM_PROVIDER_KINDS as readonly string[]).includes(kind))
+}
+
+export function getDefaultLLMProviderKind(): LLMProviderKind {
+  const configured = process.env.LLM_PROVIDER as LLMProviderKind | undefined
+  if (configured && !LLM_PROVIDER_KINDS.includes(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER '${configured}' (expected ${LLM_PROVIDER_KINDS.join(', ')})`)
+  }
+  return configured || getAllowedLLMProviders()[0] || 'mistral'
+}
+
+// Endpoints and keys always come from the server environment, never from the
+// repository, so a repository cannot redirect credentials or code elsewhere
+export function createLLMProvider(kind: LLMProviderKind = getDefaultLLMProviderKind()): LLMProvider {
+  if (!getAllowedLLMProviders().includes(kind)) {
+    throw new Error(`LLM provider '${kind}' is not allowed on this server (allowed: ${getAllowedLLMProviders().join(', ')})`)
+  }
+
+  switch (kind) {
+    case 'mistral':
+      if (!process.env.MISTRAL_API_KEY) {
+        throw new Error('MISTRAL_API_KEY must be set to use the mistral provider')
+      }
+      return new MistralProvider(process.env.MISTRAL_API_KEY, readListEnv('MISTRAL_FALLBACK_MODELS'))
+    case 'openai-compatible':
+      if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL must be set to use the openai-compatible provider')
+      }
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_COMPATIBLE_BASE_URL,
+        process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+        process.env.OPENAI_COMPATIBLE_API_KEY,
+        readListEnv('OPENAI_COMPATIBLE_FALLBACK_MODELS')
+      )
+    case 'fake':
+      return new FakeLLMProvider()
+  }
+}
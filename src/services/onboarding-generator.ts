@@ -0,0 +1,408 @@
+// Onboarding Path Generator Service
+// Builds per-role reading paths from the work plan, document links and document length, and tracks progress
+
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
+import type { Json } from '@/types/database'
+import type { WorkPlan } from './planner'
+
+export type OnboardingRole = 'frontend' | 'backend' | 'data'
+
+export interface OnboardingStep {
+  documentPath: string
+  title: string
+  description: string
+  type: 'read' | 'explore' // Architecture reading, or a document to read alongside its code
+  readingMinutes: number
+}
+
+export interface OnboardingPath {
+  role: OnboardingRole
+  title: string
+  description: string
+  steps: OnboardingStep[]
+  readingMinutes: number
+}
+
+export interface StoredOnboardingPath extends OnboardingPath {
+  id: string
+  completedSteps: string[] // Document paths the user has completed
+  updatedAt: string
+}
+
+export interface OnboardingDocument {
+  document_path: string
+  title: string
+  summary: string | null
+  content: string
+  document_type: string
+  file_path: string | null
+  component_ids: string[]
+}
+
+export interface OnboardingComponent {
+  component_id: string
+  component_type: string
+  parent_path: string | null
+  metadata: Record<string, unknown>
+}
+
+export interface OnboardingSource {
+  documents: OnboardingDocument[]
+  components: OnboardingComponent[]
+  links: { source: string, target: string }[] // Document paths; source builds on target
+  planOrder: string[] // Document paths in work plan order
+}
+
+const ROLES: OnboardingRole[] = ['frontend', 'backend', 'data']
+
+const ROLE_INFO: Record<OnboardingRole, { title: string, description: string }> = {
+  frontend: {
+    title: 'Frontend Onboarding',
+    description: 'Pages, UI components and client-side logic, starting from the overview'
+  },
+  backend: {
+    title: 'Backend Onboarding',
+    description: 'APIs, services and server-side logic, starting from the overview'
+  },
+  data: {
+    title: 'Data Onboarding',
+    description: 'Schemas, models, migrations and data access, starting from the overview'
+  }
+}
+
+// Matched against the files of a document's components
+const ROLE_PATTERNS: Record<OnboardingRole, RegExp[]> = {
+  frontend: [
+    /\.(tsx|jsx|vue|svelte|css|scss|sass|less|html)$/i,
+    /(^|\/)(components?|pages|views|ui|hooks|styles|layouts|screens|widgets|public)\//i
+  ],
+  backend: [
+    /(^|\/)(api|server|services?|controllers?|routes?|handlers?|middlewares?|resolvers|workers?|jobs)\//i,
+    /\.(go|java|kt|rs|rb|php|cs|ex)$/i
+  ],
+  data: [
+    /(^|\/)(migrations?|models?|schemas?|db|database|entities|repositories|prisma|supabase|etl|pipelines?|analytics)\//i,
+    /\.(sql|prisma|ipynb)$/i
+  ]
+}
+
+// Share of a document's evidence that makes it part of a role's path
+const MIN_ROLE_SHARE = 0.3
+const MAX_STEPS = 12
+const WORDS_PER_MINUTE = 200
+const CODE_LINES_PER_MINUTE = 15
+const DESCRIPTION_LENGTH = 200
+const ARCHITECTURE_TYPES = ['overview', 'system', 'workflow']
+const LINK_BATCH_SIZE = 100
+
+// Prose at reading speed, code blocks more slowly
+export function estimateReadingMinutes(content: string): number {
+  let words = 0
+  let codeLines = 0
+  let inFence = false
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence) {
+      codeLines++
+    } else {
+      words += line.split(/\s+/).filter(Boolean).length
+    }
+  }
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE + codeLines / CODE_LINES_PER_MINUTE))
+}
+
+function describe(document: OnboardingDocument): string {
+  const text = document.summary
+    || document.content.split(/\n\s*\n/).map(block => block.trim()).find(block => block && !/^(#|```|~~~)/.test(block))
+    || document.title
+  const flat = text.replace(/\s+/g, ' ')
+  return flat.length > DESCRIPTION_LENGTH ? `${flat.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : flat
+}
+
+// How strongly each role's patterns match the document's components
+function scoreRoles(document: OnboardingDocument, componentsById: Map<string, OnboardingComponent>): Record<OnboardingRole, number> {
+  const scores: Record<OnboardingRole, number> = { frontend: 0, backend: 0, data: 0 }
+  const files = document.component_ids
+    .map(id => componentsById.get(id))
+    .filter((component): component is OnboardingComponent => component !== undefined)
+
+  for (const component of files) {
+    const file = component.parent_path || document.file_path || ''
+    for (const role of ROLES) {
+      if (ROLE_PATTERNS[role].some(pattern => pattern.test(file))) scores[role]++
+    }
+    if (component.component_type === 'component' || component.component_type === 'hook') scores.frontend++
+    const stereotype = component.metadata.stereotype
+    if (stereotype === 'controller' || stereotype === 'service' || component.metadata.route) scores.backend++
+    if (stereotype === 'entity' || stereotype === 'repository') scores.data++
+  }
+
+  if (files.length === 0 && document.file_path) {
+    for (const role of ROLES) {
+      if (ROLE_PATTERNS[role].some(pattern => pattern.test(document.file_path!))) scores[role]++
+    }
+  }
+  return scores
+}
+
+// Dependencies before the documents that build on them; among documents that
+// are ready, the work plan's order decides. Cycles are entered at the earliest
+// planned document.
+function orderByDependencies(paths: string[], links: OnboardingSource['links'], planIndex: (path: string) => number): string[] {
+  const members = new Set(paths)
+  const dependencies = new Map(paths.map(path => [path, new Set<string>()]))
+  for (const link of links) {
+    if (link.source !== link.target && members.has(link.source) && members.has(link.target)) {
+      dependencies.get(link.source)!.add(link.target)
+    }
+  }
+
+  const ordered: string[] = []
+  const remaining = [...paths].sort((a, b) => planIndex(a) - planIndex(b) || a.localeCompare(b))
+  const done = new Set<string>()
+  while (remaining.length > 0) {
+    const readyIndex = remaining.findIndex(path => [...dependencies.get(path)!].every(dependency => done.has(dependency)))
+    const [next] = remaining.splice(readyIndex === -1 ? 0 : readyIndex, 1)
+    ordered.push(next)
+    done.add(next)
+  }
+  return ordered
+}
+
+export function buildOnboardingPaths(source: OnboardingSource): OnboardingPath[] {
+  const componentsById = new Map(source.components.map(component => [component.component_id, component]))
+  const planPositions = new Map(source.planOrder.map((path, index) => [path, index]))
+  const planIndex = (path: string) => planPositions.get(path) ?? Number.MAX_SAFE_INTEGER
+
+  // Documents that others build on come first when a path has to be cut
+  const dependents = new Map<string, number>()
+  for (const link of source.links) {
+    dependents.set(link.target, (dependents.get(link.target) ?? 0) + 1)
+  }
+
+  const overview = source.documents.find(document => document.document_type === 'overview')
+  const documentsByPath = new Map(source.documents.map(document => [document.document_path, document]))
+  const paths: OnboardingPath[] = []
+
+  for (const role of ROLES) {
+    const candidates: { document: OnboardingDocument, share: number }[] = []
+    for (const document of source.documents) {
+      if (document === overview) continue
+      const scores = scoreRoles(document, componentsById)
+      const total = scores.frontend + scores.backend + scores.data
+      if (total > 0) {
+        if (scores[role] / total >= MIN_ROLE_SHARE) candidates.push({ document, share: scores[role] / total })
+      } else if (ARCHITECTURE_TYPES.includes(document.document_type)) {
+        // Cross-cutting architecture documents belong to every path
+        candidates.push({ document, share: MIN_ROLE_SHARE })
+      }
+    }
+    if (!candidates.some(candidate => !ARCHITECTURE_TYPES.includes(candidate.document.document_type))) continue
+
+    const selected = candidates
+      .sort((a, b) =>
+        (dependents.get(b.document.document_path) ?? 0) - (dependents.get(a.document.document_path) ?? 0)
+        || b.share - a.share
+        || planIndex(a.document.document_path) - planIndex(b.document.document_path))
+      .slice(0, overview ? MAX_STEPS - 1 : MAX_STEPS)
+      .map(candidate => candidate.document.document_path)
+
+    const ordered = [
+      ...(overview ? [overview.document_path] : []),
+      ...orderByDependencies(selected, source.links, planIndex)
+    ]
+    const steps = ordered.map((documentPath): OnboardingStep => {
+      const document = documentsByPath.get(documentPath)!
+      return {
+        documentPath,
+        title: document.title,
+        description: describe(document),
+        type: ARCHITECTURE_TYPES.includes(document.document_type) ? 'read' : 'explore',
+        readingMinutes: estimateReadingMinutes(document.content)
+      }
+    })
+
+    paths.push({
+      role,
+      ...ROLE_INFO[role],
+      steps,
+      readingMinutes: steps.reduce((sum, step) => sum + step.readingMinutes, 0)
+    })
+  }
+  return paths
+}
+
+export class OnboardingPathGenerator {
+  constructor(private readonly supabase?: DatabaseClient) {}
+
+  // Rebuilds the repository's paths from its stored documentation. Without a work
+  // plan, the latest planning session's is used.
+  async generate(repositoryId: string, workPlan?: WorkPlan, sessionId?: string): Promise<OnboardingPath[]> {
+    const supabase = this.supabase ?? await createClient()
+
+    if (!workPlan) {
+      const { data: session } = await supabase
+        .from('planning_sessions')
+        .select('id, work_plan')
+        .eq('repository_id', repositoryId)
+        .not('work_plan', 'is', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      workPlan = (session?.work_plan as WorkPlan | null) ?? undefined
+      sessionId = session?.id
+    }
+
+    const [documents, components] = await Promise.all([
+      supabase
+        .from('documents')
+        .select('id, document_path, title, summary, content, document_type, file_path, component_ids')
+        .eq('repository_id', repositoryId),
+      supabase
+        .from('components')
+        .select('component_id, component_type, parent_path, metadata')
+        .eq('repository_id', repositoryId)
+    ])
+
+    if (documents.error) {
+      throw new Error(`Failed to load documents: ${documents.error.message}`)
+    }
+    if (components.error) {
+      throw new Error(`Failed to load components: ${components.error.message}`)
+    }
+
+    const pathsById = new Map((documents.data || []).map(document => [document.id, document.document_path]))
+    const links = await this.loadLinks([...pathsById.keys()])
+
+    const paths = buildOnboardingPaths({
+      documents: (documents.data || []).map(document => ({
+        ...document,
+        component_ids: Array.isArray(document.component_ids)
+          ? document.component_ids.filter((id): id is string => typeof id === 'string')
+          : []
+      })),
+      components: (components.data || []).map(component => ({
+        ...component,
+        metadata: (component.metadata || {}) as Record<string, unknown>
+      })),
+      links: links
+        .filter(link => pathsById.has(link.source_document_id) && pathsById.has(link.target_document_id))
+        .map(link => ({ source: pathsById.get(link.source_document_id)!, target: pathsById.get(link.target_document_id)! })),
+      planOrder: workPlan?.items.map(item => item.docPath) ?? []
+    })
+
+    // Upserted by role so paths keep their id, and with it everyone's progress
+    if (paths.length > 0) {
+      const { error } = await supabase
+        .from('onboarding_paths')
+        .upsert(paths.map(path => ({
+          repository_id: repositoryId,
+          role: path.role,
+          title: path.title,
+          description: path.description,
+          steps: path.steps as unknown as Json,
+          reading_minutes: path.readingMinutes,
+          session_id: sessionId ?? null,
+          updated_at: new Date().toISOString()
+        })), { onConflict: 'repository_id,role' })
+
+      if (error) {
+        throw new Error(`Failed to save onboarding paths: ${error.message}`)
+      }
+    }
+
+    // Roles without documents any more lose their path
+    const roles = paths.map(path => path.role)
+    const stale = supabase
+      .from('onboarding_paths')
+      .delete()
+      .eq('repository_id', repositoryId)
+    const { error: staleError } = await (roles.length > 0 ? stale.not('role', 'in', `(${roles.join(',')})`) : stale)
+
+    if (staleError) {
+      throw new Error(`Failed to remove outdated onboarding paths: ${staleError.message}`)
+    }
+
+    return paths
+  }
+
+  async loadPaths(repositoryId: string, userId: string): Promise<StoredOnboardingPath[]> {
+    const supabase = this.supabase ?? await createClient()
+    const { data, error } = await supabase
+      .from('onboarding_paths')
+      .select('*')
+      .eq('repository_id', repositoryId)
+
+    if (error) {
+      throw new Error(`Failed to load onboarding paths: ${error.message}`)
+    }
+    if (!data || data.length === 0) return []
+
+    const { data: progress } = await supabase
+      .from('onboarding_progress')
+      .select('path_id, document_path')
+      .eq('user_id', userId)
+      .in('path_id', data.map(path => path.id))
+
+    return data
+      .sort((a, b) => ROLES.indexOf(a.role) - ROLES.indexOf(b.role))
+      .map(path => {
+        const steps = (path.steps as unknown as OnboardingStep[] | null) || []
+        const stepPaths = new Set(steps.map(step => step.documentPath))
+        return {
+          id: path.id,
+          role: path.role,
+          title: path.title,
+          description: path.description,
+          steps,
+          readingMinutes: path.reading_minutes,
+          // Steps dropped by a rebuild no longer count
+          completedSteps: (progress || [])
+            .filter(row => row.path_id === path.id && stepPaths.has(row.document_path))
+            .map(row => row.document_path),
+          updatedAt: path.updated_at
+        }
+      })
+  }
+
+  async setStepCompleted(pathId: string, userId: string, documentPath: string, completed: boolean): Promise<void> {
+    const supabase = this.supabase ?? await createClient()
+    const { error } = completed
+      ? await supabase
+          .from('onboarding_progress')
+          .upsert({ path_id: pathId, user_id: userId, document_path: documentPath }, {
+            onConflict: 'path_id,user_id,document_path',
+            ignoreDuplicates: true
+          })
+      : await supabase
+          .from('onboarding_progress')
+          .delete()
+          .eq('path_id', pathId)
+          .eq('user_id', userId)
+          .eq('document_path', documentPath)
+
+    if (error) {
+      throw new Error(`Failed to save progress: ${error.message}`)
+    }
+  }
+
+  private async loadLinks(documentIds: string[]) {
+    const supabase = this.supabase ?? await createClient()
+    const links: { source_document_id: string, target_document_id: string }[] = []
+    for (let start = 0; start < documentIds.length; start += LINK_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('document_links')
+        .select('source_document_id, target_document_id')
+        .in('source_document_id', documentIds.slice(start, start + LINK_BATCH_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load document links: ${error.message}`)
+      }
+      links.push(...(data || []))
+    }
+    return links
+  }
+}
@@ -2,6 +2,8 @@
 // Determines how to group components into logical documents
 
 import { Component, ComponentType } from './component-extractor'
+import { countTokens } from '@/lib/tokenizer'
+import type { LLMProviderKind } from './llm-provider'
 
 export interface WorkPlanItem {
   docPath: string
@@ -9,7 +11,8 @@ export interface WorkPlanItem {
   componentIds: string[]
   documentType: DocumentType
   priority: number
-  estimatedTokens: number
+  estimatedTokens: number // Prompt size when estimatePromptTokens is given, the components' own tokens otherwise
+  sourceTokenBudget: number // Tokens of component source the prompt may include
   metadata: Record<string, any>
 }
 
@@ -23,9 +26,20 @@ export interface WorkPlan {
     totalFiles: number
     planningStrategy: string
     createdAt: string
+    droppedDocuments?: number
+    // The repository's provider choice when the plan was saved, reused by codebase chat
+    llm?: { provider?: LLMProviderKind, model?: string, fallbackModels?: string[] }
   }
 }
 
+// Per-repository tuning, usually from .lookas.yml
+export interface PlanningOptions {
+  docPathPrefixes?: Record<string, string> // Directory → doc path prefix
+  maxDocuments?: number
+  // Measures the prompt an item will be generated with (DocGenerator.estimatePromptTokens)
+  estimatePromptTokens?: (item: WorkPlanItem, components: Component[]) => number
+}
+
 export type DocumentType = 
   | 'overview' 
   | 'module' 
@@ -86,7 +100,8 @@ export class Planner {
     repositoryId: string,
     components: Component[],
     sessionType: 'full' | 'incremental' = 'full',
-    strategyName: string = 'component-based'  // Changed default to component-based
+    strategyName: string = 'component-based',  // Changed default to component-based
+    options: PlanningOptions = {}
   ): Promise<WorkPlan> {
     const strategy = this.strategies.get(strategyName) || this.strategies.get('component-based')!
     
@@ -97,24 +112,33 @@ export class Planner {
     const items: WorkPlanItem[] = []
     
     // Always create an overview document first
-    items.push({
+    const overview: WorkPlanItem = {
       docPath: 'overview',
       title: 'Project Overview',
       componentIds: [],
       documentType: 'overview',
       priority: 1,
       estimatedTokens: 500,
+      sourceTokenBudget: 0,
       metadata: {
         isOverview: true,
         totalFiles: this.getUniqueFiles(components).length,
         totalComponents: components.length,
         mainLanguages: this.getMainLanguages(components)
       }
-    })
+    }
+    if (options.estimatePromptTokens) {
+      overview.estimatedTokens = options.estimatePromptTokens(overview, [])
+    }
+    items.push(overview)
 
     // Create documents for each group
     for (const group of groupedComponents) {
       const item = await this.createWorkPlanItem(group, strategy)
+      item.docPath = this.applyDocPathPrefix(item.docPath, group.components, options.docPathPrefixes)
+      if (options.estimatePromptTokens) {
+        item.estimatedTokens = options.estimatePromptTokens(item, group.components)
+      }
       items.push(item)
     }
 
@@ -124,6 +148,13 @@ export class Planner {
       return a.docPath.split('.').length - b.docPath.split('.').length
     })
 
+    // Keep the highest-priority documents when the repository caps the count
+    let droppedDocuments = 0
+    if (options.maxDocuments && items.length > options.maxDocuments) {
+      droppedDocuments = items.length - options.maxDocuments
+      items.splice(options.maxDocuments)
+    }
+
     const totalEstimatedTokens = items.reduce((sum, item) => sum + item.estimatedTokens, 0)
 
     return {
@@ -135,7 +166,8 @@ export class Planner {
         totalComponents: components.length,
         totalFiles: this.getUniqueFiles(components).length,
         planningStrategy: strategy.name,
-        createdAt: new Date().toISOString()
+        createdAt: new Date().toISOString(),
+        ...(droppedDocuments > 0 ? { droppedDocuments } : {})
       }
     }
   }
@@ -329,7 +361,30 @@ export class Planner {
       c.id !== primaryComponent.id
     )
 
+    // Resolved relation targets of the component and its members
+    const referencedIds = new Set<string>()
+    for (const component of [primaryComponent, ...sameFileComponents]) {
+      if (component !== primaryComponent && component.metadata?.parentId !== primaryComponent.id) continue
+      for (const relation of component.relations) {
+        if (relation.resolution === 'component') {
+          referencedIds.add(relation.target)
+        }
+      }
+    }
+
     for (const component of sameFileComponents) {
+      // Include members declared inside this component (methods, accessors, nested declarations)
+      if (component.metadata?.parentId === primaryComponent.id) {
+        related.push(component)
+        continue
+      }
+
+      // Include same-file helpers and constants the component actually references
+      if (referencedIds.has(component.id) && ['function', 'constant', 'hook'].includes(component.type)) {
+        related.push(component)
+        continue
+      }
+
       // Include methods that are likely part of this class (based on indentation or naming)
       if (component.type === 'function' && 
           component.metadata?.indentationLevel > 0 && 
@@ -433,9 +488,11 @@ export class Planner {
 
   private generateHierarchicalDocPath(component: Component | null, category: string, fallbackKey?: string): string {
     let baseName: string
+    const packagePrefix = this.getPackagePrefix(component)
     
     if (component) {
-      baseName = component.name
+      // Nested JVM types keep their outer type: InvoiceService.Builder -> invoiceservice_builder
+      baseName = packagePrefix ? component.metadata.qualifiedName || component.name : component.name
       // Remove special characters and convert to doc path format
       baseName = baseName.replace(/^[@_]+|[@_]+$/g, '') // Remove leading/trailing @ and _
       baseName = baseName.replace(/[^a-zA-Z0-9]/g, '_') // Replace special chars with _
@@ -456,9 +513,21 @@ export class Planner {
       }
     }
     
+    // Java/Kotlin docs live under their package so the tree mirrors com.acme.billing.*
+    if (packagePrefix) {
+      return category === 'classes' ? `${packagePrefix}.${baseName}` : `${packagePrefix}.${category}.${baseName}`
+    }
+    
     return `${category}.${baseName}`
   }
 
+  private getPackagePrefix(component: Component | null): string | null {
+    if (!component || !/\.(java|kt|kts)$/.test(component.parentPath)) return null
+
+    const packageName: string | undefined = component.metadata.package
+    return packageName ? packageName.replace(/[^\w.]/g, '_') : null
+  }
+
   private generateComponentTitle(component: Component): string {
     // Generate human-readable title based on component
     const name = component.name.replace(/^[@_]+|[@_]+$/g, '') // Remove decorators and underscores
@@ -518,6 +587,7 @@ export class Planner {
       documentType: group.documentType,
       priority,
       estimatedTokens,
+      sourceTokenBudget: strategy.maxTokensPerDoc,
       metadata: {
         ...group.metadata,
         componentCount: group.components.length,
@@ -528,6 +598,20 @@ export class Planner {
     }
   }
 
+  // Prefixes the doc path using the longest configured directory containing the group's files
+  private applyDocPathPrefix(docPath: string, components: Component[], prefixes: Record<string, string> = {}): string {
+    const filePath = components[0]?.parentPath
+    if (!filePath) return docPath
+
+    const directory = Object.keys(prefixes)
+      .filter(dir => dir === '' || filePath.startsWith(`${dir}/`))
+      .sort((a, b) => b.length - a.length)[0]
+    if (directory === undefined) return docPath
+
+    const prefix = prefixes[directory]
+    return docPath === prefix || docPath.startsWith(`${prefix}.`) ? docPath : `${prefix}.${docPath}`
+  }
+
   private generateTitleFromPath(filePath: string): string {
     const fileName = filePath.split('/').pop()?.replace(/\.[^.]+$/, '') || 'Unknown'
     return fileName
@@ -547,10 +631,15 @@ export class Planner {
     return 'module'
   }
 
+  // Tokens of what the prompt lists for each component, without its source
   private estimateTokens(components: Component[]): number {
-    // Rough estimation: 50 tokens per component + 20 per relation
     return components.reduce((total, component) => {
-      return total + 50 + (component.relations.length * 20)
+      return total + countTokens([
+        `- **${component.name}** (${component.type})`,
+        component.relations.map(r => `${r.type} ${r.target}`).join(', '),
+        component.parentPath,
+        JSON.stringify(component.metadata)
+      ].join('\n'))
     }, 200) // Base tokens for document structure
   }
 
@@ -602,7 +691,11 @@ export class Planner {
       'js': 'JavaScript',
       'jsx': 'JavaScript',
       'py': 'Python',
-      'java': 'Java'
+      'java': 'Java',
+      'kt': 'Kotlin',
+      'kts': 'Kotlin',
+      'go': 'Go',
+      'rs': 'Rust'
     }
     return mapping[ext] || 'Unknown'
   }
@@ -615,6 +708,10 @@ export class Planner {
     return Array.from(this.strategies.values())
   }
 
+  getStrategyNames(): string[] {
+    return Array.from(this.strategies.keys())
+  }
+
   private isConfigurationComponent(component: Component): boolean {
     const name = component.name.toLowerCase()
     const configPatterns = [
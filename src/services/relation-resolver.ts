@@ -0,0 +1,1158 @@
+// Relation Resolver Service
+// Cross-file pass that rewrites raw relation targets (module specifiers, call
+// names) into component ids once every file of the repository is known
+
+import path from 'path'
+import * as ts from 'typescript'
+import { Component, ComponentRelation } from './component-extractor'
+
+export interface ResolutionSummary {
+  resolved: number
+  modules: number
+  external: number
+  unresolved: number
+  dropped: number
+}
+
+interface PathMapping {
+  configDir: string
+  baseUrl?: string
+  paths: Record<string, string[]>
+}
+
+interface GoModule {
+  modulePath: string         // `module` directive of go.mod
+  moduleDir: string          // directory holding go.mod, '' for the repository root
+}
+
+interface ImportBinding {
+  specifier: string
+  importedName: string       // '*' for namespace imports, 'default' for default imports
+  moduleFile: string | null  // resolved file (package directory for Go), null when external or unresolved
+  component?: Component
+}
+
+interface RustTarget {
+  component?: Component
+  moduleFile?: string        // file of a module path (crate::billing -> src/billing.rs)
+}
+
+interface ResolvedSymbol {
+  component: Component
+  hops: number               // re-export indirections followed to reach the declaration
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+const PYTHON_EXTENSIONS = ['.py', '.pyi', '.pyw']
+
+export class RelationResolver {
+  private readonly files: Set<string>
+  private readonly pathMappings: PathMapping[]
+  private readonly pythonModules = new Map<string, string>()
+  private readonly goModules: GoModule[]
+  private readonly goPackages = new Set<string>()
+  private readonly jvmSymbols = new Map<string, Component>()   // fully qualified name -> declaration
+  private readonly jvmPackages = new Map<string, string>()     // package name -> a directory declaring it
+  private readonly rustCrates = new Map<string, string>()      // crate name as written in paths -> crate root key
+  private readonly rustModules = new Map<string, string>()     // module key (crates/api/crate::routes) -> file
+  private readonly rustFileModules = new Map<string, string>() // file -> module key
+  private readonly rustItems = new Map<string, Component>()    // item key -> declaration or `pub use`
+  private readonly rustGlobExports = new Map<string, string[]>() // module key -> paths re-exported with `pub use x::*`
+  private readonly componentsByFile = new Map<string, Component[]>()
+  private readonly componentsById = new Map<string, Component>()
+
+  constructor(filePaths: string[], configFiles: Record<string, string> = {}) {
+    this.files = new Set(filePaths)
+    this.pathMappings = this.loadPathMappings(configFiles)
+    this.goModules = this.loadGoModules(configFiles)
+    this.indexPythonModules(filePaths)
+    filePaths.filter(filePath => this.isGoFile(filePath)).forEach(filePath => {
+      this.goPackages.add(this.getDirectory(filePath))
+    })
+    this.loadRustCrates(configFiles)
+    filePaths.filter(filePath => this.isRustFile(filePath)).forEach(filePath => {
+      const moduleKey = this.joinRustPath(this.getRustCrateRoot(filePath), this.getRustModulePath(filePath))
+      if (!this.rustModules.has(moduleKey)) this.rustModules.set(moduleKey, filePath)
+      this.rustFileModules.set(filePath, moduleKey)
+    })
+  }
+
+  resolveRelations(components: Component[]): ResolutionSummary {
+    const summary: ResolutionSummary = { resolved: 0, modules: 0, external: 0, unresolved: 0, dropped: 0 }
+
+    this.componentsByFile.clear()
+    this.componentsById.clear()
+    for (const component of components) {
+      if (!this.componentsByFile.has(component.parentPath)) {
+        this.componentsByFile.set(component.parentPath, [])
+      }
+      this.componentsByFile.get(component.parentPath)!.push(component)
+      if (!this.componentsById.has(component.id)) {
+        this.componentsById.set(component.id, component)
+      }
+    }
+    this.indexJvmSymbols(components)
+    this.indexRustItems(components)
+
+    // Import bindings are computed from the raw relations before anything is rewritten
+    const bindingsByFile = new Map<string, Map<string, ImportBinding>>()
+    for (const [filePath, fileComponents] of this.componentsByFile) {
+      bindingsByFile.set(filePath, this.collectBindings(filePath, fileComponents))
+    }
+
+    for (const component of components) {
+      const bindings = bindingsByFile.get(component.parentPath) || new Map()
+      const relations = new Map<string, ComponentRelation>()
+
+      for (const stored of component.relations) {
+        // Reused components keep their resolved relations unless the target component
+        // is gone (renamed or removed in a changed file); those are resolved again
+        const relation = this.isStale(stored) ? this.restoreRaw(stored) : stored
+        const resolved = !relation || relation.resolution
+          ? relation
+          : relation.type === 'imports' || relation.type === 'exposes'
+            ? this.resolveImport(component.parentPath, relation)
+            : this.resolveReference(component, relation, bindings)
+
+        if (!resolved || resolved.target === component.id) {
+          summary.dropped++
+          continue
+        }
+
+        // Several raw targets can collapse onto one component: keep the most confident
+        const key = `${resolved.type}:${resolved.target}`
+        const existing = relations.get(key)
+        if (!existing || existing.confidence < resolved.confidence) {
+          relations.set(key, resolved)
+        }
+      }
+
+      component.relations = Array.from(relations.values())
+    }
+
+    // Go interfaces are satisfied implicitly, so `implements` has to be inferred
+    this.linkGoInterfaces(components)
+    this.linkRustImpls(components, bindingsByFile)
+
+    for (const component of components) {
+      for (const relation of component.relations) {
+        if (relation.resolution === 'component') summary.resolved++
+        else if (relation.resolution === 'module') summary.modules++
+        else if (relation.resolution === 'external') summary.external++
+        else summary.unresolved++
+      }
+    }
+
+    return summary
+  }
+
+  private resolveImport(filePath: string, relation: ComponentRelation): ComponentRelation {
+    const raw = relation.target
+
+    if (this.isJvmFile(filePath)) {
+      return this.resolveJvmImport(relation)
+    }
+    if (this.isRustFile(filePath)) {
+      return this.resolveRustImport(filePath, relation)
+    }
+
+    // Side-effect imports, require('x') and Python `import a.b` name a whole module
+    const wholeModule = this.resolveModule(filePath, raw)
+    if (wholeModule) {
+      return this.rewrite(relation, wholeModule, 'module', relation.confidence)
+    }
+
+    const { specifier, name } = this.splitTarget(filePath, raw)
+    if (!name) {
+      return this.isLocalSpecifier(filePath, raw)
+        ? this.rewrite(relation, raw, 'unresolved', relation.confidence * 0.3)
+        : this.rewrite(relation, raw, 'external', relation.confidence)
+    }
+
+    const moduleFile = this.resolveModule(filePath, specifier)
+    if (!moduleFile) {
+      return this.isLocalSpecifier(filePath, specifier)
+        ? this.rewrite(relation, raw, 'unresolved', relation.confidence * 0.3)
+        : this.rewrite(relation, raw, 'external', relation.confidence)
+    }
+
+    if (name === '*') {
+      return this.rewrite(relation, moduleFile, 'module', relation.confidence)
+    }
+
+    const symbol = this.resolveExport(moduleFile, name)
+    if (symbol) {
+      return this.rewrite(relation, symbol.component.id, 'component', relation.confidence * Math.pow(0.95, symbol.hops))
+    }
+
+    // The module exists but the symbol wasn't extracted (e.g. an exported object literal)
+    return this.rewrite(relation, moduleFile, 'module', relation.confidence * 0.8)
+  }
+
+  private resolveReference(
+    component: Component,
+    relation: ComponentRelation,
+    bindings: Map<string, ImportBinding>
+  ): ComponentRelation | null {
+    if (this.isRustFile(component.parentPath)) {
+      return this.resolveRustReference(component, relation, bindings)
+    }
+
+    const [head, ...rest] = relation.target.split('.')
+    const fileComponents = this.componentsByFile.get(component.parentPath) || []
+
+    // this.method() / self.method() point at a member of the enclosing class
+    if ((head === 'this' || head === 'self') && rest.length === 1) {
+      const classId = component.type === 'class'
+        ? component.id
+        : component.metadata?.parentId || this.findEnclosingClass(component, fileComponents)?.id
+      const member = classId ? this.findMember(classId, rest[0]) : undefined
+      return member ? this.rewrite(relation, member.id, 'component', 0.9) : null
+    }
+
+    // Declarations in the same file, or anywhere in the same Go package
+    const local = this.findTopLevel(fileComponents, head) || (this.isGoFile(component.parentPath)
+      ? this.findTopLevel(this.getModuleComponents(this.getDirectory(component.parentPath)), head)
+      : undefined)
+    if (local) {
+      const member = rest.length > 0 ? this.findMember(local.id, rest[0]) : undefined
+      return this.rewrite(relation, (member || local).id, 'component', member || rest.length === 0 ? 0.9 : 0.75)
+    }
+
+    // Java/Kotlin reach enclosing class members, the own package and wildcard imports unqualified
+    if (this.isJvmFile(component.parentPath) && !bindings.has(head)) {
+      const jvmTarget = this.findJvmReference(component, head, bindings)
+      if (jvmTarget) {
+        const member = rest.length > 0 ? this.findMember(jvmTarget.id, rest[0]) : undefined
+        return this.rewrite(relation, (member || jvmTarget).id, 'component', member || rest.length === 0 ? 0.85 : 0.7)
+      }
+    }
+
+    const binding = bindings.get(head)
+    if (!binding) {
+      // Base types such as Error or io.Closer still describe the component
+      if (relation.type === 'extends' || relation.type === 'implements') {
+        return this.rewrite(relation, relation.target, 'external', relation.confidence * 0.5)
+      }
+      // Globals and built-ins (map, push, console.log...) carry no information
+      return null
+    }
+
+    if (!binding.moduleFile) {
+      const external = [binding.specifier, binding.importedName, ...rest].filter(part => part && part !== '*' && part !== 'default').join('.')
+      return this.rewrite(relation, external, 'external', relation.confidence)
+    }
+
+    let target = binding.component
+    let remaining = rest
+    if (binding.importedName === '*' && rest.length > 0) {
+      // ns.fn() through `import * as ns`
+      target = this.resolveExport(binding.moduleFile, rest[0])?.component
+      remaining = rest.slice(1)
+    }
+
+    if (!target) {
+      return this.rewrite(relation, binding.moduleFile, 'module', relation.confidence * 0.7)
+    }
+
+    const member = remaining.length > 0 ? this.findMember(target.id, remaining[0]) : undefined
+    return this.rewrite(relation, (member || target).id, 'component', 0.85)
+  }
+
+  private collectBindings(filePath: string, fileComponents: Component[]): Map<string, ImportBinding> {
+    if (this.isJvmFile(filePath)) {
+      return this.collectJvmBindings(fileComponents)
+    }
+    if (this.isRustFile(filePath)) {
+      return this.collectRustBindings(fileComponents)
+    }
+
+    const bindings = new Map<string, ImportBinding>()
+
+    for (const component of fileComponents) {
+      for (const relation of component.relations) {
+        const raw = this.getRawImport(relation)
+        if (!raw) continue
+
+        const wholeModule = this.resolveModule(filePath, raw)
+        // Go imports always bind a whole package, whether or not it lives in the repository
+        const { specifier, name } = wholeModule || this.isGoFile(filePath)
+          ? { specifier: raw, name: '*' }
+          : this.splitTarget(filePath, raw)
+        if (!name) continue
+
+        const localName = relation.localName || (this.isGoFile(filePath)
+          ? this.getGoPackageName(specifier)
+          : name === '*' ? specifier.split(/[./]/).pop() : name)
+        if (!localName || bindings.has(localName)) continue
+
+        const moduleFile = wholeModule || this.resolveModule(filePath, specifier)
+        bindings.set(localName, {
+          specifier,
+          importedName: name,
+          moduleFile,
+          component: moduleFile && name !== '*' ? this.resolveExport(moduleFile, name)?.component : undefined
+        })
+      }
+    }
+
+    return bindings
+  }
+
+  private resolveExport(filePath: string, name: string, visited = new Set<string>()): ResolvedSymbol | null {
+    const visitKey = `${filePath}#${name}`
+    if (visited.has(visitKey)) return null
+    visited.add(visitKey)
+
+    const topLevel = this.getModuleComponents(filePath).filter(c =>
+      !c.metadata?.parentId && !c.metadata?.indentationLevel && !c.metadata?.receiver
+    )
+    const declarations = topLevel.filter(c => c.type !== 'export')
+    const exports = topLevel.filter(c => c.type === 'export')
+
+    if (name === 'default') {
+      const declared = declarations.find(c => c.metadata?.isDefaultExport)
+      if (declared) return { component: declared, hops: 0 }
+
+      const defaultExport = exports.find(c => ['default', 'commonjs'].includes(c.metadata?.exportType))
+      if (!defaultExport) return null
+      return { component: this.findTopLevel(declarations, defaultExport.name) || defaultExport, hops: 0 }
+    }
+
+    const declared = declarations.find(c => c.name === name && c.metadata?.isExported !== false)
+    if (declared) return { component: declared, hops: 0 }
+
+    for (const exported of exports) {
+      const exportedName = exported.metadata?.alias || exported.name
+      const source: string | undefined = exported.metadata?.source
+
+      // export { a as b } without a source re-exports a local declaration
+      if (!source) {
+        if (exported.metadata?.exportType === 'named' && exportedName === name) {
+          const localDeclaration = this.findTopLevel(declarations, exported.name)
+          if (localDeclaration) return { component: localDeclaration, hops: 0 }
+        }
+        continue
+      }
+
+      const sourceFile = this.resolveModule(filePath, source)
+      if (!sourceFile) continue
+
+      // Barrels: export { a } from './a' and export * from './b'
+      if (exported.metadata?.exportType === 'named' && exportedName === name) {
+        const forwarded = this.resolveExport(sourceFile, exported.name, visited)
+        if (forwarded) return { component: forwarded.component, hops: forwarded.hops + 1 }
+      } else if (exported.metadata?.exportType === 'star') {
+        const forwarded = this.resolveExport(sourceFile, name, visited)
+        if (forwarded) return { component: forwarded.component, hops: forwarded.hops + 1 }
+      }
+    }
+
+    return null
+  }
+
+  private resolveModule(fromFile: string, specifier: string): string | null {
+    if (this.isPythonFile(fromFile)) {
+      return this.resolvePythonModule(fromFile, specifier)
+    }
+    if (this.isGoFile(fromFile)) {
+      return this.resolveGoPackage(specifier)
+    }
+    if (this.isScriptFile(fromFile)) {
+      return this.resolveScriptModule(fromFile, specifier)
+    }
+    return null
+  }
+
+  private resolveScriptModule(fromFile: string, specifier: string): string | null {
+    if (specifier.startsWith('.')) {
+      return this.tryScriptFile(path.posix.join(path.posix.dirname(fromFile), specifier))
+    }
+
+    // tsconfig/jsconfig `paths` and `baseUrl`, nearest config first
+    for (const mapping of this.getMappingsFor(fromFile)) {
+      const root = mapping.baseUrl ?? mapping.configDir
+
+      for (const [pattern, targets] of Object.entries(mapping.paths)) {
+        const captured = this.matchPathPattern(pattern, specifier)
+        if (captured === null) continue
+
+        for (const target of targets) {
+          const resolved = this.tryScriptFile(path.posix.join(root, target.replace('*', captured)))
+          if (resolved) return resolved
+        }
+      }
+
+      if (mapping.baseUrl !== undefined) {
+        const resolved = this.tryScriptFile(path.posix.join(mapping.baseUrl, specifier))
+        if (resolved) return resolved
+      }
+    }
+
+    return null
+  }
+
+  private tryScriptFile(basePath: string): string | null {
+    const normalized = this.normalizePath(basePath)
+    if (normalized === null) return null
+
+    // ESM-style TypeScript imports reference the emitted .js file
+    const withoutJsExtension = normalized.replace(/\.(c|m)?jsx?$/, '')
+    const candidates = [
+      normalized,
+      ...SCRIPT_EXTENSIONS.map(ext => `${withoutJsExtension}${ext}`),
+      ...SCRIPT_EXTENSIONS.map(ext => `${normalized}/index${ext}`)
+    ]
+
+    return candidates.find(candidate => this.files.has(candidate)) || null
+  }
+
+  private resolvePythonModule(fromFile: string, specifier: string): string | null {
+    const relativeMatch = specifier.match(/^(\.+)(.*)$/)
+
+    if (relativeMatch) {
+      const [, dots, modulePath] = relativeMatch
+      let baseDir = path.posix.dirname(fromFile)
+      for (let i = 1; i < dots.length; i++) {
+        baseDir = path.posix.dirname(baseDir)
+      }
+
+      const moduleDir = modulePath
+        ? path.posix.join(baseDir, modulePath.replace(/\./g, '/'))
+        : baseDir
+      const normalized = this.normalizePath(moduleDir)
+      if (normalized === null) return null
+
+      const candidates = [
+        ...PYTHON_EXTENSIONS.map(ext => `${normalized}${ext}`),
+        `${normalized}/__init__.py`,
+        `${normalized}/__init__.pyi`
+      ]
+      return candidates.find(candidate => this.files.has(candidate)) || null
+    }
+
+    return this.pythonModules.get(specifier) || null
+  }
+
+  private resolveGoPackage(importPath: string): string | null {
+    // Import paths under a go.mod module map onto directories of that module
+    for (const goModule of this.goModules) {
+      if (importPath !== goModule.modulePath && !importPath.startsWith(`${goModule.modulePath}/`)) continue
+
+      const packageDir = path.posix.join(goModule.moduleDir, importPath.substring(goModule.modulePath.length).replace(/^\//, ''))
+      const normalized = this.normalizePath(packageDir)
+      if (normalized !== null && this.goPackages.has(normalized)) return normalized
+    }
+
+    return null
+  }
+
+  private getGoPackageName(importPath: string): string | undefined {
+    // Major version suffixes (/v2) aren't part of the package name
+    const segments = importPath.split('/').filter(segment => !/^v\d+$/.test(segment))
+    return segments.pop()?.replace(/^go-|[.-]go$/g, '').replace(/[.-]/g, '_')
+  }
+
+  private linkGoInterfaces(components: Component[]): void {
+    // A type implements an interface when its method set covers every interface method
+    const methodSets = new Map<string, Set<string>>()
+    for (const component of components) {
+      if (!this.isGoFile(component.parentPath) || !component.metadata?.receiver) continue
+
+      const key = `${this.getDirectory(component.parentPath)}#${component.metadata.receiver}`
+      if (!methodSets.has(key)) methodSets.set(key, new Set())
+      methodSets.get(key)!.add(component.name)
+    }
+
+    const interfaces = components.filter(c =>
+      this.isGoFile(c.parentPath) && c.type === 'interface' && c.metadata?.methods?.length > 0
+    )
+    const types = components.filter(c =>
+      this.isGoFile(c.parentPath) && (c.type === 'class' || c.type === 'type' || c.type === 'enum')
+    )
+
+    for (const goInterface of interfaces) {
+      const interfaceDir = this.getDirectory(goInterface.parentPath)
+      const methods: string[] = goInterface.metadata.methods
+
+      for (const type of types) {
+        const typeDir = this.getDirectory(type.parentPath)
+        // Unexported interfaces can only be used inside their own package
+        if (!goInterface.metadata.isExported && typeDir !== interfaceDir) continue
+
+        const methodSet = methodSets.get(`${typeDir}#${type.name}`)
+        if (!methodSet || !methods.every(method => methodSet.has(method))) continue
+        if (type.relations.some(r => r.type === 'implements' && r.target === goInterface.id)) continue
+
+        type.relations.push({
+          type: 'implements',
+          target: goInterface.id,
+          confidence: 0.6,
+          resolution: 'component',
+          originalTarget: goInterface.name
+        })
+      }
+    }
+  }
+
+  private indexJvmSymbols(components: Component[]): void {
+    // Types and Kotlin top-level declarations are importable by package + qualified name
+    this.jvmSymbols.clear()
+    this.jvmPackages.clear()
+
+    for (const component of components) {
+      if (!this.isJvmFile(component.parentPath) || component.type === 'method') continue
+
+      const packageName: string | undefined = component.metadata?.package
+      const qualifiedName: string = component.metadata?.qualifiedName || component.name
+      const fullName = packageName ? `${packageName}.${qualifiedName}` : qualifiedName
+      if (!this.jvmSymbols.has(fullName)) {
+        this.jvmSymbols.set(fullName, component)
+      }
+      if (packageName && !this.jvmPackages.has(packageName)) {
+        this.jvmPackages.set(packageName, this.getDirectory(component.parentPath))
+      }
+    }
+  }
+
+  private resolveJvmImport(relation: ComponentRelation): ComponentRelation {
+    const raw = relation.target
+
+    if (raw.endsWith('.*')) {
+      // import com.acme.billing.* names a package, import com.acme.Outer.* the members of a type
+      const packageName = raw.slice(0, -2)
+      const directory = this.jvmPackages.get(packageName)
+      if (directory !== undefined) {
+        return this.rewrite(relation, directory, 'module', relation.confidence)
+      }
+      const owner = this.jvmSymbols.get(packageName)
+      if (owner) {
+        return this.rewrite(relation, owner.id, 'component', relation.confidence)
+      }
+    } else {
+      const symbol = this.findJvmSymbol(raw)
+      if (symbol) {
+        return this.rewrite(relation, symbol.id, 'component', relation.confidence)
+      }
+    }
+
+    return this.isJvmRepositoryName(raw)
+      ? this.rewrite(relation, raw, 'unresolved', relation.confidence * 0.3)
+      : this.rewrite(relation, raw, 'external', relation.confidence)
+  }
+
+  private collectJvmBindings(fileComponents: Component[]): Map<string, ImportBinding> {
+    const bindings = new Map<string, ImportBinding>()
+
+    for (const component of fileComponents) {
+      for (const relation of component.relations) {
+        const raw = this.getRawImport(relation)
+        if (!raw) continue
+
+        if (raw.endsWith('.*')) {
+          // Keyed by the import itself: wildcards bind no name of their own
+          const packageName = raw.slice(0, -2)
+          bindings.set(raw, { specifier: packageName, importedName: '*', moduleFile: this.jvmPackages.get(packageName) ?? null })
+          continue
+        }
+
+        const splitIndex = raw.lastIndexOf('.')
+        const importedName = raw.substring(splitIndex + 1)
+        const localName = relation.localName || importedName
+        if (bindings.has(localName)) continue
+
+        const symbol = this.findJvmSymbol(raw)
+        bindings.set(localName, {
+          specifier: raw.substring(0, Math.max(0, splitIndex)),
+          importedName,
+          moduleFile: symbol?.parentPath ?? null,
+          component: symbol
+        })
+      }
+    }
+
+    return bindings
+  }
+
+  private findJvmSymbol(fullName: string): Component | undefined {
+    const symbol = this.jvmSymbols.get(fullName)
+    if (symbol) return symbol
+
+    // Static imports name a member: import static com.acme.Money.of
+    const splitIndex = fullName.lastIndexOf('.')
+    const owner = splitIndex > 0 ? this.jvmSymbols.get(fullName.substring(0, splitIndex)) : undefined
+    return owner ? this.findMember(owner.id, fullName.substring(splitIndex + 1)) : undefined
+  }
+
+  private findJvmReference(
+    component: Component,
+    name: string,
+    bindings: Map<string, ImportBinding>
+  ): Component | undefined {
+    // Members and nested types of the enclosing classes, innermost first
+    let parentId: string | undefined = component.type === 'method' ? component.metadata?.parentId : component.id
+    while (parentId) {
+      const member = this.findMember(parentId, name)
+      if (member) return member
+      parentId = this.componentsById.get(parentId)?.metadata?.parentId
+    }
+
+    // Types of the same package need no import, then wildcard imports in order
+    const packageName: string | undefined = component.metadata?.package
+    const candidates = [packageName ? `${packageName}.${name}` : name]
+    bindings.forEach(binding => {
+      if (binding.importedName === '*') candidates.push(`${binding.specifier}.${name}`)
+    })
+
+    for (const candidate of candidates) {
+      const symbol = this.jvmSymbols.get(candidate)
+      if (symbol) return symbol
+    }
+
+    return undefined
+  }
+
+  private isJvmRepositoryName(fullName: string): boolean {
+    return Array.from(this.jvmPackages.keys()).some(packageName =>
+      fullName === packageName || fullName.startsWith(`${packageName}.`)
+    )
+  }
+
+  private loadRustCrates(configFiles: Record<string, string>): void {
+    // Other workspace crates are referenced by their package name, dashes as underscores
+    for (const [configPath, content] of Object.entries(configFiles)) {
+      if (!/(^|\/)Cargo\.toml$/.test(configPath)) continue
+
+      const packageSection = content.split(/^\[/m).find(section => section.startsWith('package]'))
+      const crateName = packageSection?.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1]
+      if (crateName) {
+        const directory = this.getDirectory(configPath)
+        this.rustCrates.set(crateName.replace(/-/g, '_'), `${directory ? `${directory}/` : ''}crate`)
+      }
+    }
+  }
+
+  private indexRustItems(components: Component[]): void {
+    this.rustItems.clear()
+    this.rustGlobExports.clear()
+    const rustComponents = components.filter(c => this.isRustFile(c.parentPath))
+
+    // `mod x;` decides which file holds a module (#[path] can point anywhere)
+    for (const component of rustComponents) {
+      if (component.type !== 'namespace' || !component.metadata?.files) continue
+
+      const moduleKey = this.joinRustPath(this.getRustCrateRoot(component.parentPath), component.metadata.moduleName)
+      const moduleFile = (component.metadata.files as string[]).find(file => this.files.has(file))
+      if (moduleFile) {
+        this.rustModules.set(moduleKey, moduleFile)
+        this.rustFileModules.set(moduleFile, moduleKey)
+      }
+    }
+
+    for (const component of rustComponents) {
+      if (component.type === 'method') continue
+
+      const moduleKey = this.getRustItemModule(component)
+      if (component.type === 'export' && component.metadata?.exportType === 'star') {
+        const source: string = component.metadata.source
+        this.rustGlobExports.set(moduleKey, [...(this.rustGlobExports.get(moduleKey) || []), source.slice(0, -3)])
+        continue
+      }
+
+      // Macros live in their own namespace: never let one hide a module or type
+      const itemKey = this.joinRustPath(moduleKey, component.name)
+      const existing = this.rustItems.get(itemKey)
+      if (!existing || existing.metadata?.kind === 'macro') {
+        this.rustItems.set(itemKey, component)
+      }
+    }
+  }
+
+  private resolveRustImport(filePath: string, relation: ComponentRelation): ComponentRelation {
+    const crateRoot = this.getRustCrateRoot(filePath)
+    const target = this.resolveRustPath(this.rustFileModules.get(filePath) || crateRoot, crateRoot, relation.target.split('::'))
+
+    if (target?.component) {
+      return this.rewrite(relation, target.component.id, 'component', relation.confidence)
+    }
+    if (target?.moduleFile) {
+      return this.rewrite(relation, target.moduleFile, 'module', relation.confidence)
+    }
+
+    const head = relation.target.split('::')[0]
+    return head === 'crate' || this.rustCrates.has(head)
+      ? this.rewrite(relation, relation.target, 'unresolved', relation.confidence * 0.3)
+      : this.rewrite(relation, relation.target, 'external', relation.confidence)
+  }
+
+  private resolveRustReference(
+    component: Component,
+    relation: ComponentRelation,
+    bindings: Map<string, ImportBinding>
+  ): ComponentRelation | null {
+    let target = relation.target
+    const selfType: string | undefined = component.metadata?.implFor ||
+      (component.type === 'method' && component.metadata?.parentId ? this.componentsById.get(component.metadata.parentId)?.name : undefined)
+
+    // self.total() is a method of the impl's type, Self::new() names the type
+    if (target.startsWith('self.')) {
+      const type = selfType ? this.resolveRustName(component, selfType, bindings)?.component : undefined
+      const member = type ? this.findMember(type.id, target.substring(5)) : undefined
+      return member ? this.rewrite(relation, member.id, 'component', 0.9) : null
+    }
+    if (selfType && (target === 'Self' || target.startsWith('Self::'))) {
+      target = selfType + target.substring(4)
+    }
+
+    const resolved = this.resolveRustName(component, target, bindings)
+    if (resolved?.component) {
+      return this.rewrite(relation, resolved.component.id, 'component', 0.85)
+    }
+    if (resolved?.moduleFile) {
+      return this.rewrite(relation, resolved.moduleFile, 'module', relation.confidence)
+    }
+
+    // Paths through a `use` of another crate (std, dependencies) stay external
+    const [head, ...rest] = target.split('::')
+    const binding = bindings.get(head)
+    if (binding && binding.importedName !== '*') {
+      return this.rewrite(relation, [binding.specifier, ...rest].join('::'), 'external', relation.confidence)
+    }
+    if (relation.type === 'extends' || relation.type === 'implements') {
+      return this.rewrite(relation, target, 'external', relation.confidence * 0.5)
+    }
+    return null
+  }
+
+  private resolveRustName(component: Component, rustPath: string, bindings: Map<string, ImportBinding>): RustTarget | null {
+    const crateRoot = this.getRustCrateRoot(component.parentPath)
+    const fromModule = this.getRustItemModule(component)
+    const [head, ...rest] = rustPath.split('::')
+
+    // Items of the current module, `crate::` paths and other workspace crates
+    const direct = this.resolveRustPath(fromModule, crateRoot, [head, ...rest])
+    if (direct) return direct
+
+    const binding = bindings.get(head)
+    if (binding && binding.importedName !== '*') {
+      const imported = this.resolveRustPath(fromModule, crateRoot, [...binding.specifier.split('::'), ...rest])
+      if (imported) return imported
+    }
+
+    // Glob imports: use crate::money::*
+    for (const glob of bindings.values()) {
+      if (glob.importedName !== '*') continue
+      const imported = this.resolveRustPath(fromModule, crateRoot, [...glob.specifier.split('::'), head, ...rest])
+      if (imported) return imported
+    }
+
+    return null
+  }
+
+  private resolveRustPath(fromModule: string, crateRoot: string, segments: string[], hops = 0): RustTarget | null {
+    const [head, ...rest] = segments
+    if (head === 'crate') return this.walkRustPath(crateRoot, rest, hops)
+    const otherCrate = this.rustCrates.get(head)
+    if (otherCrate) return this.walkRustPath(otherCrate, rest, hops)
+    // 2018 uniform paths: anything else starts at the current module
+    return this.walkRustPath(fromModule, segments, hops)
+  }
+
+  private walkRustPath(moduleKey: string, segments: string[], hops: number): RustTarget | null {
+    let key = moduleKey
+    let current: Component | undefined
+
+    for (const segment of segments) {
+      // Type::method, Enum::Variant and Trait::method stop at the type
+      if (current && current.type !== 'namespace') {
+        return { component: this.findMember(current.id, segment) || current }
+      }
+      if (segment === '*') break
+
+      key = this.joinRustPath(key, segment)
+      current = this.findRustItem(key, hops)
+      if (!current && !this.rustModules.has(key)) return null
+    }
+
+    if (current && current.type !== 'namespace') return { component: current }
+    const moduleFile = this.rustModules.get(key)
+    if (moduleFile) return { moduleFile }
+    return current ? { component: current } : null
+  }
+
+  private findRustItem(itemKey: string, hops: number): Component | undefined {
+    if (hops > 5) return undefined
+
+    const splitIndex = itemKey.lastIndexOf('::')
+    const moduleKey = itemKey.substring(0, splitIndex)
+    const crateRoot = itemKey.split('::')[0]
+    const item = this.rustItems.get(itemKey)
+
+    // `pub use` re-exports: follow them to the declaration
+    if (item?.type === 'export') {
+      return this.resolveRustPath(moduleKey, crateRoot, item.metadata.source.split('::'), hops + 1)?.component
+    }
+    if (item) return item
+
+    for (const source of this.rustGlobExports.get(moduleKey) || []) {
+      const forwarded = this.resolveRustPath(moduleKey, crateRoot, [...source.split('::'), itemKey.substring(splitIndex + 2)], hops + 1)
+      if (forwarded?.component) return forwarded.component
+    }
+    return undefined
+  }
+
+  private collectRustBindings(fileComponents: Component[]): Map<string, ImportBinding> {
+    // Rust bindings keep the full `use` path; it is resolved relative to each use site
+    const bindings = new Map<string, ImportBinding>()
+
+    for (const component of fileComponents) {
+      for (const relation of component.relations) {
+        const raw = this.getRawImport(relation)
+        if (!raw) continue
+
+        if (raw.endsWith('::*')) {
+          bindings.set(raw, { specifier: raw.slice(0, -3), importedName: '*', moduleFile: null })
+          continue
+        }
+
+        const importedName = raw.split('::').pop()!
+        const localName = relation.localName || importedName
+        if (!bindings.has(localName)) {
+          bindings.set(localName, { specifier: raw, importedName, moduleFile: null })
+        }
+      }
+    }
+
+    return bindings
+  }
+
+  private linkRustImpls(components: Component[], bindingsByFile: Map<string, Map<string, ImportBinding>>): void {
+    // `impl Trait for Type` away from Type's file: its methods carry both names
+    const linked = new Set<string>()
+
+    for (const method of components) {
+      if (!this.isRustFile(method.parentPath) || method.type !== 'method') continue
+      if (!method.metadata?.trait || method.metadata?.parentId) continue
+
+      const implKey = `${method.parentPath}#${method.metadata.implFor}#${method.metadata.trait}`
+      if (linked.has(implKey)) continue
+      linked.add(implKey)
+
+      const bindings = bindingsByFile.get(method.parentPath) || new Map()
+      const type = this.resolveRustName(method, method.metadata.implFor, bindings)?.component
+      if (!type || !['class', 'enum', 'type'].includes(type.type)) continue
+
+      const traitRelation = this.resolveRustReference(method, { type: 'implements', target: method.metadata.trait, confidence: 0.9 }, bindings)
+      if (!traitRelation || type.relations.some(r => r.type === 'implements' && r.target === traitRelation.target)) continue
+      type.relations.push(traitRelation)
+    }
+  }
+
+  private getRustCrateRoot(filePath: string): string {
+    // Keys start at the directory holding src/: crates/billing/crate::invoice::Invoice
+    const srcIndex = filePath.startsWith('src/') ? 0 : filePath.lastIndexOf('/src/') + 1
+    return `${filePath.substring(0, srcIndex)}crate`
+  }
+
+  private getRustModulePath(filePath: string): string {
+    // src/billing/invoice.rs -> billing::invoice; lib.rs, main.rs and mod.rs name their directory
+    const srcIndex = filePath.startsWith('src/') ? 0 : filePath.lastIndexOf('/src/') + 1
+    const relative = srcIndex > 0 || filePath.startsWith('src/')
+      ? filePath.substring(srcIndex + 4)
+      : filePath.split('/').pop()!
+    const segments = relative.replace(/\.rs$/, '').split('/')
+    const last = segments.pop()!
+
+    const isCrateRoot = segments.length === 0 && (last === 'lib' || last === 'main')
+    if (!isCrateRoot && last !== 'mod') segments.push(last)
+    return segments.join('::')
+  }
+
+  private getRustItemModule(component: Component): string {
+    // File module (as mapped by `mod` declarations) plus any inline `mod { }` around the item
+    const fileModule = this.rustFileModules.get(component.parentPath) || this.getRustCrateRoot(component.parentPath)
+    const defaultPath = this.getRustModulePath(component.parentPath)
+    const modulePath: string = component.metadata?.modulePath || ''
+    const inlinePath = modulePath.startsWith(defaultPath) ? modulePath.substring(defaultPath.length) : ''
+    return this.joinRustPath(fileModule, ...inlinePath.split('::'))
+  }
+
+  private joinRustPath(...segments: string[]): string {
+    return segments.filter(Boolean).join('::')
+  }
+
+  private loadGoModules(configFiles: Record<string, string>): GoModule[] {
+    const goModules: GoModule[] = []
+
+    for (const [configPath, content] of Object.entries(configFiles)) {
+      if (!/(^|\/)go\.mod$/.test(configPath)) continue
+
+      const modulePath = content.match(/^module\s+"?([^\s"]+)"?/m)?.[1]
+      if (modulePath) {
+        goModules.push({ modulePath, moduleDir: this.getDirectory(configPath) })
+      }
+    }
+
+    // Nested modules take precedence over the ones containing them
+    return goModules.sort((a, b) => b.modulePath.length - a.modulePath.length)
+  }
+
+  private indexPythonModules(filePaths: string[]): void {
+    // Module names start at the outermost directory that is still a package
+    for (const filePath of filePaths) {
+      if (!this.isPythonFile(filePath)) continue
+
+      const parts = filePath.replace(/\.pyw?$|\.pyi$/, '').split('/')
+      if (parts[parts.length - 1] === '__init__') {
+        parts.pop()
+      }
+
+      let rootIndex = parts.length - 1
+      while (rootIndex > 0 && this.isPythonPackage(parts.slice(0, rootIndex).join('/'))) {
+        rootIndex--
+      }
+
+      const moduleName = parts.slice(rootIndex).join('.')
+      if (moduleName && !this.pythonModules.has(moduleName)) {
+        this.pythonModules.set(moduleName, filePath)
+      }
+    }
+  }
+
+  private isPythonPackage(directory: string): boolean {
+    return this.files.has(`${directory}/__init__.py`) || this.files.has(`${directory}/__init__.pyi`)
+  }
+
+  private splitTarget(filePath: string, target: string): { specifier: string, name?: string } {
+    const splitIndex = target.lastIndexOf('.')
+    if (splitIndex < 0) return { specifier: target }
+
+    const name = target.substring(splitIndex + 1)
+    // './utils' or '../lib' have no symbol part
+    if (!name || name.includes('/')) return { specifier: target }
+
+    let specifier = target.substring(0, splitIndex)
+    if (this.isPythonFile(filePath) && /^\.*$/.test(specifier)) {
+      // '.views' from `from . import views`: the module is the package itself
+      specifier = target.substring(0, splitIndex + 1)
+    }
+    if (!specifier) return { specifier: target }
+
+    return { specifier, name }
+  }
+
+  private isLocalSpecifier(filePath: string, specifier: string): boolean {
+    if (specifier.startsWith('.')) return true
+    if (this.isGoFile(filePath)) {
+      return this.goModules.some(goModule =>
+        specifier === goModule.modulePath || specifier.startsWith(`${goModule.modulePath}/`)
+      )
+    }
+    if (!this.isScriptFile(filePath)) return false
+    return this.getMappingsFor(filePath).some(mapping =>
+      Object.keys(mapping.paths).some(pattern => this.matchPathPattern(pattern, specifier) !== null)
+    )
+  }
+
+  private loadPathMappings(configFiles: Record<string, string>): PathMapping[] {
+    const mappings: PathMapping[] = []
+
+    for (const configPath of Object.keys(configFiles)) {
+      if (!/(^|\/)(tsconfig|jsconfig)[\w.-]*\.json$/.test(configPath)) continue
+
+      const compilerOptions = this.readCompilerOptions(configPath, configFiles, new Set())
+      if (!compilerOptions.paths && compilerOptions.baseUrl === undefined) continue
+
+      const configDir = path.posix.dirname(configPath) === '.' ? '' : path.posix.dirname(configPath)
+      const baseUrl = compilerOptions.baseUrl !== undefined
+        ? this.normalizePath(path.posix.join(configDir, compilerOptions.baseUrl)) ?? undefined
+        : undefined
+
+      mappings.push({ configDir, baseUrl, paths: compilerOptions.paths || {} })
+    }
+
+    // Deepest config first so nested projects override the root one
+    return mappings.sort((a, b) => b.configDir.length - a.configDir.length)
+  }
+
+  private readCompilerOptions(
+    configPath: string,
+    configFiles: Record<string, string>,
+    visited: Set<string>
+  ): { baseUrl?: string, paths?: Record<string, string[]> } {
+    if (visited.has(configPath) || configFiles[configPath] === undefined) return {}
+    visited.add(configPath)
+
+    // tsconfig allows comments and trailing commas, so parse it the way tsc does
+    const { config } = ts.parseConfigFileTextToJson(configPath, configFiles[configPath])
+    if (!config) return {}
+
+    let inherited = {}
+    if (typeof config.extends === 'string' && config.extends.startsWith('.')) {
+      const parentPath = this.normalizePath(path.posix.join(path.posix.dirname(configPath), config.extends))
+      if (parentPath) {
+        const parentFile = parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`
+        inherited = this.readCompilerOptions(parentFile, configFiles, visited)
+      }
+    }
+
+    return { ...inherited, ...(config.compilerOptions || {}) }
+  }
+
+  private getMappingsFor(filePath: string): PathMapping[] {
+    return this.pathMappings.filter(mapping =>
+      mapping.configDir === '' || filePath.startsWith(`${mapping.configDir}/`)
+    )
+  }
+
+  private matchPathPattern(pattern: string, specifier: string): string | null {
+    const starIndex = pattern.indexOf('*')
+    if (starIndex < 0) {
+      return pattern === specifier ? '' : null
+    }
+
+    const prefix = pattern.substring(0, starIndex)
+    const suffix = pattern.substring(starIndex + 1)
+    if (specifier.length < prefix.length + suffix.length) return null
+    if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return null
+
+    return specifier.substring(prefix.length, specifier.length - suffix.length)
+  }
+
+  private findTopLevel(components: Component[], name: string): Component | undefined {
+    const candidates = components.filter(c =>
+      c.name === name && !c.metadata?.parentId && !c.metadata?.indentationLevel
+    )
+    // Prefer the declaration itself over an `export { name }` record
+    return candidates.find(c => c.type !== 'export') || candidates[0]
+  }
+
+  private findMember(parentId: string, name: string): Component | undefined {
+    const parent = this.componentsById.get(parentId)
+    if (!parent) return undefined
+
+    // Go methods can be declared in any file of the receiver's package
+    if (this.isGoFile(parent.parentPath)) {
+      return this.getModuleComponents(this.getDirectory(parent.parentPath)).find(c =>
+        c.name === name && c.metadata?.receiver === parent.name
+      )
+    }
+
+    // Rust impl blocks can live in any file of the crate
+    if (this.isRustFile(parent.parentPath)) {
+      const crateRoot = this.getRustCrateRoot(parent.parentPath)
+      for (const [filePath, fileComponents] of this.componentsByFile) {
+        if (!this.isRustFile(filePath) || this.getRustCrateRoot(filePath) !== crateRoot) continue
+        const member = fileComponents.find(c => c.name === name && c.id !== parentId && (
+          c.metadata?.parentId === parentId || (c.type === 'method' && c.metadata?.implFor === parent.name)
+        ))
+        if (member) return member
+      }
+      return undefined
+    }
+
+    return (this.componentsByFile.get(parent.parentPath) || []).find(c =>
+      c.name === name && c.id !== parentId && (
+        c.metadata?.parentId === parentId ||
+        // Python methods carry no parentId, only their position inside the class body
+        (c.metadata?.isMethod && this.findEnclosingClass(c, [parent])?.id === parentId)
+      )
+    )
+  }
+
+  private findEnclosingClass(component: Component, candidates: Component[]): Component | undefined {
+    if (component.startLine === undefined) return undefined
+    const start = component.startLine
+    const end = component.endLine ?? start
+
+    return candidates
+      .filter(c => c.type === 'class' && c.id !== component.id &&
+        (c.startLine ?? Infinity) < start && (c.endLine ?? -Infinity) >= end)
+      .sort((a, b) => (b.startLine ?? 0) - (a.startLine ?? 0))[0]
+  }
+
+  private isStale(relation: ComponentRelation): boolean {
+    return relation.resolution === 'component' && !this.componentsById.has(relation.target)
+  }
+
+  // The extractor's relation, from what rewrite() kept of it; relations stored
+  // without their raw target can't be resolved again and are dropped
+  private restoreRaw(relation: ComponentRelation): ComponentRelation | null {
+    if (!relation.originalTarget) return null
+    return {
+      type: relation.type,
+      target: relation.originalTarget,
+      confidence: relation.confidence,
+      ...(relation.localName ? { localName: relation.localName } : {})
+    }
+  }
+
+  // Import specifier as written, also for imports resolved in an earlier run
+  private getRawImport(relation: ComponentRelation): string | undefined {
+    if (relation.type !== 'imports') return undefined
+    return relation.resolution ? relation.originalTarget : relation.target
+  }
+
+  private rewrite(
+    relation: ComponentRelation,
+    target: string,
+    resolution: ComponentRelation['resolution'],
+    confidence: number
+  ): ComponentRelation {
+    return {
+      type: relation.type,
+      target,
+      confidence: Math.round(confidence * 100) / 100,
+      resolution,
+      originalTarget: relation.target,
+      ...(relation.localName ? { localName: relation.localName } : {})
+    }
+  }
+
+  private normalizePath(filePath: string): string | null {
+    const normalized = path.posix.normalize(filePath).replace(/^\.\//, '').replace(/\/$/, '')
+    // Paths escaping the repository root can't be resolved
+    if (normalized.startsWith('..') || normalized === '.') return normalized === '.' ? '' : null
+    return normalized
+  }
+
+  private getModuleComponents(modulePath: string): Component[] {
+    // A Go package is a directory: its members come from every non-test file in it
+    if (this.goPackages.has(modulePath) && !this.componentsByFile.has(modulePath)) {
+      const packageComponents: Component[] = []
+      this.componentsByFile.forEach((fileComponents, filePath) => {
+        if (this.isGoFile(filePath) && !filePath.endsWith('_test.go') && this.getDirectory(filePath) === modulePath) {
+          packageComponents.push(...fileComponents)
+        }
+      })
+      return packageComponents
+    }
+
+    return this.componentsByFile.get(modulePath) || []
+  }
+
+  private getDirectory(filePath: string): string {
+    const directory = path.posix.dirname(filePath)
+    return directory === '.' ? '' : directory
+  }
+
+  private isScriptFile(filePath: string): boolean {
+    return /\.(c|m)?(t|j)sx?$/.test(filePath)
+  }
+
+  private isPythonFile(filePath: string): boolean {
+    return /\.(py|pyi|pyw)$/.test(filePath)
+  }
+
+  private isGoFile(filePath: string): boolean {
+    return filePath.endsWith('.go')
+  }
+
+  private isRustFile(filePath: string): boolean {
+    return filePath.endsWith('.rs')
+  }
+
+  private isJvmFile(filePath: string): boolean {
+    return /\.(java|kt|kts)$/.test(filePath)
+  }
+}
@@ -0,0 +1,197 @@
+// Repository Config Service
+// Parses and validates the committed .lookas.yml that tunes the pipeline per repository
+
+import { parseYaml, YamlParseError, YamlValue } from '@/lib/yaml'
+import { createGlobMatcher } from '@/lib/ignore-patterns'
+import { LLMProviderKind, getAllowedLLMProviders } from './llm-provider'
+
+export const REPOSITORY_CONFIG_FILES = ['.lookas.yml', '.lookas.yaml']
+
+export const AUDIENCE_LEVELS = ['beginner', 'intermediate', 'expert'] as const
+export type AudienceLevel = typeof AUDIENCE_LEVELS[number]
+
+export interface RepositoryConfig {
+  include: string[] // When non-empty, only matching files are analyzed
+  exclude: string[]
+  strategy?: string
+  docPathPrefixes: Record<string, string> // Directory → doc path prefix
+  provider?: LLMProviderKind // Limited to the providers the server allows
+  model?: string
+  fallbackModels?: string[] // Tried in order when `model` keeps failing
+  audience?: AudienceLevel
+  maxDocuments?: number
+  glossary: Record<string, string>
+}
+
+export interface ConfigIssue {
+  key: string
+  message: string
+  line?: number
+}
+
+export class RepositoryConfigError extends Error {
+  constructor(public readonly file: string, public readonly issues: ConfigIssue[]) {
+    super(`${file} is invalid: ${issues.map(formatConfigIssue).join('; ')}`)
+    this.name = 'RepositoryConfigError'
+  }
+}
+
+export const DEFAULT_REPOSITORY_CONFIG: RepositoryConfig = {
+  include: [],
+  exclude: [],
+  docPathPrefixes: {},
+  glossary: {}
+}
+
+const KNOWN_KEYS = ['include', 'exclude', 'strategy', 'docPathPrefixes', 'provider', 'model', 'fallbackModels', 'audience', 'maxDocuments', 'glossary']
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.line ? `line ${issue.line}: ` : ''}${issue.key ? `${issue.key}: ` : ''}${issue.message}`
+}
+
+function isMapping(value: YamlValue): value is { [key: string]: YamlValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Parses .lookas.yml content; every problem is collected before throwing RepositoryConfigError
+export function parseRepositoryConfig(
+  file: string,
+  content: string,
+  options: { strategies: string[] }
+): RepositoryConfig {
+  let document: YamlValue
+  try {
+    document = parseYaml(content)
+  } catch (error) {
+    if (error instanceof YamlParseError) {
+      throw new RepositoryConfigError(file, [{ key: '', message: error.message.replace(/^line \d+: /, ''), line: error.line }])
+    }
+    throw error
+  }
+
+  // An empty file means "all defaults"
+  if (document === null) {
+    return { ...DEFAULT_REPOSITORY_CONFIG }
+  }
+  if (!isMapping(document)) {
+    throw new RepositoryConfigError(file, [{ key: '', message: 'expected a mapping of settings at the top level' }])
+  }
+
+  const issues: ConfigIssue[] = []
+  const config: RepositoryConfig = { ...DEFAULT_REPOSITORY_CONFIG }
+
+  for (const key of Object.keys(document)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      issues.push({ key, message: `unknown setting (expected one of ${KNOWN_KEYS.join(', ')})` })
+    }
+  }
+
+  const readGlobs = (key: 'include' | 'exclude') => {
+    const value = document[key]
+    if (value === undefined || value === null) return
+    const globs = typeof value === 'string' ? [value] : value
+    if (!Array.isArray(globs) || globs.some(glob => typeof glob !== 'string' || !glob.trim())) {
+      issues.push({ key, message: 'expected a glob or a list of globs' })
+      return
+    }
+    config[key] = (globs as string[]).map(glob => glob.trim())
+  }
+  readGlobs('include')
+  readGlobs('exclude')
+
+  if (document.strategy !== undefined && document.strategy !== null) {
+    if (typeof document.strategy !== 'string' || !options.strategies.includes(document.strategy)) {
+      issues.push({ key: 'strategy', message: `expected one of ${options.strategies.join(', ')}` })
+    } else {
+      config.strategy = document.strategy
+    }
+  }
+
+  if (document.docPathPrefixes !== undefined && document.docPathPrefixes !== null) {
+    const prefixes = document.docPathPrefixes
+    if (!isMapping(prefixes)) {
+      issues.push({ key: 'docPathPrefixes', message: 'expected a mapping of directory to doc path prefix' })
+    } else {
+      config.docPathPrefixes = {}
+      for (const [directory, prefix] of Object.entries(prefixes)) {
+        if (typeof prefix !== 'string' || !/^[\w-]+(\.[\w-]+)*$/.test(prefix)) {
+          issues.push({ key: `docPathPrefixes.${directory}`, message: 'expected a dot-separated doc path such as "backend.services"' })
+        } else {
+          config.docPathPrefixes[directory.replace(/^\.?\/+|\/+$/g, '')] = prefix
+        }
+      }
+    }
+  }
+
+  if (document.provider !== undefined && document.provider !== null) {
+    const allowed = getAllowedLLMProviders()
+    if (!allowed.includes(document.provider as LLMProviderKind)) {
+      issues.push({ key: 'provider', message: `expected one of ${allowed.join(', ')} (the providers this server allows)` })
+    } else {
+      config.provider = document.provider as LLMProviderKind
+    }
+  }
+
+  if (document.model !== undefined && document.model !== null) {
+    if (typeof document.model !== 'string' || !document.model.trim()) {
+      issues.push({ key: 'model', message: 'expected a model name' })
+    } else {
+      config.model = document.model.trim()
+    }
+  }
+
+  if (document.fallbackModels !== undefined && document.fallbackModels !== null) {
+    const models = document.fallbackModels
+    if (!Array.isArray(models) || models.some(model => typeof model !== 'string' || !model.trim())) {
+      issues.push({ key: 'fallbackModels', message: 'expected a list of model names' })
+    } else {
+      config.fallbackModels = (models as string[]).map(model => model.trim())
+    }
+  }
+
+  if (document.audience !== undefined && document.audience !== null) {
+    if (!AUDIENCE_LEVELS.includes(document.audience as AudienceLevel)) {
+      issues.push({ key: 'audience', message: `expected one of ${AUDIENCE_LEVELS.join(', ')}` })
+    } else {
+      config.audience = document.audience as AudienceLevel
+    }
+  }
+
+  if (document.maxDocuments !== undefined && document.maxDocuments !== null) {
+    const maxDocuments = document.maxDocuments
+    if (typeof maxDocuments !== 'number' || !Number.isInteger(maxDocuments) || maxDocuments < 1) {
+      issues.push({ key: 'maxDocuments', message: 'expected a positive whole number' })
+    } else {
+      config.maxDocuments = maxDocuments
+    }
+  }
+
+  if (document.glossary !== undefined && document.glossary !== null) {
+    const glossary = document.glossary
+    if (!isMapping(glossary)) {
+      issues.push({ key: 'glossary', message: 'expected a mapping of term to definition' })
+    } else {
+      config.glossary = {}
+      for (const [term, definition] of Object.entries(glossary)) {
+        if (typeof definition !== 'string' || !definition.trim()) {
+          issues.push({ key: `glossary.${term}`, message: 'expected a definition' })
+        } else {
+          config.glossary[term] = definition.trim()
+        }
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new RepositoryConfigError(file, issues)
+  }
+
+  return config
+}
+
+// Applies include/exclude globs from the config to repository paths
+export function createPathFilter(config: RepositoryConfig): (filePath: string) => boolean {
+  const isIncluded = config.include.length > 0 ? createGlobMatcher(config.include) : () => true
+  const isExcluded = createGlobMatcher(config.exclude)
+  return filePath => isIncluded(filePath) && !isExcluded(filePath)
+}
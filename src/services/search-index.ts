@@ -0,0 +1,430 @@
+// Search Index Service
+// Embeds document sections and component source into search_chunks and ranks them against a query
+
+import crypto from 'crypto'
+import { DatabaseClient, createClient } from '@/lib/supabase/server'
+import type { Database } from '@/types/database'
+import { countTokens } from '@/lib/tokenizer'
+import { Component } from './component-extractor'
+import { EmbeddingProvider, createEmbeddingProvider, getDefaultEmbeddingProviderKind } from './embedding-provider'
+import type { LLMProviderKind } from './llm-provider'
+import type { WorkPlan } from './planner'
+
+export interface SearchChunk {
+  sourceType: 'document' | 'component'
+  documentId?: string
+  componentId?: string
+  path: string
+  title: string
+  chunkIndex: number
+  content: string
+  startLine?: number
+  endLine?: number
+}
+
+export interface SearchHighlight {
+  start: number // Offsets into `snippet`
+  end: number
+}
+
+export interface SearchResult {
+  id: string
+  sourceType: 'document' | 'component'
+  documentId: string | null
+  componentId: string | null
+  path: string
+  title: string
+  snippet: string
+  highlights: SearchHighlight[]
+  score: number
+  startLine: number | null
+  endLine: number | null
+}
+
+export interface IndexStats {
+  chunks: number
+  embedded: number // Chunks whose text changed and were embedded again
+  removed: number
+}
+
+interface IndexLogger {
+  log(...args: unknown[]): void
+}
+
+type MatchedChunk = Database['public']['Functions']['match_search_chunks']['Returns'][number]
+
+interface DocumentSource {
+  id: string
+  document_path: string
+  title: string
+  content: string
+}
+
+const MAX_CHUNK_TOKENS = 400
+const EMBED_BATCH_SIZE = 32
+const INSERT_BATCH_SIZE = 100
+const SNIPPET_LENGTH = 240
+// Share of the score given to query words found verbatim, so exact identifiers win ties
+const LEXICAL_WEIGHT = 0.3
+// Passages per document or file, so one long document cannot fill the results
+const MAX_RESULTS_PER_PATH = 3
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'how', 'what', 'where', 'when',
+  'who', 'why', 'does', 'did', 'this', 'that', 'with', 'from', 'into', 'our', 'your', 'its', 'use', 'used'
+])
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+function chunkKey(chunk: { sourceType: string, documentId?: string | null, componentId?: string | null, chunkIndex: number }): string {
+  return `${chunk.sourceType}:${chunk.documentId ?? chunk.componentId}:${chunk.chunkIndex}`
+}
+
+// Words of a query worth highlighting and matching literally
+export function getQueryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}_$]+/gu) || []
+  return [...new Set(words.filter(word => word.length >= 3 && !STOP_WORDS.has(word)))]
+}
+
+// Packs paragraphs into pieces under the token limit. Blank lines inside code fences
+// do not split; a single paragraph over the limit is split by lines.
+function splitByTokens(text: string): string[] {
+  const blocks: string[][] = [[]]
+  let inFence = false
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    if (!inFence && !line.trim()) {
+      if (blocks[blocks.length - 1].length > 0) blocks.push([])
+    } else {
+      blocks[blocks.length - 1].push(line)
+    }
+  }
+
+  const pieces: string[] = []
+  let current: string[] = []
+  let currentTokens = 0
+  const flush = () => {
+    if (current.length > 0) pieces.push(current.join('\n'))
+    current = []
+    currentTokens = 0
+  }
+
+  for (const block of blocks.filter(lines => lines.length > 0)) {
+    const tokens = countTokens(block.join('\n'))
+    if (tokens > MAX_CHUNK_TOKENS) {
+      flush()
+      for (const line of block) {
+        const lineTokens = countTokens(line)
+        if (currentTokens + lineTokens > MAX_CHUNK_TOKENS) flush()
+        current.push(line)
+        currentTokens += lineTokens
+      }
+      flush()
+      continue
+    }
+
+    if (currentTokens + tokens > MAX_CHUNK_TOKENS) flush()
+    current.push(...(current.length > 0 ? ['', ...block] : block))
+    currentTokens += tokens
+  }
+  flush()
+  return pieces
+}
+
+// One chunk per markdown section (split further when long), titled "Document › Section"
+export function chunkDocument(document: DocumentSource): SearchChunk[] {
+  const sections: { heading?: string, lines: string[] }[] = [{ lines: [] }]
+  let inFence = false
+
+  for (const line of document.content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    const heading = !inFence && line.match(/^#{1,4}\s+(.+?)\s*#*\s*$/)
+    if (heading) {
+      sections.push({ heading: heading[1], lines: [line] })
+    } else {
+      sections[sections.length - 1].lines.push(line)
+    }
+  }
+
+  const chunks: SearchChunk[] = []
+  for (const section of sections) {
+    const text = section.lines.join('\n').trim()
+    // A section that is only its heading adds nothing to search
+    if (!text || (section.heading && text === section.lines[0].trim())) continue
+
+    const title = section.heading && section.heading !== document.title
+      ? `${document.title} › ${section.heading}`
+      : document.title
+    for (const piece of splitByTokens(text)) {
+      chunks.push({
+        sourceType: 'document',
+        documentId: document.id,
+        path: document.document_path,
+        title,
+        chunkIndex: chunks.length,
+        content: piece
+      })
+    }
+  }
+  return chunks
+}
+
+// The component's source lines, cut to the chunk limit. Components without a line
+// range (files, modules) are covered by their documents.
+export function chunkComponent(component: Component, source: string): SearchChunk | null {
+  if (!component.startLine || !component.endLine) return null
+
+  const lines = source.split('\n').slice(component.startLine - 1, component.endLine)
+  const header = `${component.type} ${component.name} (${component.parentPath})`
+  let content = header
+  let endLine = component.startLine - 1
+  for (const line of lines) {
+    const next = `${content}\n${line}`
+    if (countTokens(next) > MAX_CHUNK_TOKENS) break
+    content = next
+    endLine++
+  }
+  if (endLine < component.startLine) return null
+
+  return {
+    sourceType: 'component',
+    componentId: component.id,
+    path: component.parentPath,
+    title: component.name,
+    chunkIndex: 0,
+    content,
+    startLine: component.startLine,
+    endLine
+  }
+}
+
+// The passage window with the most query words, and where they are in it
+export function highlightPassage(content: string, terms: string[], length: number = SNIPPET_LENGTH): { snippet: string, highlights: SearchHighlight[] } {
+  const pattern = terms.length > 0
+    ? new RegExp(terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'giu')
+    : null
+  const matches = pattern ? [...content.matchAll(pattern)].map(match => ({ start: match.index!, end: match.index! + match[0].length })) : []
+
+  // Slide a window over the matches and keep the one covering most of them
+  let windowStart = 0
+  let bestCount = 0
+  for (let first = 0, last = 0; first < matches.length; first++) {
+    while (last < matches.length && matches[last].end - matches[first].start <= length) last++
+    if (last - first > bestCount) {
+      bestCount = last - first
+      windowStart = matches[first].start
+    }
+  }
+
+  // Start the window at a word boundary shortly before the first match
+  let start = Math.max(0, windowStart - Math.floor(length / 6))
+  if (start > 0) {
+    const boundary = content.lastIndexOf(' ', start)
+    start = boundary === -1 ? start : boundary + 1
+  }
+  const end = Math.min(content.length, start + length)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = `${prefix}${content.slice(start, end).replace(/\s+$/, '')}${end < content.length ? '…' : ''}`
+
+  const highlights = matches
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }))
+
+  return { snippet, highlights }
+}
+
+export class SearchIndex {
+  // Providers are created on first use so unused ones need no credentials
+  private readonly providers = new Map<LLMProviderKind, EmbeddingProvider>()
+
+  // Tests and stub mode inject FakeEmbeddingProvider, which overrides per-repository selection
+  constructor(private readonly fixedProvider?: EmbeddingProvider, private readonly supabase?: DatabaseClient) {}
+
+  // The provider the repository's .lookas.yml picked for generation, so its code is
+  // embedded where it is already sent; the server default when it picked none
+  private async getEmbeddings(repositoryId: string): Promise<EmbeddingProvider> {
+    if (this.fixedProvider) return this.fixedProvider
+
+    const kind = (await this.loadRepositoryProviderKind(repositoryId)) ?? getDefaultEmbeddingProviderKind()
+    let provider = this.providers.get(kind)
+    if (!provider) {
+      provider = createEmbeddingProvider(kind)
+      this.providers.set(kind, provider)
+    }
+    return provider
+  }
+
+  // Recorded with the LLM settings of the repository's latest generation
+  private async loadRepositoryProviderKind(repositoryId: string): Promise<LLMProviderKind | undefined> {
+    const supabase = this.supabase ?? await createClient()
+    const { data } = await supabase
+      .from('planning_sessions')
+      .select('work_plan')
+      .eq('repository_id', repositoryId)
+      .not('work_plan', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return (data?.work_plan as WorkPlan | null)?.metadata.llm?.provider
+  }
+
+  // Rebuilds the repository's chunks from its stored documents and, when given, the
+  // source of its components. Chunks whose text is unchanged keep their vectors.
+  // Without `sources` the existing component chunks are kept as they are; with
+  // them, chunks of files that were not loaded are kept unless the component is gone.
+  async indexRepository(
+    repositoryId: string,
+    logger: IndexLogger,
+    sources?: { components: Component[], sourceFiles: Map<string, string> }
+  ): Promise<IndexStats> {
+    const supabase = this.supabase ?? await createClient()
+    const embeddings = await this.getEmbeddings(repositoryId)
+    const model = embeddings.model
+
+    const { data: documents, error } = await supabase
+      .from('documents')
+      .select('id, document_path, title, content')
+      .eq('repository_id', repositoryId)
+
+    if (error) {
+      throw new Error(`Failed to load documents for the search index: ${error.message}`)
+    }
+
+    const chunks = (documents || []).flatMap(chunkDocument)
+    const componentIds = new Set(sources?.components.map(component => component.id))
+    if (sources) {
+      for (const component of sources.components) {
+        const source = sources.sourceFiles.get(component.parentPath)
+        const chunk = source !== undefined ? chunkComponent(component, source) : null
+        if (chunk) chunks.push(chunk)
+      }
+    }
+
+    const { data: existing } = await supabase
+      .from('search_chunks')
+      .select('id, source_type, document_id, component_id, path, chunk_index, content_hash, model')
+      .eq('repository_id', repositoryId)
+
+    const wanted = new Map(chunks.map(chunk => [chunkKey(chunk), hashContent(chunk.content)]))
+    const kept = new Set<string>()
+    const staleIds: string[] = []
+
+    for (const row of existing || []) {
+      const key = chunkKey({ sourceType: row.source_type, documentId: row.document_id, componentId: row.component_id, chunkIndex: row.chunk_index })
+      const keepComponent = row.source_type === 'component' && !wanted.has(key) &&
+        (!sources || (componentIds.has(row.component_id ?? '') && !sources.sourceFiles.has(row.path)))
+
+      if (row.model === model && (wanted.get(key) === row.content_hash || keepComponent) && !kept.has(key)) {
+        kept.add(key)
+      } else {
+        staleIds.push(row.id)
+      }
+    }
+
+    const pending = chunks.filter(chunk => !kept.has(chunkKey(chunk)))
+    logger.log(`   🔎 ${chunks.length} search chunks, ${pending.length} to embed with ${model}`)
+
+    for (let i = 0; i < staleIds.length; i += INSERT_BATCH_SIZE) {
+      await supabase.from('search_chunks').delete().in('id', staleIds.slice(i, i + INSERT_BATCH_SIZE))
+    }
+
+    for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBED_BATCH_SIZE)
+      const vectors = await embeddings.embed(batch.map(chunk => `${chunk.title}\n\n${chunk.content}`))
+      if (vectors.length !== batch.length) {
+        throw new Error(`Embedding provider returned ${vectors.length} vectors for ${batch.length} texts`)
+      }
+
+      const { error: insertError } = await supabase.from('search_chunks').insert(batch.map((chunk, index) => ({
+        repository_id: repositoryId,
+        source_type: chunk.sourceType,
+        document_id: chunk.documentId ?? null,
+        component_id: chunk.componentId ?? null,
+        path: chunk.path,
+        title: chunk.title,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        content_hash: hashContent(chunk.content),
+        start_line: chunk.startLine ?? null,
+        end_line: chunk.endLine ?? null,
+        model,
+        embedding: JSON.stringify(vectors[index])
+      })))
+
+      if (insertError) {
+        throw new Error(`Failed to store search chunks: ${insertError.message}`)
+      }
+    }
+
+    const keptComponents = [...kept].filter(key => !wanted.has(key)).length
+    return { chunks: chunks.length + keptComponents, embedded: pending.length, removed: staleIds.length }
+  }
+
+  // Whether the repository has chunks for the current embedding model
+  async isIndexed(repositoryId: string): Promise<boolean> {
+    const supabase = this.supabase ?? await createClient()
+    const embeddings = await this.getEmbeddings(repositoryId)
+    const { count } = await supabase
+      .from('search_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('repository_id', repositoryId)
+      .eq('model', embeddings.model)
+    return (count ?? 0) > 0
+  }
+
+  // Nearest chunks by embedding, re-ranked with the share of query words they
+  // contain literally, with the best-matching window of each as its snippet
+  async search(repositoryId: string, query: string, limit: number = 20): Promise<SearchResult[]> {
+    const supabase = this.supabase ?? await createClient()
+    const embeddings = await this.getEmbeddings(repositoryId)
+    const [vector] = await embeddings.embed([query])
+
+    const { data, error } = await supabase.rpc('match_search_chunks', {
+      p_repository_id: repositoryId,
+      p_model: embeddings.model,
+      p_embedding: JSON.stringify(vector),
+      p_limit: limit * 3
+    })
+
+    if (error) {
+      throw new Error(`Search failed: ${error.message}`)
+    }
+
+    const terms = getQueryTerms(query)
+    const ranked = ((data || []) as MatchedChunk[])
+      .map(row => {
+        const text = `${row.title}\n${row.content}`.toLowerCase()
+        const coverage = terms.length > 0 ? terms.filter(term => text.includes(term)).length / terms.length : 0
+        return { row, score: (1 - LEXICAL_WEIGHT) * row.similarity + LEXICAL_WEIGHT * coverage }
+      })
+      .sort((a, b) => b.score - a.score)
+
+    const perPath = new Map<string, number>()
+    const results: SearchResult[] = []
+    for (const { row, score } of ranked) {
+      const count = perPath.get(row.path) ?? 0
+      if (count >= MAX_RESULTS_PER_PATH) continue
+      perPath.set(row.path, count + 1)
+
+      const { snippet, highlights } = highlightPassage(row.content, terms)
+      results.push({
+        id: row.id,
+        sourceType: row.source_type,
+        documentId: row.document_id,
+        componentId: row.component_id,
+        path: row.path,
+        title: row.title,
+        snippet,
+        highlights,
+        score: Math.round(score * 1000) / 1000,
+        startLine: row.start_line,
+        endLine: row.end_line
+      })
+      if (results.length >= limit) break
+    }
+    return results
+  }
+}
@@ -0,0 +1,258 @@
+// Source Provider Service
+// Lists and reads repository files from the GitHub API, a downloaded tarball or a local checkout
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import crypto from 'crypto'
+import { GitHubService, RateLimitState, RateLimitWait } from '@/lib/github'
+import { createIgnoreChecker, GitIgnoreChecker, GITIGNORE_FILE, LOOKASIGNORE_FILE } from '@/lib/ignore-patterns'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { extractTarball } from '@/lib/tarball'
+
+export type SourceProviderKind = 'github' | 'tarball' | 'local'
+
+export interface SourceFile {
+  path: string
+  sha: string // Git blob SHA, identical across providers so stored hashes stay comparable
+  size: number
+}
+
+export interface SourceReadProgress {
+  completed: number
+  failed: number
+  total: number
+  path: string
+  rateLimit?: RateLimitState
+}
+
+export interface SourceReadOptions {
+  concurrency?: number
+  onProgress?: (progress: SourceReadProgress) => void
+  onRateLimit?: (wait: RateLimitWait) => void
+}
+
+export interface SourceReadResult {
+  contents: Map<string, string>
+  errors: Map<string, string>
+}
+
+export interface SourceProvider {
+  readonly kind: SourceProviderKind
+  readonly description: string
+  // Files worth analyzing, with ignore rules already applied
+  listFiles(): Promise<SourceFile[]>
+  readFiles(files: SourceFile[], options?: SourceReadOptions): Promise<SourceReadResult>
+  getRateLimit?(): RateLimitState
+  // Releases anything the provider created (temporary checkouts)
+  dispose(): Promise<void>
+}
+
+export interface SourceRepository {
+  full_name: string
+  default_branch: string
+}
+
+// Reads through the GitHub REST API: tree listing plus blobs by SHA
+export class GitHubSourceProvider implements SourceProvider {
+  readonly kind: SourceProviderKind = 'github'
+  private github: GitHubService
+  private rateLimitListener?: (wait: RateLimitWait) => void
+
+  constructor(
+    accessToken: string,
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly branch: string
+  ) {
+    this.github = new GitHubService(accessToken, {
+      onRateLimit: wait => this.rateLimitListener?.(wait)
+    })
+  }
+
+  get description() {
+    return `GitHub API (${this.owner}/${this.repo}@${this.branch})`
+  }
+
+  async listFiles(): Promise<SourceFile[]> {
+    const codeFiles = await this.github.getCodeFiles(this.owner, this.repo, this.branch)
+    return codeFiles
+      .filter(file => file.path && file.sha)
+      .map(file => ({ path: file.path!, sha: file.sha!, size: file.size || 0 }))
+  }
+
+  async readFiles(files: SourceFile[], options: SourceReadOptions = {}): Promise<SourceReadResult> {
+    this.rateLimitListener = options.onRateLimit
+    try {
+      return await this.github.getBlobContents(this.owner, this.repo, files, {
+        concurrency: options.concurrency,
+        onProgress: options.onProgress
+      })
+    } finally {
+      this.rateLimitListener = undefined
+    }
+  }
+
+  getRateLimit(): RateLimitState {
+    return this.github.getRateLimit()
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+// Reads a checkout on the local filesystem (self-hosted, air-gapped, fixtures)
+export class LocalSourceProvider implements SourceProvider {
+  readonly kind: SourceProviderKind = 'local'
+
+  constructor(protected rootPath: string) {}
+
+  get description() {
+    return `local directory (${this.rootPath})`
+  }
+
+  // Hook for subclasses that materialize the checkout lazily
+  protected async prepare(): Promise<void> {}
+
+  async listFiles(): Promise<SourceFile[]> {
+    await this.prepare()
+
+    const ignoreChecker = await createIgnoreChecker(filePath => this.readText(filePath))
+    const files: SourceFile[] = []
+    await this.walk('', ignoreChecker, files)
+    return files
+  }
+
+  async readFiles(files: SourceFile[], options: SourceReadOptions = {}): Promise<SourceReadResult> {
+    await this.prepare()
+
+    const contents = new Map<string, string>()
+    const errors = new Map<string, string>()
+    let completed = 0
+
+    await mapWithConcurrency(files, options.concurrency ?? 8, async file => {
+      try {
+        contents.set(file.path, await fs.readFile(this.resolvePath(file.path), 'utf-8'))
+      } catch (error) {
+        errors.set(file.path, error instanceof Error ? error.message : String(error))
+      }
+      completed++
+      options.onProgress?.({ completed, failed: errors.size, total: files.length, path: file.path })
+    })
+
+    return { contents, errors }
+  }
+
+  async dispose(): Promise<void> {}
+
+  private async walk(directory: string, ignoreChecker: GitIgnoreChecker, files: SourceFile[]): Promise<void> {
+    // Nested ignore files apply from their own directory down; the root ones are already loaded
+    if (directory) {
+      for (const fileName of [GITIGNORE_FILE, LOOKASIGNORE_FILE]) {
+        const content = await this.readText(`${directory}/${fileName}`)
+        if (content) ignoreChecker.addIgnoreFile(`${directory}/${fileName}`, content)
+      }
+    }
+
+    const entries = await fs.readdir(this.resolvePath(directory), { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      const relativePath = directory ? `${directory}/${entry.name}` : entry.name
+
+      if (entry.isDirectory()) {
+        if (entry.name === '.git' || ignoreChecker.isIgnored(relativePath, true)) continue
+        await this.walk(relativePath, ignoreChecker, files)
+      } else if (entry.isFile() && !ignoreChecker.isIgnored(relativePath)) {
+        const data = await fs.readFile(this.resolvePath(relativePath))
+        files.push({ path: relativePath, sha: gitBlobSha(data), size: data.length })
+      }
+    }
+  }
+
+  private async readText(relativePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolvePath(relativePath), 'utf-8')
+    } catch {
+      return null
+    }
+  }
+
+  private resolvePath(relativePath: string): string {
+    return path.join(this.rootPath, relativePath)
+  }
+}
+
+// Downloads the repository tarball once and reads the unpacked copy from disk
+export class TarballSourceProvider extends LocalSourceProvider {
+  readonly kind: SourceProviderKind = 'tarball'
+  private github: GitHubService
+  private extraction: Promise<void> | null = null
+
+  constructor(
+    accessToken: string,
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly branch: string
+  ) {
+    super('')
+    this.github = new GitHubService(accessToken)
+  }
+
+  get description() {
+    return `GitHub tarball (${this.owner}/${this.repo}@${this.branch})`
+  }
+
+  protected prepare(): Promise<void> {
+    if (!this.extraction) {
+      this.extraction = (async () => {
+        const archive = await this.github.getTarball(this.owner, this.repo, this.branch)
+        this.rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'lookas-source-'))
+        await extractTarball(archive, this.rootPath)
+      })()
+    }
+    return this.extraction
+  }
+
+  async dispose(): Promise<void> {
+    if (this.rootPath) {
+      await fs.rm(this.rootPath, { recursive: true, force: true })
+      this.rootPath = ''
+      this.extraction = null
+    }
+  }
+}
+
+// Same digest GitHub reports for blobs: sha1("blob <size>\0" + content)
+export function gitBlobSha(data: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${data.length}\0`)
+    .update(data)
+    .digest('hex')
+}
+
+// Picks the provider from SOURCE_PROVIDER (github | tarball | local); local
+// checkouts are expected at LOCAL_SOURCE_DIR/<owner>/<repo>
+export function createSourceProvider(
+  repository: SourceRepository,
+  githubToken: string,
+  kind: string = process.env.SOURCE_PROVIDER || 'github'
+): SourceProvider {
+  const [owner, repo] = repository.full_name.split('/')
+
+  switch (kind) {
+    case 'github':
+      return new GitHubSourceProvider(githubToken, owner, repo, repository.default_branch)
+    case 'tarball':
+      return new TarballSourceProvider(githubToken, owner, repo, repository.default_branch)
+    case 'local': {
+      const baseDir = process.env.LOCAL_SOURCE_DIR
+      if (!baseDir) {
+        throw new Error('LOCAL_SOURCE_DIR must be set to use the local source provider')
+      }
+      return new LocalSourceProvider(path.join(baseDir, owner, repo))
+    }
+    default:
+      throw new Error(`Unknown source provider '${kind}' (expected github, tarball or local)`)
+  }
+}
@@ -0,0 +1,189 @@
+// Source Snippets Service
+// Cuts component source ranges out of files and trims them to a token budget for prompts
+
+import { countTokens } from '@/lib/tokenizer'
+import { Component } from './component-extractor'
+
+export interface SourceSnippet {
+  path: string
+  startLine: number // First line shown, leading doc comments included
+  endLine: number
+  language: string
+  code: string
+  omittedLines: number
+}
+
+interface SourceRange {
+  startLine: number
+  lines: SnippetLine[]
+}
+
+interface SnippetLine {
+  text: string
+  priority: number // 0 = signature, 1 = docs, 2 = public members / outline, 3 = body
+  tokens: number
+}
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', go: 'go', java: 'java', kt: 'kotlin', kts: 'kotlin', rs: 'rust', rb: 'ruby',
+  php: 'php', cs: 'csharp', swift: 'swift', scala: 'scala', c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp'
+}
+
+const COMMENT_LINE = /^(\/\/|\/\*|\*|#(?![[!]))/
+const DOCSTRING_QUOTES = /^("""|''')/
+const DECORATOR_LINE = /^(@\w|#\[)/
+const PRIVATE_MEMBER = /^(private|protected|internal)\b|^#\w|^_|^(def|fn|func|function)\s+_/
+const SIGNATURE_END = /[{:]\s*$|=>\s*\{?\s*$/
+
+export function getFenceLanguage(filePath: string): string {
+  const extension = filePath.split('.').pop()?.toLowerCase() || ''
+  return FENCE_LANGUAGES[extension] || extension || 'text'
+}
+
+// Source of every component that has a line range and loaded file content, with
+// `tokenBudget` shared between them. Components nested inside another snippet's
+// range (methods of a documented class) are covered by that snippet.
+export function buildSourceSnippets(
+  components: Component[],
+  sourceFiles: Map<string, string>,
+  tokenBudget: number
+): Map<string, SourceSnippet> {
+  const snippets = new Map<string, SourceSnippet>()
+  if (tokenBudget <= 0) return snippets
+
+  const candidates = components
+    .filter(component => component.startLine && component.endLine && sourceFiles.has(component.parentPath))
+    .filter(component => !components.some(outer =>
+      outer !== component &&
+      outer.parentPath === component.parentPath &&
+      outer.startLine && outer.endLine &&
+      outer.startLine <= component.startLine! &&
+      outer.endLine >= component.endLine! &&
+      (outer.startLine < component.startLine! || outer.endLine > component.endLine!)
+    ))
+    .map(component => ({ component, range: collectLines(component, sourceFiles.get(component.parentPath)!) }))
+    .filter(candidate => candidate.range.lines.length > 0)
+    .map(candidate => ({ ...candidate, fullTokens: candidate.range.lines.reduce((sum, line) => sum + line.tokens, 0) }))
+
+  // Small snippets take what they need; the rest is split evenly among larger ones
+  let remainingBudget = tokenBudget
+  const bySize = [...candidates].sort((a, b) => a.fullTokens - b.fullTokens)
+  bySize.forEach((candidate, index) => {
+    const share = Math.floor(remainingBudget / (bySize.length - index))
+    const snippet = trimToBudget(candidate.component.parentPath, candidate.range, Math.min(candidate.fullTokens, share))
+    remainingBudget -= countTokens(snippet.code)
+    snippets.set(candidate.component.id, snippet)
+  })
+
+  return snippets
+}
+
+// Lines of the component's range plus the doc comments and decorators right above it
+function collectLines(component: Component, content: string): SourceRange {
+  const fileLines = content.split(/\r?\n/)
+  let first = component.startLine! - 1
+  const last = Math.min(component.endLine!, fileLines.length) - 1
+  if (first > last) return { startLine: first + 1, lines: [] }
+
+  while (first > 0) {
+    const previous = fileLines[first - 1].trim()
+    if (!previous || !(COMMENT_LINE.test(previous) || DECORATOR_LINE.test(previous))) break
+    first--
+  }
+
+  const declarationIndex = component.startLine! - 1 - first
+  const lines = fileLines.slice(first, last + 1)
+  const priorities = lines.map(() => 3)
+
+  // Leading docs and the declaration up to its opening brace/colon
+  for (let i = 0; i < lines.length; i++) {
+    priorities[i] = 0
+    if (i >= declarationIndex && (SIGNATURE_END.test(lines[i]) || i - declarationIndex >= 4)) break
+  }
+
+  const bodyLines = lines
+    .map((text, index) => ({ text, index }))
+    .filter(({ text, index }) => priorities[index] !== 0 && text.trim())
+  const memberIndent = Math.min(...bodyLines.map(({ text }) => text.length - text.trimStart().length))
+
+  let inDocstring = false
+  for (const { text, index } of bodyLines) {
+    const trimmed = text.trim()
+
+    if (inDocstring) {
+      priorities[index] = 1
+      inDocstring = !/("""|''')$/.test(trimmed)
+    } else if (DOCSTRING_QUOTES.test(trimmed)) {
+      priorities[index] = 1
+      inDocstring = !(trimmed.length >= 6 && /("""|''')$/.test(trimmed))
+    } else if (COMMENT_LINE.test(trimmed)) {
+      priorities[index] = 1
+    } else if (text.length - text.trimStart().length === memberIndent && !PRIVATE_MEMBER.test(trimmed)) {
+      // Shallowest body level: public members of a class, the outline of a function
+      priorities[index] = 2
+    }
+  }
+
+  // A closing bracket keeps the snippet balanced
+  if (lines.length > 1 && /^[}\])]+[;,]?$|^end$/.test(lines[lines.length - 1].trim())) {
+    priorities[lines.length - 1] = Math.min(priorities[lines.length - 1], 2)
+  }
+
+  return {
+    startLine: first + 1,
+    lines: lines.map((text, index) => ({ text, priority: priorities[index], tokens: countTokens(text + '\n') }))
+  }
+}
+
+// Keeps the highest-priority lines that fit and marks the gaps
+function trimToBudget(path: string, range: SourceRange, budget: number): SourceSnippet {
+  const { lines } = range
+  const kept = new Set<number>()
+  let used = 0
+
+  for (let priority = 0; priority <= 3; priority++) {
+    lines.forEach((line, index) => {
+      if (line.priority !== priority) return
+      // The signature is always shown, even when it alone exceeds the budget
+      if (priority === 0 || used + line.tokens <= budget) {
+        kept.add(index)
+        used += line.tokens
+      }
+    })
+  }
+
+  const output: string[] = []
+  let omittedLines = 0
+  let gap: string[] = []
+  const flushGap = () => {
+    const firstOmitted = gap.find(text => text.trim())
+    // Blank lines cost nothing worth a marker
+    if (firstOmitted === undefined) {
+      output.push(...gap)
+    } else {
+      output.push(`${firstOmitted.match(/^\s*/)![0]}... (${gap.length} line${gap.length === 1 ? '' : 's'} omitted)`)
+      omittedLines += gap.length
+    }
+    gap = []
+  }
+
+  lines.forEach((line, index) => {
+    if (!kept.has(index)) {
+      gap.push(line.text)
+      return
+    }
+    if (gap.length > 0) flushGap()
+    output.push(line.text)
+  })
+  if (gap.length > 0) flushGap()
+
+  return {
+    path,
+    startLine: range.startLine,
+    endLine: range.startLine + lines.length - 1,
+    language: getFenceLanguage(path),
+    code: output.join('\n'),
+    omittedLines
+  }
+}
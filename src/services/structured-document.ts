@@ -0,0 +1,240 @@
+// Structured Document Service
+// JSON shape requested from the model for every document, its validation and markdown rendering
+
+// Same vocabulary as the document_links.link_type check constraint
+export const DOCUMENT_LINK_TYPES = [
+  'imports', 'uses', 'depends_on', 'composes',
+  'extends', 'implements', 'tests', 'calls',
+  'references', 'exposes'
+] as const
+export type DocumentLinkType = typeof DOCUMENT_LINK_TYPES[number]
+
+export interface DocumentSection {
+  heading: string
+  content: string // Markdown, may contain {{link:...}} markers
+}
+
+export interface StructuredLink {
+  target: string // Document path of an existing document
+  type: DocumentLinkType
+  description?: string
+}
+
+export interface UsageExample {
+  title: string
+  language: string
+  code: string
+  description?: string
+}
+
+export interface StructuredDocument {
+  title: string
+  summary: string
+  sections: DocumentSection[]
+  referencedComponents: string[] // Component names
+  links: StructuredLink[]
+  usageExamples: UsageExample[]
+}
+
+// Embedded in prompts; also accepted by providers that enforce schemas
+export const STRUCTURED_DOCUMENT_SCHEMA = {
+  type: 'object',
+  required: ['title', 'summary', 'sections', 'referencedComponents', 'links', 'usageExamples'],
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string', maxLength: 280 },
+    sections: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['heading', 'content'],
+        properties: { heading: { type: 'string' }, content: { type: 'string' } }
+      }
+    },
+    referencedComponents: { type: 'array', items: { type: 'string' } },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['target', 'type'],
+        properties: {
+          target: { type: 'string' },
+          type: { enum: [...DOCUMENT_LINK_TYPES] },
+          description: { type: 'string' }
+        }
+      }
+    },
+    usageExamples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'language', 'code'],
+        properties: {
+          title: { type: 'string' },
+          language: { type: 'string' },
+          code: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    }
+  }
+}
+
+export interface StructuredDocumentParseResult {
+  document?: StructuredDocument
+  errors: string[]
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readString(value: JsonObject, key: string, path: string, errors: string[], optional = false): string | undefined {
+  const field = value[key]
+  if (field === undefined || field === null) {
+    if (!optional) errors.push(`${path}${key}: required`)
+    return undefined
+  }
+  if (typeof field !== 'string' || (!optional && !field.trim())) {
+    errors.push(`${path}${key}: expected a non-empty string`)
+    return undefined
+  }
+  return field.trim() || undefined
+}
+
+// Items of an array field; a missing list counts as empty unless `required`
+function readArray(value: JsonObject, key: string, errors: string[], required = false): unknown[] {
+  const field = value[key]
+  if (field === undefined || field === null) {
+    if (required) errors.push(`${key}: required`)
+    return []
+  }
+  if (!Array.isArray(field)) {
+    errors.push(`${key}: expected an array`)
+    return []
+  }
+  return field
+}
+
+// Models wrap JSON in code fences or prose often enough to strip both
+function extractJson(raw: string): string {
+  const text = raw.trim()
+  const fenced = text.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/)
+  if (fenced) return fenced[1]
+
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text
+}
+
+// Parses and validates a model response; every problem is collected so a repair
+// request can list them all
+export function parseStructuredDocument(raw: string): StructuredDocumentParseResult {
+  let value: unknown
+  try {
+    value = JSON.parse(extractJson(raw))
+  } catch (error) {
+    return { errors: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] }
+  }
+
+  if (!isObject(value)) {
+    return { errors: ['expected a JSON object at the top level'] }
+  }
+
+  const errors: string[] = []
+  const title = readString(value, 'title', '', errors)
+  const summary = readString(value, 'summary', '', errors)
+
+  const sectionItems = readArray(value, 'sections', errors, true)
+  if (Array.isArray(value.sections) && sectionItems.length === 0) {
+    errors.push('sections: expected at least one section')
+  }
+  const sections: DocumentSection[] = []
+  sectionItems.forEach((item, index) => {
+    if (!isObject(item)) {
+      errors.push(`sections[${index}]: expected an object`)
+      return
+    }
+    const heading = readString(item, 'heading', `sections[${index}].`, errors)
+    const content = readString(item, 'content', `sections[${index}].`, errors)
+    if (heading && content) sections.push({ heading, content })
+  })
+
+  const referencedComponents: string[] = []
+  readArray(value, 'referencedComponents', errors).forEach((item, index) => {
+    if (typeof item !== 'string' || !item.trim()) {
+      errors.push(`referencedComponents[${index}]: expected a component name`)
+    } else {
+      referencedComponents.push(item.trim())
+    }
+  })
+
+  const links: StructuredLink[] = []
+  readArray(value, 'links', errors).forEach((item, index) => {
+    if (!isObject(item)) {
+      errors.push(`links[${index}]: expected an object`)
+      return
+    }
+    const target = readString(item, 'target', `links[${index}].`, errors)
+    const description = readString(item, 'description', `links[${index}].`, errors, true)
+    if (!DOCUMENT_LINK_TYPES.includes(item.type as DocumentLinkType)) {
+      errors.push(`links[${index}].type: expected one of ${DOCUMENT_LINK_TYPES.join(', ')}`)
+    } else if (target) {
+      links.push({ target, type: item.type as DocumentLinkType, ...(description ? { description } : {}) })
+    }
+  })
+
+  const usageExamples: UsageExample[] = []
+  readArray(value, 'usageExamples', errors).forEach((item, index) => {
+    if (!isObject(item)) {
+      errors.push(`usageExamples[${index}]: expected an object`)
+      return
+    }
+    const path = `usageExamples[${index}].`
+    const exampleTitle = readString(item, 'title', path, errors)
+    const language = readString(item, 'language', path, errors, true) || 'text'
+    const code = typeof item.code === 'string' && item.code.trim() ? item.code.replace(/^\n+|\s+$/g, '') : undefined
+    if (!code) errors.push(`${path}code: expected a non-empty string`)
+    const description = readString(item, 'description', path, errors, true)
+    if (exampleTitle && code) {
+      usageExamples.push({ title: exampleTitle, language, code, ...(description ? { description } : {}) })
+    }
+  })
+
+  if (errors.length > 0 || !title || !summary) {
+    return { errors }
+  }
+
+  return { document: { title, summary, sections, referencedComponents, links, usageExamples }, errors }
+}
+
+// Markdown stored in documents.content; links keep their {{link:...}} markers
+// so the viewer and link extraction treat them like inline references
+export function renderStructuredDocument(document: StructuredDocument): string {
+  const lines = [`# ${document.title}`, '', document.summary, '']
+
+  for (const section of document.sections) {
+    lines.push(`## ${section.heading}`, '', section.content, '')
+  }
+
+  if (document.usageExamples.length > 0) {
+    lines.push('## Usage Examples', '')
+    for (const example of document.usageExamples) {
+      lines.push(`### ${example.title}`, '')
+      if (example.description) lines.push(example.description, '')
+      lines.push('```' + example.language, example.code, '```', '')
+    }
+  }
+
+  if (document.links.length > 0) {
+    lines.push('## Related Documentation', '')
+    lines.push(...document.links.map(link =>
+      `- {{link:${link.target}}} (${link.type.replace(/_/g, ' ')})${link.description ? `: ${link.description}` : ''}`
+    ), '')
+  }
+
+  return lines.join('\n').trim()
+}
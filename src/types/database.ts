@@ -18,6 +18,8 @@ export interface Database {
           email: string
           github_username: string | null
           github_access_token: string | null
+          monthly_token_budget: number | null
+          monthly_cost_budget_usd: number | null
           created_at: string
           updated_at: string
         }
@@ -26,6 +28,8 @@ export interface Database {
           email: string
           github_username?: string | null
           github_access_token?: string | null
+          monthly_token_budget?: number | null
+          monthly_cost_budget_usd?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -34,6 +38,8 @@ export interface Database {
           email?: string
           github_username?: string | null
           github_access_token?: string | null
+          monthly_token_budget?: number | null
+          monthly_cost_budget_usd?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -52,6 +58,8 @@ export interface Database {
           clone_url: string | null
           last_analyzed_at: string | null
           analysis_status: 'pending' | 'analyzing' | 'completed' | 'failed'
+          monthly_token_budget: number | null
+          monthly_cost_budget_usd: number | null
           created_at: string
           updated_at: string
         }
@@ -68,6 +76,8 @@ export interface Database {
           clone_url?: string | null
           last_analyzed_at?: string | null
           analysis_status?: 'pending' | 'analyzing' | 'completed' | 'failed'
+          monthly_token_budget?: number | null
+          monthly_cost_budget_usd?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -84,6 +94,8 @@ export interface Database {
           clone_url?: string | null
           last_analyzed_at?: string | null
           analysis_status?: 'pending' | 'analyzing' | 'completed' | 'failed'
+          monthly_token_budget?: number | null
+          monthly_cost_budget_usd?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -251,33 +263,36 @@ export interface Database {
           id: string
           repository_id: string
           session_type: 'full' | 'incremental'
-          status: 'planning' | 'generating' | 'completed' | 'failed'
+          status: 'planning' | 'generating' | 'completed' | 'failed' | 'cancelled'
           work_plan: Json | null
           started_at: string
           completed_at: string | null
           error_message: string | null
+          cancel_requested_at: string | null
           metadata: Json
         }
         Insert: {
           id?: string
           repository_id: string
           session_type?: 'full' | 'incremental'
-          status?: 'planning' | 'generating' | 'completed' | 'failed'
+          status?: 'planning' | 'generating' | 'completed' | 'failed' | 'cancelled'
           work_plan?: Json | null
           started_at?: string
           completed_at?: string | null
           error_message?: string | null
+          cancel_requested_at?: string | null
           metadata?: Json
         }
         Update: {
           id?: string
           repository_id?: string
           session_type?: 'full' | 'incremental'
-          status?: 'planning' | 'generating' | 'completed' | 'failed'
+          status?: 'planning' | 'generating' | 'completed' | 'failed' | 'cancelled'
           work_plan?: Json | null
           started_at?: string
           completed_at?: string | null
           error_message?: string | null
+          cancel_requested_at?: string | null
           metadata?: Json
         }
       }
@@ -311,35 +326,38 @@ export interface Database {
         Row: {
           id: string
           repository_id: string
-          document_id: string
+          document_id: string | null
           model_used: string
           tokens_input: number
           tokens_output: number
           cost_estimated: number | null
           generation_time_ms: number | null
           created_at: string
+          purpose: 'document' | 'chat'
         }
         Insert: {
           id?: string
           repository_id: string
-          document_id: string
+          document_id: string | null
           model_used: string
           tokens_input: number
           tokens_output: number
           cost_estimated?: number | null
           generation_time_ms?: number | null
           created_at?: string
+          purpose?: 'document' | 'chat'
         }
         Update: {
           id?: string
           repository_id?: string
-          document_id?: string
+          document_id?: string | null
           model_used?: string
           tokens_input?: number
           tokens_output?: number
           cost_estimated?: number | null
           generation_time_ms?: number | null
           created_at?: string
+          purpose?: 'document' | 'chat'
         }
       }
       analysis_logs: {
@@ -377,12 +395,303 @@ export interface Database {
           documents_generated?: number
         }
       }
+      generation_jobs: {
+        Row: {
+          id: string
+          repository_id: string
+          user_id: string
+          session_id: string
+          kind: 'generate' | 'retry' | 'resume'
+          session_type: 'full' | 'incremental'
+          prune_outdated: boolean
+          status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          attempts: number
+          max_attempts: number
+          run_after: string
+          locked_by: string | null
+          locked_until: string | null
+          heartbeat_at: string | null
+          cancel_requested_at: string | null
+          encrypted_github_token: string | null
+          last_error: string | null
+          created_at: string
+          started_at: string | null
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          repository_id: string
+          user_id: string
+          session_id: string
+          kind: 'generate' | 'retry' | 'resume'
+          session_type?: 'full' | 'incremental'
+          prune_outdated?: boolean
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          heartbeat_at?: string | null
+          cancel_requested_at?: string | null
+          encrypted_github_token?: string | null
+          last_error?: string | null
+          created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          repository_id?: string
+          user_id?: string
+          session_id?: string
+          kind?: 'generate' | 'retry' | 'resume'
+          session_type?: 'full' | 'incremental'
+          prune_outdated?: boolean
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          heartbeat_at?: string | null
+          cancel_requested_at?: string | null
+          encrypted_github_token?: string | null
+          last_error?: string | null
+          created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+        }
+      }
+      generation_events: {
+        Row: {
+          id: number
+          session_id: string
+          job_id: string | null
+          event: string
+          data: Json
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          session_id: string
+          job_id?: string | null
+          event: string
+          data?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          session_id?: string
+          job_id?: string | null
+          event?: string
+          data?: Json
+          created_at?: string
+        }
+      }
+      search_chunks: {
+        Row: {
+          id: string
+          repository_id: string
+          source_type: 'document' | 'component'
+          document_id: string | null
+          component_id: string | null
+          path: string
+          title: string
+          chunk_index: number
+          content: string
+          content_hash: string
+          start_line: number | null
+          end_line: number | null
+          model: string
+          embedding: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          repository_id: string
+          source_type: 'document' | 'component'
+          document_id?: string | null
+          component_id?: string | null
+          path: string
+          title: string
+          chunk_index?: number
+          content: string
+          content_hash: string
+          start_line?: number | null
+          end_line?: number | null
+          model: string
+          embedding: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          repository_id?: string
+          source_type?: 'document' | 'component'
+          document_id?: string | null
+          component_id?: string | null
+          path?: string
+          title?: string
+          chunk_index?: number
+          content?: string
+          content_hash?: string
+          start_line?: number | null
+          end_line?: number | null
+          model?: string
+          embedding?: string
+          created_at?: string
+        }
+      }
+      chat_conversations: {
+        Row: {
+          id: string
+          repository_id: string
+          user_id: string
+          title: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          repository_id: string
+          user_id: string
+          title: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          repository_id?: string
+          user_id?: string
+          title?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      chat_messages: {
+        Row: {
+          id: string
+          conversation_id: string
+          role: 'user' | 'assistant'
+          content: string
+          citations: Json
+          model: string | null
+          tokens_input: number | null
+          tokens_output: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          role: 'user' | 'assistant'
+          content: string
+          citations?: Json
+          model?: string | null
+          tokens_input?: number | null
+          tokens_output?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          role?: 'user' | 'assistant'
+          content?: string
+          citations?: Json
+          model?: string | null
+          tokens_input?: number | null
+          tokens_output?: number | null
+          created_at?: string
+        }
+      }
+      onboarding_paths: {
+        Row: {
+          id: string
+          repository_id: string
+          role: 'frontend' | 'backend' | 'data'
+          title: string
+          description: string
+          steps: Json
+          reading_minutes: number
+          session_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          repository_id: string
+          role: 'frontend' | 'backend' | 'data'
+          title: string
+          description: string
+          steps?: Json
+          reading_minutes?: number
+          session_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          repository_id?: string
+          role?: 'frontend' | 'backend' | 'data'
+          title?: string
+          description?: string
+          steps?: Json
+          reading_minutes?: number
+          session_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      onboarding_progress: {
+        Row: {
+          id: string
+          path_id: string
+          user_id: string
+          document_path: string
+          completed_at: string
+        }
+        Insert: {
+          id?: string
+          path_id: string
+          user_id: string
+          document_path: string
+          completed_at?: string
+        }
+        Update: {
+          id?: string
+          path_id?: string
+          user_id?: string
+          document_path?: string
+          completed_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_generation_job: {
+        Args: { p_worker_id: string, p_lease_seconds: number }
+        Returns: Database['public']['Tables']['generation_jobs']['Row'][]
+      }
+      cancel_generation_job: {
+        Args: { p_job_id: string }
+        Returns: string | null
+      }
+      match_search_chunks: {
+        Args: { p_repository_id: string, p_model: string, p_embedding: string, p_limit?: number }
+        Returns: {
+          id: string
+          source_type: 'document' | 'component'
+          document_id: string | null
+          component_id: string | null
+          path: string
+          title: string
+          content: string
+          start_line: number | null
+          end_line: number | null
+          similarity: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,20 @@
+-- Monthly generation budgets per user and per repository
+-- NULL means no cap; spend is summed from generation_metrics for the current calendar month (UTC)
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS monthly_token_budget BIGINT CHECK (monthly_token_budget >= 0),
+  ADD COLUMN IF NOT EXISTS monthly_cost_budget_usd DECIMAL(10,2) CHECK (monthly_cost_budget_usd >= 0);
+
+ALTER TABLE repositories
+  ADD COLUMN IF NOT EXISTS monthly_token_budget BIGINT CHECK (monthly_token_budget >= 0),
+  ADD COLUMN IF NOT EXISTS monthly_cost_budget_usd DECIMAL(10,2) CHECK (monthly_cost_budget_usd >= 0);
+
+-- Month-to-date spend is read on every generation start
+CREATE INDEX IF NOT EXISTS idx_generation_metrics_repository_created_at
+  ON generation_metrics(repository_id, created_at);
+
+-- Spend outlives its documents, so pruning or regenerating them cannot reset the month
+ALTER TABLE generation_metrics
+  DROP CONSTRAINT IF EXISTS generation_metrics_document_id_fkey,
+  ADD CONSTRAINT generation_metrics_document_id_fkey
+    FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE SET NULL;
@@ -0,0 +1,23 @@
+-- Cancel and resume generation sessions
+-- A cancel request is a timestamp the running generator checks between work items
+
+ALTER TABLE planning_sessions DROP CONSTRAINT IF EXISTS planning_sessions_status_check;
+ALTER TABLE planning_sessions ADD CONSTRAINT planning_sessions_status_check
+  CHECK (status IN ('planning', 'generating', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE planning_sessions
+  ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
+
+-- Progress, completion, cancel requests and resumes all update the session
+CREATE POLICY "Users can update planning sessions for their repositories" ON planning_sessions
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = planning_sessions.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+-- Resuming looks up the documents a session already saved
+CREATE INDEX IF NOT EXISTS idx_documents_session_id
+  ON documents(repository_id, (metadata->>'session_id'));
@@ -0,0 +1,137 @@
+-- Durable generation job queue
+-- Runs are queued as jobs, leased by workers that heartbeat while they run, and
+-- retried when a worker stops. Their log and progress events are stored per session
+-- so any number of subscribers can tail them and reconnect with Last-Event-ID.
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    repository_id UUID NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL,            -- planning session the job creates or continues
+    kind TEXT NOT NULL CHECK (kind IN ('generate', 'retry', 'resume')),
+    session_type TEXT NOT NULL DEFAULT 'full' CHECK (session_type IN ('full', 'incremental')),
+    prune_outdated BOOLEAN NOT NULL DEFAULT TRUE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,                      -- worker holding the lease
+    locked_until TIMESTAMPTZ,            -- lease expiry, pushed forward by heartbeats
+    heartbeat_at TIMESTAMPTZ,
+    cancel_requested_at TIMESTAMPTZ,
+    encrypted_github_token TEXT,         -- the requesting user's token (AES-256-GCM, token-encryption.ts), cleared when the job ends
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS generation_events (
+    id BIGSERIAL PRIMARY KEY,            -- SSE event id
+    session_id UUID NOT NULL,
+    job_id UUID REFERENCES generation_jobs(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,                 -- start, log, progress, complete or error
+    data JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_claim ON generation_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_session_id ON generation_jobs(session_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_repository_id ON generation_jobs(repository_id);
+CREATE INDEX IF NOT EXISTS idx_generation_events_job_id ON generation_events(job_id, id);
+
+-- One queued or running job per repository; a second request follows the first
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_repository
+  ON generation_jobs(repository_id) WHERE status IN ('queued', 'running');
+
+-- Leases the oldest runnable job: queued and due, or running with an expired lease
+-- (its worker stopped). Expired jobs that were cancelled or are out of attempts are
+-- settled first so they are not picked up again.
+CREATE OR REPLACE FUNCTION claim_generation_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF generation_jobs AS $$
+BEGIN
+  UPDATE generation_jobs
+  SET status = 'cancelled', finished_at = NOW(), encrypted_github_token = NULL
+  WHERE cancel_requested_at IS NOT NULL
+    AND (status = 'queued' OR (status = 'running' AND locked_until < NOW()));
+
+  UPDATE generation_jobs
+  SET status = 'failed', finished_at = NOW(), encrypted_github_token = NULL,
+      last_error = COALESCE(last_error, 'The worker running this job stopped responding')
+  WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE generation_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      started_at = COALESCE(started_at, NOW())
+  WHERE id = (
+    SELECT id FROM generation_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND locked_until < NOW())
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only workers (service role) claim jobs
+REVOKE EXECUTE ON FUNCTION claim_generation_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Cancel requests. There is no UPDATE policy: users only ever set the cancel request
+-- on their own jobs, never the repository, status, lease or token the worker relies on.
+-- A queued job is cancelled at once, a running one is asked to stop; NULL when the
+-- user has no such active job.
+CREATE OR REPLACE FUNCTION cancel_generation_job(p_job_id UUID)
+RETURNS TEXT AS $$
+BEGIN
+  UPDATE generation_jobs
+  SET status = 'cancelled', cancel_requested_at = NOW(), finished_at = NOW(), encrypted_github_token = NULL
+  WHERE id = p_job_id AND user_id = auth.uid() AND status = 'queued';
+  IF FOUND THEN
+    RETURN 'cancelled';
+  END IF;
+
+  UPDATE generation_jobs
+  SET cancel_requested_at = COALESCE(cancel_requested_at, NOW())
+  WHERE id = p_job_id AND user_id = auth.uid() AND status = 'running';
+  IF FOUND THEN
+    RETURN 'cancelling';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cancel_generation_job(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_generation_job(UUID) TO authenticated;
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their generation jobs" ON generation_jobs
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can queue generation jobs for their repositories" ON generation_jobs
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = generation_jobs.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+
+CREATE POLICY "Users can view events of their generation jobs" ON generation_events
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM generation_jobs
+            WHERE generation_jobs.session_id = generation_events.session_id
+            AND generation_jobs.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,88 @@
+-- Semantic search index
+-- Documents (split by section) and component source are embedded into search_chunks.
+-- Vectors are stored with the model that made them, so switching the embedding model
+-- needs no schema change; only vectors of the query's model are compared.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS search_chunks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    repository_id UUID NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL CHECK (source_type IN ('document', 'component')),
+    document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+    component_id TEXT,                   -- components.component_id
+    path TEXT NOT NULL,                  -- document path, or the component's file
+    title TEXT NOT NULL,                 -- document title and section, or component name
+    chunk_index INTEGER NOT NULL DEFAULT 0,
+    content TEXT NOT NULL,
+    content_hash TEXT NOT NULL,          -- unchanged chunks keep their vector on reindex
+    start_line INTEGER,
+    end_line INTEGER,
+    model TEXT NOT NULL,
+    embedding vector NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Repositories are searched one at a time, so an exact scan of the repository's
+-- chunks is used instead of an approximate index (which needs a fixed dimension)
+CREATE INDEX IF NOT EXISTS idx_search_chunks_repository_model ON search_chunks(repository_id, model);
+CREATE INDEX IF NOT EXISTS idx_search_chunks_document_id ON search_chunks(document_id);
+
+-- Nearest chunks by cosine distance. Runs with the caller's rights, so RLS limits
+-- it to the caller's repositories.
+CREATE OR REPLACE FUNCTION match_search_chunks(
+  p_repository_id UUID,
+  p_model TEXT,
+  p_embedding vector,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  source_type TEXT,
+  document_id UUID,
+  component_id TEXT,
+  path TEXT,
+  title TEXT,
+  content TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT c.id, c.source_type, c.document_id, c.component_id, c.path, c.title, c.content,
+         c.start_line, c.end_line, 1 - (c.embedding <=> p_embedding) AS similarity
+  FROM search_chunks c
+  WHERE c.repository_id = p_repository_id
+    AND c.model = p_model
+    AND vector_dims(c.embedding) = vector_dims(p_embedding)
+  ORDER BY c.embedding <=> p_embedding
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE search_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view search chunks of their repositories" ON search_chunks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = search_chunks.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert search chunks for their repositories" ON search_chunks
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = search_chunks.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete search chunks of their repositories" ON search_chunks
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = search_chunks.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,70 @@
+-- Codebase chat
+-- Questions about a repository are answered from its documents and components.
+-- Conversations belong to the user who asked; answers keep the sources they cite.
+
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    repository_id UUID NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,                 -- the first question, shortened
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    citations JSONB NOT NULL DEFAULT '[]', -- sources cited by an answer as [n]
+    model TEXT,
+    tokens_input INTEGER,
+    tokens_output INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_repository_user ON chat_conversations(repository_id, user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id, created_at);
+
+-- Chat answers count against the same monthly budgets as generation
+ALTER TABLE generation_metrics
+  ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'document' CHECK (purpose IN ('document', 'chat'));
+
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their conversations" ON chat_conversations
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can start conversations about their repositories" ON chat_conversations
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = chat_conversations.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their conversations" ON chat_conversations
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their conversations" ON chat_conversations
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view messages of their conversations" ON chat_messages
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM chat_conversations
+            WHERE chat_conversations.id = chat_messages.conversation_id
+            AND chat_conversations.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can add messages to their conversations" ON chat_messages
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM chat_conversations
+            WHERE chat_conversations.id = chat_messages.conversation_id
+            AND chat_conversations.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,83 @@
+-- Onboarding learning paths
+-- One ordered reading path per role, rebuilt from the documentation after each
+-- generation, and each user's completed steps. Paths keep their id across rebuilds
+-- and progress is stored per document path, so completed steps survive regeneration.
+
+CREATE TABLE IF NOT EXISTS onboarding_paths (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    repository_id UUID NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('frontend', 'backend', 'data')),
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    steps JSONB NOT NULL DEFAULT '[]',   -- ordered [{documentPath, title, description, type, readingMinutes}]
+    reading_minutes INTEGER NOT NULL DEFAULT 0,
+    session_id UUID,                     -- planning session whose work plan ordered the steps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (repository_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS onboarding_progress (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    path_id UUID NOT NULL REFERENCES onboarding_paths(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    document_path TEXT NOT NULL,
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (path_id, user_id, document_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_paths_repository_id ON onboarding_paths(repository_id);
+CREATE INDEX IF NOT EXISTS idx_onboarding_progress_user_id ON onboarding_progress(user_id, path_id);
+
+ALTER TABLE onboarding_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE onboarding_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view onboarding paths of their repositories" ON onboarding_paths
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = onboarding_paths.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can insert onboarding paths for their repositories" ON onboarding_paths
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = onboarding_paths.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update onboarding paths of their repositories" ON onboarding_paths
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = onboarding_paths.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete onboarding paths of their repositories" ON onboarding_paths
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM repositories
+            WHERE repositories.id = onboarding_paths.repository_id
+            AND repositories.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view their onboarding progress" ON onboarding_progress
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record progress on visible paths" ON onboarding_progress
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM onboarding_paths
+            WHERE onboarding_paths.id = onboarding_progress.path_id
+        )
+    );
+
+CREATE POLICY "Users can clear their onboarding progress" ON onboarding_progress
+    FOR DELETE USING (user_id = auth.uid());